@@ -126,3 +126,1422 @@ CREATE INDEX IF NOT EXISTS financial_transactions_date_idx ON public.financial_t
 CREATE INDEX IF NOT EXISTS financial_transactions_type_idx ON public.financial_transactions(type);
 CREATE INDEX IF NOT EXISTS financial_transactions_category_idx ON public.financial_transactions(category);
 CREATE INDEX IF NOT EXISTS financial_transactions_animal_id_idx ON public.financial_transactions(animal_id);
+
+-- Add sire/dam lineage columns to animals
+ALTER TABLE public.animals
+  ADD COLUMN IF NOT EXISTS sire_id UUID REFERENCES public.animals(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS dam_id UUID REFERENCES public.animals(id) ON DELETE SET NULL;
+
+-- Validate parent links: sire must be Male, dam must be Female, and both must be born before the offspring
+CREATE OR REPLACE FUNCTION public.validate_animal_parents()
+RETURNS TRIGGER AS $BODY$
+DECLARE
+    parent RECORD;
+BEGIN
+    IF NEW.sire_id IS NOT NULL THEN
+        IF NEW.sire_id = NEW.id THEN
+            RAISE EXCEPTION 'An animal cannot be its own sire';
+        END IF;
+        SELECT sex, birth_date INTO parent FROM public.animals WHERE id = NEW.sire_id;
+        IF parent.sex IS DISTINCT FROM 'Male' THEN
+            RAISE EXCEPTION 'Sire must be a male animal';
+        END IF;
+        IF parent.birth_date IS NOT NULL AND NEW.birth_date IS NOT NULL AND parent.birth_date >= NEW.birth_date THEN
+            RAISE EXCEPTION 'Sire must be born before the offspring';
+        END IF;
+    END IF;
+
+    IF NEW.dam_id IS NOT NULL THEN
+        IF NEW.dam_id = NEW.id THEN
+            RAISE EXCEPTION 'An animal cannot be its own dam';
+        END IF;
+        SELECT sex, birth_date INTO parent FROM public.animals WHERE id = NEW.dam_id;
+        IF parent.sex IS DISTINCT FROM 'Female' THEN
+            RAISE EXCEPTION 'Dam must be a female animal';
+        END IF;
+        IF parent.birth_date IS NOT NULL AND NEW.birth_date IS NOT NULL AND parent.birth_date >= NEW.birth_date THEN
+            RAISE EXCEPTION 'Dam must be born before the offspring';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$BODY$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_animals_parents ON public.animals;
+CREATE TRIGGER validate_animals_parents
+BEFORE INSERT OR UPDATE OF sire_id, dam_id, birth_date ON public.animals
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_animal_parents();
+
+CREATE INDEX IF NOT EXISTS animals_sire_id_idx ON public.animals(sire_id);
+CREATE INDEX IF NOT EXISTS animals_dam_id_idx ON public.animals(dam_id);
+
+-- Maximum acceptable inbreeding coefficient for planned matings (0.0625 = first cousins)
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS inbreeding_threshold NUMERIC(5,4) DEFAULT 0.0625;
+
+-- Create breeding_records table linking a mating to its pregnancy scan and lambing
+CREATE TABLE IF NOT EXISTS public.breeding_records (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    ewe_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+    ram_id UUID REFERENCES public.animals(id) ON DELETE SET NULL,
+    mating_event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    mating_date DATE NOT NULL,
+    expected_lambing_start DATE NOT NULL,
+    expected_lambing_end DATE NOT NULL,
+    scan_date DATE,
+    scan_result TEXT CHECK (scan_result IN ('Empty', 'Single', 'Twins', 'Triplets')),
+    status TEXT NOT NULL DEFAULT 'Mated' CHECK (status IN ('Mated', 'Pregnant', 'Empty', 'Lambed', 'Aborted')),
+    lambing_date DATE,
+    alert_id UUID REFERENCES public.alerts(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.breeding_records ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to breeding_records" ON public.breeding_records;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to breeding_records" ON public.breeding_records
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_breeding_records_updated_at ON public.breeding_records;
+CREATE TRIGGER set_breeding_records_updated_at
+BEFORE UPDATE ON public.breeding_records
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS breeding_records_ewe_id_idx ON public.breeding_records(ewe_id);
+CREATE INDEX IF NOT EXISTS breeding_records_ram_id_idx ON public.breeding_records(ram_id);
+CREATE INDEX IF NOT EXISTS breeding_records_status_idx ON public.breeding_records(status);
+
+-- Pregnancy is tracked by breeding_records and animals.status, not as a health status
+UPDATE public.animals SET health_status = 'Healthy' WHERE health_status = 'Pregnant';
+
+-- Record lambing outcomes
+ALTER TABLE public.animals
+  ADD COLUMN IF NOT EXISTS birth_weight_kg NUMERIC(5,2);
+
+ALTER TABLE public.breeding_records
+  ADD COLUMN IF NOT EXISTS birth_event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS lambs_born INTEGER,
+  ADD COLUMN IF NOT EXISTS lambs_alive INTEGER;
+
+-- Breed list configured in Settings, used to validate animal imports
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS active_breeds TEXT[],
+  ADD COLUMN IF NOT EXISTS inactive_breeds TEXT[];
+
+-- Create weighings table so that every weighing is kept, not just the latest weight
+CREATE TABLE IF NOT EXISTS public.weighings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    animal_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    weight_kg NUMERIC(6,2) NOT NULL CHECK (weight_kg > 0),
+    body_condition_score NUMERIC(2,1) CHECK (body_condition_score BETWEEN 1 AND 5),
+    weighed_by TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.weighings ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to weighings" ON public.weighings;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to weighings" ON public.weighings
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_weighings_updated_at ON public.weighings;
+CREATE TRIGGER set_weighings_updated_at
+BEFORE UPDATE ON public.weighings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS weighings_animal_id_date_idx ON public.weighings(animal_id, date);
+
+-- Keep the existing single weights as each animal's first weighing
+INSERT INTO public.weighings (animal_id, date, weight_kg, notes)
+SELECT a.id, a.updated_at::date, a.weight_kg, 'Carried over from animal record'
+FROM public.animals a
+WHERE a.weight_kg > 0
+  AND NOT EXISTS (SELECT 1 FROM public.weighings w WHERE w.animal_id = a.id);
+
+-- Growth target for average daily gain, in kg per day
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS target_adg_kg NUMERIC(5,3) DEFAULT 0.150;
+
+-- Age class cutoffs in months: lambs below the first, hoggets below the second, then ewes and rams
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS lamb_max_months INTEGER DEFAULT 12,
+  ADD COLUMN IF NOT EXISTS hogget_max_months INTEGER DEFAULT 24;
+
+-- Age is now derived from birth_date. Estimate birth dates from the old free-text age,
+-- which was calculated when the animal was registered, then drop the column.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'animals' AND column_name = 'age'
+  ) THEN
+    UPDATE public.animals
+    SET birth_date = (created_at - CASE
+        WHEN age ~* '(year|yr)' THEN make_interval(months => round(substring(age from '\d+(?:\.\d+)?')::numeric * 12)::int)
+        WHEN age ~* '(month|mo)' THEN make_interval(months => round(substring(age from '\d+(?:\.\d+)?')::numeric)::int)
+        WHEN age ~* '(week|wk)' THEN make_interval(days => round(substring(age from '\d+(?:\.\d+)?')::numeric * 7)::int)
+        ELSE make_interval(days => round(substring(age from '\d+(?:\.\d+)?')::numeric)::int)
+      END)::date
+    WHERE birth_date IS NULL
+      AND age ~* '\d+(\.\d+)?\s*(year|yr|month|mo|week|wk|day)';
+
+    ALTER TABLE public.animals DROP COLUMN age;
+  END IF;
+END $$;
+
+-- Create audit_log table recording every change to the main farm records
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    record_label TEXT,
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public read access to audit_log" ON public.audit_log;
+
+-- The log is written only by the audit trigger, so clients may read it but not change it
+CREATE POLICY "Allow public read access to audit_log" ON public.audit_log
+  FOR SELECT
+  USING (true);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_record_idx ON public.audit_log(table_name, record_id);
+
+-- Write an audit entry for a row change. changes holds {"field": {"old": ..., "new": ...}}
+-- for every field that changed; inserts have only new values and deletes only old ones.
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS TRIGGER AS $BODY$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    row_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+    diff JSONB := '{}'::jsonb;
+    label TEXT;
+    field TEXT;
+BEGIN
+    FOR field IN
+        SELECT key FROM jsonb_object_keys(old_row || new_row) AS key
+        WHERE key NOT IN ('id', 'created_at', 'updated_at', 'created_by')
+    LOOP
+        IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+            diff := diff || jsonb_build_object(field, jsonb_strip_nulls(jsonb_build_object(
+                'old', CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE old_row -> field END,
+                'new', CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE new_row -> field END
+            )));
+        END IF;
+    END LOOP;
+
+    -- Saving a record without changing anything is not worth an entry
+    IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+        RETURN NEW;
+    END IF;
+
+    label := CASE TG_TABLE_NAME
+        WHEN 'animals' THEN concat(row_data ->> 'name', ' (#', row_data ->> 'tag_number', ')')
+        WHEN 'health_records' THEN concat(row_data ->> 'record_type', ': ', row_data ->> 'description')
+        WHEN 'events' THEN concat(row_data ->> 'event_type', ': ', row_data ->> 'description')
+        WHEN 'financial_transactions' THEN concat(row_data ->> 'category', ': ', row_data ->> 'description')
+        WHEN 'alerts' THEN row_data ->> 'title'
+        ELSE NULL
+    END;
+
+    INSERT INTO public.audit_log (table_name, record_id, action, record_label, changes, changed_by)
+    VALUES (TG_TABLE_NAME, (row_data ->> 'id')::uuid, TG_OP, label, diff, auth.uid());
+
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$BODY$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attach the audit trigger to each audited table
+DO $$
+DECLARE
+    audited TEXT;
+BEGIN
+    FOREACH audited IN ARRAY ARRAY['animals', 'health_records', 'events', 'financial_transactions', 'alerts']
+    LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS write_%s_audit_log ON public.%I', audited, audited);
+        EXECUTE format(
+            'CREATE TRIGGER write_%s_audit_log AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+            'FOR EACH ROW EXECUTE FUNCTION public.write_audit_log()',
+            audited, audited
+        );
+    END LOOP;
+END $$;
+
+-- How shared farm expenses are allocated to animals in profitability analysis ('head_days' or 'head_count')
+ALTER TABLE public.farm_settings ADD COLUMN IF NOT EXISTS cost_allocation_driver TEXT DEFAULT 'head_days';
+
+-- Create budgets table with one amount per category per month
+CREATE TABLE IF NOT EXISTS public.budgets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    type TEXT NOT NULL DEFAULT 'Expense' CHECK (type IN ('Income', 'Expense')),
+    category TEXT NOT NULL,
+    month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+    amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (type, category, month)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to budgets" ON public.budgets;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to budgets" ON public.budgets
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_budgets_updated_at ON public.budgets;
+CREATE TRIGGER set_budgets_updated_at
+BEFORE UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS budgets_month_idx ON public.budgets(month);
+
+-- Share of a budget that can be used before a warning alert is raised, as a fraction (0.9 = 90%)
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS budget_alert_threshold NUMERIC(4,3) DEFAULT 0.900;
+
+-- Create recurring_transactions table for templates that post transactions on a schedule
+CREATE TABLE IF NOT EXISTS public.recurring_transactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    type TEXT NOT NULL CHECK (type IN ('Income', 'Expense')),
+    category TEXT NOT NULL,
+    description TEXT NOT NULL,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    related_to TEXT NOT NULL DEFAULT 'Farm',
+    animal_id UUID REFERENCES public.animals(id) ON DELETE SET NULL,
+    payment_method TEXT NOT NULL DEFAULT 'Cash',
+    reference TEXT,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'custom')),
+    interval_days INTEGER CHECK (interval_days > 0),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CHECK (frequency <> 'custom' OR interval_days IS NOT NULL),
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Scheduled amount changes: from effective_from onwards the series posts the new amount
+CREATE TABLE IF NOT EXISTS public.recurring_amount_changes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recurring_id UUID NOT NULL REFERENCES public.recurring_transactions(id) ON DELETE CASCADE,
+    effective_from DATE NOT NULL,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (recurring_id, effective_from)
+);
+
+-- One row per occurrence that has been posted, skipped or edited. Occurrences without a row
+-- follow the template. The unique key stops an occurrence from being posted twice.
+CREATE TABLE IF NOT EXISTS public.recurring_occurrences (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recurring_id UUID NOT NULL REFERENCES public.recurring_transactions(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'skipped', 'posted')),
+    date_override DATE,
+    amount_override NUMERIC(12,2) CHECK (amount_override > 0),
+    description_override TEXT,
+    transaction_id UUID REFERENCES public.financial_transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (recurring_id, occurrence_date)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_amount_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to recurring_transactions" ON public.recurring_transactions;
+DROP POLICY IF EXISTS "Allow public access to recurring_amount_changes" ON public.recurring_amount_changes;
+DROP POLICY IF EXISTS "Allow public access to recurring_occurrences" ON public.recurring_occurrences;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to recurring_transactions" ON public.recurring_transactions
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to recurring_amount_changes" ON public.recurring_amount_changes
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to recurring_occurrences" ON public.recurring_occurrences
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_recurring_transactions_updated_at ON public.recurring_transactions;
+CREATE TRIGGER set_recurring_transactions_updated_at
+BEFORE UPDATE ON public.recurring_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_recurring_occurrences_updated_at ON public.recurring_occurrences;
+CREATE TRIGGER set_recurring_occurrences_updated_at
+BEFORE UPDATE ON public.recurring_occurrences
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS recurring_amount_changes_recurring_id_idx ON public.recurring_amount_changes(recurring_id);
+CREATE INDEX IF NOT EXISTS recurring_occurrences_recurring_id_idx ON public.recurring_occurrences(recurring_id);
+
+-- Currency each transaction was made in, and the rate used to convert it to the farm's base
+-- currency (farm_settings.currency) as base units per one unit of the transaction currency.
+-- Transactions without a currency, including those recorded before currencies were tracked,
+-- are in the base currency.
+ALTER TABLE public.financial_transactions
+  ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency IN ('USD', 'EUR', 'GBP', 'KES', 'ZAR')),
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+-- Create exchange_rates table with one rate per currency per day, entered by hand or imported
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    currency TEXT NOT NULL CHECK (currency IN ('USD', 'EUR', 'GBP', 'KES', 'ZAR')),
+    base_currency TEXT NOT NULL CHECK (base_currency IN ('USD', 'EUR', 'GBP', 'KES', 'ZAR')),
+    rate_date DATE NOT NULL,
+    rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (currency, base_currency, rate_date),
+    CHECK (currency <> base_currency)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to exchange_rates" ON public.exchange_rates;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to exchange_rates" ON public.exchange_rates
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_exchange_rates_updated_at ON public.exchange_rates;
+CREATE TRIGGER set_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Sequences that number invoices and receipts. Numbers are never reused, even if a document is deleted.
+CREATE SEQUENCE IF NOT EXISTS public.invoice_number_seq;
+CREATE SEQUENCE IF NOT EXISTS public.receipt_number_seq;
+
+-- Create invoices table for sales invoices raised from income and purchase receipts kept for
+-- expenses. party_name is the customer on an invoice and the supplier on a receipt.
+CREATE TABLE IF NOT EXISTS public.invoices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    kind TEXT NOT NULL DEFAULT 'invoice' CHECK (kind IN ('invoice', 'receipt')),
+    invoice_number TEXT NOT NULL UNIQUE,
+    transaction_id UUID UNIQUE REFERENCES public.financial_transactions(id) ON DELETE SET NULL,
+    party_name TEXT NOT NULL,
+    party_details TEXT,
+    issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE,
+    currency TEXT CHECK (currency IN ('USD', 'EUR', 'GBP', 'KES', 'ZAR')),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CHECK (due_date IS NULL OR due_date >= issue_date)
+);
+
+-- Line items of an invoice or receipt. tax_rate is a percentage of the line's net amount.
+CREATE TABLE IF NOT EXISTS public.invoice_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    description TEXT NOT NULL,
+    animal_id UUID REFERENCES public.animals(id) ON DELETE SET NULL,
+    quantity NUMERIC(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_price NUMERIC(12,2) NOT NULL CHECK (unit_price >= 0),
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Payments received against an invoice, or made against a receipt
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    payment_date DATE NOT NULL,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    payment_method TEXT NOT NULL DEFAULT 'Cash',
+    reference TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Allow public access to invoice_items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Allow public access to invoice_payments" ON public.invoice_payments;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to invoices" ON public.invoices
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to invoice_items" ON public.invoice_items
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to invoice_payments" ON public.invoice_payments
+  USING (true)
+  WITH CHECK (true);
+
+-- Give new documents the next number in their series, e.g. INV-00042 or RCT-00007
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER AS $BODY$
+BEGIN
+    IF NEW.invoice_number IS NULL THEN
+        NEW.invoice_number := CASE NEW.kind
+            WHEN 'receipt' THEN 'RCT-' || lpad(nextval('public.receipt_number_seq')::text, 5, '0')
+            ELSE 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 5, '0')
+        END;
+    END IF;
+    RETURN NEW;
+END;
+$BODY$ LANGUAGE plpgsql;
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS assign_invoices_number ON public.invoices;
+CREATE TRIGGER assign_invoices_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_invoice_number();
+
+DROP TRIGGER IF EXISTS set_invoices_updated_at ON public.invoices;
+CREATE TRIGGER set_invoices_updated_at
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS invoice_items_invoice_id_idx ON public.invoice_items(invoice_id);
+CREATE INDEX IF NOT EXISTS invoice_payments_invoice_id_idx ON public.invoice_payments(invoice_id);
+
+-- Create animal_disposals table recording how and when each animal left the flock. Sales keep the
+-- buyer, price, weight and grade; deaths and culls keep the cause.
+CREATE TABLE IF NOT EXISTS public.animal_disposals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    animal_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+    disposal_type TEXT NOT NULL CHECK (disposal_type IN ('Sold', 'Dead', 'Culled')),
+    disposal_date DATE NOT NULL,
+    buyer TEXT,
+    price NUMERIC(12,2) CHECK (price >= 0),
+    weight_kg NUMERIC(6,2) CHECK (weight_kg > 0),
+    grade TEXT,
+    cause TEXT,
+    notes TEXT,
+    transaction_id UUID REFERENCES public.financial_transactions(id) ON DELETE SET NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CHECK (disposal_type <> 'Dead' OR cause IS NOT NULL)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.animal_disposals ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to animal_disposals" ON public.animal_disposals;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to animal_disposals" ON public.animal_disposals
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS animal_disposals_animal_id_idx ON public.animal_disposals(animal_id);
+CREATE INDEX IF NOT EXISTS animal_disposals_date_idx ON public.animal_disposals(disposal_date);
+
+-- Record an animal leaving the flock in one transaction: set its status, add the disposal record
+-- and its event, and for a sale add the income. If any step fails nothing is saved.
+-- Returns the id of the disposal record.
+CREATE OR REPLACE FUNCTION public.record_disposal(
+    p_animal_id UUID,
+    p_disposal_type TEXT,
+    p_disposal_date DATE,
+    p_buyer TEXT DEFAULT NULL,
+    p_price NUMERIC DEFAULT NULL,
+    p_currency TEXT DEFAULT NULL,
+    p_exchange_rate NUMERIC DEFAULT 1,
+    p_payment_method TEXT DEFAULT 'Cash',
+    p_weight_kg NUMERIC DEFAULT NULL,
+    p_grade TEXT DEFAULT NULL,
+    p_cause TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $BODY$
+DECLARE
+    animal public.animals%ROWTYPE;
+    label TEXT;
+    summary TEXT;
+    new_transaction_id UUID;
+    new_event_id UUID;
+    new_disposal_id UUID;
+BEGIN
+    -- Lock the animal so that two people cannot dispose of it at the same time
+    SELECT * INTO animal FROM public.animals WHERE id = p_animal_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Animal % does not exist', p_animal_id;
+    END IF;
+    IF animal.status IN ('Sold', 'Dead', 'Culled') THEN
+        RAISE EXCEPTION '% (#%) is already recorded as %', animal.name, animal.tag_number, animal.status;
+    END IF;
+
+    label := concat(animal.name, ' (#', animal.tag_number, ')');
+    summary := CASE p_disposal_type
+        WHEN 'Sold' THEN concat(label, ' sold', ' to ' || p_buyer)
+        WHEN 'Dead' THEN concat(label, ' died', ': ' || p_cause)
+        ELSE concat(label, ' culled', ': ' || p_cause)
+    END;
+
+    -- Sales, and culls sold for meat, bring in money
+    IF p_price > 0 THEN
+        INSERT INTO public.financial_transactions
+            (type, category, amount, date, description, related_to, animal_id, payment_method, currency, exchange_rate, created_by)
+        VALUES
+            ('Income', 'Sheep Sales', p_price, p_disposal_date, summary, 'Animal', p_animal_id, p_payment_method, p_currency, p_exchange_rate, auth.uid())
+        RETURNING id INTO new_transaction_id;
+    END IF;
+
+    INSERT INTO public.events (event_type, description, date, animal_id, performed_by, status, notes)
+    VALUES (
+        'Disposal',
+        summary,
+        p_disposal_date,
+        p_animal_id,
+        auth.uid(),
+        'Completed',
+        jsonb_build_object('title', summary, 'animals', jsonb_build_array(label))::text
+    )
+    RETURNING id INTO new_event_id;
+
+    IF p_weight_kg IS NOT NULL THEN
+        INSERT INTO public.weighings (animal_id, date, weight_kg, notes, created_by)
+        VALUES (p_animal_id, p_disposal_date, p_weight_kg, concat(p_disposal_type, ' weight'), auth.uid());
+    END IF;
+
+    -- Only move weight_kg forward: a back-dated disposal must not replace a newer weighing
+    UPDATE public.animals
+    SET status = p_disposal_type,
+        weight_kg = CASE
+            WHEN p_weight_kg IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM public.weighings w WHERE w.animal_id = p_animal_id AND w.date > p_disposal_date
+            ) THEN p_weight_kg
+            ELSE weight_kg
+        END
+    WHERE id = p_animal_id;
+
+    INSERT INTO public.animal_disposals
+        (animal_id, disposal_type, disposal_date, buyer, price, weight_kg, grade, cause, notes, transaction_id, event_id, created_by)
+    VALUES
+        (p_animal_id, p_disposal_type, p_disposal_date, p_buyer, p_price, p_weight_kg, p_grade, p_cause, p_notes, new_transaction_id, new_event_id, auth.uid())
+    RETURNING id INTO new_disposal_id;
+
+    RETURN new_disposal_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Animals that were already marked Sold, Dead or Culled keep the last update of their record
+-- as the disposal date; sales carry no cause
+INSERT INTO public.animal_disposals (animal_id, disposal_type, disposal_date, cause, notes)
+SELECT a.id, a.status, a.updated_at::date,
+    CASE
+        WHEN a.status = 'Sold' THEN NULL
+        WHEN a.status = 'Dead' AND a.notes LIKE 'Stillborn%' THEN 'Stillborn'
+        ELSE 'Unknown'
+    END,
+    'Carried over from animal record'
+FROM public.animals a
+WHERE a.status IN ('Sold', 'Dead', 'Culled')
+  AND NOT EXISTS (SELECT 1 FROM public.animal_disposals d WHERE d.animal_id = a.id);
+
+-- Whether a transaction has been checked against the bank or mobile-money statement
+ALTER TABLE public.financial_transactions
+  ADD COLUMN IF NOT EXISTS reconciled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+-- Create bank_statements table with one row per uploaded statement file
+CREATE TABLE IF NOT EXISTS public.bank_statements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    file_format TEXT NOT NULL CHECK (file_format IN ('csv', 'xlsx', 'ofx')),
+    account_name TEXT,
+    payment_method TEXT NOT NULL DEFAULT 'Bank Transfer',
+    currency TEXT CHECK (currency IN ('USD', 'EUR', 'GBP', 'KES', 'ZAR')),
+    start_date DATE,
+    end_date DATE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create bank_statement_lines table. amount is positive for money in and negative for money out.
+-- fingerprint identifies a line across overlapping statements of the same account so it is only
+-- imported once. It starts with the account name (or payment method when there is none).
+CREATE TABLE IF NOT EXISTS public.bank_statement_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    statement_id UUID NOT NULL REFERENCES public.bank_statements(id) ON DELETE CASCADE,
+    line_date DATE NOT NULL,
+    description TEXT NOT NULL,
+    reference TEXT,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount <> 0),
+    fingerprint TEXT NOT NULL UNIQUE,
+    transaction_id UUID REFERENCES public.financial_transactions(id) ON DELETE SET NULL,
+    ignored BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to bank_statements" ON public.bank_statements;
+DROP POLICY IF EXISTS "Allow public access to bank_statement_lines" ON public.bank_statement_lines;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to bank_statements" ON public.bank_statements
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to bank_statement_lines" ON public.bank_statement_lines
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_bank_statement_lines_updated_at ON public.bank_statement_lines;
+CREATE TRIGGER set_bank_statement_lines_updated_at
+BEFORE UPDATE ON public.bank_statement_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS bank_statement_lines_statement_id_idx ON public.bank_statement_lines(statement_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_line_date_idx ON public.bank_statement_lines(line_date);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_transaction_id_idx ON public.bank_statement_lines(transaction_id);
+
+-- Keep financial_transactions.reconciled in step with the statement lines matched to it, so
+-- matching or unmatching a line is a single write
+CREATE OR REPLACE FUNCTION public.sync_transaction_reconciled()
+RETURNS TRIGGER AS $BODY$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.transaction_id IS NOT NULL
+       AND (TG_OP = 'DELETE' OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id) THEN
+        UPDATE public.financial_transactions
+        SET reconciled = false, reconciled_at = NULL
+        WHERE id = OLD.transaction_id
+          AND NOT EXISTS (
+              SELECT 1 FROM public.bank_statement_lines l
+              WHERE l.transaction_id = OLD.transaction_id AND l.id <> OLD.id
+          );
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.transaction_id IS NOT NULL THEN
+        UPDATE public.financial_transactions
+        SET reconciled = true, reconciled_at = COALESCE(reconciled_at, now())
+        WHERE id = NEW.transaction_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_transaction_reconciled ON public.bank_statement_lines;
+CREATE TRIGGER sync_transaction_reconciled
+AFTER INSERT OR UPDATE OF transaction_id OR DELETE ON public.bank_statement_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_transaction_reconciled();
+
+-- Sales tax (VAT) on a transaction. amount stays the total paid or received; tax_amount is the
+-- part of it that is tax, in the transaction currency, and tax_rate the percentage it was charged at.
+ALTER TABLE public.financial_transactions
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(12,2) CHECK (tax_amount >= 0);
+
+-- Month the farm's financial year starts in (1 = January) and how often tax returns are filed
+ALTER TABLE public.farm_settings
+  ADD COLUMN IF NOT EXISTS financial_year_start_month INTEGER DEFAULT 1 CHECK (financial_year_start_month BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS tax_period TEXT DEFAULT 'quarter' CHECK (tax_period IN ('month', 'quarter'));
+
+-- Event fields that used to be packed into the notes text. assigned_to holds profile ids and
+-- transaction_id links the expense the event cost.
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'Upcoming' CHECK (status IN ('Upcoming', 'In Progress', 'Completed', 'Missed')),
+  ADD COLUMN IF NOT EXISTS start_time TIME,
+  ADD COLUMN IF NOT EXISTS end_time TIME CHECK (end_time IS NULL OR start_time IS NULL OR end_time >= start_time),
+  ADD COLUMN IF NOT EXISTS location TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES public.financial_transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS events_date_idx ON public.events(date);
+CREATE INDEX IF NOT EXISTS events_status_idx ON public.events(status);
+CREATE INDEX IF NOT EXISTS events_transaction_id_idx ON public.events(transaction_id);
+
+-- Move status and time out of notes. Notes are either JSON ({"title", "time", "status", "animals"})
+-- or text such as "status: Completed time: 08:00"; the JSON keeps its title and animals.
+DO $$
+DECLARE
+    event RECORD;
+    parsed JSONB;
+    old_status TEXT;
+    old_time TEXT;
+BEGIN
+    FOR event IN
+        SELECT id, notes FROM public.events WHERE notes LIKE '%status%' OR notes LIKE '%time%'
+    LOOP
+        parsed := NULL;
+        BEGIN
+            parsed := event.notes::jsonb;
+        EXCEPTION WHEN others THEN
+            parsed := NULL;
+        END;
+
+        IF jsonb_typeof(parsed) = 'object' THEN
+            old_status := parsed ->> 'status';
+            old_time := parsed ->> 'time';
+        ELSE
+            old_status := substring(event.notes from 'status:\s*(Upcoming|In Progress|In|Completed|Missed)');
+            old_time := substring(event.notes from 'time:\s*(\d{1,2}:\d{2})');
+        END IF;
+
+        UPDATE public.events
+        SET status = CASE
+                WHEN old_status IN ('Upcoming', 'Completed', 'Missed') THEN old_status
+                WHEN old_status IN ('In Progress', 'In') THEN 'In Progress'
+                ELSE status
+            END,
+            start_time = CASE WHEN old_time ~ '^\d{1,2}:\d{2}' THEN old_time::time ELSE start_time END,
+            notes = CASE
+                WHEN jsonb_typeof(parsed) = 'object' THEN (parsed - 'status' - 'time')::text
+                ELSE NULLIF(trim(regexp_replace(event.notes, '(status:\s*(In Progress|\S+)|time:\s*\S+)', '', 'g')), '')
+            END
+        WHERE id = event.id;
+    END LOOP;
+END $$;
+
+-- Events still open after their day are marked Missed. Called when the events list loads.
+CREATE OR REPLACE FUNCTION public.mark_missed_events()
+RETURNS INTEGER AS $BODY$
+DECLARE
+    missed INTEGER;
+BEGIN
+    UPDATE public.events
+    SET status = 'Missed'
+    WHERE status IN ('Upcoming', 'In Progress')
+      -- events.date is a TEXT column holding yyyy-MM-dd
+      AND date::date < CURRENT_DATE;
+
+    GET DIAGNOSTICS missed = ROW_COUNT;
+    RETURN missed;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create calendar_feeds table with each user's secret calendar subscription token. Calendar apps
+-- cannot sign in, so the calendar-feed edge function finds the user from the token in the URL.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE CHECK (length(token) >= 32),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow users to manage their own calendar feed" ON public.calendar_feeds;
+
+-- Tokens give read access to the farm schedule, so each user only sees their own. The edge
+-- function reads them with the service role key.
+CREATE POLICY "Allow users to manage their own calendar feed" ON public.calendar_feeds
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_calendar_feeds_updated_at ON public.calendar_feeds;
+CREATE TRIGGER set_calendar_feeds_updated_at
+BEFORE UPDATE ON public.calendar_feeds
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create animal_groups table for saved selections of animals, e.g. "Breeding ewes"
+CREATE TABLE IF NOT EXISTS public.animal_groups (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create animal_group_members table with one row per animal in a saved group
+CREATE TABLE IF NOT EXISTS public.animal_group_members (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID NOT NULL REFERENCES public.animal_groups(id) ON DELETE CASCADE,
+    animal_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (group_id, animal_id)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.animal_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.animal_group_members ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to animal_groups" ON public.animal_groups;
+DROP POLICY IF EXISTS "Allow public access to animal_group_members" ON public.animal_group_members;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to animal_groups" ON public.animal_groups
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to animal_group_members" ON public.animal_group_members
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop trigger if exists and create it
+DROP TRIGGER IF EXISTS set_animal_groups_updated_at ON public.animal_groups;
+CREATE TRIGGER set_animal_groups_updated_at
+BEFORE UPDATE ON public.animal_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS animal_group_members_animal_id_idx ON public.animal_group_members(animal_id);
+
+-- Group actions such as a mob drench are saved as one summary row, with group_size set and no
+-- animal, plus a per-animal row for each animal pointing at it through summary_id. exception
+-- records an animal that was absent or refused; the summary's other fields apply to the rest.
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS summary_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS group_size INTEGER CHECK (group_size > 0),
+  ADD COLUMN IF NOT EXISTS animal_group_id UUID REFERENCES public.animal_groups(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS exception TEXT CHECK (exception IN ('Absent', 'Refused'));
+
+ALTER TABLE public.health_records
+  ADD COLUMN IF NOT EXISTS summary_id UUID REFERENCES public.health_records(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS group_size INTEGER CHECK (group_size > 0),
+  ADD COLUMN IF NOT EXISTS animal_group_id UUID REFERENCES public.animal_groups(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS exception TEXT CHECK (exception IN ('Absent', 'Refused'));
+
+CREATE INDEX IF NOT EXISTS events_summary_id_idx ON public.events(summary_id);
+CREATE INDEX IF NOT EXISTS health_records_summary_id_idx ON public.health_records(summary_id);
+
+-- Save a group event: the summary and an entry per animal, together or not at all.
+-- p_entries is an array of {"animal_id", "exception", "notes"}. Animals with an exception are
+-- marked Missed.
+CREATE OR REPLACE FUNCTION public.record_group_event(p_event JSONB, p_entries JSONB)
+RETURNS UUID AS $BODY$
+DECLARE
+    new_summary_id UUID;
+BEGIN
+    IF jsonb_array_length(COALESCE(p_entries, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A group event needs at least one animal';
+    END IF;
+
+    INSERT INTO public.events
+        (event_type, description, date, performed_by, status, start_time, end_time, location,
+         assigned_to, transaction_id, notes, group_size, animal_group_id)
+    VALUES (
+        p_event ->> 'event_type',
+        p_event ->> 'description',
+        (p_event ->> 'date')::date,
+        auth.uid(),
+        COALESCE(p_event ->> 'status', 'Upcoming'),
+        (p_event ->> 'start_time')::time,
+        (p_event ->> 'end_time')::time,
+        p_event ->> 'location',
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_event -> 'assigned_to', '[]'::jsonb))::uuid),
+        (p_event ->> 'transaction_id')::uuid,
+        p_event ->> 'notes',
+        jsonb_array_length(p_entries),
+        (p_event ->> 'animal_group_id')::uuid
+    )
+    RETURNING id INTO new_summary_id;
+
+    INSERT INTO public.events
+        (event_type, description, date, animal_id, performed_by, status, start_time, end_time,
+         location, assigned_to, notes, summary_id, exception)
+    SELECT s.event_type, s.description, s.date, (e.entry ->> 'animal_id')::uuid, s.performed_by,
+        CASE WHEN e.entry ->> 'exception' IS NOT NULL THEN 'Missed' ELSE s.status END,
+        s.start_time, s.end_time, s.location, s.assigned_to, e.entry ->> 'notes', s.id, e.entry ->> 'exception'
+    FROM public.events s, jsonb_array_elements(p_entries) AS e(entry)
+    WHERE s.id = new_summary_id;
+
+    RETURN new_summary_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Save a group treatment the same way. Animals with an exception need follow-up.
+CREATE OR REPLACE FUNCTION public.record_group_health_record(p_record JSONB, p_entries JSONB)
+RETURNS UUID AS $BODY$
+DECLARE
+    new_summary_id UUID;
+BEGIN
+    IF jsonb_array_length(COALESCE(p_entries, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A group treatment needs at least one animal';
+    END IF;
+
+    INSERT INTO public.health_records
+        (record_type, date, description, administered_by, status, outcome, follow_up, notes,
+         group_size, animal_group_id)
+    VALUES (
+        p_record ->> 'record_type',
+        (p_record ->> 'date')::date,
+        p_record ->> 'description',
+        p_record ->> 'administered_by',
+        p_record ->> 'status',
+        p_record ->> 'outcome',
+        (p_record ->> 'follow_up')::date,
+        p_record ->> 'notes',
+        jsonb_array_length(p_entries),
+        (p_record ->> 'animal_group_id')::uuid
+    )
+    RETURNING id INTO new_summary_id;
+
+    INSERT INTO public.health_records
+        (animal_id, record_type, date, description, administered_by, status, outcome, follow_up,
+         notes, summary_id, exception)
+    SELECT (e.entry ->> 'animal_id')::uuid, s.record_type, s.date, s.description, s.administered_by,
+        CASE WHEN e.entry ->> 'exception' IS NOT NULL THEN 'Needs Follow-up' ELSE s.status END,
+        s.outcome, s.follow_up, e.entry ->> 'notes', s.id, e.entry ->> 'exception'
+    FROM public.health_records s, jsonb_array_elements(p_entries) AS e(entry)
+    WHERE s.id = new_summary_id;
+
+    RETURN new_summary_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep the per-animal entries of a group action in step with its summary when the summary is
+-- rescheduled or its status changes. Animals with an exception keep their own status.
+CREATE OR REPLACE FUNCTION public.sync_group_event_entries()
+RETURNS TRIGGER AS $BODY$
+BEGIN
+    UPDATE public.events
+    SET date = NEW.date,
+        start_time = NEW.start_time,
+        end_time = NEW.end_time,
+        location = NEW.location,
+        status = CASE WHEN exception IS NULL THEN NEW.status ELSE status END
+    WHERE summary_id = NEW.id;
+    RETURN NEW;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_group_health_record_entries()
+RETURNS TRIGGER AS $BODY$
+BEGIN
+    UPDATE public.health_records
+    SET date = NEW.date,
+        follow_up = NEW.follow_up,
+        status = CASE WHEN exception IS NULL THEN NEW.status ELSE status END
+    WHERE summary_id = NEW.id;
+    RETURN NEW;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_group_event_entries ON public.events;
+CREATE TRIGGER sync_group_event_entries
+AFTER UPDATE OF date, start_time, end_time, location, status ON public.events
+FOR EACH ROW
+WHEN (NEW.group_size IS NOT NULL)
+EXECUTE FUNCTION public.sync_group_event_entries();
+
+DROP TRIGGER IF EXISTS sync_group_health_record_entries ON public.health_records;
+CREATE TRIGGER sync_group_health_record_entries
+AFTER UPDATE OF date, follow_up, status ON public.health_records
+FOR EACH ROW
+WHEN (NEW.group_size IS NOT NULL)
+EXECUTE FUNCTION public.sync_group_health_record_entries();
+
+-- Create paddocks table for the farm's grazing areas
+CREATE TABLE IF NOT EXISTS public.paddocks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    area_ha NUMERIC(10,2) CHECK (area_ha > 0),
+    water_source TEXT,
+    -- Head of stock the paddock can carry
+    capacity INTEGER CHECK (capacity > 0),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create mobs table for the management groups animals run in, with the paddock each is in now
+CREATE TABLE IF NOT EXISTS public.mobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    paddock_id UUID REFERENCES public.paddocks(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create mob_movements table with each move of a mob between paddocks
+CREATE TABLE IF NOT EXISTS public.mob_movements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    mob_id UUID NOT NULL REFERENCES public.mobs(id) ON DELETE CASCADE,
+    from_paddock_id UUID REFERENCES public.paddocks(id) ON DELETE SET NULL,
+    to_paddock_id UUID REFERENCES public.paddocks(id) ON DELETE SET NULL,
+    moved_at DATE NOT NULL,
+    -- Animals in the mob on the day, as the mob changes over time
+    head_count INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    moved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.animals
+  ADD COLUMN IF NOT EXISTS mob_id UUID REFERENCES public.mobs(id) ON DELETE SET NULL;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE public.paddocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mob_movements ENABLE ROW LEVEL SECURITY;
+
+-- First drop any existing policy to avoid errors
+DROP POLICY IF EXISTS "Allow public access to paddocks" ON public.paddocks;
+DROP POLICY IF EXISTS "Allow public access to mobs" ON public.mobs;
+DROP POLICY IF EXISTS "Allow public access to mob_movements" ON public.mob_movements;
+
+-- Allow public access for now (you might want to restrict this in production)
+CREATE POLICY "Allow public access to paddocks" ON public.paddocks
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to mobs" ON public.mobs
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to mob_movements" ON public.mob_movements
+  USING (true)
+  WITH CHECK (true);
+
+-- Drop triggers if exist and create them
+DROP TRIGGER IF EXISTS set_paddocks_updated_at ON public.paddocks;
+CREATE TRIGGER set_paddocks_updated_at
+BEFORE UPDATE ON public.paddocks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_mobs_updated_at ON public.mobs;
+CREATE TRIGGER set_mobs_updated_at
+BEFORE UPDATE ON public.mobs
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS animals_mob_id_idx ON public.animals(mob_id);
+CREATE INDEX IF NOT EXISTS mobs_paddock_id_idx ON public.mobs(paddock_id);
+CREATE INDEX IF NOT EXISTS mob_movements_mob_id_idx ON public.mob_movements(mob_id, moved_at);
+CREATE INDEX IF NOT EXISTS mob_movements_to_paddock_id_idx ON public.mob_movements(to_paddock_id);
+
+-- Move a mob to another paddock, or off the paddocks with p_paddock_id NULL. The movement and
+-- the mob's current paddock are saved together. Returns the movement id.
+CREATE OR REPLACE FUNCTION public.move_mob(
+    p_mob_id UUID,
+    p_paddock_id UUID,
+    p_moved_at DATE DEFAULT CURRENT_DATE,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $BODY$
+DECLARE
+    current_paddock_id UUID;
+    movement_id UUID;
+BEGIN
+    SELECT paddock_id INTO current_paddock_id
+    FROM public.mobs
+    WHERE id = p_mob_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Mob % not found', p_mob_id;
+    END IF;
+
+    IF current_paddock_id IS NOT DISTINCT FROM p_paddock_id THEN
+        RAISE EXCEPTION 'The mob is already in that paddock';
+    END IF;
+
+    INSERT INTO public.mob_movements (mob_id, from_paddock_id, to_paddock_id, moved_at, head_count, notes, moved_by)
+    VALUES (
+        p_mob_id,
+        current_paddock_id,
+        p_paddock_id,
+        COALESCE(p_moved_at, CURRENT_DATE),
+        (SELECT count(*) FROM public.animals WHERE mob_id = p_mob_id AND status NOT IN ('Sold', 'Dead', 'Culled')),
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO movement_id;
+
+    UPDATE public.mobs SET paddock_id = p_paddock_id WHERE id = p_mob_id;
+
+    RETURN movement_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Record a mating. The breeding record and its lambing reminder alert are saved together,
+-- so a failed save leaves neither behind.
+CREATE OR REPLACE FUNCTION public.record_mating(
+    p_ewe_id UUID,
+    p_ram_id UUID,
+    p_mating_date DATE,
+    p_lambing_start DATE,
+    p_lambing_end DATE,
+    p_alert_due_date DATE,
+    p_event_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $BODY$
+DECLARE
+    ewe public.animals%ROWTYPE;
+    new_record_id UUID;
+    new_alert_id UUID;
+BEGIN
+    SELECT * INTO ewe FROM public.animals WHERE id = p_ewe_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Animal % does not exist', p_ewe_id;
+    END IF;
+
+    INSERT INTO public.breeding_records
+        (ewe_id, ram_id, mating_event_id, mating_date, expected_lambing_start, expected_lambing_end, status, notes, created_by)
+    VALUES
+        (p_ewe_id, p_ram_id, p_event_id, p_mating_date, p_lambing_start, p_lambing_end, 'Mated', p_notes, auth.uid())
+    RETURNING id INTO new_record_id;
+
+    INSERT INTO public.alerts (title, description, type, priority, status, due_date, animal_id, created_by)
+    VALUES (
+        concat('Lambing due: ', ewe.name, ' (#', ewe.tag_number, ')'),
+        concat('Expected to lamb between ', p_lambing_start, ' and ', p_lambing_end, ' (mated ', p_mating_date, ').'),
+        'Reminder',
+        'High',
+        'Pending',
+        p_alert_due_date,
+        p_ewe_id,
+        auth.uid()
+    )
+    RETURNING id INTO new_alert_id;
+
+    UPDATE public.breeding_records SET alert_id = new_alert_id WHERE id = new_record_id;
+
+    RETURN new_record_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Record a pregnancy scan on the breeding record, the ewe and the lambing reminder in one go.
+-- An empty scan closes the cycle and cancels the reminder.
+CREATE OR REPLACE FUNCTION public.record_scan(p_record_id UUID, p_result TEXT, p_scan_date DATE)
+RETURNS UUID AS $BODY$
+DECLARE
+    breeding public.breeding_records%ROWTYPE;
+    pregnant BOOLEAN := p_result <> 'Empty';
+BEGIN
+    SELECT * INTO breeding FROM public.breeding_records WHERE id = p_record_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Breeding record % does not exist', p_record_id;
+    END IF;
+
+    UPDATE public.breeding_records
+    SET scan_result = p_result,
+        scan_date = p_scan_date,
+        status = CASE WHEN pregnant THEN 'Pregnant' ELSE 'Empty' END
+    WHERE id = p_record_id;
+
+    UPDATE public.animals
+    SET status = CASE WHEN pregnant THEN 'Pregnant' ELSE 'Active' END
+    WHERE id = breeding.ewe_id;
+
+    IF breeding.alert_id IS NOT NULL THEN
+        IF pregnant THEN
+            UPDATE public.alerts
+            SET description = concat('Scanned ', lower(p_result), ' on ', p_scan_date, '. Expected to lamb between ',
+                breeding.expected_lambing_start, ' and ', breeding.expected_lambing_end, '.')
+            WHERE id = breeding.alert_id;
+        ELSE
+            UPDATE public.alerts SET status = 'Cancelled' WHERE id = breeding.alert_id;
+        END IF;
+    END IF;
+
+    RETURN p_record_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Record a lambing: register the lambs, write or complete the Birth event, record stillborn
+-- lambs as deaths and close the dam's breeding record, all or nothing. Returns the Birth event id.
+-- p_lambs is an array of {tag_number, name, sex, birth_weight_kg, alive}.
+CREATE OR REPLACE FUNCTION public.record_lambing(
+    p_dam_id UUID,
+    p_lambing_date DATE,
+    p_breed TEXT,
+    p_lambs JSONB,
+    p_sire_id UUID DEFAULT NULL,
+    p_event_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $BODY$
+DECLARE
+    dam public.animals%ROWTYPE;
+    dam_label TEXT;
+    summary TEXT;
+    lamb_count INTEGER := jsonb_array_length(COALESCE(p_lambs, '[]'::jsonb));
+    alive_count INTEGER;
+    new_event_id UUID := p_event_id;
+    open_record public.breeding_records%ROWTYPE;
+BEGIN
+    IF lamb_count = 0 THEN
+        RAISE EXCEPTION 'A lambing needs at least one lamb';
+    END IF;
+
+    SELECT * INTO dam FROM public.animals WHERE id = p_dam_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Animal % does not exist', p_dam_id;
+    END IF;
+
+    dam_label := concat(dam.name, ' (#', dam.tag_number, ')');
+    SELECT count(*) INTO alive_count
+    FROM jsonb_array_elements(p_lambs) AS l(lamb)
+    WHERE (l.lamb ->> 'alive')::boolean;
+    summary := concat(dam_label, ' lambed ', lamb_count, ' (', alive_count, ' alive)');
+
+    INSERT INTO public.animals
+        (name, tag_number, breed, sex, status, birth_date, weight_kg, birth_weight_kg, health_status, sire_id, dam_id, notes)
+    SELECT
+        COALESCE(NULLIF(trim(l.lamb ->> 'name'), ''), l.lamb ->> 'tag_number'),
+        l.lamb ->> 'tag_number',
+        p_breed,
+        l.lamb ->> 'sex',
+        CASE WHEN (l.lamb ->> 'alive')::boolean THEN 'Active' ELSE 'Dead' END,
+        p_lambing_date,
+        (l.lamb ->> 'birth_weight_kg')::numeric,
+        (l.lamb ->> 'birth_weight_kg')::numeric,
+        'Healthy',
+        p_sire_id,
+        p_dam_id,
+        concat(CASE WHEN (l.lamb ->> 'alive')::boolean THEN 'Born to #' ELSE 'Stillborn to #' END, dam.tag_number)
+    FROM jsonb_array_elements(p_lambs) AS l(lamb);
+
+    IF new_event_id IS NULL THEN
+        INSERT INTO public.events (event_type, description, date, animal_id, performed_by, status, notes)
+        VALUES (
+            'Birth',
+            summary,
+            p_lambing_date,
+            p_dam_id,
+            auth.uid(),
+            'Completed',
+            jsonb_build_object('title', summary, 'animals', jsonb_build_array(dam_label) || (
+                SELECT jsonb_agg(concat(COALESCE(NULLIF(trim(l.lamb ->> 'name'), ''), l.lamb ->> 'tag_number'), ' (#', l.lamb ->> 'tag_number', ')'))
+                FROM jsonb_array_elements(p_lambs) AS l(lamb)
+            ))::text
+        )
+        RETURNING id INTO new_event_id;
+    ELSE
+        -- Registering the lambs completes the planned birth event
+        UPDATE public.events SET status = 'Completed' WHERE id = new_event_id;
+    END IF;
+
+    -- Stillborn lambs are recorded as deaths so that the mortality report counts them
+    INSERT INTO public.animal_disposals (animal_id, disposal_type, disposal_date, cause, event_id, created_by)
+    SELECT a.id, 'Dead', p_lambing_date, 'Stillborn', new_event_id, auth.uid()
+    FROM public.animals a
+    JOIN jsonb_array_elements(p_lambs) AS l(lamb) ON a.tag_number = l.lamb ->> 'tag_number'
+    WHERE a.dam_id = p_dam_id
+      AND NOT (l.lamb ->> 'alive')::boolean;
+
+    SELECT * INTO open_record
+    FROM public.breeding_records
+    WHERE ewe_id = p_dam_id AND status IN ('Mated', 'Pregnant')
+    ORDER BY mating_date DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+        UPDATE public.breeding_records
+        SET status = 'Lambed',
+            lambing_date = p_lambing_date,
+            lambs_born = lamb_count,
+            lambs_alive = alive_count,
+            birth_event_id = new_event_id
+        WHERE id = open_record.id;
+
+        IF open_record.alert_id IS NOT NULL THEN
+            UPDATE public.alerts SET status = 'Completed' WHERE id = open_record.alert_id;
+        END IF;
+    END IF;
+
+    UPDATE public.animals SET status = 'Active' WHERE id = p_dam_id AND status = 'Pregnant';
+
+    RETURN new_event_id;
+END;
+$BODY$ LANGUAGE plpgsql SET search_path = public;
+
+-- Latest weighing of each of the given animals (the most recently entered one when an animal
+-- was weighed twice on that day)
+CREATE OR REPLACE FUNCTION public.latest_weighings(p_animal_ids UUID[])
+RETURNS SETOF public.weighings AS $BODY$
+BEGIN
+    RETURN QUERY
+    SELECT DISTINCT ON (w.animal_id) w.*
+    FROM public.weighings w
+    WHERE w.animal_id = ANY(p_animal_ids)
+    ORDER BY w.animal_id, w.date DESC, w.created_at DESC;
+END;
+$BODY$ LANGUAGE plpgsql STABLE SET search_path = public;
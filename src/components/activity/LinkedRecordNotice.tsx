@@ -0,0 +1,32 @@
+import { Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface LinkedRecordNoticeProps {
+  /** What is being shown, e.g. "animal" or "health record" */
+  recordName: string;
+  found: boolean;
+  onShowAll: () => void;
+}
+
+export function LinkedRecordNotice({ recordName, found, onShowAll }: LinkedRecordNoticeProps) {
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-lg border border-farm-green/30 bg-farm-green/5 px-4 py-2 text-sm">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-farm-green" />
+        <span>
+          {found
+            ? `Showing the linked ${recordName} only.`
+            : `The linked ${recordName} could not be found. It may have been deleted.`}
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="border-farm-green text-farm-green hover:bg-farm-green/10"
+        onClick={onShowAll}
+      >
+        Show all
+      </Button>
+    </div>
+  );
+}
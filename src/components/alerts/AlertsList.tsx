@@ -22,6 +22,8 @@ import {
 import { Search, Plus, AlertCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { toast } from "sonner";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+import { LinkedRecordNotice } from "@/components/activity/LinkedRecordNotice";
 
 interface AlertsListProps {
   onAddAlert: () => void;
@@ -35,6 +37,7 @@ export function AlertsList({ onAddAlert }: AlertsListProps) {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const { linkedId, clearLinkedRecord } = useLinkedRecord();
   
   useEffect(() => {
     fetchAlerts();
@@ -127,6 +130,8 @@ export function AlertsList({ onAddAlert }: AlertsListProps) {
   
   // Apply filters
   const filteredAlerts = alerts.filter(alert => {
+    if (linkedId) return alert.id === linkedId;
+
     // Search filter
     const matchesSearch = 
       alert.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -284,6 +289,14 @@ export function AlertsList({ onAddAlert }: AlertsListProps) {
             </div>
           </div>
           
+          {linkedId && !loading && (
+            <LinkedRecordNotice
+              recordName="alert"
+              found={filteredAlerts.length > 0}
+              onShowAll={clearLinkedRecord}
+            />
+          )}
+          
           {loading ? (
             <div className="text-center py-12">
               <p className="text-muted-foreground">Loading alerts...</p>
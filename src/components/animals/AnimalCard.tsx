@@ -4,7 +4,7 @@ import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Edit, Heart, Activity, Trash2, AlertTriangle } from "lucide-react";
+import { Edit, Heart, Activity, Trash2, AlertTriangle, GitBranch, TrendingUp, LogOut } from "lucide-react";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -17,8 +17,13 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { AnimalForm, AnimalFormData } from "./AnimalForm";
-import { supabase } from "@/integrations/supabase/client";
+import { PedigreeDialog } from "./PedigreeDialog";
+import { GrowthDialog } from "./GrowthDialog";
+import { DisposalDialog } from "./DisposalDialog";
 import { useToast } from "@/hooks/use-toast";
+import { deleteRecord, QUEUED_MESSAGE } from "@/lib/offline";
+import { AgeClassCutoffs, ageClass, formatAge } from "@/lib/age";
+import { DISPOSAL_TYPES, DisposalType } from "@/lib/disposals";
 
 interface AnimalCardProps {
   animal: {
@@ -26,14 +31,15 @@ interface AnimalCardProps {
     name: string;
     tagNumber: string;
     breed: string;
-    age: string;
+    birthDate: string | null;
     sex: 'Male' | 'Female';
     status: 'Active' | 'Sold' | 'Dead' | 'Culled' | 'Pregnant';
     weightKg: number;
-    healthStatus: 'Healthy' | 'Sick' | 'Recovering' | 'Pregnant';
+    healthStatus: 'Healthy' | 'Sick' | 'Recovering';
     imageUrl?: string;
   };
   className?: string;
+  ageClassCutoffs?: AgeClassCutoffs;
 }
 
 const getStatusColor = (status: string): string => {
@@ -59,8 +65,11 @@ const getStatusColor = (status: string): string => {
   }
 };
 
-export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProps & { onAnimalChange?: () => void }) {
+export function AnimalCard({ animal, className, ageClassCutoffs, onAnimalChange }: AnimalCardProps & { onAnimalChange?: () => void }) {
   const [showEditForm, setShowEditForm] = useState(false);
+  const [showPedigree, setShowPedigree] = useState(false);
+  const [showGrowth, setShowGrowth] = useState(false);
+  const [showDisposal, setShowDisposal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { toast } = useToast();
   
@@ -71,16 +80,11 @@ export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProp
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('animals')
-        .delete()
-        .eq('id', animal.id);
-      
-      if (error) throw error;
+      const { queued } = await deleteRecord('animals', animal.id);
       
       toast({
         title: "Animal Deleted",
-        description: `${animal.name} has been removed successfully`
+        description: queued ? QUEUED_MESSAGE : `${animal.name} has been removed successfully`
       });
       
       if (onAnimalChange) {
@@ -104,7 +108,7 @@ export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProp
     name: animal.name,
     tag_number: animal.tagNumber,
     breed: animal.breed,
-    age: animal.age,
+    birth_date: animal.birthDate ?? undefined,
     sex: animal.sex,
     status: animal.status,
     weight_kg: animal.weightKg,
@@ -149,7 +153,10 @@ export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProp
           </div>
           <div className="bg-farm-neutral-light/50 p-3 rounded-lg transition-all hover:bg-farm-neutral-light group-hover:shadow-sm">
             <p className="text-xs uppercase tracking-wider text-muted-foreground font-medium">Age</p>
-            <p className="font-semibold text-farm-neutral-dark">{animal.age}</p>
+            <p className="font-semibold text-farm-neutral-dark">{formatAge(animal.birthDate)}</p>
+            {animal.birthDate && (
+              <p className="text-xs text-muted-foreground">{ageClass({ birth_date: animal.birthDate, sex: animal.sex }, ageClassCutoffs)}</p>
+            )}
           </div>
           <div className="bg-farm-neutral-light/50 p-3 rounded-lg transition-all hover:bg-farm-neutral-light group-hover:shadow-sm">
             <p className="text-xs uppercase tracking-wider text-muted-foreground font-medium">Weight</p>
@@ -176,6 +183,14 @@ export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProp
           <Activity className="h-4 w-4 mr-1" />
           Events
         </Button>
+        <Button variant="ghost" size="sm" className="flex-1 hover:bg-farm-green/10 hover:text-farm-green transition-colors" onClick={() => setShowGrowth(true)}>
+          <TrendingUp className="h-4 w-4 mr-1" />
+          Growth
+        </Button>
+        <Button variant="ghost" size="sm" className="flex-1 hover:bg-farm-green/10 hover:text-farm-green transition-colors" onClick={() => setShowPedigree(true)}>
+          <GitBranch className="h-4 w-4 mr-1" />
+          Pedigree
+        </Button>
         <Button variant="ghost" size="sm" className="flex-1 hover:bg-farm-green/10 hover:text-farm-green transition-colors" onClick={handleEdit}>
           <Edit className="h-4 w-4 mr-1" />
           Edit
@@ -195,6 +210,40 @@ export function AnimalCard({ animal, className, onAnimalChange }: AnimalCardProp
         }}
       />
       
+      <PedigreeDialog
+        open={showPedigree}
+        onOpenChange={setShowPedigree}
+        animalId={animal.id}
+        animalName={animal.name}
+      />
+      
+      <GrowthDialog
+        open={showGrowth}
+        onOpenChange={setShowGrowth}
+        animalId={animal.id}
+        animalName={animal.name}
+        onSuccess={onAnimalChange}
+      />
+      
+      <DisposalDialog
+        open={showDisposal}
+        onOpenChange={setShowDisposal}
+        animal={animal}
+        onSuccess={onAnimalChange}
+      />
+      
+      {!DISPOSAL_TYPES.includes(animal.status as DisposalType) && (
+        <Button 
+          variant="outline" 
+          size="icon" 
+          className="absolute top-3 left-14 bg-white/80 hover:bg-white z-10"
+          title="Record Sale or Loss"
+          onClick={() => setShowDisposal(true)}
+        >
+          <LogOut className="h-4 w-4 text-farm-green" />
+        </Button>
+      )}
+      
       {/* Delete Confirmation Dialog */}
       <AlertDialog>
         <AlertDialogTrigger asChild>
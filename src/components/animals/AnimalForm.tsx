@@ -15,6 +15,7 @@ import {
   FormControl,
   FormField,
   FormItem,
+  FormDescription,
   FormLabel,
   FormMessage 
 } from "@/components/ui/form";
@@ -25,14 +26,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { createRecord, QUEUED_MESSAGE, updateRecord } from "@/lib/offline";
+import { DISPOSAL_TYPES, DisposalType } from "@/lib/disposals";
 
 export type AnimalFormData = {
   name: string;
   tag_number: string;
   breed: string;
-  age: string;
   sex: string;
   status: string;
   weight_kg: number;
@@ -59,13 +60,14 @@ export function AnimalForm({
 }: AnimalFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Sales, deaths and culls are recorded through the disposal workflow, not by editing the status
+  const isDisposed = DISPOSAL_TYPES.includes(initialData?.status as DisposalType);
   
   const form = useForm<AnimalFormData>({
     defaultValues: initialData || {
       name: "",
       tag_number: "",
       breed: "",
-      age: "",
       sex: "Female",
       status: "Active",
       weight_kg: 0,
@@ -77,29 +79,23 @@ export function AnimalForm({
   async function onSubmit(data: AnimalFormData) {
     setIsSubmitting(true);
     
+    // An empty date input means the birth date is not known
+    const record = { ...data, birth_date: data.birth_date || null };
+    
     try {
       if (mode === 'create') {
-        const { error } = await supabase
-          .from('animals')
-          .insert(data);
-        
-        if (error) throw error;
+        const { queued } = await createRecord('animals', record);
         
         toast({
           title: "Success",
-          description: "Animal added successfully",
+          description: queued ? QUEUED_MESSAGE : "Animal added successfully",
         });
       } else if (mode === 'edit' && initialData) {
-        const { error } = await supabase
-          .from('animals')
-          .update(data)
-          .eq('id', initialData.id);
-        
-        if (error) throw error;
+        const { queued } = await updateRecord('animals', initialData.id, record);
         
         toast({
           title: "Success",
-          description: "Animal updated successfully",
+          description: queued ? QUEUED_MESSAGE : "Animal updated successfully",
         });
       }
       
@@ -173,12 +169,12 @@ export function AnimalForm({
               
               <FormField
                 control={form.control}
-                name="age"
+                name="birth_date"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Age</FormLabel>
+                    <FormLabel>Birth Date</FormLabel>
                     <FormControl>
-                      <Input placeholder="Age (e.g., 2 years)" {...field} />
+                      <Input type="date" {...field} value={field.value || ''} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -221,6 +217,7 @@ export function AnimalForm({
                     <Select 
                       onValueChange={field.onChange} 
                       defaultValue={field.value}
+                      disabled={isDisposed}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -229,12 +226,17 @@ export function AnimalForm({
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="Active">Active</SelectItem>
-                        <SelectItem value="Sold">Sold</SelectItem>
-                        <SelectItem value="Dead">Dead</SelectItem>
-                        <SelectItem value="Culled">Culled</SelectItem>
                         <SelectItem value="Pregnant">Pregnant</SelectItem>
+                        {isDisposed && (
+                          <SelectItem value={initialData.status}>{initialData.status}</SelectItem>
+                        )}
                       </SelectContent>
                     </Select>
+                    <FormDescription>
+                      {isDisposed
+                        ? "Set when the animal left the flock."
+                        : "Use Record Sale or Loss to mark an animal sold, dead or culled."}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -280,7 +282,6 @@ export function AnimalForm({
                         <SelectItem value="Healthy">Healthy</SelectItem>
                         <SelectItem value="Sick">Sick</SelectItem>
                         <SelectItem value="Recovering">Recovering</SelectItem>
-                        <SelectItem value="Pregnant">Pregnant</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
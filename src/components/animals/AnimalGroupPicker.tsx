@@ -0,0 +1,318 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { AGE_CLASSES, AgeClass, ageClassCutoffs } from "@/lib/age";
+import {
+  AnimalGroup,
+  deleteAnimalGroup,
+  fetchAnimalGroups,
+  filterAnimals,
+  GROUP_EXCEPTIONS,
+  GroupAnimal,
+  GroupEntry,
+  GroupException,
+  GroupFilter,
+  saveAnimalGroup,
+} from "@/lib/groups";
+
+interface AnimalGroupPickerProps {
+  animals: GroupAnimal[];
+  value: GroupEntry[];
+  onChange: (entries: GroupEntry[]) => void;
+  /** The saved group the selection was loaded from */
+  group: AnimalGroup | null;
+  onGroupChange: (group: AnimalGroup | null) => void;
+  /** Outcome shown for animals without an exception, e.g. "Treated" */
+  includedLabel?: string;
+}
+
+const INCLUDED = "included";
+
+export function AnimalGroupPicker({
+  animals,
+  value,
+  onChange,
+  group: selectedGroup,
+  onGroupChange,
+  includedLabel = "Treated",
+}: AnimalGroupPickerProps) {
+  const { toast } = useToast();
+  const { settings } = useFarmSettings();
+  const [groups, setGroups] = useState<AnimalGroup[]>([]);
+  const [groupName, setGroupName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [filter, setFilter] = useState<GroupFilter>({});
+
+  useEffect(() => {
+    fetchGroups();
+  }, []);
+
+  async function fetchGroups() {
+    try {
+      setGroups(await fetchAnimalGroups());
+    } catch (error) {
+      // Saved groups need a connection; picking animals and filters still work
+      console.error('Error fetching animal groups:', error);
+    }
+  }
+
+  const animalsById = new Map(animals.map(animal => [animal.id, animal]));
+  const selectedIds = new Set(value.map(entry => entry.animalId));
+  const activeAnimals = filterAnimals(animals, {}, ageClassCutoffs(settings));
+  const matching = filterAnimals(animals, filter, ageClassCutoffs(settings));
+  const breeds = Array.from(new Set(activeAnimals.map(animal => animal.breed))).sort();
+  const exceptionCount = value.filter(entry => entry.exception).length;
+
+  const addAnimals = (ids: string[]) =>
+    onChange([...value, ...ids.filter(id => !selectedIds.has(id)).map(id => ({ animalId: id, exception: null }))]);
+
+  const setException = (animalId: string, exception: GroupException | null) =>
+    onChange(value.map(entry => entry.animalId === animalId ? { ...entry, exception } : entry));
+
+  const removeAnimal = (animalId: string) =>
+    onChange(value.filter(entry => entry.animalId !== animalId));
+
+  const loadGroup = (id: string) => {
+    const group = groups.find(g => g.id === id);
+    if (!group) return;
+    // Members sold or removed since the group was saved are left out
+    onChange(group.animalIds
+      .filter(animalId => activeAnimals.some(animal => animal.id === animalId))
+      .map(animalId => ({ animalId, exception: null })));
+    onGroupChange(group);
+  };
+
+  const clearSelection = () => {
+    onChange([]);
+    onGroupChange(null);
+  };
+
+  const handleSaveGroup = async () => {
+    setIsSaving(true);
+    try {
+      const group = await saveAnimalGroup(groupName.trim(), value.map(entry => entry.animalId));
+      setGroups(prev => [...prev, group].sort((a, b) => a.name.localeCompare(b.name)));
+      onGroupChange(group);
+      setGroupName("");
+      toast({ title: "Group Saved", description: `"${group.name}" can now be picked for future records.` });
+    } catch (error) {
+      console.error('Error saving animal group:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save the group",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteGroup = async () => {
+    if (!selectedGroup) return;
+    try {
+      await deleteAnimalGroup(selectedGroup.id);
+      setGroups(prev => prev.filter(group => group.id !== selectedGroup.id));
+      onGroupChange(null);
+    } catch (error) {
+      console.error('Error deleting animal group:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete the group",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Tabs defaultValue="animals">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="animals">Animals</TabsTrigger>
+          <TabsTrigger value="group">Saved Group</TabsTrigger>
+          <TabsTrigger value="filter">Filter</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="animals">
+          <Select value="" onValueChange={(id) => addAnimals([id])}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add an animal" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeAnimals
+                .filter(animal => !selectedIds.has(animal.id))
+                .map(animal => (
+                  <SelectItem key={animal.id} value={animal.id}>
+                    {animal.name} (#{animal.tag_number})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </TabsContent>
+
+        <TabsContent value="group" className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={selectedGroup?.id ?? ""} onValueChange={loadGroup}>
+              <SelectTrigger>
+                <SelectValue placeholder={groups.length > 0 ? "Load a saved group" : "No saved groups yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {groups.map(group => (
+                  <SelectItem key={group.id} value={group.id}>
+                    {group.name} ({group.animalIds.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedGroup && (
+              <Button type="button" variant="outline" size="icon" title="Delete saved group" onClick={handleDeleteGroup}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name for the current selection, e.g. Breeding ewes"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveGroup}
+              disabled={isSaving || value.length === 0 || !groupName.trim()}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              {isSaving ? "Saving..." : "Save Group"}
+            </Button>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="filter" className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <Select
+              value={filter.breed ?? "all"}
+              onValueChange={(breed) => setFilter(prev => ({ ...prev, breed: breed === "all" ? undefined : breed }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Breed" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All breeds</SelectItem>
+                {breeds.map(breed => (
+                  <SelectItem key={breed} value={breed}>{breed}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter.sex ?? "all"}
+              onValueChange={(sex) => setFilter(prev => ({ ...prev, sex: sex === "all" ? undefined : sex }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Sex" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Both sexes</SelectItem>
+                <SelectItem value="Female">Female</SelectItem>
+                <SelectItem value="Male">Male</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter.ageClass ?? "all"}
+              onValueChange={(value) => setFilter(prev => ({ ...prev, ageClass: value === "all" ? undefined : value as AgeClass }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Age class" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All ages</SelectItem>
+                {AGE_CLASSES.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={matching.length === 0}
+            onClick={() => addAnimals(matching.map(animal => animal.id))}
+          >
+            Add {matching.length} matching active {matching.length === 1 ? "animal" : "animals"}
+          </Button>
+        </TabsContent>
+      </Tabs>
+
+      <div className="border rounded-md">
+        <div className="flex items-center justify-between px-3 py-2 border-b text-sm">
+          <span>
+            {value.length} selected
+            {exceptionCount > 0 && (
+              <Badge variant="outline" className="ml-2 bg-amber-100 text-amber-800 border-amber-200">
+                {exceptionCount} {exceptionCount === 1 ? "exception" : "exceptions"}
+              </Badge>
+            )}
+          </span>
+          {value.length > 0 && (
+            <Button type="button" variant="ghost" size="sm" onClick={clearSelection}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <div className="max-h-60 overflow-y-auto divide-y">
+          {value.length === 0 && (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No animals selected</p>
+          )}
+          {value.map(entry => {
+            const animal = animalsById.get(entry.animalId);
+            return (
+              <div key={entry.animalId} className="flex items-center gap-2 px-3 py-1.5">
+                <span className="flex-1 text-sm truncate">
+                  {animal ? `${animal.name} (#${animal.tag_number})` : "Unknown animal"}
+                </span>
+                <Label className="sr-only" htmlFor={`outcome-${entry.animalId}`}>Outcome</Label>
+                <Select
+                  value={entry.exception ?? INCLUDED}
+                  onValueChange={(outcome) => setException(entry.animalId, outcome === INCLUDED ? null : outcome as GroupException)}
+                >
+                  <SelectTrigger id={`outcome-${entry.animalId}`} className="h-8 w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={INCLUDED}>{includedLabel}</SelectItem>
+                    {GROUP_EXCEPTIONS.map(exception => (
+                      <SelectItem key={exception} value={exception}>{exception}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Remove"
+                  onClick={() => removeAnimal(entry.animalId)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
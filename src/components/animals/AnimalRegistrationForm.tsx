@@ -6,7 +6,6 @@ import { format } from "date-fns";
 import { Calendar as CalendarIcon } from "lucide-react";
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -35,19 +34,9 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-
-const breeds = [
-  "Merino",
-  "Suffolk",
-  "Dorper",
-  "Corriedale",
-  "Romney",
-  "Blackhead Persian",
-  "Dorset",
-  "Hampshire",
-  "Texel",
-  "Border Leicester",
-];
+import { findByTag, validateParent, type ParentRole, type PedigreeAnimal } from "@/lib/pedigree";
+import { createRecord, fetchCached, QUEUED_MESSAGE } from "@/lib/offline";
+import { DEFAULT_ACTIVE_BREEDS, useFarmSettings } from "@/hooks/use-farm-settings";
 
 const formSchema = z.object({
   name: z.string().min(2, {
@@ -73,6 +62,8 @@ const formSchema = z.object({
 });
 
 export default function AnimalRegistrationForm() {
+  const { settings } = useFarmSettings();
+  const breeds = settings?.active_breeds ?? DEFAULT_ACTIVE_BREEDS;
   const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -97,6 +88,10 @@ export default function AnimalRegistrationForm() {
     setIsSubmitting(true);
     
     try {
+      const birthDate = format(values.dob, "yyyy-MM-dd");
+      const parents = await resolveParents(values, birthDate);
+      if (!parents) return;
+      
       // Map the form values to match the Supabase database schema
       const animalData = {
         name: values.name,
@@ -104,23 +99,19 @@ export default function AnimalRegistrationForm() {
         breed: values.breed,
         sex: values.sex,
         status: "Active", // Default status for new animals
-        age: calculateAge(values.dob),
-        birth_date: format(values.dob, "yyyy-MM-dd"),
+        birth_date: birthDate,
         weight_kg: values.weightAtBirth,
         health_status: "Healthy", // Default health status for new animals
+        sire_id: parents.sire?.id ?? null,
+        dam_id: parents.dam?.id ?? null,
         notes: formatNotes(values)
       };
       
-      // Insert the data into Supabase
-      const { data, error } = await supabase
-        .from('animals')
-        .insert(animalData)
-        .select();
-      
-      if (error) throw error;
+      // Insert the data into Supabase, or queue it on this device when offline
+      const { queued } = await createRecord('animals', animalData);
       
       toast.success("Animal registered successfully", {
-        description: `${values.name} has been added to the flock.`,
+        description: queued ? QUEUED_MESSAGE : `${values.name} has been added to the flock.`,
       });
       
       // Navigate back to the animals list
@@ -135,22 +126,37 @@ export default function AnimalRegistrationForm() {
     }
   }
   
-  // Helper function to calculate age from DOB
-  function calculateAge(dob: Date): string {
-    const today = new Date();
-    let years = today.getFullYear() - dob.getFullYear();
-    const months = today.getMonth() - dob.getMonth();
+  // Look up the sire and dam by tag number and check they can parent this animal.
+  // Returns null (with field errors set) when either link is invalid.
+  async function resolveParents(values: z.infer<typeof formSchema>, birthDate: string) {
+    const allLinks: Array<{ role: ParentRole; field: "fatherId" | "motherId"; tag: string }> = [
+      { role: "sire", field: "fatherId", tag: values.fatherId?.trim() || "" },
+      { role: "dam", field: "motherId", tag: values.motherId?.trim() || "" },
+    ];
+    const links = allLinks.filter(link => link.tag);
     
-    if (months < 0 || (months === 0 && today.getDate() < dob.getDate())) {
-      years--;
-    }
+    const parents: { sire?: PedigreeAnimal; dam?: PedigreeAnimal } = {};
+    if (links.length === 0) return parents;
+    
+    // Read from the device cache so that parents can be checked without a connection
+    const data = await fetchCached('animals');
     
-    if (years === 0) {
-      const monthDiff = (today.getMonth() + 12 - dob.getMonth()) % 12;
-      return `${monthDiff} ${monthDiff === 1 ? 'month' : 'months'}`;
+    let valid = true;
+    for (const link of links) {
+      const parent = findByTag(data ?? [], link.tag);
+      const message = parent
+        ? validateParent(parent, link.role, birthDate)
+        : `No registered animal with tag number ${link.tag}.`;
+      
+      if (message) {
+        form.setError(link.field, { type: "validate", message });
+        valid = false;
+      } else {
+        parents[link.role] = parent;
+      }
     }
     
-    return `${years} ${years === 1 ? 'year' : 'years'}`;
+    return valid ? parents : null;
   }
   
   // Helper function to format additional notes
@@ -160,8 +166,6 @@ export default function AnimalRegistrationForm() {
     // Add additional data to notes
     const additionalInfo = [
       values.stateAtBirth && `State at birth: ${values.stateAtBirth}`,
-      values.fatherId && `Father ID: ${values.fatherId}`,
-      values.motherId && `Mother ID: ${values.motherId}`,
       values.color && `Color/Markings: ${values.color}`,
       values.origin && `Origin: ${values.origin === 'birth' ? 'Born on farm' : values.origin === 'purchase' ? 'Purchased' : 'Imported'}`
     ].filter(Boolean).join('\n');
@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, CURRENCY_CODES, CurrencyCode, currencySymbol, formatMoney, lookupExchangeRate } from "@/lib/currency";
+import { PAYMENT_METHODS } from "@/lib/finance";
+import { CULL_REASONS, DEATH_CAUSES, DISPOSAL_TYPES, DisposalType, disposalTypeLabels, recordDisposal } from "@/lib/disposals";
+
+interface DisposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  animal: { id: string; name: string; tagNumber: string; weightKg?: number | null };
+  onSuccess?: () => void;
+}
+
+export function DisposalDialog({ open, onOpenChange, animal, onSuccess }: DisposalDialogProps) {
+  const { toast } = useToast();
+  const { settings } = useFarmSettings();
+  const base = baseCurrency(settings);
+  const [type, setType] = useState<DisposalType>("Sold");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [buyer, setBuyer] = useState("");
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState<CurrencyCode | "">("");
+  const [exchangeRate, setExchangeRate] = useState("1");
+  const [paymentMethod, setPaymentMethod] = useState<string>("Cash");
+  const [weight, setWeight] = useState("");
+  const [grade, setGrade] = useState("");
+  const [cause, setCause] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType("Sold");
+      setDate(format(new Date(), "yyyy-MM-dd"));
+      setBuyer("");
+      setPrice("");
+      setCurrency("");
+      // Left blank so a sale saved without weighing does not record the last weight again
+      setWeight("");
+      setGrade("");
+      setCause("");
+      setNotes("");
+    }
+  }, [open, animal]);
+
+  // Fill in the stored rate for a sale in another currency
+  useEffect(() => {
+    if (!currency || currency === base) {
+      setExchangeRate("1");
+      return;
+    }
+    lookupExchangeRate(currency, base, date)
+      .then(rate => setExchangeRate(rate ? String(rate) : ""))
+      .catch(error => console.error('Error looking up exchange rate:', error));
+  }, [currency, base, date]);
+
+  const isSale = type !== "Dead";
+  const saleCurrency = currency || base;
+  const causes = type === "Dead" ? DEATH_CAUSES : CULL_REASONS;
+
+  const handleSubmit = async () => {
+    const priceValue = price ? parseFloat(price) : null;
+    const weightValue = weight ? parseFloat(weight) : null;
+    const rateValue = parseFloat(exchangeRate);
+
+    const problem =
+      !date ? "Enter the date." :
+      type === "Sold" && !buyer.trim() ? "Enter the buyer." :
+      type === "Sold" && !(priceValue > 0) ? "Enter the sale price." :
+      priceValue !== null && (isNaN(priceValue) || priceValue < 0) ? "The price must be a positive number." :
+      priceValue > 0 && saleCurrency !== base && !(rateValue > 0) ? `Enter the exchange rate to ${base}.` :
+      weightValue !== null && !(weightValue > 0) ? "The weight must be greater than zero." :
+      type !== "Sold" && !cause ? `Choose the ${type === "Dead" ? "cause of death" : "reason for culling"}.` :
+      null;
+    if (problem) {
+      toast({ title: `Cannot record ${disposalTypeLabels[type].toLowerCase()}`, description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await recordDisposal({
+        animalId: animal.id,
+        type,
+        date,
+        buyer: isSale ? buyer.trim() || null : null,
+        price: isSale ? priceValue : null,
+        currency: isSale && priceValue ? currency || null : null,
+        exchangeRate: isSale && priceValue && saleCurrency !== base ? rateValue : 1,
+        paymentMethod,
+        weightKg: isSale ? weightValue : null,
+        grade: isSale ? grade.trim() || null : null,
+        cause: cause || null,
+        notes: notes.trim() || null,
+      });
+
+      toast({
+        title: `${disposalTypeLabels[type]} recorded`,
+        description: priceValue > 0
+          ? `${animal.name} (#${animal.tagNumber}) marked ${type}. ${formatMoney(priceValue, saleCurrency)} added to income.`
+          : `${animal.name} (#${animal.tagNumber}) marked ${type}.`,
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error recording disposal:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to record the disposal. Nothing was changed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Sale or Loss</DialogTitle>
+          <DialogDescription>
+            {animal.name} (#{animal.tagNumber}) leaves the flock. The matching event{isSale ? " and any income" : ""} are recorded with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs value={type} onValueChange={(value) => { setType(value as DisposalType); setCause(""); }}>
+            <TabsList className="grid grid-cols-3">
+              {DISPOSAL_TYPES.map(option => (
+                <TabsTrigger key={option} value={option}>{option}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="disposalDate">{type === "Dead" ? "Date of Death" : "Date"}</Label>
+              <Input id="disposalDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            {type !== "Sold" && (
+              <div className="space-y-2">
+                <Label htmlFor="disposalCause">{type === "Dead" ? "Cause" : "Reason"}</Label>
+                <Select value={cause} onValueChange={setCause}>
+                  <SelectTrigger id="disposalCause">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {causes.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {isSale && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="disposalBuyer">Buyer{type === "Culled" && " (Optional)"}</Label>
+                <Input id="disposalBuyer" value={buyer} onChange={(e) => setBuyer(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disposalPrice">Price ({currencySymbol(saleCurrency)}){type === "Culled" && " (Optional)"}</Label>
+                <Input
+                  id="disposalPrice"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disposalCurrency">Currency</Label>
+                <Select value={currency || base} onValueChange={(value) => setCurrency(value === base ? "" : value as CurrencyCode)}>
+                  <SelectTrigger id="disposalCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_CODES.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disposalPaymentMethod">Payment Method</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger id="disposalPaymentMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{method}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {saleCurrency !== base && (
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="disposalRate">{base} per 1 {saleCurrency}</Label>
+                  <Input
+                    id="disposalRate"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="disposalWeight">Sale Weight (kg, Optional)</Label>
+                <Input
+                  id="disposalWeight"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  placeholder={animal.weightKg ? `Last weighed ${animal.weightKg} kg` : undefined}
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disposalGrade">Grade (Optional)</Label>
+                <Input
+                  id="disposalGrade"
+                  placeholder="e.g. Prime, Grade 2"
+                  value={grade}
+                  onChange={(e) => setGrade(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="disposalNotes">Notes (Optional)</Label>
+            <Textarea
+              id="disposalNotes"
+              className="min-h-[60px]"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className={type === "Sold" ? "bg-farm-green hover:bg-farm-green/90" : "bg-red-500 hover:bg-red-600"}
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Saving..." : `Record ${disposalTypeLabels[type]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
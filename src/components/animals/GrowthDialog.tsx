@@ -0,0 +1,229 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import {
+  BODY_CONDITION_SCORES,
+  DEFAULT_TARGET_ADG_KG,
+  fetchWeighings,
+  formatAdg,
+  gainPeriods,
+  recordWeighings,
+  Weighing,
+} from "@/lib/weighings";
+
+interface GrowthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  animalId: string;
+  animalName: string;
+  onSuccess?: () => void;
+}
+
+export function GrowthDialog({ open, onOpenChange, animalId, animalName, onSuccess }: GrowthDialogProps) {
+  const [weighings, setWeighings] = useState<Weighing[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [weight, setWeight] = useState("");
+  const [score, setScore] = useState("");
+  const [weighedBy, setWeighedBy] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { settings } = useFarmSettings();
+
+  const targetAdg = settings?.target_adg_kg ?? DEFAULT_TARGET_ADG_KG;
+
+  useEffect(() => {
+    if (open) {
+      loadWeighings();
+    }
+  }, [open, animalId]);
+
+  async function loadWeighings() {
+    try {
+      setLoading(true);
+      setWeighings(await fetchWeighings(animalId));
+    } catch (error) {
+      console.error('Error fetching weighings:', error);
+      toast.error("Database Error", {
+        description: "Failed to load weight history. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleAdd = async () => {
+    const weightKg = parseFloat(weight);
+    if (isNaN(weightKg) || weightKg <= 0) {
+      toast.error("Invalid weight", { description: "Enter a weight greater than zero." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await recordWeighings(
+        [{ animalId, weightKg, bodyConditionScore: score ? parseFloat(score) : null }],
+        date,
+        weighedBy.trim() || null
+      );
+      setWeight("");
+      setScore("");
+      await loadWeighings();
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Error saving weighing:', error);
+      toast.error("Database Error", {
+        description: "Failed to save weighing. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const periods = gainPeriods(weighings);
+  const gainByWeighing = new Map(periods.map(period => [period.to.id, period.adg]));
+  const overallAdg = periods.length
+    ? (Number(periods[periods.length - 1].to.weight_kg) - Number(periods[0].from.weight_kg)) /
+      periods.reduce((sum, period) => sum + period.days, 0)
+    : null;
+  const chartData = weighings.map(weighing => ({ date: weighing.date, weight: Number(weighing.weight_kg) }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Growth: {animalName}</DialogTitle>
+          <DialogDescription>
+            Target average daily gain: {formatAdg(targetAdg)}
+            {overallAdg !== null && ` · Lifetime ADG: ${formatAdg(overallAdg)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-farm-green"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {chartData.length > 1 ? (
+              <div className="h-[250px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="date" />
+                    <YAxis unit=" kg" domain={['auto', 'auto']} />
+                    <Tooltip formatter={(value) => [`${value} kg`, "Weight"]} />
+                    <Line type="monotone" dataKey="weight" stroke="#2E7D32" strokeWidth={2} dot />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-4">
+                At least two weighings are needed to chart growth
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="weighDate">Date</Label>
+                <Input id="weighDate" type="date" value={date} max={format(new Date(), "yyyy-MM-dd")} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="weighWeight">Weight (kg)</Label>
+                <Input id="weighWeight" type="number" step="0.1" min="0" value={weight} onChange={(e) => setWeight(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>BCS</Label>
+                <Select value={score} onValueChange={setScore}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="—" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BODY_CONDITION_SCORES.map(value => (
+                      <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="weighedBy">Weighed By</Label>
+                <Input id="weighedBy" value={weighedBy} onChange={(e) => setWeighedBy(e.target.value)} />
+              </div>
+              <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleAdd} disabled={!weight || isSaving}>
+                {isSaving ? "Saving..." : "Add Weighing"}
+              </Button>
+            </div>
+
+            <div className="border rounded-md max-h-[250px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">BCS</TableHead>
+                    <TableHead>Weighed By</TableHead>
+                    <TableHead className="text-right">ADG</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {weighings.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No weighings recorded
+                      </TableCell>
+                    </TableRow>
+                  ) : [...weighings].reverse().map(weighing => {
+                    const adg = gainByWeighing.get(weighing.id);
+                    return (
+                      <TableRow key={weighing.id}>
+                        <TableCell>{weighing.date}</TableCell>
+                        <TableCell className="text-right">{weighing.weight_kg} kg</TableCell>
+                        <TableCell className="text-right">{weighing.body_condition_score ?? "—"}</TableCell>
+                        <TableCell>{weighing.weighed_by ?? ""}</TableCell>
+                        <TableCell className="text-right">
+                          {adg === undefined ? "—" : (
+                            <Badge
+                              variant="outline"
+                              className={adg < targetAdg
+                                ? "bg-red-100 text-red-800 border-red-200"
+                                : "bg-green-100 text-green-800 border-green-200"}
+                            >
+                              {formatAdg(adg)}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
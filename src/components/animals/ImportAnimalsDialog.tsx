@@ -0,0 +1,289 @@
+import { useState, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { DEFAULT_ACTIVE_BREEDS, useFarmSettings } from "@/hooks/use-farm-settings";
+import {
+  ColumnMapping,
+  fetchExistingTags,
+  guessMapping,
+  IMPORT_FIELDS,
+  importAnimals,
+  ParsedFile,
+  parseImportFile,
+  validateRows,
+} from "@/lib/animal-import";
+
+interface ImportAnimalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+type Step = "upload" | "map" | "preview";
+
+export function ImportAnimalsDialog({ open, onOpenChange, onSuccess }: ImportAnimalsDialogProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [existingTags, setExistingTags] = useState<Set<string>>(new Set());
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { settings } = useFarmSettings();
+
+  const breeds = settings?.active_breeds ?? DEFAULT_ACTIVE_BREEDS;
+
+  const rows = useMemo(
+    () => file ? validateRows(file, mapping, { breeds, existingTags }) : [],
+    [file, mapping, breeds, existingTags]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const visibleRows = errorsOnly ? rows.filter(row => row.errors.length > 0) : rows;
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setFileName("");
+    setMapping({});
+    setErrorsOnly(false);
+    setProgress(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (progress !== null) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setIsReading(true);
+    try {
+      const parsed = await parseImportFile(selected);
+      if (parsed.rows.length === 0) {
+        toast.error("Empty file", { description: "No data rows were found below the header row." });
+        return;
+      }
+      setFile(parsed);
+      setFileName(selected.name);
+      setMapping(guessMapping(parsed.headers));
+      setStep("map");
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error("Could not read file", { description: "Upload a .csv or .xlsx file with a header row." });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      setExistingTags(await fetchExistingTags());
+      setStep("preview");
+    } catch (error) {
+      console.error('Error fetching tag numbers:', error);
+      toast.error("Database Error", { description: "Failed to check existing tag numbers. Please try again." });
+    }
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    try {
+      const result = await importAnimals(validRows, (done, total) => setProgress(Math.round(done / total * 100)));
+
+      if (result.failedRows.length > 0) {
+        toast.error("Some rows were not imported", {
+          description: `${result.inserted} animals imported. Rows ${result.failedRows.slice(0, 10).join(', ')}${result.failedRows.length > 10 ? '…' : ''} failed.`
+        });
+      } else {
+        toast.success("Import complete", {
+          description: `${result.inserted} animals have been added to the flock.`
+        });
+      }
+
+      if (onSuccess) {
+        onSuccess();
+      }
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing animals:', error);
+      toast.error("Import failed", { description: "An error occurred while importing. Please try again." });
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Import Animals</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel file with one animal per row and a header row"}
+            {step === "map" && `Match the columns of ${fileName} to animal fields`}
+            {step === "preview" && `${validRows.length} of ${rows.length} rows are ready to import`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col items-center text-center border border-dashed p-8 rounded-lg">
+            <Upload className="h-12 w-12 text-farm-green mb-3" />
+            <Label htmlFor="importFile" className="mb-3">
+              Columns: tag number, name, breed, sex (required); birth date or age, status, health status, weight, notes
+            </Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".csv,.xlsx"
+              className="max-w-xs"
+              disabled={isReading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && file && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-2">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label>
+                  {field.label}{field.required && <span className="text-red-500"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.key] === undefined ? "none" : String(mapping[field.key])}
+                  onValueChange={(value) => setMapping(prev => ({
+                    ...prev,
+                    [field.key]: value === "none" ? undefined : Number(value)
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not imported</SelectItem>
+                    {file.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                  {validRows.length} valid
+                </Badge>
+                <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                  {rows.length - validRows.length} with errors
+                </Badge>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="errorsOnly" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+                <Label htmlFor="errorsOnly">Show errors only</Label>
+              </div>
+            </div>
+
+            {progress !== null && <Progress value={progress} />}
+
+            <div className="border rounded-md max-h-[400px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Breed</TableHead>
+                    <TableHead>Sex</TableHead>
+                    <TableHead>Birth Date</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell className="font-mono">{row.animal.tag_number}</TableCell>
+                      <TableCell>{row.animal.name}</TableCell>
+                      <TableCell>{row.animal.breed}</TableCell>
+                      <TableCell>{row.animal.sex}</TableCell>
+                      <TableCell>{row.animal.birth_date ?? ""}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-700">OK</span>
+                        ) : (
+                          <ul className="text-xs text-red-700 list-disc pl-4">
+                            {row.errors.map((error, index) => <li key={index}>{error}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "preview" ? "map" : "upload")}
+              disabled={progress !== null}
+            >
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button
+              className="bg-farm-green hover:bg-farm-green/90"
+              onClick={handlePreview}
+              disabled={missingRequired.length > 0}
+              title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')}` : undefined}
+            >
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              className="bg-farm-green hover:bg-farm-green/90"
+              onClick={handleImport}
+              disabled={validRows.length === 0 || progress !== null}
+            >
+              {progress !== null ? "Importing..." : `Import ${validRows.length} ${validRows.length === 1 ? 'Animal' : 'Animals'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
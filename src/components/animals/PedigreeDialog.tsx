@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { buildPedigree, fetchLineage, PedigreeAnimal, PedigreeNode } from "@/lib/pedigree";
+import { toast } from "sonner";
+
+interface PedigreeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  animalId: string;
+  animalName: string;
+}
+
+function PedigreeBox({ node, role }: { node: PedigreeNode | null; role: string }) {
+  if (!node) {
+    return (
+      <div className="min-w-[150px] rounded-md border border-dashed px-3 py-2 text-xs text-muted-foreground">
+        <p className="uppercase tracking-wider">{role}</p>
+        <p>Unknown</p>
+      </div>
+    );
+  }
+
+  const { animal } = node;
+
+  return (
+    <div
+      className={cn(
+        "min-w-[150px] rounded-md border px-3 py-2 text-xs bg-white",
+        animal.sex === 'Male' ? "border-blue-200" : "border-rose-200"
+      )}
+    >
+      <p className="uppercase tracking-wider text-muted-foreground">{role}</p>
+      <p className="font-semibold text-sm">{animal.name}</p>
+      <p className="font-mono">#{animal.tag_number}</p>
+      <div className="flex flex-wrap gap-1 mt-1">
+        <Badge variant="outline" className="text-[10px] px-1 py-0">{animal.breed}</Badge>
+        {animal.birth_date && (
+          <Badge variant="outline" className="text-[10px] px-1 py-0">b. {animal.birth_date}</Badge>
+        )}
+        {animal.status !== 'Active' && (
+          <Badge variant="secondary" className="text-[10px] px-1 py-0">{animal.status}</Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Each generation is drawn as a column to the right of its offspring
+function PedigreeBranch({ node, role, depth }: { node: PedigreeNode | null; role: string; depth: number }) {
+  const showParents = depth > 0 && node !== null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <PedigreeBox node={node} role={role} />
+      {showParents && (
+        <div className="flex flex-col gap-3 border-l pl-3">
+          <PedigreeBranch node={node.sire} role="Sire" depth={depth - 1} />
+          <PedigreeBranch node={node.dam} role="Dam" depth={depth - 1} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PedigreeDialog({ open, onOpenChange, animalId, animalName }: PedigreeDialogProps) {
+  const [lineage, setLineage] = useState<Map<string, PedigreeAnimal>>(new Map());
+  const [generations, setGenerations] = useState("3");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadLineage();
+    }
+  }, [open]);
+
+  async function loadLineage() {
+    try {
+      setLoading(true);
+      setLineage(await fetchLineage());
+    } catch (error) {
+      console.error('Error fetching pedigree:', error);
+      toast.error("Database Error", {
+        description: "Failed to load pedigree records. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const depth = parseInt(generations, 10);
+  const pedigree = buildPedigree(animalId, lineage, depth);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Pedigree of {animalName}</DialogTitle>
+          <DialogDescription>Recorded sires and dams across generations</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Select value={generations} onValueChange={setGenerations}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Generations" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="2">2 generations</SelectItem>
+              <SelectItem value="3">3 generations</SelectItem>
+              <SelectItem value="4">4 generations</SelectItem>
+              <SelectItem value="5">5 generations</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-auto max-h-[60vh] py-2">
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-farm-green"></div>
+            </div>
+          ) : pedigree ? (
+            <PedigreeBranch node={pedigree} role="Animal" depth={depth} />
+          ) : (
+            <p className="text-center text-muted-foreground py-8">No pedigree information found.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect } from "react";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { BreedingRecord } from "@/lib/breeding";
+import { RecordScanDialog } from "./RecordScanDialog";
+import { toast } from "sonner";
+
+type BreedingRow = BreedingRecord & {
+  ewe: { id: string; name: string; tag_number: string } | null;
+  ram: { id: string; name: string; tag_number: string } | null;
+};
+
+const statusColors: Record<string, string> = {
+  "Mated": "bg-blue-100 text-blue-800 border-blue-200",
+  "Pregnant": "bg-purple-100 text-purple-800 border-purple-200",
+  "Empty": "bg-slate-100 text-slate-800 border-slate-200",
+  "Lambed": "bg-green-100 text-green-800 border-green-200",
+  "Aborted": "bg-red-100 text-red-800 border-red-200",
+};
+
+const animalLabel = (animal: BreedingRow['ewe']) =>
+  animal ? `${animal.name} (#${animal.tag_number})` : "Unknown";
+
+export function BreedingRecordsList() {
+  const [records, setRecords] = useState<BreedingRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<'active' | 'all'>('active');
+  const [scanRecord, setScanRecord] = useState<BreedingRow | null>(null);
+
+  useEffect(() => {
+    fetchRecords();
+  }, []);
+
+  async function fetchRecords() {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('breeding_records')
+        .select('*, ewe:animals!breeding_records_ewe_id_fkey(id, name, tag_number), ram:animals!breeding_records_ram_id_fkey(id, name, tag_number)')
+        .order('expected_lambing_start', { ascending: true });
+
+      if (error) throw error;
+      setRecords(data || []);
+    } catch (error) {
+      console.error('Error fetching breeding records:', error);
+      toast.error("Database Error", {
+        description: "Failed to load breeding records. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const filteredRecords = records.filter(record =>
+    filter === 'all' || record.status === 'Mated' || record.status === 'Pregnant'
+  );
+
+  const dueLabel = (record: BreedingRow) => {
+    if (record.status !== 'Mated' && record.status !== 'Pregnant') return null;
+    const days = differenceInCalendarDays(parseISO(record.expected_lambing_start), new Date());
+    if (days > 0) return `in ${days} days`;
+    if (differenceInCalendarDays(parseISO(record.expected_lambing_end), new Date()) >= 0) return "due now";
+    return "overdue";
+  };
+
+  return (
+    <>
+      <Card className="animate-fade-in">
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="text-xl">Breeding Cycles</CardTitle>
+              <CardDescription>Matings, pregnancy scans and expected lambing dates</CardDescription>
+            </div>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as 'active' | 'all')}>
+              <TabsList className="grid grid-cols-2">
+                <TabsTrigger value="active">In Progress</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Loading breeding records...</p>
+            </div>
+          ) : filteredRecords.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No breeding records. Add a Mating event to start a breeding cycle.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ewe</TableHead>
+                  <TableHead>Ram</TableHead>
+                  <TableHead>Mated</TableHead>
+                  <TableHead>Expected Lambing</TableHead>
+                  <TableHead>Scan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRecords.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell className="font-medium">{animalLabel(record.ewe)}</TableCell>
+                    <TableCell>{animalLabel(record.ram)}</TableCell>
+                    <TableCell>{record.mating_date}</TableCell>
+                    <TableCell>
+                      <div>{record.expected_lambing_start} – {record.expected_lambing_end}</div>
+                      {dueLabel(record) && (
+                        <div className="text-xs text-muted-foreground">{dueLabel(record)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {record.scan_result ? (
+                        <div>
+                          <div>{record.scan_result}</div>
+                          <div className="text-xs text-muted-foreground">{record.scan_date}</div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Not scanned</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn("text-xs", statusColors[record.status])}>
+                        {record.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {record.status === 'Mated' && (
+                        <Button variant="outline" size="sm" onClick={() => setScanRecord(record)}>
+                          Record Scan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecordScanDialog
+        open={!!scanRecord}
+        onOpenChange={(open) => !open && setScanRecord(null)}
+        record={scanRecord}
+        eweLabel={animalLabel(scanRecord?.ewe ?? null)}
+        onSuccess={fetchRecords}
+      />
+    </>
+  );
+}
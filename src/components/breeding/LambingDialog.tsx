@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  expectedLambCount,
+  fetchOpenBreedingRecord,
+  LambEntry,
+  recordLambing,
+  ScanResult,
+} from "@/lib/breeding";
+
+interface LambingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  damId?: string;
+  eventId?: string;
+  defaultDate?: string;
+  onSuccess?: () => void;
+}
+
+type ParentOption = { id: string; name: string; tag_number: string; breed: string; sex: string };
+
+const emptyLamb = (): LambEntry => ({
+  tagNumber: "",
+  name: "",
+  sex: "Female",
+  birthWeightKg: null,
+  alive: true,
+});
+
+export function LambingDialog({ open, onOpenChange, damId: initialDamId, eventId, defaultDate, onSuccess }: LambingDialogProps) {
+  const { toast } = useToast();
+  const [parents, setParents] = useState<ParentOption[]>([]);
+  const [damId, setDamId] = useState(initialDamId || "");
+  const [sireId, setSireId] = useState("");
+  const [lambingDate, setLambingDate] = useState(defaultDate || format(new Date(), "yyyy-MM-dd"));
+  const [breed, setBreed] = useState("");
+  const [lambs, setLambs] = useState<LambEntry[]>([emptyLamb()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchParents();
+      setDamId(initialDamId || "");
+      setLambingDate(defaultDate || format(new Date(), "yyyy-MM-dd"));
+    }
+  }, [open, initialDamId, defaultDate]);
+
+  // Prefill sire, breed and litter size from the ewe's open breeding record
+  useEffect(() => {
+    if (!open || !damId) return;
+
+    const dam = parents.find(p => p.id === damId);
+    if (dam) setBreed(dam.breed);
+
+    fetchOpenBreedingRecord(damId)
+      .then(record => {
+        setSireId(record?.ram_id || "");
+        const count = record?.scan_result ? expectedLambCount[record.scan_result as ScanResult] : 0;
+        setLambs(Array.from({ length: Math.max(count, 1) }, emptyLamb));
+      })
+      .catch(error => console.error('Error fetching breeding record:', error));
+  }, [open, damId, parents]);
+
+  async function fetchParents() {
+    try {
+      const { data, error } = await supabase
+        .from('animals')
+        .select('id, name, tag_number, breed, sex')
+        .not('status', 'in', '("Sold","Dead","Culled")')
+        .order('tag_number');
+
+      if (error) throw error;
+      setParents(data || []);
+    } catch (error) {
+      console.error('Error fetching animals:', error);
+      setParents([]);
+    }
+  }
+
+  const ewes = parents.filter(p => p.sex === 'Female');
+  const rams = parents.filter(p => p.sex === 'Male');
+
+  const updateLamb = (index: number, changes: Partial<LambEntry>) => {
+    setLambs(prev => prev.map((lamb, i) => (i === index ? { ...lamb, ...changes } : lamb)));
+  };
+
+  const validate = async (): Promise<string | null> => {
+    if (!damId) return "Select the dam.";
+    if (!breed.trim()) return "Enter the breed of the lambs.";
+    if (lambs.length === 0) return "Add at least one lamb.";
+
+    const tags = lambs.map(lamb => lamb.tagNumber.trim());
+    if (tags.some(tag => !tag)) return "Every lamb needs a tag number.";
+    if (new Set(tags).size !== tags.length) return "Lamb tag numbers must be unique.";
+
+    const { data, error } = await supabase
+      .from('animals')
+      .select('tag_number')
+      .in('tag_number', tags);
+
+    if (error) throw error;
+    if (data && data.length > 0) {
+      return `Tag number already registered: ${data.map(a => a.tag_number).join(', ')}`;
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const problem = await validate();
+      if (problem) {
+        toast({ title: "Cannot save lambing", description: problem, variant: "destructive" });
+        return;
+      }
+
+      await recordLambing({
+        damId,
+        sireId: sireId || null,
+        lambingDate,
+        breed: breed.trim(),
+        lambs: lambs.map(lamb => ({ ...lamb, tagNumber: lamb.tagNumber.trim() })),
+        eventId,
+      });
+
+      toast({
+        title: "Lambing Recorded",
+        description: `${lambs.length} ${lambs.length === 1 ? 'lamb' : 'lambs'} registered`
+      });
+
+      setLambs([emptyLamb()]);
+      onOpenChange(false);
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Error recording lambing:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record lambing",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Record Lambing</DialogTitle>
+          <DialogDescription>Register every lamb of this birth in one step</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Dam</Label>
+              <Select value={damId} onValueChange={setDamId} disabled={ewes.some(ewe => ewe.id === initialDamId)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select ewe" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ewes.map(ewe => (
+                    <SelectItem key={ewe.id} value={ewe.id}>{ewe.name} (#{ewe.tag_number})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sire</Label>
+              <Select value={sireId || "unknown"} onValueChange={(value) => setSireId(value === "unknown" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select ram" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unknown">Unknown</SelectItem>
+                  {rams.map(ram => (
+                    <SelectItem key={ram.id} value={ram.id}>{ram.name} (#{ram.tag_number})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lambingDate">Lambing Date</Label>
+              <Input
+                id="lambingDate"
+                type="date"
+                value={lambingDate}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setLambingDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lambBreed">Breed</Label>
+              <Input id="lambBreed" value={breed} onChange={(e) => setBreed(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Lambs</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setLambs(prev => [...prev, emptyLamb()])}>
+                <Plus className="h-4 w-4 mr-1" /> Add Lamb
+              </Button>
+            </div>
+
+            {lambs.map((lamb, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md">
+                <Input
+                  className="col-span-3"
+                  placeholder="Tag number"
+                  value={lamb.tagNumber}
+                  onChange={(e) => updateLamb(index, { tagNumber: e.target.value })}
+                />
+                <Input
+                  className="col-span-3"
+                  placeholder="Name (optional)"
+                  value={lamb.name}
+                  onChange={(e) => updateLamb(index, { name: e.target.value })}
+                />
+                <div className="col-span-2">
+                  <Select value={lamb.sex} onValueChange={(value) => updateLamb(index, { sex: value as LambEntry['sex'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Female">Female</SelectItem>
+                      <SelectItem value="Male">Male</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  className="col-span-2"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  placeholder="kg"
+                  value={lamb.birthWeightKg ?? ""}
+                  onChange={(e) => updateLamb(index, { birthWeightKg: e.target.value ? parseFloat(e.target.value) : null })}
+                />
+                <div className="col-span-1 flex flex-col items-center">
+                  <Switch
+                    checked={lamb.alive}
+                    onCheckedChange={(checked) => updateLamb(index, { alive: checked })}
+                  />
+                  <span className="text-[10px] text-muted-foreground">{lamb.alive ? "Alive" : "Stillborn"}</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1"
+                  disabled={lambs.length === 1}
+                  onClick={() => setLambs(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-farm-green hover:bg-farm-green/90"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Saving..." : "Save Lambing"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
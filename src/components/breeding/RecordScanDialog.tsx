@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BreedingRecord, recordScan, SCAN_RESULTS, ScanResult } from "@/lib/breeding";
+
+interface RecordScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  record: BreedingRecord | null;
+  eweLabel: string;
+  onSuccess?: () => void;
+}
+
+export function RecordScanDialog({ open, onOpenChange, record, eweLabel, onSuccess }: RecordScanDialogProps) {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ScanResult | "">("");
+  const [scanDate, setScanDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!record) return null;
+
+  const handleSubmit = async () => {
+    if (!result) return;
+    if (scanDate < record.mating_date) {
+      toast({
+        title: "Invalid date",
+        description: "The scan date cannot be before the mating date.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await recordScan(record, result, scanDate);
+
+      toast({
+        title: "Scan Recorded",
+        description: `${eweLabel} scanned ${result.toLowerCase()}`
+      });
+
+      setResult("");
+      onOpenChange(false);
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Error recording scan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record scan result",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Record Pregnancy Scan</DialogTitle>
+          <DialogDescription>
+            {eweLabel}, mated {record.mating_date}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="scanDate">Scan Date</Label>
+            <Input
+              id="scanDate"
+              type="date"
+              value={scanDate}
+              min={record.mating_date}
+              onChange={(e) => setScanDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Result</Label>
+            <Select value={result} onValueChange={(value) => setResult(value as ScanResult)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select result" />
+              </SelectTrigger>
+              <SelectContent>
+                {SCAN_RESULTS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-farm-green hover:bg-farm-green/90"
+            onClick={handleSubmit}
+            disabled={!result || isSubmitting}
+          >
+            {isSubmitting ? "Saving..." : "Save Scan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
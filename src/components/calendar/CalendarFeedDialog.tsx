@@ -0,0 +1,190 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Download, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { EventType } from "@/lib/events";
+import { calendarFeedUrl, CalendarSource, calendarSourceLabels, fetchFeedToken, resetFeedToken } from "@/lib/calendar";
+
+const FEED_SOURCES: CalendarSource[] = ["event", "health", "alert"];
+
+const EVENT_TYPES: EventType[] = ["Birth", "Mating", "Weaning", "Shearing", "Vaccination", "Disposal", "Custom"];
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [sources, setSources] = useState<CalendarSource[]>(FEED_SOURCES);
+  const [eventType, setEventType] = useState<EventType | "all">("all");
+  const [mine, setMine] = useState(false);
+
+  useEffect(() => {
+    if (open && !token) {
+      fetchToken();
+    }
+  }, [open]);
+
+  async function fetchToken() {
+    try {
+      setLoading(true);
+      setToken(await fetchFeedToken());
+    } catch (error) {
+      console.error('Error fetching calendar feed token:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to create the calendar link",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      setToken(await resetFeedToken());
+      toast({
+        title: "Link Reset",
+        description: "Calendars subscribed with the old link will stop updating. Subscribe again with the new one.",
+      });
+    } catch (error) {
+      console.error('Error resetting calendar feed token:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reset the calendar link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const toggleSource = (source: CalendarSource, checked: boolean) =>
+    setSources(prev => checked ? FEED_SOURCES.filter(s => s === source || prev.includes(s)) : prev.filter(s => s !== source));
+
+  const options = { sources, eventType: eventType === "all" ? undefined : eventType, mine };
+  const feedUrl = token && sources.length > 0 ? calendarFeedUrl(token, options) : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link Copied", description: "Add it to your phone calendar as a subscription." });
+    } catch {
+      toast({ title: "Copy the link", description: "Select the link and copy it by hand.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe in Your Calendar</DialogTitle>
+          <DialogDescription>
+            Your phone calendar checks this link for changes, so rescheduled items move instead of being duplicated.
+            Keep it private: anyone with the link can see the farm schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Include</Label>
+            <div className="flex flex-wrap gap-4">
+              {FEED_SOURCES.map(source => (
+                <label key={source} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={sources.includes(source)}
+                    onCheckedChange={(checked) => toggleSource(source, checked === true)}
+                  />
+                  {calendarSourceLabels[source]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {sources.includes("event") && (
+            <div className="space-y-2">
+              <Label htmlFor="feedEventType">Event Type</Label>
+              <Select value={eventType} onValueChange={(value) => setEventType(value as EventType | "all")}>
+                <SelectTrigger id="feedEventType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All event types</SelectItem>
+                  {EVENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="feedMine">Assigned to me</Label>
+              <p className="text-xs text-muted-foreground">
+                Only events you are assigned to and alerts you created. Health follow-ups are left out.
+              </p>
+            </div>
+            <Switch id="feedMine" checked={mine} onCheckedChange={setMine} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="feedUrl">Subscription Link</Label>
+            {loading ? (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Creating your link...
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="feedUrl"
+                  readOnly
+                  value={feedUrl ?? ""}
+                  placeholder={sources.length === 0 ? "Choose something to include" : ""}
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button variant="outline" size="icon" title="Copy link" onClick={handleCopy} disabled={!feedUrl}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" onClick={handleReset} disabled={!token || isResetting}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {isResetting ? "Resetting..." : "Reset Link"}
+          </Button>
+          <Button
+            className="bg-farm-green hover:bg-farm-green/90"
+            disabled={!feedUrl}
+            onClick={() => window.location.assign(calendarFeedUrl(token, options, true))}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { addMonths, addWeeks, format, isSameMonth, isToday, parseISO, startOfMonth, endOfMonth } from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { QUEUED_MESSAGE } from "@/lib/offline";
+import { EventType } from "@/lib/events";
+import {
+  calendarDays,
+  CalendarItem,
+  calendarItemLink,
+  CalendarSource,
+  calendarSourceLabels,
+  CalendarTypeFilter,
+  CalendarView,
+  fetchCalendarItems,
+  involvesAnimal,
+  isClosed,
+  itemsByDate,
+  matchesTypeFilter,
+  rescheduleItem,
+} from "@/lib/calendar";
+
+const EVENT_TYPES: EventType[] = ["Birth", "Mating", "Weaning", "Shearing", "Vaccination", "Disposal", "Custom"];
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Items shown in a month cell before the rest are folded into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+const eventTypeColors: Record<string, string> = {
+  "Birth": "bg-rose-100 text-rose-800 border-rose-200",
+  "Mating": "bg-purple-100 text-purple-800 border-purple-200",
+  "Weaning": "bg-amber-100 text-amber-800 border-amber-200",
+  "Shearing": "bg-blue-100 text-blue-800 border-blue-200",
+  "Vaccination": "bg-green-100 text-green-800 border-green-200",
+  "Disposal": "bg-gray-100 text-gray-800 border-gray-200",
+  "Custom": "bg-slate-100 text-slate-800 border-slate-200",
+};
+
+const sourceColors: Record<Exclude<CalendarSource, "event">, string> = {
+  health: "bg-teal-100 text-teal-800 border-teal-200",
+  alert: "bg-orange-100 text-orange-800 border-orange-200",
+};
+
+const itemColor = (item: CalendarItem) =>
+  item.source === "event" ? eventTypeColors[item.kind] ?? eventTypeColors.Custom : sourceColors[item.source];
+
+interface FarmCalendarProps {
+  /** Limit the calendar to some sources, e.g. only events on the Events page */
+  sources?: CalendarSource[];
+  onReschedule?: () => void;
+}
+
+export function FarmCalendar({ sources = ["event", "health", "alert"], onReschedule }: FarmCalendarProps) {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(new Date());
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [animalFilter, setAnimalFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState<CalendarTypeFilter>("all");
+  const [dropDate, setDropDate] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  async function fetchItems() {
+    try {
+      setLoading(true);
+      const { items: loaded, failed } = await fetchCalendarItems();
+      setItems(loaded.filter(item => sources.includes(item.source)));
+
+      const missing = failed.filter(source => sources.includes(source));
+      if (missing.length > 0) {
+        toast({
+          title: "Some items could not be loaded",
+          description: `${missing.map(source => calendarSourceLabels[source]).join(" and ")} are not shown.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching calendar items:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleDrop = async (date: string, key: string) => {
+    setDropDate(null);
+    const item = items.find(candidate => candidate.key === key);
+    if (!item || item.date === date || isClosed(item)) return;
+
+    // Move it straight away and put it back if the save fails
+    setItems(prev => prev.map(candidate => candidate.key === key ? { ...candidate, date } : candidate));
+    try {
+      const { queued } = await rescheduleItem(item, date);
+      toast({
+        title: "Rescheduled",
+        description: queued ? QUEUED_MESSAGE : `${item.title} moved to ${format(parseISO(date), "MMM d, yyyy")}`,
+      });
+      if (item.source === "event") fetchItems();
+      if (onReschedule) {
+        onReschedule();
+      }
+    } catch (error) {
+      console.error('Error rescheduling calendar item:', error);
+      setItems(prev => prev.map(candidate => candidate.key === key ? item : candidate));
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reschedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const animals = [...new Map([
+    ...items.filter(item => item.animalId).map(item => [item.animalId, item.animalLabel ?? "Unknown"] as [string, string]),
+    ...items.flatMap(item => item.members ?? []).map(member => [member.animalId, member.animalLabel] as [string, string]),
+  ]).entries()].sort((a, b) => a[1].localeCompare(b[1]));
+
+  const visible = items.filter(item =>
+    (animalFilter === "all" || involvesAnimal(item, animalFilter)) && matchesTypeFilter(item, typeFilter)
+  );
+  const byDate = itemsByDate(visible);
+
+  const step = (direction: 1 | -1) =>
+    setCursor(current => view === "week" ? addWeeks(current, direction) : addMonths(current, direction));
+
+  const days = view === "agenda" ? [] : calendarDays(view, cursor);
+  const heading = view === "week"
+    ? `${format(days[0], "MMM d")} – ${format(days[6], "MMM d, yyyy")}`
+    : format(cursor, "MMMM yyyy");
+
+  const renderItem = (item: CalendarItem, compact: boolean) => (
+    <button
+      key={item.key}
+      type="button"
+      draggable={!isClosed(item)}
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", item.key);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={() => navigate(calendarItemLink(item))}
+      title={[item.title, item.time, item.animalLabel, item.status].filter(Boolean).join(" · ")}
+      className={cn(
+        "w-full text-left rounded border px-1.5 py-0.5 text-xs truncate",
+        itemColor(item),
+        !isClosed(item) && "cursor-grab active:cursor-grabbing",
+        isClosed(item) && "opacity-60 line-through"
+      )}
+    >
+      {!compact && item.time && <span className="font-medium mr-1">{item.time}</span>}
+      {item.title}
+    </button>
+  );
+
+  const renderDay = (day: Date, tall: boolean) => {
+    const key = format(day, "yyyy-MM-dd");
+    const dayItems = byDate.get(key) ?? [];
+    const shown = tall ? dayItems : dayItems.slice(0, MONTH_CELL_LIMIT);
+    return (
+      <div
+        key={key}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDropDate(key);
+        }}
+        onDragLeave={() => setDropDate(current => current === key ? null : current)}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(key, e.dataTransfer.getData("text/plain"));
+        }}
+        className={cn(
+          "border-b border-r p-1 space-y-1 overflow-hidden",
+          tall ? "min-h-[320px]" : "min-h-[110px]",
+          view === "month" && !isSameMonth(day, cursor) && "bg-muted/40 text-muted-foreground",
+          dropDate === key && "bg-farm-green/10"
+        )}
+      >
+        <div className={cn(
+          "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full",
+          isToday(day) && "bg-farm-green text-white"
+        )}>
+          {format(day, "d")}
+        </div>
+        {shown.map(item => renderItem(item, !tall))}
+        {dayItems.length > shown.length && (
+          <button
+            type="button"
+            className="text-xs text-muted-foreground hover:underline"
+            onClick={() => {
+              setCursor(day);
+              setView("week");
+            }}
+          >
+            +{dayItems.length - shown.length} more
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const agendaDays = [...byDate.entries()]
+    .filter(([date]) => date >= format(startOfMonth(cursor), "yyyy-MM-dd") && date <= format(endOfMonth(cursor), "yyyy-MM-dd"))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-3 justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold ml-2">{heading}</h2>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={animalFilter} onValueChange={setAnimalFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All animals" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All animals</SelectItem>
+              {animals.map(([id, label]) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as CalendarTypeFilter)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {sources.length > 1 && sources.map(source => (
+                <SelectItem key={source} value={`source:${source}`}>{calendarSourceLabels[source]}</SelectItem>
+              ))}
+              {sources.includes("event") && EVENT_TYPES.map(type => (
+                <SelectItem key={type} value={`event:${type}`}>{type} events</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="agenda">Agenda</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {sources.length > 1 && (
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className={cn("w-3 h-3 rounded border", eventTypeColors.Custom)} /> Events (coloured by type)
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={cn("w-3 h-3 rounded border", sourceColors.health)} /> Health follow-ups
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={cn("w-3 h-3 rounded border", sourceColors.alert)} /> Alerts
+          </span>
+          <span>Drag an item to another day to reschedule it.</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" /> Loading calendar...
+        </div>
+      ) : view === "agenda" ? (
+        agendaDays.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nothing scheduled this month.</p>
+        ) : (
+          <div className="space-y-4">
+            {agendaDays.map(([date, dayItems]) => (
+              <div key={date} className="flex flex-col sm:flex-row gap-2 sm:gap-4 border-b pb-3 last:border-0">
+                <div className={cn("sm:w-32 text-sm font-medium", isToday(parseISO(date)) && "text-farm-green")}>
+                  {format(parseISO(date), "EEE, MMM d")}
+                </div>
+                <div className="flex-grow space-y-1">
+                  {dayItems.map(item => (
+                    <div key={item.key} className="flex items-center gap-2">
+                      <div className="flex-grow min-w-0">{renderItem(item, false)}</div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap hidden sm:inline">
+                        {[item.animalLabel, item.status].filter(Boolean).join(" · ")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="border-l border-t rounded-md overflow-hidden">
+          <div className="grid grid-cols-7">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="border-b border-r px-2 py-1 text-xs font-medium text-muted-foreground">
+                {WEEKDAYS[(day.getDay() + 6) % 7]}
+                {view === "week" && ` ${format(day, "d")}`}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map(day => renderDay(day, view === "week"))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
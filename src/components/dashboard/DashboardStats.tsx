@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Activity, Heart, Users, FileText, TrendingUp, TrendingDown } from "lucide-react";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Badge } from "@/components/ui/badge";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, currencySymbol, toBaseAmount } from "@/lib/currency";
 
 // Empty array for production - no mock data
 const farmStatistics: { name: string; count: number }[] = [];
@@ -106,6 +108,7 @@ const StatCard = ({
 };
 
 export function DashboardStats() {
+  const { settings } = useFarmSettings();
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
     totalAnimals: {
@@ -164,7 +167,7 @@ export function DashboardStats() {
       // 3. Fetch monthly revenue (current month)
       const { data: revenueData, error: revenueError } = await supabase
         .from('financial_transactions')
-        .select('amount, type')
+        .select('amount, type, exchange_rate')
         .eq('type', 'Income')
         .gte('date', firstDayOfMonth)
         .lte('date', lastDayOfMonth);
@@ -172,7 +175,7 @@ export function DashboardStats() {
       // 4. Fetch last month's revenue for trend
       const { data: lastMonthRevenue, error: revenueTrendError } = await supabase
         .from('financial_transactions')
-        .select('amount, type')
+        .select('amount, type, exchange_rate')
         .eq('type', 'Income')
         .gte('date', firstDayLastMonth)
         .lte('date', lastDayLastMonth);
@@ -205,14 +208,12 @@ export function DashboardStats() {
         
         // Current month revenue
         const totalRevenue = revenueData?.reduce((sum, transaction) => {
-          return sum + (typeof transaction.amount === 'number' ? 
-            transaction.amount : parseFloat(transaction.amount) || 0);
+          return sum + toBaseAmount(transaction);
         }, 0) || 0;
         
         // Last month revenue
         const lastMonthTotalRevenue = lastMonthRevenue?.reduce((sum, transaction) => {
-          return sum + (typeof transaction.amount === 'number' ? 
-            transaction.amount : parseFloat(transaction.amount) || 0);
+          return sum + toBaseAmount(transaction);
         }, 0) || 0;
         
         const revenueTrend = lastMonthTotalRevenue > 0 
@@ -293,7 +294,7 @@ export function DashboardStats() {
         
         <StatCard
           title="Monthly Revenue"
-          value={loading ? "Loading..." : `KSh ${stats.monthlyRevenue.amount.toLocaleString()}`}
+          value={loading ? "Loading..." : `${currencySymbol(baseCurrency(settings))} ${stats.monthlyRevenue.amount.toLocaleString()}`}
           description={stats.monthlyRevenue.description}
           icon={Activity}
           trend={{
@@ -1,65 +1,26 @@
-
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { Activity, ActivityType, ACTIVITY_TYPES, fetchActivities } from "@/lib/activity";
 
-type ActivityType = "health" | "event" | "transaction" | "system";
-
-interface Activity {
-  id: string;
-  type: ActivityType;
-  title: string;
-  description: string;
-  timestamp: string;
-}
-
-const recentActivities: Activity[] = [
-  {
-    id: "1",
-    type: "health",
-    title: "Vaccination Complete",
-    description: "10 sheep vaccinated against bluetongue",
-    timestamp: "Today, 10:30 AM"
-  },
-  {
-    id: "2",
-    type: "event",
-    title: "Lambing Event",
-    description: "Ewe #102 gave birth to twins",
-    timestamp: "Today, 8:15 AM"
-  },
-  {
-    id: "3",
-    type: "transaction",
-    title: "Wool Sale",
-    description: "22 kg of wool sold for $980",
-    timestamp: "Yesterday, 2:45 PM"
-  },
-  {
-    id: "4",
-    type: "system",
-    title: "Inventory Alert",
-    description: "Feed stock is running low (15% remaining)",
-    timestamp: "Yesterday, 11:20 AM"
-  },
-  {
-    id: "5",
-    type: "health",
-    title: "Veterinarian Visit",
-    description: "Annual health check completed for breeding stock",
-    timestamp: "Aug 8, 9:00 AM"
-  },
-  {
-    id: "6",
-    type: "event",
-    title: "Weight Recording",
-    description: "15 lambs weighed and recorded",
-    timestamp: "Aug 7, 4:30 PM"
-  }
-];
+const PAGE_SIZE = 6;
 
 const getActivityColor = (type: ActivityType): string => {
   switch (type) {
+    case "animal":
+      return "bg-violet-100 text-violet-800";
     case "health":
       return "bg-rose-100 text-rose-800";
     case "event":
@@ -74,53 +35,137 @@ const getActivityColor = (type: ActivityType): string => {
 };
 
 export function RecentActivities() {
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadActivities = async () => {
+      try {
+        setLoading(true);
+        const result = await fetchActivities({
+          page,
+          pageSize: PAGE_SIZE,
+          type: typeFilter === "all" ? null : typeFilter as ActivityType,
+        });
+        setActivities(prev => page === 0 ? result.activities : [...prev, ...result.activities]);
+        setHasMore(result.hasMore);
+      } catch (error) {
+        console.error('Error fetching activities:', error);
+        toast.error("Database Error", {
+          description: "Failed to load recent activities. Please try again."
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadActivities();
+  }, [page, typeFilter]);
+
+  const handleTypeChange = (value: string) => {
+    setTypeFilter(value);
+    setPage(0);
+  };
+
   return (
     <Card className="animate-fade-in" style={{ animationDelay: "0.3s" }}>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
         <CardTitle className="text-xl">Recent Activities</CardTitle>
+        <Select value={typeFilter} onValueChange={handleTypeChange}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="All activity" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All activity</SelectItem>
+            {ACTIVITY_TYPES.map(type => (
+              <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent>
-        <div className="space-y-6">
-          {recentActivities.map((activity, index) => (
-            <div 
-              key={activity.id}
-              className="flex gap-4 animate-slide-in" 
-              style={{ animationDelay: `${0.1 * index}s` }}
-            >
-              <div className="relative flex-shrink-0">
-                <div className={cn(
-                  "h-9 w-9 rounded-full flex items-center justify-center",
-                  getActivityColor(activity.type)
-                )}>
-                  <span className="text-xs font-medium">
-                    {activity.type.charAt(0).toUpperCase()}
-                  </span>
+        {!loading && activities.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No activity recorded yet
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {activities.map((activity, index) => {
+              const content = (
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium">{activity.title}</h4>
+                    <Badge
+                      variant="outline"
+                      className={cn("text-xs font-normal", getActivityColor(activity.type))}
+                    >
+                      {activity.type}
+                    </Badge>
+                  </div>
+                  {activity.description && (
+                    <p className="text-sm text-muted-foreground">
+                      {activity.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(parseISO(activity.timestamp), { addSuffix: true })}
+                    {activity.actor && ` by ${activity.actor}`}
+                  </p>
                 </div>
-                {index < recentActivities.length - 1 && (
-                  <div className="absolute top-10 bottom-0 left-1/2 w-0.5 -translate-x-1/2 bg-border h-10" />
-                )}
-              </div>
-              
-              <div className="space-y-1.5">
-                <div className="flex items-center gap-2">
-                  <h4 className="font-medium">{activity.title}</h4>
-                  <Badge 
-                    variant="outline" 
-                    className={cn("text-xs font-normal", getActivityColor(activity.type))}
-                  >
-                    {activity.type}
-                  </Badge>
+              );
+
+              return (
+                <div
+                  key={activity.id}
+                  className="flex gap-4 animate-slide-in"
+                  style={{ animationDelay: `${0.1 * (index % PAGE_SIZE)}s` }}
+                >
+                  <div className="relative flex-shrink-0">
+                    <div className={cn(
+                      "h-9 w-9 rounded-full flex items-center justify-center",
+                      getActivityColor(activity.type)
+                    )}>
+                      <span className="text-xs font-medium">
+                        {activity.type.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                    {index < activities.length - 1 && (
+                      <div className="absolute top-10 bottom-0 left-1/2 w-0.5 -translate-x-1/2 bg-border h-10" />
+                    )}
+                  </div>
+
+                  {activity.link ? (
+                    <Link to={activity.link} className="hover:text-farm-green transition-colors">
+                      {content}
+                    </Link>
+                  ) : content}
                 </div>
-                <p className="text-sm text-muted-foreground">
-                  {activity.description}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  {activity.timestamp}
-                </p>
-              </div>
-            </div>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 rounded-full border-2 border-farm-green border-t-transparent animate-spin" />
+          </div>
+        )}
+
+        {!loading && hasMore && (
+          <div className="flex justify-center mt-6">
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-farm-green text-farm-green hover:bg-farm-green/10"
+              onClick={() => setPage(page + 1)}
+            >
+              Load more
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,12 +1,11 @@
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   Form,
   FormControl,
@@ -28,12 +27,19 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { CalendarIcon, Clock } from "lucide-react";
+import { CalendarIcon, Clock, MapPin } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Badge } from "@/components/ui/badge";
+import { lambingWindow, recordMating } from "@/lib/breeding";
+import { createRecord, fetchCached, QUEUED_MESSAGE } from "@/lib/offline";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, formatMoney } from "@/lib/currency";
+import { Assignee, EVENT_STATUSES, EventCost, fetchAssignees, fetchCostOptions } from "@/lib/events";
+import { AnimalGroup, GroupAnimal, GroupEntry, recordGroupEvent } from "@/lib/groups";
+import { AnimalGroupPicker } from "@/components/animals/AnimalGroupPicker";
 
 interface AddEventDialogProps {
   open: boolean;
@@ -46,47 +52,67 @@ const formSchema = z.object({
   type: z.enum(["Birth", "Mating", "Weaning", "Shearing", "Vaccination", "Custom"]),
   date: z.date(),
   time: z.string().optional(),
+  endTime: z.string().optional(),
+  location: z.string().optional(),
+  assignedTo: z.array(z.string()),
+  transactionId: z.string().optional(),
   description: z.string().min(5, { message: "Description must be at least 5 characters" }),
-  animals: z.array(z.string()).min(1, { message: "Select at least one animal" }),
+  animals: z.array(z.object({
+    animalId: z.string(),
+    exception: z.enum(["Absent", "Refused"]).nullable(),
+  })),
   status: z.enum(["Upcoming", "In Progress", "Completed", "Missed"]),
+  eweId: z.string().optional(),
+  ramId: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.type === "Mating") {
+    // Matings are linked to a specific ewe and ram for breeding records
+    if (!data.eweId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["eweId"], message: "Select the ewe" });
+    }
+    if (!data.ramId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ramId"], message: "Select the ram" });
+    }
+  } else if (data.animals.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["animals"], message: "Select at least one animal" });
+  }
+  if (data.time && data.endTime && data.endTime < data.time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "End time must be after the start time" });
+  }
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
 export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialogProps) {
   const { toast } = useToast();
-  const [selectedAnimals, setSelectedAnimals] = useState<string[]>([]);
-  const [animalInput, setAnimalInput] = useState("");
+  const { settings } = useFarmSettings();
+  const [group, setGroup] = useState<AnimalGroup | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [availableAnimals, setAvailableAnimals] = useState<Array<{ id: string, name: string, tag: string }>>([]);
+  const [availableAnimals, setAvailableAnimals] = useState<GroupAnimal[]>([]);
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [costOptions, setCostOptions] = useState<EventCost[]>([]);
   
-  // Fetch available animals when dialog opens
+  // Fetch available animals, farm members and expenses when dialog opens
   useEffect(() => {
     if (open) {
       fetchAnimals();
+      // Both need a connection; events can still be added offline without them
+      fetchAssignees()
+        .then(setAssignees)
+        .catch(error => console.error('Error fetching assignees:', error));
+      fetchCostOptions()
+        .then(setCostOptions)
+        .catch(error => console.error('Error fetching expenses:', error));
     }
   }, [open]);
   
   async function fetchAnimals() {
     try {
-      const { data, error } = await supabase
-        .from('animals')
-        .select('id, name, tag_number');
-      
-      if (error) throw error;
-      
-      setAvailableAnimals(data.map(animal => ({
-        id: animal.id,
-        name: animal.name,
-        tag: animal.tag_number
-      })));
+      setAvailableAnimals(await fetchCached('animals'));
     } catch (error) {
       console.error('Error fetching animals:', error);
       // Fallback to empty array
-      setAvailableAnimals([
-        { id: "MB001", name: "Fluffy", tag: "MB001" },
-        { id: "MB087", name: "Apollo", tag: "MB087" },
-      ]);
+      setAvailableAnimals([]);
     }
   }
   
@@ -108,8 +134,16 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
       date: new Date(),
       status: "Upcoming",
       animals: [],
+      assignedTo: [],
     },
   });
+  
+  const watchType = form.watch("type");
+  const watchAssignedTo = form.watch("assignedTo");
+  const watchDate = form.watch("date");
+  const expectedLambing = watchDate ? lambingWindow(format(watchDate, "yyyy-MM-dd")) : null;
+  const ewes = availableAnimals.filter(a => a.sex === "Female");
+  const rams = availableAnimals.filter(a => a.sex === "Male");
 
   const onSubmit = async (data: FormValues) => {
     setIsSubmitting(true);
@@ -121,44 +155,68 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
         description: data.title, // Use title as the description since it's more detailed
         date: data.date.toISOString().split('T')[0], // Format as YYYY-MM-DD
         performed_by: null, // Could be added later if user profiles are implemented
+        status: data.status,
+        start_time: data.time || null,
+        end_time: data.endTime || null,
+        location: data.location?.trim() || null,
+        assigned_to: data.assignedTo,
+        transaction_id: data.transactionId || null,
       };
       
-      // Handle animal relationship
-      if (data.animals.length > 0) {
-        // Try to extract animal ID if it's a single specific animal (not a group)
-        const animalMatch = data.animals[0].match(/#([\w\d]+)\)/);
-        if (animalMatch) {
-          // Find the animal by tag number
-          const animal = availableAnimals.find(a => a.tag === animalMatch[1]);
-          if (animal) {
-            eventData.animal_id = animal.id;
-          }
-        }
+      const label = (animal: GroupAnimal) => `${animal.name} (#${animal.tag_number})`;
+      const ewe = availableAnimals.find(a => a.id === data.eweId);
+      const ram = availableAnimals.find(a => a.id === data.ramId);
+      const isMating = data.type === "Mating" && ewe && ram;
+      // Several animals, or one that was absent or refused, are saved as a group event
+      const isGroup = !isMating && (data.animals.length > 1 || data.animals.some(entry => entry.exception));
+      
+      if (isGroup) {
+        const count = `${data.animals.length} ${data.animals.length === 1 ? "animal" : "animals"}`;
+        eventData.notes = JSON.stringify({ title: data.title, animals: [group?.name ?? count] });
+        await recordGroupEvent({ ...eventData, animal_group_id: group?.id ?? null }, data.animals as GroupEntry[]);
+        
+        toast({
+          title: "Event Added",
+          description: `Added "${data.title}" for ${count} on ${data.date.toLocaleDateString()}`,
+        });
+        form.reset();
+        setGroup(null);
+        onOpenChange(false);
+        onSuccess?.();
+        return;
       }
       
-      // Store additional data in notes field as structured data
+      // Handle animal relationship
+      const animal = isMating ? ewe : availableAnimals.find(a => a.id === data.animals[0]?.animalId);
+      eventData.animal_id = animal?.id ?? null;
+      
+      // Keep the title and animals, which have no columns of their own, in notes
       eventData.notes = JSON.stringify({
         title: data.title,
-        time: data.time,
-        status: data.status,
-        animals: data.animals,
+        animals: isMating ? [label(ewe), label(ram)] : animal ? [label(animal)] : [],
       });
       
-      // Insert into Supabase
-      const { error } = await supabase
-        .from('events')
-        .insert(eventData);
+      // Insert into Supabase, or queue it on this device when offline
+      const { record: savedEvent, queued } = await createRecord('events', eventData);
       
-      if (error) throw error;
+      if (isMating) {
+        await recordMating({
+          eweId: ewe.id,
+          ramId: ram.id,
+          matingDate: eventData.date,
+          eventId: savedEvent.id,
+          notes: data.description,
+        });
+      }
       
       toast({
         title: "Event Added",
-        description: `Added "${data.title}" event for ${data.date.toLocaleDateString()}`,
+        description: queued ? QUEUED_MESSAGE : `Added "${data.title}" event for ${data.date.toLocaleDateString()}`,
       });
       
       // Reset form and close dialog
       form.reset();
-      setSelectedAnimals([]);
+      setGroup(null);
       onOpenChange(false);
       
       // Call onSuccess callback to refresh events list
@@ -177,32 +235,9 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
     }
   };
 
-  const addAnimal = (animal: string) => {
-    if (!selectedAnimals.includes(animal) && animal.trim() !== "") {
-      const newAnimals = [...selectedAnimals, animal];
-      setSelectedAnimals(newAnimals);
-      form.setValue("animals", newAnimals);
-      setAnimalInput("");
-    }
-  };
-
-  const removeAnimal = (animal: string) => {
-    const newAnimals = selectedAnimals.filter(a => a !== animal);
-    setSelectedAnimals(newAnimals);
-    form.setValue("animals", newAnimals);
-  };
-
-  const handleSelectAnimal = (animalId: string) => {
-    const animal = availableAnimals.find(a => a.id === animalId);
-    if (animal) {
-      const displayName = `${animal.name} (${animal.tag === "Group" ? "Group" : "#" + animal.tag})`;
-      addAnimal(displayName);
-    }
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl">Add Event</DialogTitle>
         </DialogHeader>
@@ -295,7 +330,24 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
                 name="time"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Time (Optional)</FormLabel>
+                    <FormLabel>Start Time (Optional)</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Input type="time" {...field} />
+                        <Clock className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Time (Optional)</FormLabel>
                     <FormControl>
                       <div className="relative">
                         <Input type="time" {...field} />
@@ -320,10 +372,55 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Upcoming">Upcoming</SelectItem>
-                        <SelectItem value="In Progress">In Progress</SelectItem>
-                        <SelectItem value="Completed">Completed</SelectItem>
-                        <SelectItem value="Missed">Missed</SelectItem>
+                        {EVENT_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location / Paddock (Optional)</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Input placeholder="e.g. Shearing shed, North paddock" {...field} />
+                        <MapPin className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="transactionId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Linked Cost (Optional)</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+                      value={field.value ?? "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select expense" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No linked cost</SelectItem>
+                        {costOptions.map((cost) => (
+                          <SelectItem key={cost.id} value={cost.id}>
+                            {format(parseISO(cost.date), "MMM d")} · {cost.description || cost.category} · {formatMoney(Number(cost.amount), cost.currency || baseCurrency(settings))}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -334,52 +431,133 @@ export function AddEventDialog({ open, onOpenChange, onSuccess }: AddEventDialog
               <div className="col-span-1 md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="animals"
-                  render={() => (
+                  name="assignedTo"
+                  render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Animals Involved</FormLabel>
-                      <div className="flex gap-2 mb-2">
-                        <Select onValueChange={handleSelectAnimal}>
-                          <SelectTrigger className="w-full">
-                            <SelectValue placeholder="Select animals" />
+                      <FormLabel>Assigned To (Optional)</FormLabel>
+                      <Select
+                        value=""
+                        onValueChange={(id) => !field.value.includes(id) && field.onChange([...field.value, id])}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={assignees.length > 0 ? "Select farm members" : "No farm members available"} />
                           </SelectTrigger>
-                          <SelectContent>
-                            {availableAnimals.map((animal) => (
-                              <SelectItem key={animal.id} value={animal.id}>
-                                {animal.name} ({animal.tag === "Group" ? "Group" : "#" + animal.tag})
+                        </FormControl>
+                        <SelectContent>
+                          {assignees
+                            .filter(assignee => !field.value.includes(assignee.id))
+                            .map((assignee) => (
+                              <SelectItem key={assignee.id} value={assignee.id}>
+                                {assignee.name}
                               </SelectItem>
                             ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div className="flex flex-wrap gap-2 min-h-[40px] p-2 border rounded-md bg-background">
-                        {selectedAnimals.length === 0 && (
-                          <div className="text-muted-foreground text-sm">No animals selected</div>
-                        )}
-                        {selectedAnimals.map((animal, index) => (
-                          <Badge 
-                            key={index} 
-                            variant="secondary"
-                            className="flex items-center gap-1"
-                          >
-                            {animal}
-                            <button 
-                              type="button"
-                              className="ml-1 rounded-full hover:bg-muted p-1"
-                              onClick={() => removeAnimal(animal)}
-                            >
-                              <span>×</span>
-                            </button>
-                          </Badge>
-                        ))}
-                      </div>
+                        </SelectContent>
+                      </Select>
+                      {watchAssignedTo.length > 0 && (
+                        <div className="flex flex-wrap gap-2 pt-1">
+                          {watchAssignedTo.map(id => (
+                            <Badge key={id} variant="secondary" className="flex items-center gap-1">
+                              {assignees.find(assignee => assignee.id === id)?.name ?? "Farm member"}
+                              <button
+                                type="button"
+                                className="ml-1 rounded-full hover:bg-muted p-1"
+                                onClick={() => field.onChange(field.value.filter(other => other !== id))}
+                              >
+                                <span>×</span>
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
+              {watchType === "Mating" ? (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="eweId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ewe</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select ewe" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ewes.map((animal) => (
+                              <SelectItem key={animal.id} value={animal.id}>
+                                {animal.name} (#{animal.tag_number})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="ramId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ram</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select ram" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {rams.map((animal) => (
+                              <SelectItem key={animal.id} value={animal.id}>
+                                {animal.name} (#{animal.tag_number})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {expectedLambing && (
+                    <p className="col-span-1 md:col-span-2 text-sm text-muted-foreground">
+                      Expected lambing window: {expectedLambing.start} to {expectedLambing.end}.
+                      A lambing reminder alert will be created.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="col-span-1 md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="animals"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Animals Involved</FormLabel>
+                        <AnimalGroupPicker
+                          animals={availableAnimals}
+                          value={field.value as GroupEntry[]}
+                          onChange={field.onChange}
+                          group={group}
+                          onGroupChange={setGroup}
+                          includedLabel="Present"
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
               <div className="col-span-1 md:col-span-2">
                 <FormField
                   control={form.control}
@@ -1,11 +1,23 @@
-import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import { Trash2, Calendar, Clock, Tag, Users } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, Calendar, Clock, Tag, Users, Baby, MapPin, User, Receipt } from "lucide-react";
+import { LambingDialog } from "@/components/breeding/LambingDialog";
+import { deleteRecord, QUEUED_MESSAGE, updateRecord } from "@/lib/offline";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, formatMoney } from "@/lib/currency";
+import { EVENT_STATUSES, EventCost, EventStatus, EventType, FarmEvent, fetchEventCost, formatEventTime } from "@/lib/events";
+import { groupSummaryLabel } from "@/lib/groups";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,23 +30,11 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-type EventType = "Birth" | "Mating" | "Weaning" | "Shearing" | "Vaccination" | "Custom";
-
-interface FarmEvent {
-  id: string;
-  title: string;
-  type: EventType;
-  date: string;
-  time?: string;
-  description: string;
-  animals: string[];
-  status: "Upcoming" | "In Progress" | "Completed" | "Missed";
-}
-
 interface EventDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   event: FarmEvent | null;
+  assigneeNames?: Record<string, string>;
   onSuccess?: () => void;
 }
 
@@ -44,6 +44,7 @@ const eventTypeColors: Record<EventType, string> = {
   "Weaning": "bg-amber-100 text-amber-800 border-amber-200",
   "Shearing": "bg-blue-100 text-blue-800 border-blue-200",
   "Vaccination": "bg-green-100 text-green-800 border-green-200",
+  "Disposal": "bg-gray-100 text-gray-800 border-gray-200",
   "Custom": "bg-slate-100 text-slate-800 border-slate-200",
 };
 
@@ -54,25 +55,66 @@ const statusColors: Record<string, string> = {
   "Missed": "bg-red-100 text-red-800 border-red-200",
 };
 
-export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: EventDetailDialogProps) {
+export function EventDetailDialog({ open, onOpenChange, event, assigneeNames = {}, onSuccess }: EventDetailDialogProps) {
   const { toast } = useToast();
+  const { settings } = useFarmSettings();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showLambingDialog, setShowLambingDialog] = useState(false);
+  const [status, setStatus] = useState<EventStatus>("Upcoming");
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [cost, setCost] = useState<EventCost | null>(null);
+  
+  useEffect(() => {
+    if (!open || !event) return;
+    setStatus(event.status);
+    setCost(null);
+    if (event.transactionId) {
+      fetchEventCost(event.transactionId)
+        .then(setCost)
+        .catch(error => console.error('Error fetching event cost:', error));
+    }
+  }, [open, event]);
   
   if (!event) return null;
   
+  const entries = event.entries ?? [];
+  const exceptionCount = entries.filter(entry => entry.exception).length;
+  
+  const handleStatusChange = async (value: EventStatus) => {
+    const previous = status;
+    setStatus(value);
+    setIsUpdatingStatus(true);
+    try {
+      const { queued } = await updateRecord('events', event.id, { status: value });
+      
+      toast({
+        title: "Status Updated",
+        description: queued ? QUEUED_MESSAGE : `${event.title} is now ${value}`
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Error updating event status:', error);
+      setStatus(previous);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to update the event status",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+  
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('events')
-        .delete()
-        .eq('id', event.id);
-      
-      if (error) throw error;
+      const { queued } = await deleteRecord('events', event.id);
       
       toast({
         title: "Event Deleted",
-        description: `${event.title} has been removed`
+        description: queued ? QUEUED_MESSAGE : `${event.title} has been removed`
       });
       
       // Close the dialog and refresh the events list
@@ -102,7 +144,7 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
   
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl flex items-center justify-between">
             <span>{event.title}</span>
@@ -115,9 +157,9 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
               </Badge>
               <Badge 
                 variant="outline"
-                className={cn("text-xs", statusColors[event.status])}
+                className={cn("text-xs", statusColors[status])}
               >
-                {event.status}
+                {status}
               </Badge>
             </div>
           </DialogTitle>
@@ -128,21 +170,82 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar className="h-4 w-4" />
               <span>{formattedDate}</span>
-              {event.time && (
+              {formatEventTime(event) && (
                 <>
                   <Clock className="h-4 w-4 ml-3" />
-                  <span>{event.time}</span>
+                  <span>{formatEventTime(event)}</span>
                 </>
               )}
             </div>
             
+            {event.location && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <MapPin className="h-4 w-4" />
+                <span>{event.location}</span>
+              </div>
+            )}
+            
+            {event.assignedTo.length > 0 && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <User className="h-4 w-4" />
+                <span>{event.assignedTo.map(id => assigneeNames[id] ?? "Farm member").join(", ")}</span>
+              </div>
+            )}
+            
+            {cost && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Receipt className="h-4 w-4" />
+                <span>
+                  {formatMoney(Number(cost.amount), cost.currency || baseCurrency(settings))} · {cost.description || cost.category}
+                </span>
+              </div>
+            )}
+            
+            <div className="flex items-center gap-3 pt-1">
+              <span className="text-sm font-medium">Status</span>
+              <Select value={status} onValueChange={(value) => handleStatusChange(value as EventStatus)} disabled={isUpdatingStatus}>
+                <SelectTrigger className="w-[160px] h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_STATUSES.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
             <div className="pt-3">
               <h3 className="text-sm font-medium mb-2">Description</h3>
               <p className="text-sm text-muted-foreground">{event.description}</p>
             </div>
           </div>
           
-          {event.animals.length > 0 && (
+          {event.groupSize ? (
+            <div>
+              <h3 className="text-sm font-medium mb-2 flex items-center">
+                <Users className="h-4 w-4 mr-2" />
+                {event.animals.length > 0 ? `${event.animals.join(", ")} · ` : ""}
+                {groupSummaryLabel(event.groupSize, exceptionCount)}
+              </h3>
+              <div className="max-h-60 overflow-y-auto border rounded-md divide-y">
+                {entries.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                    <span>{entry.animalLabel}</span>
+                    {entry.exception ? (
+                      <Badge variant="outline" className="text-xs bg-amber-100 text-amber-800 border-amber-200">
+                        {entry.exception}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className={cn("text-xs", statusColors[entry.status])}>
+                        {entry.status}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : event.animals.length > 0 && (
             <div>
               <h3 className="text-sm font-medium mb-2 flex items-center">
                 <Users className="h-4 w-4 mr-2" />
@@ -158,6 +261,17 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
             </div>
           )}
           
+          {event.type === "Birth" && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setShowLambingDialog(true)}
+            >
+              <Baby className="h-4 w-4 mr-2" />
+              Register Lambs
+            </Button>
+          )}
+
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" className="w-full">
@@ -169,7 +283,10 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This will permanently delete this event. This action cannot be undone.
+                  {event.groupSize
+                    ? `This will permanently delete this group event and the entries for its ${event.groupSize} animals.`
+                    : "This will permanently delete this event."}
+                  {" "}This action cannot be undone.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -185,6 +302,17 @@ export function EventDetailDialog({ open, onOpenChange, event, onSuccess }: Even
             </AlertDialogContent>
           </AlertDialog>
         </div>
+
+        {event.type === "Birth" && (
+          <LambingDialog
+            open={showLambingDialog}
+            onOpenChange={setShowLambingDialog}
+            damId={event.animalId ?? undefined}
+            eventId={event.id}
+            defaultDate={event.date}
+            onSuccess={onSuccess}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,7 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { Calendar, List, Search, Plus } from "lucide-react";
+import { Calendar, List, Search, Plus, MapPin, User } from "lucide-react";
 import { 
   Card, 
   CardContent, 
@@ -13,22 +12,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { AddEventDialog } from "@/components/events/AddEventDialog";
 import { EventDetailDialog } from "@/components/events/EventDetailDialog";
-
-type EventType = "Birth" | "Mating" | "Weaning" | "Shearing" | "Vaccination" | "Custom";
-
-interface FarmEvent {
-  id: string;
-  title: string;
-  type: EventType;
-  date: string;
-  time?: string;
-  description: string;
-  animals: string[];
-  status: "Upcoming" | "In Progress" | "Completed" | "Missed";
-}
+import { FarmCalendar } from "@/components/calendar/FarmCalendar";
+import { fetchCached, isNetworkError } from "@/lib/offline";
+import { useToast } from "@/hooks/use-toast";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+import { EventType, FarmEvent, fetchAssignees, formatEventTime, markMissedEvents, toFarmEvents } from "@/lib/events";
+import { groupSummaryLabel } from "@/lib/groups";
+import { animalIdsMatchingMobFilter, fetchMobs, fetchPaddocks, Mob, NO_PADDOCK_LABEL, Paddock } from "@/lib/mobs";
 
 const eventTypeColors: Record<EventType, string> = {
   "Birth": "bg-rose-100 text-rose-800 border-rose-200",
@@ -36,6 +36,7 @@ const eventTypeColors: Record<EventType, string> = {
   "Weaning": "bg-amber-100 text-amber-800 border-amber-200",
   "Shearing": "bg-blue-100 text-blue-800 border-blue-200",
   "Vaccination": "bg-green-100 text-green-800 border-green-200",
+  "Disposal": "bg-gray-100 text-gray-800 border-gray-200",
   "Custom": "bg-slate-100 text-slate-800 border-slate-200",
 };
 
@@ -52,30 +53,33 @@ const dummyEvents: FarmEvent[] = [
     title: "Sheep Shearing Day",
     type: "Shearing",
     date: "2023-08-15",
-    time: "08:00 AM",
+    startTime: "08:00",
     description: "Annual shearing for the entire flock",
     animals: ["Group: Adult Ewes", "Group: Adult Rams"],
-    status: "Upcoming"
+    status: "Upcoming",
+    assignedTo: []
   },
   {
     id: "2",
     title: "Lamb Vaccination",
     type: "Vaccination",
     date: "2023-08-12",
-    time: "09:30 AM",
+    startTime: "09:30",
     description: "First round of vaccinations for spring lambs",
     animals: ["Group: Spring Lambs"],
-    status: "Upcoming"
+    status: "Upcoming",
+    assignedTo: []
   },
   {
     id: "3",
     title: "Ewe 102 Lambing",
     type: "Birth",
     date: "2023-08-05",
-    time: "06:15 AM",
+    startTime: "06:15",
     description: "Ewe #102 gave birth to twins",
     animals: ["Ewe #102", "Lamb #225", "Lamb #226"],
-    status: "Completed"
+    status: "Completed",
+    assignedTo: []
   },
   {
     id: "4",
@@ -84,7 +88,8 @@ const dummyEvents: FarmEvent[] = [
     date: "2023-09-01",
     description: "Begin pairing selected rams with breeding ewes",
     animals: ["Group: Breeding Ewes", "Ram #42", "Ram #56"],
-    status: "Upcoming"
+    status: "Upcoming",
+    assignedTo: []
   },
   {
     id: "5",
@@ -93,7 +98,8 @@ const dummyEvents: FarmEvent[] = [
     date: "2023-08-20",
     description: "Separate lambs from Group 3 from mothers",
     animals: ["Group: Spring Lambs Group 3"],
-    status: "Upcoming"
+    status: "Upcoming",
+    assignedTo: []
   }
 ];
 
@@ -103,59 +109,66 @@ export function EventsList() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [events, setEvents] = useState<FarmEvent[]>([]);
   const [loading, setLoading] = useState(true);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'upcoming' | 'completed'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'upcoming' | 'completed' | 'missed'>('all');
   const [selectedEvent, setSelectedEvent] = useState<FarmEvent | null>(null);
   const [showDetailDialog, setShowDetailDialog] = useState(false);
+  const [assigneeNames, setAssigneeNames] = useState<Record<string, string>>({});
+  const [mobFilter, setMobFilter] = useState("all");
+  const [paddockFilter, setPaddockFilter] = useState("all");
+  const [mobs, setMobs] = useState<Mob[]>([]);
+  const [paddocks, setPaddocks] = useState<Paddock[]>([]);
+  const [animalMobs, setAnimalMobs] = useState<{ id: string; mob_id: string | null }[]>([]);
+  const { linkedId, clearLinkedRecord } = useLinkedRecord();
+  const { toast } = useToast();
   
   useEffect(() => {
     fetchEvents();
   }, []);
   
+  // Open the event an activity feed link points at once the events are loaded
+  useEffect(() => {
+    if (!linkedId || loading) return;
+    const linkedEvent = events.find(event => event.id === linkedId);
+    if (linkedEvent) {
+      setSelectedEvent(linkedEvent);
+      setShowDetailDialog(true);
+    }
+  }, [linkedId, loading, events]);
+  
+  const handleDetailOpenChange = (open: boolean) => {
+    setShowDetailDialog(open);
+    if (!open && linkedId) clearLinkedRecord();
+  };
+  
   async function fetchEvents() {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('events')
-        .select('*, animals(id, name, tag_number)');
-      
-      if (error) throw error;
-      
-      // Transform the data to match the expected format
-      const formattedEvents = data.map(event => {
-        // Format the animals array - either from related animal or from notes
-        let animalsList: string[] = [];
-        if (event.animal_id) {
-          // If it's linked to an animal in the database
-          const animalName = event.animals?.name || 'Unknown';
-          const animalTag = event.animals?.tag_number || 'Unknown';
-          animalsList.push(`${animalName} (#${animalTag})`);
-        } else if (event.notes) {
-          // Sometimes notes might contain json with animal groups or other info
-          try {
-            const notesData = JSON.parse(event.notes);
-            if (Array.isArray(notesData.animals)) {
-              animalsList = notesData.animals;
-            }
-          } catch {
-            // If notes is not parseable JSON with animals, leave array empty
-          }
+      // Open events from earlier days become Missed before the list is read
+      // Offline the list still loads; it is marked once the connection is back
+      await markMissedEvents().catch(error => {
+        console.error('Error marking missed events:', error);
+        if (!isNetworkError(error)) {
+          toast({
+            title: "Could not mark missed events",
+            description: (error as { message?: string }).message || "Past events may still show as upcoming",
+            variant: "destructive",
+          });
         }
-        
-        return {
-          id: event.id,
-          title: event.description, // Using description as title since that's what we have in the schema
-          type: event.event_type as EventType,
-          date: event.date,
-          time: event.notes?.includes('time:') ? event.notes.split('time:')[1]?.trim().split(' ')[0] : undefined,
-          description: event.description,
-          animals: animalsList,
-          status: event.notes?.includes('status:') ? 
-            (event.notes.split('status:')[1]?.trim().split(' ')[0] as "Upcoming" | "In Progress" | "Completed" | "Missed") : 
-            "Upcoming"
-        };
       });
-      
-      setEvents(formattedEvents);
+      const data = await fetchCached('events');
+      setEvents(toFarmEvents(data));
+
+      fetchAssignees()
+        .then(assignees => setAssigneeNames(Object.fromEntries(assignees.map(assignee => [assignee.id, assignee.name]))))
+        .catch(error => console.error('Error fetching assignees:', error));
+
+      Promise.all([fetchCached('animals'), fetchMobs(), fetchPaddocks()])
+        .then(([animalData, mobData, paddockData]) => {
+          setAnimalMobs(animalData.map(animal => ({ id: animal.id, mob_id: animal.mob_id ?? null })));
+          setMobs(mobData);
+          setPaddocks(paddockData);
+        })
+        .catch(error => console.error('Error fetching mobs:', error));
     } catch (error) {
       console.error('Error fetching events:', error);
       // Fallback to dummy data if fetch fails
@@ -165,16 +178,30 @@ export function EventsList() {
     }
   }
   
+  // An event belongs to a mob or paddock through its animals; a paddock also claims events held at it
+  const mobAnimalIds = animalIdsMatchingMobFilter(animalMobs, mobs, mobFilter, paddockFilter);
+  const paddockName = paddocks.find(paddock => paddock.id === paddockFilter)?.name.toLowerCase();
+  const matchesMob = (event: FarmEvent) => {
+    if (mobFilter === 'all' && paddockFilter === 'all') return true;
+    const animalIds = [event.animalId, ...(event.entries ?? []).map(entry => entry.animalId)].filter(Boolean);
+    if (animalIds.some(id => mobAnimalIds.has(id))) return true;
+    return mobFilter === 'all' && !!paddockName && event.location?.trim().toLowerCase() === paddockName;
+  };
+  
   const filteredEvents = events
+    .filter(matchesMob)
     .filter(event => 
       event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       event.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.type.toLowerCase().includes(searchQuery.toLowerCase())
+      event.type.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (event.location ?? "").toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (event.entries ?? []).some(entry => entry.animalLabel.toLowerCase().includes(searchQuery.toLowerCase()))
     )
     .filter(event => {
       if (statusFilter === 'all') return true;
       if (statusFilter === 'upcoming') return event.status === 'Upcoming' || event.status === 'In Progress';
       if (statusFilter === 'completed') return event.status === 'Completed';
+      if (statusFilter === 'missed') return event.status === 'Missed';
       return true;
     });
   
@@ -208,16 +235,44 @@ export function EventsList() {
               />
             </div>
             
+            <div className="flex gap-2">
+              <Select value={mobFilter} onValueChange={setMobFilter}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue placeholder="Mob" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Mobs</SelectItem>
+                  {mobs.map(mob => (
+                    <SelectItem key={mob.id} value={mob.id}>{mob.name}</SelectItem>
+                  ))}
+                  <SelectItem value="none">No Mob</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={paddockFilter} onValueChange={setPaddockFilter}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue placeholder="Paddock" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Paddocks</SelectItem>
+                  {paddocks.map(paddock => (
+                    <SelectItem key={paddock.id} value={paddock.id}>{paddock.name}</SelectItem>
+                  ))}
+                  <SelectItem value="none">{NO_PADDOCK_LABEL}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
             <Tabs 
               defaultValue="all" 
-              className="w-[300px]" 
+              className="w-[400px]" 
               value={statusFilter}
-              onValueChange={(value) => setStatusFilter(value as 'all' | 'upcoming' | 'completed')}
+              onValueChange={(value) => setStatusFilter(value as 'all' | 'upcoming' | 'completed' | 'missed')}
             >
-              <TabsList className="grid grid-cols-3">
+              <TabsList className="grid grid-cols-4">
                 <TabsTrigger value="all">All</TabsTrigger>
                 <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
                 <TabsTrigger value="completed">Completed</TabsTrigger>
+                <TabsTrigger value="missed">Missed</TabsTrigger>
               </TabsList>
             </Tabs>
             
@@ -260,9 +315,9 @@ export function EventsList() {
                           day: "numeric",
                         })}
                       </span>
-                      {event.time && (
+                      {formatEventTime(event) && (
                         <span className="text-xs text-muted-foreground">
-                          {event.time}
+                          {formatEventTime(event)}
                         </span>
                       )}
                     </div>
@@ -288,12 +343,34 @@ export function EventsList() {
                         {event.description}
                       </p>
                       
+                      {(event.location || event.assignedTo.length > 0) && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground mb-2">
+                          {event.location && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {event.location}
+                            </span>
+                          )}
+                          {event.assignedTo.length > 0 && (
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {event.assignedTo.map(id => assigneeNames[id] ?? "Farm member").join(", ")}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      
                       <div className="flex flex-wrap gap-1">
                         {event.animals.map((animal, index) => (
                           <Badge key={index} variant="secondary" className="text-xs font-normal">
                             {animal}
                           </Badge>
                         ))}
+                        {event.groupSize && (
+                          <Badge variant="outline" className="text-xs font-normal">
+                            {groupSummaryLabel(event.groupSize, event.entries?.filter(entry => entry.exception).length)}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     
@@ -318,9 +395,7 @@ export function EventsList() {
               )}
             </div>
           ) : (
-            <div className="h-[400px] flex items-center justify-center border rounded-lg">
-              <p className="text-muted-foreground">Calendar view will be implemented here.</p>
-            </div>
+            <FarmCalendar sources={["event"]} onReschedule={fetchEvents} />
           )}
         </CardContent>
       </Card>
@@ -333,8 +408,9 @@ export function EventsList() {
       
       <EventDetailDialog
         open={showDetailDialog}
-        onOpenChange={setShowDetailDialog}
+        onOpenChange={handleDetailOpenChange}
         event={selectedEvent}
+        assigneeNames={assigneeNames}
         onSuccess={fetchEvents}
       />
     </>
@@ -0,0 +1,209 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchLineage, PedigreeAnimal } from "@/lib/pedigree";
+import {
+  createInbreedingCalculator,
+  DEFAULT_INBREEDING_THRESHOLD,
+  formatCoefficient,
+  rankSires,
+} from "@/lib/inbreeding";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { toast } from "sonner";
+
+interface PlanMatingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const INACTIVE_STATUSES = ['Sold', 'Dead', 'Culled'];
+
+export function PlanMatingDialog({ open, onOpenChange }: PlanMatingDialogProps) {
+  const [lineage, setLineage] = useState<Map<string, PedigreeAnimal>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [eweId, setEweId] = useState("");
+  const [ramId, setRamId] = useState("");
+  const { settings } = useFarmSettings();
+
+  const threshold = settings?.inbreeding_threshold ?? DEFAULT_INBREEDING_THRESHOLD;
+
+  useEffect(() => {
+    if (open) {
+      loadLineage();
+    } else {
+      setEweId("");
+      setRamId("");
+    }
+  }, [open]);
+
+  async function loadLineage() {
+    try {
+      setLoading(true);
+      setLineage(await fetchLineage());
+    } catch (error) {
+      console.error('Error fetching animals:', error);
+      toast.error("Database Error", {
+        description: "Failed to load animals. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const activeAnimals = useMemo(
+    () => Array.from(lineage.values())
+      .filter(animal => !INACTIVE_STATUSES.includes(animal.status))
+      .sort((a, b) => a.tag_number.localeCompare(b.tag_number)),
+    [lineage]
+  );
+  const ewes = activeAnimals.filter(animal => animal.sex === 'Female');
+  const rams = activeAnimals.filter(animal => animal.sex === 'Male');
+
+  const calculator = useMemo(() => createInbreedingCalculator(lineage), [lineage]);
+  const rankings = eweId ? rankSires(calculator, eweId, rams, threshold) : [];
+  const selected = rankings.find(ranking => ranking.sire.id === ramId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Plan Mating</DialogTitle>
+          <DialogDescription>
+            Inbreeding coefficient of the prospective lamb, from recorded pedigrees.
+            Warning threshold: {formatCoefficient(threshold)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-farm-green"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Ewe</Label>
+                <Select value={eweId} onValueChange={setEweId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select ewe" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ewes.map(ewe => (
+                      <SelectItem key={ewe.id} value={ewe.id}>
+                        {ewe.name} (#{ewe.tag_number})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ram</Label>
+                <Select value={ramId} onValueChange={setRamId} disabled={!eweId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select ram" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rams.map(ram => (
+                      <SelectItem key={ram.id} value={ram.id}>
+                        {ram.name} (#{ram.tag_number})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {selected && (
+              <Alert variant={selected.exceedsThreshold ? "destructive" : "default"}>
+                {selected.exceedsThreshold ? (
+                  <AlertTriangle className="h-4 w-4" />
+                ) : (
+                  <CheckCircle className="h-4 w-4" />
+                )}
+                <AlertTitle>
+                  Inbreeding coefficient: {formatCoefficient(selected.coefficient)}
+                </AlertTitle>
+                <AlertDescription>
+                  {selected.exceedsThreshold
+                    ? `This mating exceeds the ${formatCoefficient(threshold)} threshold set in Settings.`
+                    : "This mating is within the threshold set in Settings."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {eweId && (
+              <div className="border rounded-md max-h-[300px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rank</TableHead>
+                      <TableHead>Ram</TableHead>
+                      <TableHead>Breed</TableHead>
+                      <TableHead className="text-right">Lamb F</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rankings.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          No active rams registered
+                        </TableCell>
+                      </TableRow>
+                    ) : rankings.map((ranking, index) => (
+                      <TableRow
+                        key={ranking.sire.id}
+                        className={cn("cursor-pointer", ranking.sire.id === ramId && "bg-muted")}
+                        onClick={() => setRamId(ranking.sire.id)}
+                      >
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell>
+                          {ranking.sire.name} <span className="font-mono text-xs">#{ranking.sire.tag_number}</span>
+                        </TableCell>
+                        <TableCell>{ranking.sire.breed}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge
+                            variant="outline"
+                            className={ranking.exceedsThreshold
+                              ? "bg-red-100 text-red-800 border-red-200"
+                              : "bg-green-100 text-green-800 border-green-200"}
+                          >
+                            {formatCoefficient(ranking.coefficient)}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
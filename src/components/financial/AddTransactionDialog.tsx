@@ -28,6 +28,12 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
+import { EXPENSE_CATEGORIES, INCOME_CATEGORIES, PAYMENT_METHODS } from "@/lib/finance";
+import { taxFromGross } from "@/lib/tax";
+import { checkBudgetAlerts } from "@/lib/budgets";
+import { createRecurringTransaction, frequencyLabels, postDueTransactions } from "@/lib/recurring";
+import { baseCurrency, CURRENCIES, CURRENCY_CODES, CurrencyCode, currencySymbol, formatMoney, lookupExchangeRate } from "@/lib/currency";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
 import { CalendarIcon } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
@@ -50,13 +56,52 @@ const formSchema = z.object({
   description: z.string().min(3, { message: "Description must be at least 3 characters" }),
   relatedTo: z.enum(["Animal", "Farm", "Other"]),
   animalId: z.string().optional(),
-  paymentMethod: z.enum(["Cash", "Bank Transfer", "Credit Card", "Mobile Money", "Check", "Other"]),
+  paymentMethod: z.enum(PAYMENT_METHODS),
   reference: z.string().optional(),
-});
+  // Empty when the transaction is in the farm's base currency
+  currency: z.string(),
+  exchangeRate: z.string().optional(),
+  // Percentage, and the part of the amount that is tax; both empty when no tax was charged
+  taxRate: z.string().optional(),
+  taxAmount: z.string().optional(),
+  repeat: z.enum(["none", "weekly", "monthly", "quarterly", "custom"]),
+  intervalDays: z.string().optional(),
+  endDate: z.date().optional(),
+})
+  .refine((data) => data.repeat !== "custom" || (Number.isInteger(Number(data.intervalDays)) && Number(data.intervalDays) > 0), {
+    message: "Enter the number of days between transactions",
+    path: ["intervalDays"],
+  })
+  .refine((data) => data.repeat === "none" || !data.endDate || data.endDate >= data.date, {
+    message: "The end date must be on or after the first date",
+    path: ["endDate"],
+  })
+  .refine((data) => !data.currency || (!isNaN(Number(data.exchangeRate)) && Number(data.exchangeRate) > 0), {
+    message: "Enter the exchange rate to the base currency",
+    path: ["exchangeRate"],
+  })
+  .refine((data) => !data.currency || data.repeat === "none", {
+    message: "Recurring transactions are recorded in the base currency",
+    path: ["currency"],
+  })
+  .refine((data) => !data.taxRate || (!isNaN(Number(data.taxRate)) && Number(data.taxRate) >= 0 && Number(data.taxRate) <= 100), {
+    message: "Enter a tax rate between 0 and 100",
+    path: ["taxRate"],
+  })
+  .refine((data) => !data.taxAmount || (!isNaN(Number(data.taxAmount)) && Number(data.taxAmount) >= 0 && Number(data.taxAmount) <= Number(data.amount)), {
+    message: "The tax cannot be more than the amount",
+    path: ["taxAmount"],
+  })
+  .refine((data) => !(data.taxRate || data.taxAmount) || data.repeat === "none", {
+    message: "Recurring transactions are recorded without tax",
+    path: ["taxRate"],
+  });
 
 type FormValues = z.infer<typeof formSchema>;
 
 export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTransactionDialogProps) {
+  const { settings } = useFarmSettings();
+  const base = baseCurrency(settings);
   // Using sonner toast
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [animals, setAnimals] = useState<Array<{ id: string, name: string, tag: string }>>([]);
@@ -99,6 +144,12 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
       relatedTo: "Farm",
       paymentMethod: "Cash",
       reference: "",
+      currency: "",
+      exchangeRate: "",
+      taxRate: "",
+      taxAmount: "",
+      repeat: "none",
+      intervalDays: "",
     },
   });
 
@@ -119,6 +170,37 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
         animal_id: data.relatedTo === 'Animal' ? data.animalId : null
       };
       
+      const currency = data.currency || base;
+      
+      if (data.repeat !== "none") {
+        // A repeating transaction is saved as a series; postDueTransactions then posts
+        // the occurrences already due, including the first one when it is dated today
+        await createRecurringTransaction({
+          ...transactionData,
+          frequency: data.repeat,
+          interval_days: data.repeat === "custom" ? parseInt(data.intervalDays, 10) : null,
+          // The local date picked, not the UTC one, so the series keeps the chosen day of the month
+          start_date: format(data.date, "yyyy-MM-dd"),
+          end_date: data.endDate ? format(data.endDate, "yyyy-MM-dd") : null,
+        });
+        const posted = await postDueTransactions();
+        
+        toast.success("Recurring Transaction Added", {
+          description: `${frequencyLabels[data.repeat]} ${data.type.toLowerCase()} of ${formatMoney(transactionData.amount, currency)} for ${data.category}` +
+            (posted ? `. ${posted} ${posted === 1 ? 'transaction has' : 'transactions have'} been posted so far.` : '')
+        });
+        
+        if (data.type === "Expense" && posted > 0) {
+          checkBudgetAlerts(settings)
+            .catch(alertError => console.error('Error checking budget alerts:', alertError));
+        }
+        
+        form.reset();
+        onOpenChange(false);
+        onSuccess?.();
+        return;
+      }
+      
       // Get the current user if available
       const { data: authData } = await supabase.auth.getUser();
       const currentUser = authData?.user;
@@ -132,7 +214,13 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
       // Insert into Supabase with returning data to confirm
       const { data: insertedData, error } = await supabase
         .from('financial_transactions')
-        .insert(transactionData)
+        .insert({
+          ...transactionData,
+          currency,
+          exchange_rate: data.currency ? parseFloat(data.exchangeRate) : 1,
+          tax_rate: data.taxRate ? parseFloat(data.taxRate) : null,
+          tax_amount: data.taxAmount ? parseFloat(data.taxAmount) : null,
+        })
         .select();
       
       if (!error && (!insertedData || insertedData.length === 0)) {
@@ -142,9 +230,15 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
       if (error) throw error;
       
       toast.success("Transaction Added", {
-        description: `Added ${data.type.toLowerCase()} of KSh ${data.amount} for ${data.category}`
+        description: `Added ${data.type.toLowerCase()} of ${formatMoney(transactionData.amount, currency)} for ${data.category}`
       });
       
+      // A new expense may take its category over the budget alert threshold
+      if (data.type === "Expense") {
+        checkBudgetAlerts(settings)
+          .catch(alertError => console.error('Error checking budget alerts:', alertError));
+      }
+      
       // Reset form and close dialog
       form.reset();
       onOpenChange(false);
@@ -165,36 +259,50 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
 
   const watchType = form.watch("type");
   const watchRelatedTo = form.watch("relatedTo");
+  const watchRepeat = form.watch("repeat");
+  const watchCurrency = form.watch("currency");
+  const watchDate = form.watch("date");
+  const [rateNote, setRateNote] = useState("");
   
-  const expenseCategories = [
-    "Feed",
-    "Medication",
-    "Veterinary Services",
-    "Equipment",
-    "Shearing",
-    "Labor",
-    "Transport",
-    "Utilities",
-    "Repairs",
-    "Insurance",
-    "Other"
-  ];
+  // Fill in the latest stored rate for a foreign currency; it can still be changed by hand
+  useEffect(() => {
+    if (!watchCurrency || !watchDate) {
+      setRateNote("");
+      return;
+    }
+    const date = format(watchDate, "yyyy-MM-dd");
+    lookupExchangeRate(watchCurrency as CurrencyCode, base, date)
+      .then(rate => {
+        if (rate) {
+          form.setValue("exchangeRate", String(rate));
+          setRateNote(`Latest stored rate on or before ${format(watchDate, "PP")}`);
+        } else {
+          form.setValue("exchangeRate", "");
+          setRateNote(`No ${watchCurrency} rate stored yet. Enter the rate you were charged.`);
+        }
+      })
+      .catch(error => console.error('Error looking up exchange rate:', error));
+  }, [watchCurrency, watchDate, base, form]);
   
-  const incomeCategories = [
-    "Sheep Sales",
-    "Wool Sales",
-    "Breeding Services",
-    "Manure Sales",
-    "Government Subsidies",
-    "Insurance Claims",
-    "Other"
-  ];
+  const watchAmount = form.watch("amount");
+  const watchTaxRate = form.watch("taxRate");
+  
+  // The amount includes tax, so work the tax out of it; it can still be changed by hand
+  useEffect(() => {
+    const amount = Number(watchAmount);
+    const rate = Number(watchTaxRate);
+    if (!watchTaxRate || isNaN(rate) || !(amount > 0)) {
+      form.setValue("taxAmount", "");
+      return;
+    }
+    form.setValue("taxAmount", taxFromGross(amount, rate).toFixed(2));
+  }, [watchAmount, watchTaxRate, form]);
   
-  const categories = watchType === "Income" ? incomeCategories : expenseCategories;
+  const categories = watchType === "Income" ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl">Add Transaction</DialogTitle>
         </DialogHeader>
@@ -267,7 +375,7 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
                     <FormLabel>Amount</FormLabel>
                     <FormControl>
                       <div className="relative">
-                        <span className="absolute left-3 top-3 text-gray-500">KSh</span>
+                        <span className="absolute left-3 top-3 text-gray-500">{currencySymbol(watchCurrency || base)}</span>
                         <Input 
                           placeholder="0.00" 
                           {...field} 
@@ -320,6 +428,81 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select 
+                      // The base currency is stored as empty so that no rate is asked for
+                      onValueChange={(value) => field.onChange(value === base ? "" : value)} 
+                      value={field.value || base}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CURRENCY_CODES.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code} - {CURRENCIES[code].name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {watchCurrency && (
+                <FormField
+                  control={form.control}
+                  name="exchangeRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Exchange Rate ({base} per 1 {watchCurrency})</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="any" placeholder="e.g. 129.50" {...field} />
+                      </FormControl>
+                      {rateNote && <p className="text-xs text-muted-foreground">{rateNote}</p>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="taxRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax Rate (%) (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max="100" step="any" placeholder="e.g. 16" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="taxAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax Included</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="0.00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <FormField
                 control={form.control}
                 name="relatedTo"
@@ -387,12 +570,9 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Cash">Cash</SelectItem>
-                        <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
-                        <SelectItem value="Credit Card">Credit Card</SelectItem>
-                        <SelectItem value="Mobile Money">Mobile Money</SelectItem>
-                        <SelectItem value="Check">Check</SelectItem>
-                        <SelectItem value="Other">Other</SelectItem>
+                        {PAYMENT_METHODS.map(method => (
+                          <SelectItem key={method} value={method}>{method}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -435,6 +615,90 @@ export function AddTransactionDialog({ open, onOpenChange, onSuccess }: AddTrans
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
+              <FormField
+                control={form.control}
+                name="repeat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Does not repeat" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        {Object.entries(frequencyLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {watchRepeat === "custom" && (
+                <FormField
+                  control={form.control}
+                  name="intervalDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" placeholder="e.g. 14" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {watchRepeat !== "none" && (
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>End Date (Optional)</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant={"outline"}
+                              className={cn(
+                                "pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              {field.value ? (
+                                format(field.value, "PPP")
+                              ) : (
+                                <span>No end date</span>
+                              )}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            initialFocus
+                            className="p-3 pointer-events-auto"
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             <DialogFooter>
               <Button 
                 type="button" 
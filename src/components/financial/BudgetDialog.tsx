@@ -0,0 +1,196 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Budget, BudgetType, financialYearMonths, saveBudget } from "@/lib/budgets";
+import { EXPENSE_CATEGORIES, financialYearLabel, INCOME_CATEGORIES } from "@/lib/finance";
+import { CurrencyCode, currencySymbol, formatMoney } from "@/lib/currency";
+
+interface BudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** First day of the financial year being budgeted */
+  yearStart: Date;
+  /** The category being edited, or null to add a budget for a new category */
+  editing: { type: BudgetType; category: string } | null;
+  budgets: Budget[];
+  /** The farm's base currency, which budgets are set in */
+  currency: CurrencyCode;
+  /** Categories used in transactions, offered alongside the standard ones */
+  usedCategories: { type: string; category: string }[];
+  onSuccess?: () => void;
+}
+
+export function BudgetDialog({ open, onOpenChange, yearStart, editing, budgets, currency, usedCategories, onSuccess }: BudgetDialogProps) {
+  const months = financialYearMonths(yearStart);
+  const [type, setType] = useState<BudgetType>("Expense");
+  const [category, setCategory] = useState("");
+  const [amounts, setAmounts] = useState<string[]>(months.map(() => ""));
+  const [annualTotal, setAnnualTotal] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setType(editing?.type ?? "Expense");
+    setCategory(editing?.category ?? "");
+    setAnnualTotal("");
+    setAmounts(financialYearMonths(yearStart).map(month => {
+      const budget = editing && budgets.find(b => b.type === editing.type && b.category === editing.category && b.month === month);
+      return budget ? String(Number(budget.amount)) : "";
+    }));
+  }, [open, editing, budgets, yearStart]);
+
+  const standard = type === "Income" ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
+  const budgeted = new Set(budgets.filter(b => b.type === type).map(b => b.category));
+  const categoryOptions = Array.from(new Set([
+    ...standard,
+    ...usedCategories.filter(c => c.type === type).map(c => c.category),
+  ])).filter(option => !budgeted.has(option));
+
+  const total = amounts.reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
+
+  const spreadEvenly = () => {
+    const annual = parseFloat(annualTotal);
+    if (isNaN(annual) || annual < 0) return;
+    const monthly = Math.floor(annual / 12 * 100) / 100;
+    // Any rounding remainder goes on the last month so the months add up to the total
+    const last = Math.round((annual - monthly * 11) * 100) / 100;
+    setAmounts(months.map((_, i) => String(i === 11 ? last : monthly)));
+  };
+
+  const handleSave = async () => {
+    if (!category) {
+      toast.error("Category required", { description: "Choose the category this budget is for." });
+      return;
+    }
+    if (amounts.some(amount => amount !== "" && (isNaN(parseFloat(amount)) || parseFloat(amount) < 0))) {
+      toast.error("Invalid amount", { description: "Monthly amounts must be zero or more." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveBudget(type, category, months.map((month, i) => ({ month, amount: parseFloat(amounts[i]) || 0 })));
+      toast.success("Budget saved", {
+        description: `${category} budget for ${financialYearLabel(yearStart)}: ${formatMoney(total, currency)}`
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      toast.error("Database Error", {
+        description: "Failed to save the budget. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit ${editing.category} Budget` : "Add Budget"}</DialogTitle>
+          <DialogDescription>
+            Monthly amounts for {financialYearLabel(yearStart)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!editing && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budgetType">Type</Label>
+                <Select value={type} onValueChange={(value) => { setType(value as BudgetType); setCategory(""); }}>
+                  <SelectTrigger id="budgetType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Expense">Expense</SelectItem>
+                    <SelectItem value="Income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budgetCategory">Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger id="budgetCategory">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categoryOptions.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-grow">
+              <Label htmlFor="annualTotal">Annual total ({currencySymbol(currency)})</Label>
+              <Input
+                id="annualTotal"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="e.g. 120000"
+                value={annualTotal}
+                onChange={(e) => setAnnualTotal(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="border-farm-green text-farm-green hover:bg-farm-green/10"
+              onClick={spreadEvenly}
+              disabled={!annualTotal}
+            >
+              Spread evenly
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {months.map((month, i) => (
+              <div key={month} className="space-y-1">
+                <Label htmlFor={`budget-${month}`} className="text-xs">{format(parseISO(month), "MMM yyyy")}</Label>
+                <Input
+                  id={`budget-${month}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amounts[i]}
+                  onChange={(e) => setAmounts(prev => prev.map((amount, j) => j === i ? e.target.value : amount))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-muted-foreground text-right">
+            Total: {formatMoney(total, currency)}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Budget"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
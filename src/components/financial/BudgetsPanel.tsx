@@ -0,0 +1,322 @@
+import { useState, useEffect } from "react";
+import { addYears, format } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import {
+  Budget,
+  BudgetTransaction,
+  BudgetType,
+  budgetVariance,
+  checkBudgetAlerts,
+  DEFAULT_BUDGET_ALERT_THRESHOLD,
+  deleteBudget,
+  fetchBudgets,
+} from "@/lib/budgets";
+import { financialYearLabel, financialYearStart, financialYearStartMonth, periodRange } from "@/lib/finance";
+import { baseCurrency, formatMoney, toBaseAmount } from "@/lib/currency";
+import { BudgetDialog } from "./BudgetDialog";
+
+export function BudgetsPanel() {
+  const { settings } = useFarmSettings();
+  const threshold = settings?.budget_alert_threshold ?? DEFAULT_BUDGET_ALERT_THRESHOLD;
+  const currency = baseCurrency(settings);
+  const startMonth = financialYearStartMonth(settings);
+  const currentYearStart = financialYearStart(new Date(), startMonth);
+  const yearOptions = [-1, 0, 1].map(offset => addYears(currentYearStart, offset));
+
+  const [yearStart, setYearStart] = useState(currentYearStart);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [transactions, setTransactions] = useState<BudgetTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editing, setEditing] = useState<{ type: BudgetType; category: string } | null>(null);
+  const [deleting, setDeleting] = useState<{ type: BudgetType; category: string } | null>(null);
+
+  const range = periodRange("financial_year", yearStart, { financialYearStartMonth: yearStart.getMonth() + 1 });
+  const isCurrentYear = yearStart.getTime() === currentYearStart.getTime();
+
+  // Settings arrive after the first render, so move to the farm's own financial year once they do
+  useEffect(() => {
+    setYearStart(financialYearStart(new Date(), startMonth));
+  }, [startMonth]);
+
+  useEffect(() => {
+    fetchBudgetData();
+  }, [yearStart]);
+
+  async function fetchBudgetData() {
+    try {
+      setLoading(true);
+      const [budgetRows, transactionsResult] = await Promise.all([
+        fetchBudgets(range),
+        supabase
+          .from('financial_transactions')
+          .select('date, type, category, amount, exchange_rate')
+          .gte('date', format(range.from, "yyyy-MM-dd"))
+          .lte('date', format(range.to, "yyyy-MM-dd")),
+      ]);
+
+      if (transactionsResult.error) throw transactionsResult.error;
+
+      setBudgets(budgetRows);
+      setTransactions((transactionsResult.data || []).map(t => ({ ...t, amount: toBaseAmount(t) })));
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+      toast.error("Database Error", {
+        description: "Failed to load budgets. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Keep the budget alerts up to date whenever the current year's figures are looked at
+  useEffect(() => {
+    if (loading || !isCurrentYear || budgets.length === 0) return;
+    checkBudgetAlerts(settings).catch(error => console.error('Error checking budget alerts:', error));
+  }, [loading, isCurrentYear, budgets, settings]);
+
+  const variances = budgetVariance(budgets, transactions, range);
+  const expenses = variances.filter(v => v.type === "Expense");
+  const expenseBudget = expenses.reduce((sum, v) => sum + v.budget, 0);
+  const expenseActual = expenses.reduce((sum, v) => sum + v.actual, 0);
+  const usedCategories = Array.from(
+    new Map(transactions.map(t => [`${t.type}:${t.category}`, { type: t.type, category: t.category }])).values()
+  );
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteBudget(deleting.type, deleting.category, range);
+      toast.success("Budget deleted", {
+        description: `${deleting.category} budget for ${financialYearLabel(yearStart)} has been removed.`
+      });
+      fetchBudgetData();
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      toast.error("Database Error", {
+        description: "Failed to delete the budget. Please try again."
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const usageBadge = (usedShare: number | null, type: BudgetType) => {
+    if (usedShare === null || type === "Income") return null;
+    if (usedShare >= 1) {
+      return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">Over budget</Badge>;
+    }
+    if (usedShare >= threshold) {
+      return <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">Near limit</Badge>;
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <Select
+          value={String(yearStart.getTime())}
+          onValueChange={(value) => setYearStart(new Date(Number(value)))}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {yearOptions.map(option => (
+              <SelectItem key={option.getTime()} value={String(option.getTime())}>
+                {financialYearLabel(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90"
+          onClick={() => {
+            setEditing(null);
+            setShowDialog(true);
+          }}
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Budget</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="py-4">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Expense Budget</CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-4">
+            <div className="text-2xl font-bold">{formatMoney(expenseBudget, currency)}</div>
+            <p className="text-xs text-muted-foreground mt-1">{financialYearLabel(yearStart)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="py-4">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Spent</CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-4">
+            <div className="text-2xl font-bold">{formatMoney(expenseActual, currency)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {expenseBudget ? `${Math.round(expenseActual / expenseBudget * 100)}% of budget` : "No budget set"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="py-4">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Remaining</CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-4">
+            <div className={cn("text-2xl font-bold", expenseBudget - expenseActual < 0 && "text-red-600")}>
+              {formatMoney(expenseBudget - expenseActual, currency)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Budgeted expense categories only</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Budget vs Actual</CardTitle>
+          <CardDescription>
+            Budget to date counts each month's budget up to today. Variance is positive when spending is under budget or income is ahead of it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading budgets...
+            </div>
+          ) : variances.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No budgets set for {financialYearLabel(yearStart)}.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Category</th>
+                    <th className="py-2 pr-4 font-medium text-right">Annual Budget</th>
+                    <th className="py-2 pr-4 font-medium text-right">Budget to Date</th>
+                    <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                    <th className="py-2 pr-4 font-medium text-right">Variance</th>
+                    <th className="py-2 pr-4 font-medium w-[180px]">Used</th>
+                    <th className="py-2 font-medium sr-only">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {variances.map(line => (
+                    <tr key={`${line.type}:${line.category}`} className="border-b last:border-0">
+                      <td className="py-3 pr-4">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{line.category}</span>
+                          <Badge variant="outline" className="text-xs font-normal">{line.type}</Badge>
+                          {usageBadge(line.usedShare, line.type)}
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 text-right">{formatMoney(line.budget, currency)}</td>
+                      <td className="py-3 pr-4 text-right">{formatMoney(line.budgetToDate, currency)}</td>
+                      <td className="py-3 pr-4 text-right">{formatMoney(line.actual, currency)}</td>
+                      <td className={cn("py-3 pr-4 text-right font-medium", line.variance < 0 ? "text-red-600" : "text-green-600")}>
+                        {line.variance < 0 ? "-" : "+"}{formatMoney(Math.abs(line.variance), currency)}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {line.usedShare === null ? (
+                          <span className="text-muted-foreground">No budget</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Progress value={Math.min(100, line.usedShare * 100)} className="h-2" />
+                            <span className="w-10 text-right">{Math.round(line.usedShare * 100)}%</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => {
+                            setEditing({ type: line.type, category: line.category });
+                            setShowDialog(true);
+                          }}
+                          title="Edit budget"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-600 hover:text-red-700"
+                          onClick={() => setDeleting({ type: line.type, category: line.category })}
+                          title="Delete budget"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BudgetDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        yearStart={yearStart}
+        editing={editing}
+        budgets={budgets}
+        currency={currency}
+        usedCategories={usedCategories}
+        onSuccess={fetchBudgetData}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete budget?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the {deleting?.category} budget for every month of {financialYearLabel(yearStart)}.
+              Transactions are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { parseImportFile } from "@/lib/animal-import";
+import {
+  CURRENCY_CODES,
+  CurrencyCode,
+  deleteExchangeRate,
+  ExchangeRate,
+  fetchExchangeRates,
+  parseRateTable,
+  saveExchangeRates,
+} from "@/lib/currency";
+
+interface ExchangeRatesCardProps {
+  /** The farm's base currency, which rates convert to */
+  base: CurrencyCode;
+}
+
+// Rates listed before "Show all" is needed
+const VISIBLE_RATES = 20;
+
+export function ExchangeRatesCard({ base }: ExchangeRatesCardProps) {
+  const foreignCurrencies = CURRENCY_CODES.filter(code => code !== base);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(foreignCurrencies[0]);
+  const [rateDate, setRateDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [rate, setRate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  // The chosen currency may have just become the base currency
+  const selected = currency === base ? foreignCurrencies[0] : currency;
+
+  useEffect(() => {
+    fetchRates();
+  }, [base]);
+
+  async function fetchRates() {
+    try {
+      setLoading(true);
+      setRates(await fetchExchangeRates(base));
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast.error("Database Error", {
+        description: "Failed to load exchange rates. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleAdd = async () => {
+    const value = parseFloat(rate);
+    if (!rateDate || isNaN(value) || value <= 0) {
+      toast.error("Invalid rate", { description: "Enter a date and a rate greater than zero." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveExchangeRates(base, [{ currency: selected, rate_date: rateDate, rate: value }]);
+      toast.success("Rate saved", {
+        description: `1 ${selected} = ${value} ${base} on ${format(parseISO(rateDate), "MMM d, yyyy")}`
+      });
+      setRate("");
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error("Database Error", {
+        description: "Failed to save the exchange rate. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const rows = parseRateTable(await parseImportFile(file), base);
+      const invalid = rows.filter(row => row.errors.length > 0);
+      if (invalid.length > 0) {
+        toast.error("Some rows could not be read", {
+          description: invalid.slice(0, 3).map(row => `Row ${row.rowNumber}: ${row.errors[0]}`).join(". ") +
+            (invalid.length > 3 ? `. ${invalid.length - 3} more rows have problems.` : ".")
+        });
+        return;
+      }
+      if (rows.length === 0) {
+        toast.error("No rates found", { description: "The file has no rows after the header." });
+        return;
+      }
+
+      await saveExchangeRates(
+        base,
+        rows.map(row => ({ currency: row.currency, rate_date: row.rate_date, rate: row.rate })),
+        "import"
+      );
+      toast.success("Rates imported", {
+        description: `${rows.length} ${rows.length === 1 ? "rate" : "rates"} imported. Rates already stored for the same days were replaced.`
+      });
+      fetchRates();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      toast.error("Import failed", {
+        description: error instanceof Error ? error.message : "An error occurred while importing. Please try again."
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteExchangeRate(id);
+      setRates(prev => prev.filter(r => r.id !== id));
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error("Database Error", {
+        description: "Failed to delete the exchange rate. Please try again."
+      });
+    }
+  };
+
+  const visibleRates = showAll ? rates : rates.slice(0, VISIBLE_RATES);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Rates to {base}, used to fill in the rate on new transactions in other currencies.
+          Each transaction keeps the rate it was saved with.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="rateCurrency">Currency</Label>
+            <Select value={selected} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+              <SelectTrigger id="rateCurrency" className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {foreignCurrencies.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rateDate">Date</Label>
+            <Input id="rateDate" type="date" value={rateDate} onChange={(e) => setRateDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rateValue">{base} per 1 {selected}</Label>
+            <Input
+              id="rateValue"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="e.g. 129.50"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleAdd} disabled={isSaving}>
+            <Plus className="mr-2 h-4 w-4" />
+            {isSaving ? "Saving..." : "Add Rate"}
+          </Button>
+        </div>
+
+        <div className="border rounded-md p-4">
+          <Label htmlFor="rateFile" className="flex items-center gap-2 mb-2">
+            <Upload className="h-4 w-4" /> Import a rate table
+          </Label>
+          <Input
+            id="rateFile"
+            type="file"
+            accept=".csv,.xlsx"
+            disabled={isImporting}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <p className="text-sm text-muted-foreground mt-2">
+            A CSV or Excel file with date, currency and rate columns, where the rate is the number of {base} one unit of the currency buys.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading rates...
+          </div>
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No exchange rates stored yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Currency</th>
+                  <th className="py-2 pr-4 font-medium text-right">Rate</th>
+                  <th className="py-2 pr-4 font-medium">Source</th>
+                  <th className="py-2 font-medium sr-only">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRates.map(r => (
+                  <tr key={r.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{format(parseISO(r.rate_date), "MMM d, yyyy")}</td>
+                    <td className="py-2 pr-4">{r.currency}</td>
+                    <td className="py-2 pr-4 text-right">{Number(r.rate)}</td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {r.source === "import" ? "Imported" : "Manual"}
+                      </Badge>
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(r.id)}
+                        title="Delete rate"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rates.length > VISIBLE_RATES && (
+              <Button variant="link" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show fewer" : `Show all ${rates.length} rates`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO, startOfMonth } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { 
   Card, 
@@ -9,24 +10,78 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend } from 'recharts';
 import { Button } from "@/components/ui/button";
 import { Download, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { ReportRange } from "@/lib/reports";
+import {
+  elapsedRange,
+  financialYearStartMonth,
+  monthlyTotals,
+  PeriodType,
+  percentChange,
+  periodLabels,
+  periodRange,
+  previousPeriodLabels,
+  previousPeriodRange,
+  rollingTrend,
+  totalsFor,
+} from "@/lib/finance";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, currencySymbol, formatMoney, toBaseAmount } from "@/lib/currency";
+
+type TransactionRow = { date: string; type: string; category: string; amount: number };
+
+const formatRange = (range: ReportRange) =>
+  `${format(range.from, "d MMM yyyy")} – ${format(range.to, "d MMM yyyy")}`;
+
+const categoryTotals = (transactions: TransactionRow[], type: string) => {
+  const totals = new Map<string, number>();
+  transactions.filter(t => t.type === type).forEach(transaction => {
+    totals.set(transaction.category, (totals.get(transaction.category) || 0) + transaction.amount);
+  });
+  return Array.from(totals.entries()).map(([name, value]) => ({ name, value: parseFloat(value.toFixed(2)) }));
+};
+
+function GrowthIndicator({ change, risingIsGood, comparedTo }: { change: number | null; risingIsGood: boolean; comparedTo: string }) {
+  if (change === null) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        Nothing recorded in the {comparedTo}
+      </p>
+    );
+  }
+
+  const rising = change >= 0;
+  return (
+    <p className="text-xs text-muted-foreground flex items-center mt-1">
+      <span className={cn("mr-1", rising === risingIsGood ? "text-green-500" : "text-red-500")}>
+        {rising ? "↑" : "↓"} {Math.abs(change).toFixed(1)}%
+      </span>
+      vs {comparedTo}
+    </p>
+  );
+}
 
 export function FinancialSummary() {
+  const { settings } = useFarmSettings();
+  const currency = baseCurrency(settings);
+  const startMonth = financialYearStartMonth(settings);
   const [loading, setLoading] = useState(true);
-  const [monthlyData, setMonthlyData] = useState<{ name: string; income: number; expenses: number }[]>([]);
-  const [categoryData, setCategoryData] = useState<{ name: string; value: number }[]>([]);
-  const [expenseCategoryData, setExpenseCategoryData] = useState<{ name: string; value: number }[]>([]);
-  const [financialSummary, setFinancialSummary] = useState({
-    totalRevenue: 0,
-    totalExpenses: 0,
-    netProfit: 0,
-    revenueGrowth: 0,
-    expenseGrowth: 0,
-    profitGrowth: 0
-  });
+  const [transactions, setTransactions] = useState<TransactionRow[]>([]);
+  const [periodType, setPeriodType] = useState<PeriodType>("month");
+  const [customFrom, setCustomFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [customTo, setCustomTo] = useState(format(new Date(), "yyyy-MM-dd"));
   
   useEffect(() => {
     fetchFinancialData();
@@ -39,7 +94,7 @@ export function FinancialSummary() {
       // Get transactions from database
       const { data, error } = await supabase
         .from('financial_transactions')
-        .select('*')
+        .select('date, type, category, amount, exchange_rate')
         .order('date', { ascending: false });
       
       if (error) throw error;
@@ -52,91 +107,8 @@ export function FinancialSummary() {
         return;
       }
       
-      // Calculate totals
-      const income = data.filter(t => t.type === 'Income')
-        .reduce((sum, t) => sum + (typeof t.amount === 'number' ? t.amount : parseFloat(t.amount) || 0), 0);
-        
-      const expenses = data.filter(t => t.type === 'Expense')
-        .reduce((sum, t) => sum + (typeof t.amount === 'number' ? t.amount : parseFloat(t.amount) || 0), 0);
-      
-      const netProfit = income - expenses;
-      
-      setFinancialSummary({
-        totalRevenue: income,
-        totalExpenses: expenses,
-        netProfit: netProfit,
-        // For demo, use random growth percentages
-        revenueGrowth: 12,
-        expenseGrowth: 5,
-        profitGrowth: 18
-      });
-      
-      // Process monthly data
-      const months = {};
-      data.forEach(transaction => {
-        // Extract month from date
-        const month = new Date(transaction.date).toLocaleString('default', { month: 'short' });
-        if (!months[month]) {
-          months[month] = { income: 0, expenses: 0 };
-        }
-        
-        const amount = typeof transaction.amount === 'number' ? 
-          transaction.amount : parseFloat(transaction.amount) || 0;
-          
-        if (transaction.type === 'Income') {
-          months[month].income += amount;
-        } else {
-          months[month].expenses += amount;
-        }
-      });
-      
-      const monthlyChartData = Object.keys(months).map(month => ({
-        name: month,
-        income: parseFloat(months[month].income.toFixed(2)),
-        expenses: parseFloat(months[month].expenses.toFixed(2))
-      }));
-      
-      setMonthlyData(monthlyChartData);
-      
-      // Process income by category
-      const incomeCategories = {};
-      data.filter(t => t.type === 'Income').forEach(transaction => {
-        if (!incomeCategories[transaction.category]) {
-          incomeCategories[transaction.category] = 0;
-        }
-        
-        const amount = typeof transaction.amount === 'number' ? 
-          transaction.amount : parseFloat(transaction.amount) || 0;
-          
-        incomeCategories[transaction.category] += amount;
-      });
-      
-      const incomeCategoryData = Object.keys(incomeCategories).map(category => ({
-        name: category,
-        value: parseFloat(incomeCategories[category].toFixed(2))
-      }));
-      
-      setCategoryData(incomeCategoryData);
-      
-      // Process expenses by category
-      const expenseCategories = {};
-      data.filter(t => t.type === 'Expense').forEach(transaction => {
-        if (!expenseCategories[transaction.category]) {
-          expenseCategories[transaction.category] = 0;
-        }
-        
-        const amount = typeof transaction.amount === 'number' ? 
-          transaction.amount : parseFloat(transaction.amount) || 0;
-          
-        expenseCategories[transaction.category] += amount;
-      });
-      
-      const expenseCategoryData = Object.keys(expenseCategories).map(category => ({
-        name: category,
-        value: parseFloat(expenseCategories[category].toFixed(2))
-      }));
-      
-      setExpenseCategoryData(expenseCategoryData);
+      // Totals are worked out in the farm's base currency
+      setTransactions(data.map(t => ({ date: t.date, type: t.type, category: t.category, amount: toBaseAmount(t) })));
     } catch (error) {
       console.error('Error fetching financial data:', error);
       toast.error("Database Error", {
@@ -146,19 +118,89 @@ export function FinancialSummary() {
       setLoading(false);
     }
   }
+  
+  const range = useMemo(() => {
+    const custom = customFrom && customTo && customFrom <= customTo
+      ? { from: parseISO(customFrom), to: parseISO(customTo) }
+      : undefined;
+    return periodRange(periodType, new Date(), { custom, financialYearStartMonth: startMonth });
+  }, [periodType, customFrom, customTo, startMonth]);
+  
+  const summary = useMemo(() => {
+    const today = new Date();
+    const current = totalsFor(transactions, range);
+    // Growth compares the days elapsed so far with the same days of the previous period
+    const previous = totalsFor(transactions, previousPeriodRange(periodType, range, today));
+    const toDate = totalsFor(transactions, elapsedRange(range, today));
+    return {
+      current,
+      underWay: range.to > today,
+      revenueGrowth: percentChange(toDate.income, previous.income),
+      expenseGrowth: percentChange(toDate.expenses, previous.expenses),
+      profitGrowth: percentChange(toDate.net, previous.net),
+    };
+  }, [transactions, range, periodType]);
+  
+  const monthlyData = useMemo(() => monthlyTotals(transactions, range), [transactions, range]);
+  const trendData = useMemo(() => rollingTrend(transactions, elapsedRange(range).to), [transactions, range]);
+  
+  const periodTransactions = useMemo(() => {
+    const from = format(range.from, "yyyy-MM-dd");
+    const to = format(range.to, "yyyy-MM-dd");
+    return transactions.filter(t => t.date >= from && t.date <= to);
+  }, [transactions, range]);
+  const categoryData = useMemo(() => categoryTotals(periodTransactions, 'Income'), [periodTransactions]);
+  const expenseCategoryData = useMemo(() => categoryTotals(periodTransactions, 'Expense'), [periodTransactions]);
+  
+  const comparedTo = summary.underWay ? `${previousPeriodLabels[periodType]} to date` : previousPeriodLabels[periodType];
+  
   return (
     <Card className="animate-fade-in">
       <CardHeader>
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
           <div>
             <CardTitle className="text-xl">Financial Overview</CardTitle>
-            <CardDescription>Track income, expenses, and financial performance</CardDescription>
+            <CardDescription>Track income, expenses, and financial performance. Amounts are in {currency}.</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2 sm:mt-0">
+            <Select value={periodType} onValueChange={(value) => setPeriodType(value as PeriodType)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Period" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(periodLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm">
+              <Download className="mr-2 h-4 w-4" />
+              Export Report
+            </Button>
           </div>
-          <Button variant="outline" size="sm" className="mt-2 sm:mt-0">
-            <Download className="mr-2 h-4 w-4" />
-            Export Report
-          </Button>
         </div>
+        {periodType === "custom" && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={customFrom}
+              max={customTo}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              aria-label="From"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={customTo}
+              min={customFrom}
+              onChange={(e) => setCustomTo(e.target.value)}
+              aria-label="To"
+            />
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground pt-2">{formatRange(range)}</p>
       </CardHeader>
       
       <CardContent>
@@ -174,7 +216,7 @@ export function FinancialSummary() {
               <Card>
                 <CardHeader className="py-4">
                   <CardTitle className="text-sm font-medium text-muted-foreground">
-                    Total Revenue (YTD)
+                    Total Revenue
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0">
@@ -184,19 +226,17 @@ export function FinancialSummary() {
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading...
                       </div>
                     ) : (
-                      `KSh ${financialSummary.totalRevenue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                      formatMoney(summary.current.income, currency)
                     )}
                   </div>
-                  <p className="text-xs text-muted-foreground flex items-center mt-1">
-                    <span className="text-green-500 mr-1">↑ {financialSummary.revenueGrowth}%</span> from last year
-                  </p>
+                  <GrowthIndicator change={summary.revenueGrowth} risingIsGood comparedTo={comparedTo} />
                 </CardContent>
               </Card>
               
               <Card>
                 <CardHeader className="py-4">
                   <CardTitle className="text-sm font-medium text-muted-foreground">
-                    Total Expenses (YTD)
+                    Total Expenses
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0">
@@ -206,19 +246,17 @@ export function FinancialSummary() {
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading...
                       </div>
                     ) : (
-                      `KSh ${financialSummary.totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                      formatMoney(summary.current.expenses, currency)
                     )}
                   </div>
-                  <p className="text-xs text-muted-foreground flex items-center mt-1">
-                    <span className="text-red-500 mr-1">↑ {financialSummary.expenseGrowth}%</span> from last year
-                  </p>
+                  <GrowthIndicator change={summary.expenseGrowth} risingIsGood={false} comparedTo={comparedTo} />
                 </CardContent>
               </Card>
               
               <Card>
                 <CardHeader className="py-4">
                   <CardTitle className="text-sm font-medium text-muted-foreground">
-                    Net Profit (YTD)
+                    Net Profit
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0">
@@ -228,12 +266,10 @@ export function FinancialSummary() {
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading...
                       </div>
                     ) : (
-                      `KSh ${financialSummary.netProfit.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                      formatMoney(summary.current.net, currency)
                     )}
                   </div>
-                  <p className="text-xs text-muted-foreground flex items-center mt-1">
-                    <span className="text-green-500 mr-1">↑ {financialSummary.profitGrowth}%</span> from last year
-                  </p>
+                  <GrowthIndicator change={summary.profitGrowth} risingIsGood comparedTo={comparedTo} />
                 </CardContent>
               </Card>
             </div>
@@ -251,14 +287,39 @@ export function FinancialSummary() {
                   }}
                 >
                   <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                  <XAxis dataKey="name" />
+                  <XAxis dataKey="label" />
                   <YAxis />
-                  <Tooltip />
+                  <Tooltip formatter={(value: number) => formatMoney(value, currency)} />
                   <Bar dataKey="income" fill="#2E7D32" name="Income" />
                   <Bar dataKey="expenses" fill="#FF5722" name="Expenses" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
+            
+            <div className="w-full pt-8">
+              <p className="font-medium mb-2">Rolling 12-Month Trend</p>
+              <p className="text-sm text-muted-foreground mb-2">Totals for the twelve months up to each month</p>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart
+                  data={trendData}
+                  margin={{
+                    top: 5,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatMoney(value, currency)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="rollingIncome" stroke="#2E7D32" name="Income (12 months)" dot={false} />
+                  <Line type="monotone" dataKey="rollingExpenses" stroke="#FF5722" name="Expenses (12 months)" dot={false} />
+                  <Line type="monotone" dataKey="rollingNet" stroke="#1565C0" name="Net (12 months)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
           </TabsContent>
           
           <TabsContent value="income">
@@ -281,7 +342,7 @@ export function FinancialSummary() {
                       <XAxis type="number" />
                       <YAxis dataKey="name" type="category" width={100} />
                       <Tooltip />
-                      <Bar dataKey="value" fill="#7CB342" name="Amount ($)" />
+                      <Bar dataKey="value" fill="#7CB342" name={`Amount (${currencySymbol(currency)})`} />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -330,7 +391,7 @@ export function FinancialSummary() {
                       <XAxis type="number" />
                       <YAxis dataKey="name" type="category" width={100} />
                       <Tooltip />
-                      <Bar dataKey="value" fill="#FF5722" name="Amount ($)" />
+                      <Bar dataKey="value" fill="#FF5722" name={`Amount (${currencySymbol(currency)})`} />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, CURRENCY_CODES, formatMoney } from "@/lib/currency";
+import { PAYMENT_METHODS } from "@/lib/finance";
+import {
+  fetchCategoryHistory,
+  fetchImportedFingerprints,
+  fetchReconcilableTransactions,
+  forAccount,
+  guessStatementMapping,
+  hasAmountColumns,
+  importStatement,
+  matchStatementLines,
+  parseStatementFile,
+  ReconcilableTransaction,
+  readStatementRows,
+  STATEMENT_FIELDS,
+  StatementEntry,
+  StatementFile,
+  StatementMapping,
+  suggestCategory,
+} from "@/lib/bank-statements";
+
+interface ImportStatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+type Step = "upload" | "map" | "preview";
+
+interface PreviewLine extends StatementEntry {
+  duplicate: boolean;
+  transaction: ReconcilableTransaction | null;
+  suggestedCategory: string | null;
+}
+
+export function ImportStatementDialog({ open, onOpenChange, onSuccess }: ImportStatementDialogProps) {
+  const { settings } = useFarmSettings();
+  const base = baseCurrency(settings);
+  const [step, setStep] = useState<Step>("upload");
+  const [statement, setStatement] = useState<StatementFile | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<StatementMapping>({});
+  const [accountName, setAccountName] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<string>("Bank Transfer");
+  const [currency, setCurrency] = useState<string>("");
+  const [lines, setLines] = useState<PreviewLine[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const statementCurrency = currency || base;
+  const importable = lines.filter(line => line.errors.length === 0 && !line.duplicate);
+  const matchedCount = importable.filter(line => line.transaction).length;
+
+  const reset = () => {
+    setStep("upload");
+    setStatement(null);
+    setFileName("");
+    setMapping({});
+    setLines([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (isImporting) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const buildPreview = async (statementEntries: StatementEntry[]) => {
+    const entries = forAccount(statementEntries, { accountName: accountName.trim() || null, paymentMethod });
+    const dates = entries.filter(entry => entry.date).map(entry => entry.date).sort();
+    if (dates.length === 0) {
+      toast.error("No dated lines", { description: "None of the statement lines has a date that could be read." });
+      return;
+    }
+
+    try {
+      const from = dates[0];
+      const to = dates[dates.length - 1];
+      const [candidates, history, imported] = await Promise.all([
+        fetchReconcilableTransactions(from, to),
+        fetchCategoryHistory(),
+        fetchImportedFingerprints(from, to),
+      ]);
+
+      const pending = entries.filter(entry => entry.errors.length === 0 && !imported.has(entry.fingerprint));
+      const matches = matchStatementLines(pending, candidates, { statement: statementCurrency, base });
+      const matchByFingerprint = new Map(pending.map((entry, index) => [entry.fingerprint, matches[index]]));
+
+      setLines(entries.map(entry => {
+        const transactionId = matchByFingerprint.get(entry.fingerprint) ?? null;
+        return {
+          ...entry,
+          duplicate: imported.has(entry.fingerprint),
+          transaction: candidates.find(transaction => transaction.id === transactionId) ?? null,
+          suggestedCategory: transactionId ? null : suggestCategory(entry, history),
+        };
+      }));
+      setStep("preview");
+    } catch (error) {
+      console.error('Error matching statement lines:', error);
+      toast.error("Database Error", { description: "Failed to load transactions to match against. Please try again." });
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setIsReading(true);
+    try {
+      const parsed = await parseStatementFile(selected);
+      setStatement(parsed);
+      setFileName(selected.name);
+
+      if (parsed.format === "ofx") {
+        if (parsed.entries.length === 0) {
+          toast.error("Empty statement", { description: "No transactions were found in the OFX file." });
+          return;
+        }
+        await buildPreview(parsed.entries);
+      } else {
+        if (parsed.file.rows.length === 0) {
+          toast.error("Empty file", { description: "No data rows were found below the header row." });
+          return;
+        }
+        setMapping(guessStatementMapping(parsed.file.headers));
+        setStep("map");
+      }
+    } catch (error) {
+      console.error('Error reading statement file:', error);
+      toast.error("Could not read file", { description: "Upload a .csv, .xlsx or .ofx statement." });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement) return;
+    setIsImporting(true);
+    try {
+      const result = await importStatement(
+        {
+          fileName,
+          format: statement.format,
+          accountName: accountName.trim() || null,
+          paymentMethod,
+          currency: currency || null,
+        },
+        importable.map(line => ({ ...line, transactionId: line.transaction?.id ?? null }))
+      );
+
+      toast.success("Statement imported", {
+        description: `${result.imported} lines imported, ${result.matched} matched to existing transactions.`
+      });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      toast.error("Import failed", { description: "The statement was not saved. Please try again." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const resultCell = (line: PreviewLine) => {
+    if (line.errors.length > 0) {
+      return (
+        <ul className="text-xs text-red-700 list-disc pl-4">
+          {line.errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      );
+    }
+    if (line.duplicate) return <span className="text-muted-foreground">Already imported</span>;
+    if (line.transaction) {
+      return (
+        <span className="text-green-700">
+          Matches {line.transaction.description || line.transaction.category} ({format(parseISO(line.transaction.date), "MMM d")})
+        </span>
+      );
+    }
+    return (
+      <span className="text-amber-700">
+        Unmatched{line.suggestedCategory && ` · suggest ${line.suggestedCategory}`}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Import Statement</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a bank or mobile-money statement to match against your transactions"}
+            {step === "map" && `Match the columns of ${fileName} to statement fields`}
+            {step === "preview" && `${importable.length} new lines, ${matchedCount} matched to existing transactions`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="statementAccount">Account (Optional)</Label>
+                <Input
+                  id="statementAccount"
+                  placeholder="e.g. Equity current account"
+                  value={accountName}
+                  onChange={(e) => setAccountName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statementMethod">Account Type</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger id="statementMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{method}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statementCurrency">Currency</Label>
+                <Select value={statementCurrency} onValueChange={(value) => setCurrency(value === base ? "" : value)}>
+                  <SelectTrigger id="statementCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_CODES.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-col items-center text-center border border-dashed p-8 rounded-lg">
+              <Upload className="h-12 w-12 text-farm-green mb-3" />
+              <Label htmlFor="statementFile" className="mb-3">
+                CSV or Excel with a date, description and amount (or money in and money out) column, or an OFX file
+              </Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept=".csv,.xlsx,.ofx,.qfx"
+                className="max-w-xs"
+                disabled={isReading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "map" && statement && statement.format !== "ofx" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-2">
+            {STATEMENT_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label>
+                  {field.label}{field.key === "date" && <span className="text-red-500"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.key] === undefined ? "none" : String(mapping[field.key])}
+                  onValueChange={(value) => setMapping(prev => ({
+                    ...prev,
+                    [field.key]: value === "none" ? undefined : Number(value)
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not imported</SelectItem>
+                    {statement.file.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground md:col-span-2">
+              Map either a signed amount column, or the money in and money out columns.
+            </p>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                {matchedCount} matched
+              </Badge>
+              <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                {importable.length - matchedCount} unmatched
+              </Badge>
+              <Badge variant="outline" className="bg-slate-100 text-slate-800 border-slate-200">
+                {lines.length - importable.length} skipped
+              </Badge>
+            </div>
+
+            <div className="border rounded-md max-h-[400px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map(line => (
+                    <TableRow key={line.rowNumber} className={line.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <TableCell>{line.rowNumber}</TableCell>
+                      <TableCell className="whitespace-nowrap">{line.date}</TableCell>
+                      <TableCell className="max-w-[250px] truncate">
+                        {line.description}
+                        {line.reference && (
+                          <span className="text-xs text-muted-foreground block">{line.reference}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={line.amount > 0 ? "text-right text-green-600" : "text-right text-red-600"}>
+                        {formatMoney(line.amount, statementCurrency)}
+                      </TableCell>
+                      <TableCell>{resultCell(line)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "preview" && statement?.format !== "ofx" ? "map" : "upload")}
+              disabled={isImporting}
+            >
+              Back
+            </Button>
+          )}
+          {step === "map" && statement && statement.format !== "ofx" && (
+            <Button
+              className="bg-farm-green hover:bg-farm-green/90"
+              onClick={() => buildPreview(readStatementRows(statement.file, mapping))}
+              disabled={mapping.date === undefined || !hasAmountColumns(mapping)}
+              title={mapping.date === undefined || !hasAmountColumns(mapping) ? "Map the date and amount columns" : undefined}
+            >
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              className="bg-farm-green hover:bg-farm-green/90"
+              onClick={handleImport}
+              disabled={importable.length === 0 || isImporting}
+            >
+              {isImporting ? "Importing..." : `Import ${importable.length} ${importable.length === 1 ? 'Line' : 'Lines'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { formatMoney } from "@/lib/currency";
+import { PAYMENT_METHODS } from "@/lib/finance";
+import {
+  addInvoicePayment,
+  deleteInvoice,
+  deleteInvoicePayment,
+  fetchInvoice,
+  fetchInvoiceForTransaction,
+  InvoiceDetails,
+  InvoiceKind,
+  invoiceKindLabels,
+  invoiceTotals,
+  lineAmounts,
+  paymentStatus,
+  paymentStatusStyles,
+} from "@/lib/invoices";
+import { downloadInvoicePdf } from "@/lib/invoice-pdf";
+import { InvoiceForm } from "./InvoiceForm";
+import { Transaction } from "./types";
+
+interface InvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Opens the invoice raised from this transaction, or the form to raise one */
+  transaction?: Transaction | null;
+  /** Opens an existing invoice directly */
+  invoiceId?: string | null;
+  /** The farm's base currency */
+  currency: string;
+  onSuccess?: () => void;
+}
+
+export function InvoiceDialog({ open, onOpenChange, transaction, invoiceId, currency, onSuccess }: InvoiceDialogProps) {
+  const { settings } = useFarmSettings();
+  const [invoice, setInvoice] = useState<InvoiceDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<string>("Cash");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (open) loadInvoice(invoiceId ?? null);
+  }, [open, invoiceId, transaction]);
+
+  async function loadInvoice(id: string | null) {
+    try {
+      setLoading(true);
+      const data = id
+        ? await fetchInvoice(id)
+        : transaction ? await fetchInvoiceForTransaction(transaction.id) : null;
+      setInvoice(data);
+      setPaymentAmount(data ? String(Math.max(invoiceTotals(data).balance, 0)) : "");
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      toast.error("Database Error", {
+        description: "Failed to load the invoice. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const kind = (invoice?.kind ?? (transaction?.type === "Expense" ? "receipt" : "invoice")) as InvoiceKind;
+  const label = invoiceKindLabels[kind];
+  const documentCurrency = invoice?.currency || currency;
+  const totals = invoice ? invoiceTotals(invoice) : null;
+  const status = invoice ? paymentStatus(invoice) : null;
+
+  const handleAddPayment = async () => {
+    if (!invoice) return;
+    const amount = parseFloat(paymentAmount);
+    if (!paymentDate || isNaN(amount) || amount <= 0) {
+      toast.error("Invalid payment", { description: "Enter a payment date and an amount greater than zero." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addInvoicePayment({
+        invoice_id: invoice.id,
+        payment_date: paymentDate,
+        amount,
+        payment_method: paymentMethod,
+        reference: paymentReference.trim() || null,
+      });
+      toast.success("Payment recorded", {
+        description: `${formatMoney(amount, documentCurrency)} against ${invoice.invoice_number}`
+      });
+      setPaymentReference("");
+      loadInvoice(invoice.id);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error("Database Error", {
+        description: "Failed to record the payment. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePayment = async (id: string) => {
+    if (!invoice) return;
+    try {
+      await deleteInvoicePayment(id);
+      loadInvoice(invoice.id);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error("Database Error", {
+        description: "Failed to delete the payment. Please try again."
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!invoice) return;
+    try {
+      await deleteInvoice(invoice.id);
+      toast.success(`${label} deleted`, { description: `${invoice.invoice_number} has been removed` });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      toast.error("Database Error", {
+        description: `Failed to delete the ${label.toLowerCase()}. Please try again.`
+      });
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!invoice) return;
+    setIsDownloading(true);
+    try {
+      await downloadInvoicePdf(invoice, settings ?? { farm_name: "Mumbi Farm", location: null }, documentCurrency);
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      toast.error("Download failed", {
+        description: "The PDF could not be generated. Please try again."
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {invoice ? `${label} ${invoice.invoice_number}` : `New ${label}`}
+            {status && (
+              <Badge variant="outline" className={paymentStatusStyles[status]}>{status}</Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {invoice
+              ? `${kind === "invoice" ? "To" : "From"} ${invoice.party_name}, issued ${format(parseISO(invoice.issue_date), "MMM d, yyyy")}` +
+                (invoice.due_date ? `, due ${format(parseISO(invoice.due_date), "MMM d, yyyy")}` : "")
+              : `The ${label.toLowerCase()} is numbered when it is created.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading...
+          </div>
+        ) : !invoice ? (
+          transaction ? (
+            <InvoiceForm
+              transaction={transaction}
+              currency={currency}
+              onCancel={() => onOpenChange(false)}
+              onCreated={(id) => {
+                loadInvoice(id);
+                onSuccess?.();
+              }}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-10">This invoice no longer exists.</p>
+          )
+        ) : (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unit Price</th>
+                    <th className="py-2 pr-4 font-medium text-right">Tax</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.items.map(item => (
+                    <tr key={item.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        {item.description}
+                        {item.animals && (
+                          <span className="text-xs text-muted-foreground block">
+                            #{item.animals.tag_number} {item.animals.name}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{Number(item.quantity)}</td>
+                      <td className="py-2 pr-4 text-right">{formatMoney(Number(item.unit_price), documentCurrency)}</td>
+                      <td className="py-2 pr-4 text-right">{Number(item.tax_rate) ? `${Number(item.tax_rate)}%` : "-"}</td>
+                      <td className="py-2 text-right">{formatMoney(lineAmounts(item).total, documentCurrency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="text-sm space-y-1 text-right">
+              <p>Subtotal: {formatMoney(totals.subtotal, documentCurrency)}</p>
+              <p>Tax: {formatMoney(totals.tax, documentCurrency)}</p>
+              <p className="font-semibold">Total: {formatMoney(totals.total, documentCurrency)}</p>
+              <p>Paid: {formatMoney(totals.paid, documentCurrency)}</p>
+              <p className="font-semibold">Balance: {formatMoney(totals.balance, documentCurrency)}</p>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Payments</h3>
+              {invoice.payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+              ) : (
+                <ul className="text-sm divide-y border rounded-md">
+                  {invoice.payments.map(payment => (
+                    <li key={payment.id} className="flex items-center justify-between px-3 py-2">
+                      <span>
+                        {format(parseISO(payment.payment_date), "MMM d, yyyy")} · {payment.payment_method}
+                        {payment.reference && <span className="text-muted-foreground"> · {payment.reference}</span>}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {formatMoney(Number(payment.amount), documentCurrency)}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-600 hover:text-red-700"
+                          onClick={() => handleDeletePayment(payment.id)}
+                          title="Delete payment"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {totals.balance > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="paymentDate">Date</Label>
+                    <Input id="paymentDate" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="paymentAmount">Amount</Label>
+                    <Input
+                      id="paymentAmount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={paymentAmount}
+                      onChange={(e) => setPaymentAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="paymentMethod">Method</Label>
+                    <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                      <SelectTrigger id="paymentMethod">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map(method => (
+                          <SelectItem key={method} value={method}>{method}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="paymentReference">Reference</Label>
+                    <Input id="paymentReference" value={paymentReference} onChange={(e) => setPaymentReference(e.target.value)} />
+                  </div>
+                  <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleAddPayment} disabled={isSaving}>
+                    {isSaving ? "Saving..." : "Record Payment"}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-red-600 hover:text-red-700">
+                    <Trash2 className="h-4 w-4 mr-2" /> Delete {label}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {label}</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {invoice.invoice_number} and its payments will be deleted. The transaction is kept, and the number will not be reused.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction className="bg-red-500 hover:bg-red-600" onClick={handleDelete}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleDownload} disabled={isDownloading}>
+                <Download className="h-4 w-4 mr-2" />
+                {isDownloading ? "Generating..." : "Download PDF"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { formatMoney } from "@/lib/currency";
+import { createInvoice, DEFAULT_PAYMENT_TERMS_DAYS, InvoiceKind, invoiceKindLabels, lineAmounts } from "@/lib/invoices";
+import { Transaction } from "./types";
+
+interface InvoiceFormProps {
+  transaction: Transaction;
+  /** The farm's base currency */
+  currency: string;
+  onCancel: () => void;
+  onCreated: (invoiceId: string) => void;
+}
+
+interface ItemRow {
+  description: string;
+  animalId: string;
+  quantity: string;
+  unitPrice: string;
+  taxRate: string;
+}
+
+const toItem = (row: ItemRow) => ({
+  quantity: parseFloat(row.quantity) || 0,
+  unit_price: parseFloat(row.unitPrice) || 0,
+  tax_rate: parseFloat(row.taxRate) || 0,
+});
+
+export function InvoiceForm({ transaction, currency, onCancel, onCreated }: InvoiceFormProps) {
+  // Income is invoiced to a customer; expenses are kept as a receipt from the supplier
+  const kind: InvoiceKind = transaction.type === "Income" ? "invoice" : "receipt";
+  const documentCurrency = transaction.currency || currency;
+  const [partyName, setPartyName] = useState("");
+  const [partyDetails, setPartyDetails] = useState("");
+  const [issueDate, setIssueDate] = useState(transaction.date);
+  const [dueDate, setDueDate] = useState(
+    kind === "invoice" ? format(addDays(parseISO(transaction.date), DEFAULT_PAYMENT_TERMS_DAYS), "yyyy-MM-dd") : ""
+  );
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<ItemRow[]>([{
+    description: transaction.description,
+    animalId: transaction.animalId ?? "none",
+    quantity: "1",
+    // Invoice prices are before tax, while the transaction amount includes it
+    unitPrice: String(Math.round((transaction.amount - (transaction.taxAmount ?? 0)) * 100) / 100),
+    taxRate: String(transaction.taxRate ?? 0),
+  }]);
+  const [animals, setAnimals] = useState<Array<{ id: string, name: string, tag: string }>>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAnimals();
+  }, []);
+
+  async function fetchAnimals() {
+    try {
+      const { data, error } = await supabase
+        .from('animals')
+        .select('id, name, tag_number')
+        .order('tag_number', { ascending: true });
+
+      if (error) throw error;
+      setAnimals(data.map(animal => ({ id: animal.id, name: animal.name, tag: animal.tag_number })));
+    } catch (error) {
+      console.error('Error fetching animals:', error);
+      setAnimals([]);
+    }
+  }
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) =>
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+
+  const lines = items.map(item => lineAmounts(toItem(item)));
+  const subtotal = lines.reduce((sum, line) => sum + line.net, 0);
+  const tax = lines.reduce((sum, line) => sum + line.tax, 0);
+  const total = subtotal + tax;
+  const differsFromTransaction = Math.abs(total - transaction.amount) >= 0.01;
+
+  const handleSave = async () => {
+    if (!partyName.trim()) {
+      toast.error(kind === "invoice" ? "Customer required" : "Supplier required", {
+        description: `Enter who the ${invoiceKindLabels[kind].toLowerCase()} is ${kind === "invoice" ? "addressed to" : "from"}.`
+      });
+      return;
+    }
+    if (!issueDate || (dueDate && dueDate < issueDate)) {
+      toast.error("Invalid dates", { description: "Enter an issue date, and a due date on or after it." });
+      return;
+    }
+    if (items.some(item => !item.description.trim() || !(parseFloat(item.quantity) > 0) || !(parseFloat(item.unitPrice) >= 0))) {
+      toast.error("Invalid line item", { description: "Each line needs a description, a quantity above zero and a price." });
+      return;
+    }
+    if (items.some(item => { const rate = parseFloat(item.taxRate || "0"); return isNaN(rate) || rate < 0 || rate > 100; })) {
+      toast.error("Invalid tax rate", { description: "Tax rates must be between 0 and 100%." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const invoice = await createInvoice(
+        {
+          kind,
+          transaction_id: transaction.id,
+          party_name: partyName.trim(),
+          party_details: partyDetails.trim() || null,
+          issue_date: issueDate,
+          due_date: dueDate || null,
+          currency: documentCurrency,
+          notes: notes.trim() || null,
+        },
+        items.map(item => ({
+          ...toItem(item),
+          description: item.description.trim(),
+          animal_id: item.animalId !== "none" ? item.animalId : null,
+        }))
+      );
+      toast.success(`${invoiceKindLabels[kind]} ${invoice.invoice_number} created`, {
+        description: `${partyName.trim()}, ${formatMoney(total, documentCurrency)}`
+      });
+      onCreated(invoice.id);
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      toast.error("Database Error", {
+        description: `Failed to create the ${invoiceKindLabels[kind].toLowerCase()}. Please try again.`
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="invoiceParty">{kind === "invoice" ? "Customer" : "Supplier"}</Label>
+          <Input id="invoiceParty" value={partyName} onChange={(e) => setPartyName(e.target.value)} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="invoiceIssueDate">Issue Date</Label>
+            <Input id="invoiceIssueDate" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoiceDueDate">Due Date</Label>
+            <Input id="invoiceDueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          </div>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="invoicePartyDetails">Address and Contact (Optional)</Label>
+        <Textarea
+          id="invoicePartyDetails"
+          className="min-h-[60px]"
+          value={partyDetails}
+          onChange={(e) => setPartyDetails(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Line Items</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="border-farm-green text-farm-green hover:bg-farm-green/10"
+            onClick={() => setItems(prev => [...prev, { description: "", animalId: "none", quantity: "1", unitPrice: "", taxRate: "0" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add line
+          </Button>
+        </div>
+        {items.map((item, i) => (
+          <div key={i} className="border rounded-md p-3 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                aria-label="Description"
+                placeholder="Description"
+                value={item.description}
+                onChange={(e) => updateItem(i, { description: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-10 w-10 shrink-0 text-red-600 hover:text-red-700"
+                disabled={items.length === 1}
+                onClick={() => setItems(prev => prev.filter((_, j) => j !== i))}
+                title="Remove line"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <Select value={item.animalId} onValueChange={(value) => updateItem(i, { animalId: value })}>
+                <SelectTrigger aria-label="Animal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No animal</SelectItem>
+                  {animals.map(animal => (
+                    <SelectItem key={animal.id} value={animal.id}>
+                      #{animal.tag} {animal.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                aria-label="Quantity"
+                placeholder="Qty"
+                value={item.quantity}
+                onChange={(e) => updateItem(i, { quantity: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                aria-label="Unit price"
+                placeholder="Unit price"
+                value={item.unitPrice}
+                onChange={(e) => updateItem(i, { unitPrice: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                aria-label="Tax rate (%)"
+                placeholder="Tax %"
+                value={item.taxRate}
+                onChange={(e) => updateItem(i, { taxRate: e.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-sm space-y-1 text-right">
+        <p>Subtotal: {formatMoney(subtotal, documentCurrency)}</p>
+        <p>Tax: {formatMoney(tax, documentCurrency)}</p>
+        <p className="font-semibold">Total: {formatMoney(total, documentCurrency)}</p>
+      </div>
+      {differsFromTransaction && (
+        <p className="flex items-center gap-2 text-sm text-amber-700">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          The total differs from the transaction amount of {formatMoney(transaction.amount, documentCurrency)}.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="invoiceNotes">Notes (Optional)</Label>
+        <Textarea
+          id="invoiceNotes"
+          className="min-h-[60px]"
+          placeholder="Payment instructions, terms..."
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Creating..." : `Create ${invoiceKindLabels[kind]}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
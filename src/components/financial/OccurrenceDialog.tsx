@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Occurrence, amountOn, saveOccurrence } from "@/lib/recurring";
+import { currencySymbol } from "@/lib/currency";
+
+interface OccurrenceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  occurrence: Occurrence | null;
+  currency: string;
+  onSuccess?: () => void;
+}
+
+export function OccurrenceDialog({ open, onOpenChange, occurrence, currency, onSuccess }: OccurrenceDialogProps) {
+  const [date, setDate] = useState("");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !occurrence) return;
+    setDate(occurrence.date);
+    setAmount(String(occurrence.amount));
+    setDescription(occurrence.description);
+  }, [open, occurrence]);
+
+  const handleSave = async () => {
+    if (!occurrence) return;
+    const value = parseFloat(amount);
+    if (!date) {
+      toast.error("Date required", { description: "Choose the date this transaction is posted on." });
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      toast.error("Invalid amount", { description: "Amount must be a positive number." });
+      return;
+    }
+
+    const { series, scheduledDate } = occurrence;
+    setIsSaving(true);
+    try {
+      // Only values that differ from the series are stored, so later changes to the series still apply
+      await saveOccurrence(series.id, scheduledDate, {
+        status: "scheduled",
+        date_override: date !== scheduledDate ? date : null,
+        amount_override: value !== amountOn(series, scheduledDate) ? value : null,
+        description_override: description.trim() && description.trim() !== series.description ? description.trim() : null,
+      });
+      toast.success("Scheduled transaction updated", {
+        description: `${description.trim() || series.description} on ${format(parseISO(date), "MMM d, yyyy")}`
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving scheduled transaction:', error);
+      toast.error("Database Error", {
+        description: "Failed to update the scheduled transaction. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Edit Scheduled Transaction</DialogTitle>
+          <DialogDescription>
+            {occurrence && `Changes apply to the ${format(parseISO(occurrence.scheduledDate), "MMM d, yyyy")} occurrence only.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="occurrenceDate">Date</Label>
+              <Input id="occurrenceDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrenceAmount">Amount ({currencySymbol(currency)})</Label>
+              <Input
+                id="occurrenceAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="occurrenceDescription">Description</Label>
+            <Textarea
+              id="occurrenceDescription"
+              className="min-h-[80px]"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, formatMoney } from "@/lib/currency";
+import {
+  daysOverdue,
+  fetchInvoices,
+  InvoiceDetails,
+  invoiceKindLabels,
+  invoiceTotals,
+  outstandingReceivables,
+  paymentStatus,
+  paymentStatusStyles,
+  receivablesAgeing,
+} from "@/lib/invoices";
+import { InvoiceDialog } from "./InvoiceDialog";
+
+type InvoiceFilter = "outstanding" | "invoice" | "receipt";
+
+export function ReceivablesPanel() {
+  const { settings } = useFarmSettings();
+  const currency = baseCurrency(settings);
+  const [invoices, setInvoices] = useState<InvoiceDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<InvoiceFilter>("outstanding");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setLoading(true);
+      setInvoices(await fetchInvoices());
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast.error("Database Error", {
+        description: "Failed to load invoices. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Each bucket lists a balance per currency, since invoices keep the currency of the sale
+  const formatBalances = (balances: Record<string, number>) =>
+    Object.entries(balances).map(([code, amount]) => formatMoney(amount, code || currency)).join(" + ") ||
+    formatMoney(0, currency);
+
+  const ageing = receivablesAgeing(invoices);
+  const listed = filter === "outstanding"
+    ? outstandingReceivables(invoices)
+    : invoices.filter(invoice => invoice.kind === filter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" /> Loading invoices...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Receivables Ageing</CardTitle>
+          <CardDescription>
+            Unpaid invoice balances by how long they are past their due date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {ageing.map((bucket, i) => (
+              <div
+                key={bucket.label}
+                className={cn(
+                  "p-4 border rounded-lg",
+                  i === 0 ? "bg-green-50 border-green-100" : i < 3 ? "bg-amber-50 border-amber-100" : "bg-red-50 border-red-100"
+                )}
+              >
+                <p className="text-sm text-muted-foreground">{bucket.label}</p>
+                <p className="text-lg font-bold">{formatBalances(bucket.balances)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {bucket.count} {bucket.count === 1 ? "invoice" : "invoices"}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Invoices and Receipts</CardTitle>
+            <CardDescription>
+              Create an invoice or receipt from a transaction on the Transactions tab.
+            </CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as InvoiceFilter)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="outstanding">Outstanding invoices</SelectItem>
+              <SelectItem value="invoice">All invoices</SelectItem>
+              <SelectItem value="receipt">All receipts</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {listed.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {filter === "outstanding" ? "Nothing is owed to the farm." : `No ${invoiceKindLabels[filter].toLowerCase()}s yet.`}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Number</th>
+                    <th className="py-2 pr-4 font-medium">{filter === "receipt" ? "Supplier" : "Customer"}</th>
+                    <th className="py-2 pr-4 font-medium">Issued</th>
+                    <th className="py-2 pr-4 font-medium">Due</th>
+                    <th className="py-2 pr-4 font-medium text-right">Total</th>
+                    <th className="py-2 pr-4 font-medium text-right">Balance</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listed.map(invoice => {
+                    const totals = invoiceTotals(invoice);
+                    const status = paymentStatus(invoice);
+                    const overdue = daysOverdue(invoice);
+                    const code = invoice.currency || currency;
+                    return (
+                      <tr
+                        key={invoice.id}
+                        className="border-b last:border-0 cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelectedId(invoice.id)}
+                      >
+                        <td className="py-3 pr-4 font-medium">
+                          {invoice.invoice_number}
+                        </td>
+                        <td className="py-3 pr-4">{invoice.party_name}</td>
+                        <td className="py-3 pr-4">{format(parseISO(invoice.issue_date), "MMM d, yyyy")}</td>
+                        <td className="py-3 pr-4">
+                          {invoice.due_date ? format(parseISO(invoice.due_date), "MMM d, yyyy") : "-"}
+                          {overdue > 0 && totals.balance > 0 && (
+                            <span className="text-xs text-red-600 block">{overdue} days overdue</span>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 text-right">{formatMoney(totals.total, code)}</td>
+                        <td className="py-3 pr-4 text-right">{formatMoney(totals.balance, code)}</td>
+                        <td className="py-3">
+                          <Badge variant="outline" className={paymentStatusStyles[status]}>{status}</Badge>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceDialog
+        open={!!selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+        invoiceId={selectedId}
+        currency={currency}
+        onSuccess={fetchData}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, EyeOff, Loader2, Plus, Undo2, Upload } from "lucide-react";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, CurrencyCode, formatMoney, lookupExchangeRate } from "@/lib/currency";
+import { EXPENSE_CATEGORIES, INCOME_CATEGORIES } from "@/lib/finance";
+import {
+  createTransactionFromLine,
+  fetchCategoryHistory,
+  fetchReconcilableTransactions,
+  fetchStatementLines,
+  ReconcilableTransaction,
+  StatementLineDetails,
+  suggestCategory,
+  updateStatementLine,
+} from "@/lib/bank-statements";
+import { ImportStatementDialog } from "./ImportStatementDialog";
+
+type LineFilter = "unmatched" | "matched" | "ignored" | "all";
+
+const lineState = (line: StatementLineDetails): Exclude<LineFilter, "all"> =>
+  line.transaction_id ? "matched" : line.ignored ? "ignored" : "unmatched";
+
+export function ReconciliationPanel() {
+  const { settings } = useFarmSettings();
+  const base = baseCurrency(settings);
+  const [lines, setLines] = useState<StatementLineDetails[]>([]);
+  const [candidates, setCandidates] = useState<ReconcilableTransaction[]>([]);
+  const [history, setHistory] = useState<{ type: string; category: string; description: string | null }[]>([]);
+  const [categories, setCategories] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<LineFilter>("unmatched");
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setLoading(true);
+      const [statementLines, categoryHistory] = await Promise.all([fetchStatementLines(), fetchCategoryHistory()]);
+      setLines(statementLines);
+      setHistory(categoryHistory);
+
+      // Lines come newest first
+      if (statementLines.length > 0) {
+        setCandidates(await fetchReconcilableTransactions(
+          statementLines[statementLines.length - 1].line_date,
+          statementLines[0].line_date
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching statement lines:', error);
+      toast.error("Database Error", {
+        description: "Failed to load bank statements. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const lineCurrency = (line: StatementLineDetails) => line.bank_statements?.currency || base;
+
+  const categoryFor = (line: StatementLineDetails) => {
+    const amount = Number(line.amount);
+    const options = amount > 0 ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
+    const suggested = suggestCategory({ amount, description: line.description }, history);
+    return categories[line.id] ?? (suggested && options.includes(suggested) ? suggested : "Other");
+  };
+
+  // Unreconciled transactions a line could be matched to by hand: same type, amount and currency
+  const matchOptions = (line: StatementLineDetails) => {
+    const amount = Number(line.amount);
+    return candidates.filter(transaction =>
+      transaction.type === (amount > 0 ? "Income" : "Expense") &&
+      Math.abs(Number(transaction.amount) - Math.abs(amount)) < 0.005 &&
+      (transaction.currency || base) === lineCurrency(line) &&
+      !lines.some(other => other.transaction_id === transaction.id)
+    );
+  };
+
+  const runAction = async (line: StatementLineDetails, action: () => Promise<unknown>, failure: string) => {
+    setSavingId(line.id);
+    try {
+      await action();
+      await fetchData();
+    } catch (error) {
+      console.error('Error reconciling statement line:', error);
+      toast.error("Database Error", { description: `${failure} Please try again.` });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreate = (line: StatementLineDetails) => runAction(line, async () => {
+    const currency = lineCurrency(line);
+    let exchangeRate = 1;
+    if (currency !== base) {
+      exchangeRate = await lookupExchangeRate(currency as CurrencyCode, base, line.line_date);
+      if (!exchangeRate) {
+        throw new Error(`No ${currency} to ${base} rate for ${line.line_date}`);
+      }
+    }
+    const category = categoryFor(line);
+    await createTransactionFromLine(line, {
+      category,
+      currency: currency === base ? null : currency,
+      exchangeRate,
+    });
+    toast.success("Transaction Added", {
+      description: `Recorded ${formatMoney(Math.abs(Number(line.amount)), currency)} for ${category} from the statement`
+    });
+  }, "Failed to create the transaction. Exchange rates for foreign statements must be entered first.");
+
+  const handleMatch = (line: StatementLineDetails, transactionId: string) =>
+    runAction(line, () => updateStatementLine(line.id, { transaction_id: transactionId }), "Failed to match the line.");
+
+  const visible = filter === "all" ? lines : lines.filter(line => lineState(line) === filter);
+  const counts = lines.reduce<Record<string, number>>((totals, line) => {
+    totals[lineState(line)] = (totals[lineState(line)] ?? 0) + 1;
+    return totals;
+  }, {});
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" /> Loading statements...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Bank Reconciliation</CardTitle>
+            <CardDescription>
+              Statement lines are matched to transactions by amount, date and reference. Matched transactions are marked reconciled.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unmatched">Unmatched ({counts.unmatched ?? 0})</SelectItem>
+                <SelectItem value="matched">Matched ({counts.matched ?? 0})</SelectItem>
+                <SelectItem value="ignored">Ignored ({counts.ignored ?? 0})</SelectItem>
+                <SelectItem value="all">All lines ({lines.length})</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button className="bg-farm-green hover:bg-farm-green/90" onClick={() => setShowImport(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Statement
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {lines.length === 0
+                ? "Import a bank or mobile-money statement to start reconciling."
+                : filter === "unmatched" ? "Every statement line is matched or ignored." : "No lines to show."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 pr-4 font-medium">Transaction</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(line => {
+                    const amount = Number(line.amount);
+                    const state = lineState(line);
+                    const saving = savingId === line.id;
+                    const options = state === "unmatched" ? matchOptions(line) : [];
+                    return (
+                      <tr key={line.id} className="border-b last:border-0 align-top">
+                        <td className="py-3 pr-4 whitespace-nowrap">{format(parseISO(line.line_date), "MMM d, yyyy")}</td>
+                        <td className="py-3 pr-4 max-w-[260px]">
+                          <span className="block truncate">{line.description}</span>
+                          <span className="text-xs text-muted-foreground block truncate">
+                            {[line.reference, line.bank_statements?.account_name || line.bank_statements?.file_name].filter(Boolean).join(" · ")}
+                          </span>
+                        </td>
+                        <td className={amount > 0 ? "py-3 pr-4 text-right text-green-600" : "py-3 pr-4 text-right text-red-600"}>
+                          {formatMoney(amount, lineCurrency(line))}
+                        </td>
+                        <td className="py-3 pr-4">
+                          {state === "matched" && line.financial_transactions && (
+                            <div>
+                              <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Reconciled</Badge>
+                              <span className="text-xs text-muted-foreground block mt-1">
+                                {line.financial_transactions.description || line.financial_transactions.category} · {format(parseISO(line.financial_transactions.date), "MMM d")}
+                              </span>
+                            </div>
+                          )}
+                          {state === "ignored" && (
+                            <Badge variant="outline" className="bg-slate-100 text-slate-800 border-slate-200">Ignored</Badge>
+                          )}
+                          {state === "unmatched" && (
+                            <div className="space-y-2 min-w-[200px]">
+                              {options.length > 0 && (
+                                <Select onValueChange={(value) => handleMatch(line, value)} disabled={saving}>
+                                  <SelectTrigger className="h-8">
+                                    <SelectValue placeholder={`Match to one of ${options.length}...`} />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {options.map(transaction => (
+                                      <SelectItem key={transaction.id} value={transaction.id}>
+                                        {format(parseISO(transaction.date), "MMM d")} · {transaction.description || transaction.category}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              <Select
+                                value={categoryFor(line)}
+                                onValueChange={(value) => setCategories(prev => ({ ...prev, [line.id]: value }))}
+                                disabled={saving}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(amount > 0 ? INCOME_CATEGORIES : EXPENSE_CATEGORIES).map(category => (
+                                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          {state === "unmatched" && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={`Record as new ${amount > 0 ? "income" : "expense"}`}
+                                disabled={saving}
+                                onClick={() => handleCreate(line)}
+                              >
+                                <Plus className="h-4 w-4 text-farm-green" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Ignore line"
+                                disabled={saving}
+                                onClick={() => runAction(line, () => updateStatementLine(line.id, { ignored: true }), "Failed to ignore the line.")}
+                              >
+                                <EyeOff className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {state === "matched" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Unmatch"
+                              disabled={saving}
+                              onClick={() => runAction(line, () => updateStatementLine(line.id, { transaction_id: null }), "Failed to unmatch the line.")}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {state === "ignored" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Restore line"
+                              disabled={saving}
+                              onClick={() => runAction(line, () => updateStatementLine(line.id, { ignored: false }), "Failed to restore the line.")}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ImportStatementDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        onSuccess={fetchData}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { EXPENSE_CATEGORIES, INCOME_CATEGORIES } from "@/lib/finance";
+import { Frequency, frequencyLabels, RecurringSeries, updateRecurringTransaction } from "@/lib/recurring";
+import { currencySymbol } from "@/lib/currency";
+
+interface RecurringTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series: RecurringSeries | null;
+  currency: string;
+  onSuccess?: () => void;
+}
+
+interface AmountChangeRow {
+  effective_from: string;
+  amount: string;
+}
+
+export function RecurringTransactionDialog({ open, onOpenChange, series, currency, onSuccess }: RecurringTransactionDialogProps) {
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState<Frequency>("monthly");
+  const [intervalDays, setIntervalDays] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [amountChanges, setAmountChanges] = useState<AmountChangeRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !series) return;
+    setDescription(series.description);
+    setCategory(series.category);
+    setAmount(String(Number(series.amount)));
+    setFrequency(series.frequency as Frequency);
+    setIntervalDays(series.interval_days ? String(series.interval_days) : "");
+    setEndDate(series.end_date ?? "");
+    setAmountChanges(
+      [...series.amount_changes]
+        .sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+        .map(change => ({ effective_from: change.effective_from, amount: String(Number(change.amount)) }))
+    );
+  }, [open, series]);
+
+  if (!series) return null;
+
+  const categories = Array.from(new Set([
+    ...(series.type === "Income" ? INCOME_CATEGORIES : EXPENSE_CATEGORIES),
+    series.category,
+  ]));
+
+  const handleSave = async () => {
+    const baseAmount = parseFloat(amount);
+    if (description.trim().length < 3) {
+      toast.error("Description required", { description: "Description must be at least 3 characters." });
+      return;
+    }
+    if (isNaN(baseAmount) || baseAmount <= 0) {
+      toast.error("Invalid amount", { description: "Amount must be a positive number." });
+      return;
+    }
+    if (frequency === "custom" && !(parseInt(intervalDays, 10) > 0)) {
+      toast.error("Invalid interval", { description: "Enter the number of days between transactions." });
+      return;
+    }
+    if (endDate && endDate < series.start_date) {
+      toast.error("Invalid end date", { description: "The end date must be on or after the first date." });
+      return;
+    }
+    if (amountChanges.some(change => !change.effective_from || !(parseFloat(change.amount) > 0))) {
+      toast.error("Invalid amount change", { description: "Each amount change needs a date and a positive amount." });
+      return;
+    }
+    if (new Set(amountChanges.map(change => change.effective_from)).size !== amountChanges.length) {
+      toast.error("Invalid amount change", { description: "Only one amount change can start on each date." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateRecurringTransaction(
+        series.id,
+        {
+          description: description.trim(),
+          category,
+          amount: baseAmount,
+          frequency,
+          interval_days: frequency === "custom" ? parseInt(intervalDays, 10) : null,
+          end_date: endDate || null,
+        },
+        amountChanges.map(change => ({ effective_from: change.effective_from, amount: parseFloat(change.amount) }))
+      );
+      toast.success("Recurring transaction updated", {
+        description: "Transactions already posted are unchanged."
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error updating recurring transaction:', error);
+      toast.error("Database Error", {
+        description: "Failed to update the recurring transaction. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring {series.type}</DialogTitle>
+          <DialogDescription>
+            Started {format(parseISO(series.start_date), "MMM d, yyyy")}. Changes apply to occurrences not yet posted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurringCategory">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="recurringCategory">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurringAmount">Amount ({currencySymbol(currency)})</Label>
+              <Input
+                id="recurringAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurringFrequency">Repeat</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as Frequency)}>
+                <SelectTrigger id="recurringFrequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(frequencyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === "custom" ? (
+              <div className="space-y-2">
+                <Label htmlFor="recurringInterval">Every (days)</Label>
+                <Input
+                  id="recurringInterval"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={intervalDays}
+                  onChange={(e) => setIntervalDays(e.target.value)}
+                />
+              </div>
+            ) : <div />}
+            <div className="space-y-2">
+              <Label htmlFor="recurringEndDate">End Date (Optional)</Label>
+              <Input id="recurringEndDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurringDescription">Description</Label>
+            <Textarea
+              id="recurringDescription"
+              className="min-h-[80px]"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Amount Changes</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="border-farm-green text-farm-green hover:bg-farm-green/10"
+                onClick={() => setAmountChanges(prev => [...prev, { effective_from: "", amount: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add change
+              </Button>
+            </div>
+            {amountChanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Schedule a new amount from a future date, for example a rent increase.
+              </p>
+            ) : (
+              amountChanges.map((change, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    aria-label="Effective from"
+                    value={change.effective_from}
+                    onChange={(e) => setAmountChanges(prev => prev.map((c, j) => j === i ? { ...c, effective_from: e.target.value } : c))}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    aria-label="New amount"
+                    placeholder="New amount"
+                    value={change.amount}
+                    onChange={(e) => setAmountChanges(prev => prev.map((c, j) => j === i ? { ...c, amount: e.target.value } : c))}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-red-600 hover:text-red-700"
+                    onClick={() => setAmountChanges(prev => prev.filter((_, j) => j !== i))}
+                    title="Remove amount change"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
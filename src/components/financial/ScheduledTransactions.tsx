@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Loader2, RotateCcw, SkipForward, Square, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  deleteRecurringTransaction,
+  fetchRecurringSeries,
+  Frequency,
+  frequencyLabels,
+  Occurrence,
+  occurrencesOf,
+  RecurringSeries,
+  saveOccurrence,
+  UPCOMING_DAYS,
+  upcomingOccurrences,
+  updateRecurringTransaction,
+} from "@/lib/recurring";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, formatMoney } from "@/lib/currency";
+import { OccurrenceDialog } from "./OccurrenceDialog";
+import { RecurringTransactionDialog } from "./RecurringTransactionDialog";
+
+export function ScheduledTransactions() {
+  const { settings } = useFarmSettings();
+  // Recurring transactions are recorded in the base currency
+  const currency = baseCurrency(settings);
+  const [seriesList, setSeriesList] = useState<RecurringSeries[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingOccurrence, setEditingOccurrence] = useState<Occurrence | null>(null);
+  const [editingSeries, setEditingSeries] = useState<RecurringSeries | null>(null);
+  const [deleting, setDeleting] = useState<RecurringSeries | null>(null);
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  async function fetchSeries() {
+    try {
+      setLoading(true);
+      setSeriesList(await fetchRecurringSeries());
+    } catch (error) {
+      console.error('Error fetching recurring transactions:', error);
+      toast.error("Database Error", {
+        description: "Failed to load recurring transactions. Please try again."
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const today = new Date();
+  const todayString = format(today, "yyyy-MM-dd");
+  const upcoming = upcomingOccurrences(seriesList, today);
+
+  // A series has ended once its end date has passed; it is kept for its history until deleted
+  const isActive = (series: RecurringSeries) => !series.end_date || series.end_date >= todayString;
+
+  const nextDate = (series: RecurringSeries) =>
+    occurrencesOf(series, format(addDays(today, 366), "yyyy-MM-dd"))
+      .find(o => o.status === "scheduled" && o.date > todayString)?.date;
+
+  const frequencyText = (series: RecurringSeries) =>
+    series.frequency === "custom"
+      ? `Every ${series.interval_days} days`
+      : frequencyLabels[series.frequency as Frequency];
+
+  const setStatus = async (occurrence: Occurrence, status: "scheduled" | "skipped") => {
+    try {
+      const record = occurrence.series.occurrences.find(o => o.occurrence_date === occurrence.scheduledDate);
+      // Keep any edits so that restoring a skipped occurrence brings them back
+      await saveOccurrence(occurrence.series.id, occurrence.scheduledDate, {
+        status,
+        date_override: record?.date_override ?? null,
+        amount_override: record?.amount_override ?? null,
+        description_override: record?.description_override ?? null,
+      });
+      toast.success(status === "skipped" ? "Occurrence skipped" : "Occurrence restored", {
+        description: `${occurrence.description} on ${format(parseISO(occurrence.date), "MMM d, yyyy")}`
+      });
+      fetchSeries();
+    } catch (error) {
+      console.error('Error updating scheduled transaction:', error);
+      toast.error("Database Error", {
+        description: "Failed to update the scheduled transaction. Please try again."
+      });
+    }
+  };
+
+  const handleStop = async (series: RecurringSeries) => {
+    try {
+      await updateRecurringTransaction(series.id, { end_date: todayString });
+      toast.success("Recurring transaction stopped", {
+        description: `No more ${series.description} transactions will be posted after today.`
+      });
+      fetchSeries();
+    } catch (error) {
+      console.error('Error stopping recurring transaction:', error);
+      toast.error("Database Error", {
+        description: "Failed to stop the recurring transaction. Please try again."
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteRecurringTransaction(deleting.id);
+      toast.success("Recurring transaction deleted", {
+        description: "Transactions it already posted have been kept."
+      });
+      fetchSeries();
+    } catch (error) {
+      console.error('Error deleting recurring transaction:', error);
+      toast.error("Database Error", {
+        description: "Failed to delete the recurring transaction. Please try again."
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading scheduled transactions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Upcoming</CardTitle>
+          <CardDescription>
+            Transactions due in the next {UPCOMING_DAYS} days. Each is posted automatically on its date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {upcoming.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                Nothing scheduled. Choose a repeat option when adding a transaction to schedule it.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium">Category</th>
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 font-medium sr-only">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {upcoming.map(occurrence => {
+                    const skipped = occurrence.status === "skipped";
+                    return (
+                      <tr
+                        key={`${occurrence.series.id}:${occurrence.scheduledDate}`}
+                        className={cn("border-b last:border-0", skipped && "text-muted-foreground")}
+                      >
+                        <td className="py-3 pr-4 whitespace-nowrap">
+                          <span className={cn(skipped && "line-through")}>
+                            {format(parseISO(occurrence.date), "MMM d, yyyy")}
+                          </span>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div className="flex items-center gap-2">
+                            <span className={cn(skipped && "line-through")}>{occurrence.description}</span>
+                            {skipped && <Badge variant="outline" className="text-xs font-normal">Skipped</Badge>}
+                            {occurrence.edited && !skipped && (
+                              <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200 text-xs font-normal">
+                                Edited
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4">{occurrence.series.category}</td>
+                        <td className={cn(
+                          "py-3 pr-4 text-right font-medium",
+                          !skipped && (occurrence.series.type === "Income" ? "text-green-600" : "text-red-600")
+                        )}>
+                          {occurrence.series.type === "Income" ? "+" : "-"}{formatMoney(occurrence.amount, currency)}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          {skipped ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setStatus(occurrence, "scheduled")}
+                              title="Restore"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setEditingOccurrence(occurrence)}
+                                title="Edit this occurrence"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setStatus(occurrence, "skipped")}
+                                title="Skip this occurrence"
+                              >
+                                <SkipForward className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Recurring Transactions</CardTitle>
+          <CardDescription>
+            Editing a recurring transaction changes the occurrences still to come. Posted transactions are not changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {seriesList.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No recurring transactions yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium">Repeats</th>
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 pr-4 font-medium">Next</th>
+                    <th className="py-2 font-medium sr-only">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {seriesList.map(series => {
+                    const active = isActive(series);
+                    const next = active ? nextDate(series) : undefined;
+                    return (
+                      <tr key={series.id} className="border-b last:border-0">
+                        <td className="py-3 pr-4">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{series.description}</span>
+                            <Badge variant="outline" className="text-xs font-normal">{series.type}</Badge>
+                            {!active && <Badge variant="outline" className="text-xs font-normal">Ended</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">{series.category}</p>
+                        </td>
+                        <td className="py-3 pr-4">
+                          {frequencyText(series)}
+                          {series.end_date && (
+                            <p className="text-xs text-muted-foreground">
+                              until {format(parseISO(series.end_date), "MMM d, yyyy")}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 text-right">{formatMoney(Number(series.amount), currency)}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap">
+                          {next ? format(parseISO(next), "MMM d, yyyy") : <span className="text-muted-foreground">None</span>}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setEditingSeries(series)}
+                            title="Edit recurring transaction"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {active && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleStop(series)}
+                              title="Stop after today"
+                            >
+                              <Square className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-red-600 hover:text-red-700"
+                            onClick={() => setDeleting(series)}
+                            title="Delete recurring transaction"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <OccurrenceDialog
+        open={!!editingOccurrence}
+        onOpenChange={(open) => !open && setEditingOccurrence(null)}
+        occurrence={editingOccurrence}
+        currency={currency}
+        onSuccess={fetchSeries}
+      />
+
+      <RecurringTransactionDialog
+        open={!!editingSeries}
+        onOpenChange={(open) => !open && setEditingSeries(null)}
+        series={editingSeries}
+        currency={currency}
+        onSuccess={fetchSeries}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete recurring transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This stops {deleting?.description} from being posted again and removes its schedule.
+              Transactions it has already posted are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { Transaction } from "./types";
+import { formatMoney } from "@/lib/currency";
+import { setTransactionReconciled } from "@/lib/bank-statements";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -18,23 +20,30 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Trash2, Calendar, CreditCard, Hash, Tag, Wallet } from "lucide-react";
+import { Trash2, Calendar, CheckCircle2, CreditCard, FileText, Hash, Tag, Wallet } from "lucide-react";
 
 interface TransactionDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   transaction: Transaction | null;
+  /** The farm's base currency */
+  currency: string;
   onSuccess?: () => void;
+  /** Open the invoice or receipt for this transaction, creating one if there is none */
+  onOpenInvoice?: () => void;
 }
 
 export function TransactionDetailDialog({ 
   open, 
   onOpenChange, 
   transaction, 
-  onSuccess 
+  currency,
+  onSuccess,
+  onOpenInvoice
 }: TransactionDetailDialogProps) {
   const { toast } = useToast();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
   
   if (!transaction) return null;
   
@@ -71,6 +80,34 @@ export function TransactionDetailDialog({
     }
   };
   
+  const handleToggleReconciled = async () => {
+    try {
+      setIsReconciling(true);
+      await setTransactionReconciled(transaction.id, !transaction.reconciled);
+      
+      toast({
+        title: transaction.reconciled ? "Marked Unreconciled" : "Marked Reconciled",
+        description: transaction.reconciled
+          ? "The transaction will be matched again on the next statement import"
+          : "The transaction has been checked off against the books"
+      });
+      
+      onOpenChange(false);
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Error updating reconciled flag:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+  
   // Format the date in a readable format
   const formattedDate = format(new Date(transaction.date), "PPP");
   
@@ -104,8 +141,13 @@ export function TransactionDetailDialog({
                 "text-lg font-semibold",
                 transaction.type === "Income" ? "text-green-600" : "text-red-600"
               )}>
-                {transaction.type === "Income" ? "+" : "-"}${transaction.amount.toFixed(2)}
+                {transaction.type === "Income" ? "+" : "-"}{formatMoney(transaction.amount, transaction.currency || currency)}
               </span>
+              {transaction.currency && transaction.currency !== currency && (
+                <p className="text-sm text-muted-foreground md:text-right">
+                  {formatMoney(transaction.baseAmount, currency)} at 1 {transaction.currency} = {transaction.exchangeRate} {currency}
+                </p>
+              )}
             </div>
           </div>
           
@@ -135,6 +177,16 @@ export function TransactionDetailDialog({
               </p>
             </div>
             
+            {transaction.taxAmount != null && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Tax Included</h3>
+                <p>
+                  {formatMoney(transaction.taxAmount, transaction.currency || currency)}
+                  {transaction.taxRate != null && ` at ${transaction.taxRate}%`}
+                </p>
+              </div>
+            )}
+            
             {transaction.reference && (
               <div>
                 <h3 className="text-sm font-medium mb-1 flex items-center">
@@ -151,6 +203,29 @@ export function TransactionDetailDialog({
             <p className="text-sm">{transaction.description}</p>
           </div>
           
+          <Button
+            variant="outline"
+            className="w-full mb-2 border-farm-green text-farm-green hover:bg-farm-green/10"
+            onClick={handleToggleReconciled}
+            disabled={isReconciling}
+          >
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            {transaction.reconciled ? "Reconciled - Mark Unreconciled" : "Mark Reconciled"}
+          </Button>
+          
+          {onOpenInvoice && (
+            <Button
+              variant="outline"
+              className="w-full mb-2 border-farm-green text-farm-green hover:bg-farm-green/10"
+              onClick={onOpenInvoice}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              {transaction.invoiceNumber
+                ? `View ${transaction.invoiceNumber}`
+                : transaction.type === "Income" ? "Create Invoice" : "Create Receipt"}
+            </Button>
+          )}
+          
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" className="w-full">
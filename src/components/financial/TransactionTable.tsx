@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search, Edit, Trash2, Eye } from "lucide-react";
+import { Search, Edit, Trash2, Eye, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
@@ -36,6 +36,12 @@ import {
 } from "@/components/ui/select";
 import { Transaction } from "./types";
 import { TransactionDetailDialog } from "./TransactionDetailDialog";
+import { InvoiceDialog } from "./InvoiceDialog";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+import { LinkedRecordNotice } from "@/components/activity/LinkedRecordNotice";
+import { postDueTransactions } from "@/lib/recurring";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { baseCurrency, formatMoney } from "@/lib/currency";
 
 interface TransactionTableProps {
   onAddTransaction: () => void;
@@ -52,21 +58,39 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [showDetailDialog, setShowDetailDialog] = useState(false);
+  const [showInvoiceDialog, setShowInvoiceDialog] = useState(false);
+  const { linkedId, clearLinkedRecord } = useLinkedRecord();
+  const { settings } = useFarmSettings();
+  const currency = baseCurrency(settings);
   
   // Categories based on database transactions
   const [incomeCategories, setIncomeCategories] = useState<string[]>([]);
   const [expenseCategories, setExpenseCategories] = useState<string[]>([]);
   
   useEffect(() => {
-    fetchTransactions();
+    postRecurringTransactions().then(fetchTransactions);
   }, []);
   
+  // Recurring transactions that have come due since the farm was last opened are posted first
+  async function postRecurringTransactions() {
+    try {
+      const posted = await postDueTransactions();
+      if (posted > 0) {
+        toast.success("Recurring Transactions Posted", {
+          description: `${posted} scheduled ${posted === 1 ? 'transaction was' : 'transactions were'} added`
+        });
+      }
+    } catch (error) {
+      console.error('Error posting recurring transactions:', error);
+    }
+  }
+  
   async function fetchTransactions() {
     try {
       setLoading(true);
       const { data, error } = await supabase
         .from('financial_transactions')
-        .select('*, animals(id, name, tag_number)')
+        .select('*, animals(id, name, tag_number), invoices(invoice_number)')
         .order('date', { ascending: false });
       
       if (error) throw error;
@@ -89,11 +113,16 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
           }
         }
         
+        const exchangeRate = Number(transaction.exchange_rate) || 1;
+        
         return {
           id: transaction.id,
           type: transaction.type as "Income" | "Expense",
           category: transaction.category,
           amount: parsedAmount,
+          currency: transaction.currency || undefined,
+          exchangeRate,
+          baseAmount: parsedAmount * exchangeRate,
           date: transaction.date,
           description: transaction.description,
           relatedTo: transaction.related_to as "Animal" | "Farm" | "Other",
@@ -101,7 +130,11 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
           reference: transaction.reference || undefined,
           animalId: transaction.animal_id || undefined,
           animalName: transaction.animals?.name,
-          animalTag: transaction.animals?.tag_number
+          animalTag: transaction.animals?.tag_number,
+          invoiceNumber: transaction.invoices?.invoice_number,
+          reconciled: transaction.reconciled,
+          taxRate: transaction.tax_rate ?? undefined,
+          taxAmount: transaction.tax_amount ?? undefined
         };
       });
       
@@ -168,11 +201,14 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
   
   // Apply filters
   const filteredTransactions = transactions.filter(transaction => {
+    if (linkedId) return transaction.id === linkedId;
+
     // Text search filter
     const matchesSearch = 
       transaction.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
       transaction.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (transaction.reference && transaction.reference.toLowerCase().includes(searchQuery.toLowerCase()));
+      (transaction.reference && transaction.reference.toLowerCase().includes(searchQuery.toLowerCase())) ||
+      (transaction.invoiceNumber && transaction.invoiceNumber.toLowerCase().includes(searchQuery.toLowerCase()));
     
     // Type filter
     const matchesType = 
@@ -191,11 +227,11 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
   // Calculate financial summary
   const totalIncome = filteredTransactions
     .filter(t => t.type === "Income")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+    .reduce((sum, transaction) => sum + transaction.baseAmount, 0);
     
   const totalExpenses = filteredTransactions
     .filter(t => t.type === "Expense")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+    .reduce((sum, transaction) => sum + transaction.baseAmount, 0);
     
   const netBalance = totalIncome - totalExpenses;
   
@@ -275,11 +311,11 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="p-4 border rounded-lg bg-green-50 border-green-100">
           <p className="text-sm text-muted-foreground">Total Income</p>
-          <p className="text-2xl font-bold text-green-600">KSh {totalIncome.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-green-600">{formatMoney(totalIncome, currency)}</p>
         </div>
         <div className="p-4 border rounded-lg bg-red-50 border-red-100">
           <p className="text-sm text-muted-foreground">Total Expenses</p>
-          <p className="text-2xl font-bold text-red-600">KSh {totalExpenses.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-red-600">{formatMoney(totalExpenses, currency)}</p>
         </div>
         <div className="p-4 border rounded-lg bg-blue-50 border-blue-100">
           <p className="text-sm text-muted-foreground">Net Balance</p>
@@ -287,11 +323,19 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
             "text-2xl font-bold",
             netBalance >= 0 ? "text-blue-600" : "text-red-600"
           )}>
-            KSh {netBalance.toFixed(2)}
+            {formatMoney(netBalance, currency)}
           </p>
         </div>
       </div>
       
+      {linkedId && !loading && (
+        <LinkedRecordNotice
+          recordName="transaction"
+          found={filteredTransactions.length > 0}
+          onShowAll={clearLinkedRecord}
+        />
+      )}
+      
       {loading ? (
         <div className="text-center py-12">
           <p className="text-muted-foreground">Loading transactions...</p>
@@ -336,6 +380,16 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
                         Related to: {transaction.animalName} #{transaction.animalTag}
                       </span>
                     )}
+                    {transaction.invoiceNumber && (
+                      <span className="text-xs text-muted-foreground block">
+                        {transaction.invoiceNumber}
+                      </span>
+                    )}
+                    {transaction.reconciled && (
+                      <span className="text-xs text-green-700 block">
+                        Reconciled
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell>{transaction.category}</TableCell>
                   <TableCell>
@@ -355,8 +409,13 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
                       "text-[15px] font-medium",
                       transaction.type === "Income" ? "text-green-600" : "text-red-600"
                     )}>
-                      {transaction.type === "Income" ? "+" : "-"} KSh {transaction.amount.toFixed(2)}
+                      {transaction.type === "Income" ? "+" : "-"} {formatMoney(transaction.amount, transaction.currency || currency)}
                     </div>
+                    {transaction.currency && transaction.currency !== currency && (
+                      <span className="text-xs text-muted-foreground block">
+                        {formatMoney(transaction.baseAmount, currency)} at {transaction.exchangeRate}
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
@@ -371,6 +430,18 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
                         <Eye className="h-4 w-4" />
                       </Button>
                       
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={transaction.invoiceNumber ?? (transaction.type === "Income" ? "Create invoice" : "Create receipt")}
+                        onClick={() => {
+                          setSelectedTransaction(transaction);
+                          setShowInvoiceDialog(true);
+                        }}
+                      >
+                        <FileText className={cn("h-4 w-4", transaction.invoiceNumber && "text-farm-green")} />
+                      </Button>
+                      
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600 hover:bg-red-50">
@@ -410,6 +481,21 @@ export function TransactionTable({ onAddTransaction, onRefresh }: TransactionTab
           open={showDetailDialog}
           onOpenChange={setShowDetailDialog}
           transaction={selectedTransaction}
+          currency={currency}
+          onSuccess={fetchTransactions}
+          onOpenInvoice={() => {
+            setShowDetailDialog(false);
+            setShowInvoiceDialog(true);
+          }}
+        />
+      )}
+      
+      {selectedTransaction && (
+        <InvoiceDialog
+          open={showInvoiceDialog}
+          onOpenChange={setShowInvoiceDialog}
+          transaction={selectedTransaction}
+          currency={currency}
           onSuccess={fetchTransactions}
         />
       )}
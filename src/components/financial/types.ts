@@ -3,6 +3,12 @@ export interface Transaction {
   type: "Income" | "Expense";
   category: string;
   amount: number;
+  /** Currency the amount is in, unset when it is in the farm's base currency */
+  currency?: string;
+  /** Base currency units per unit of the transaction currency */
+  exchangeRate: number;
+  /** The amount converted to the farm's base currency */
+  baseAmount: number;
   date: string;
   description: string;
   relatedTo: "Animal" | "Farm" | "Other";
@@ -11,4 +17,12 @@ export interface Transaction {
   animalId?: string;
   animalName?: string;
   animalTag?: string;
+  /** Number of the invoice or receipt raised from this transaction */
+  invoiceNumber?: string;
+  /** Checked against a bank or mobile-money statement, or by hand */
+  reconciled: boolean;
+  /** Sales tax percentage, when tax was charged */
+  taxRate?: number;
+  /** Part of the amount that is tax, in the transaction currency */
+  taxAmount?: number;
 }
@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { createRecord, QUEUED_MESSAGE } from "@/lib/offline";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -34,18 +34,21 @@ import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { AnimalGroup, GroupAnimal, GroupEntry, recordGroupHealthRecord } from "@/lib/groups";
+import { AnimalGroupPicker } from "@/components/animals/AnimalGroupPicker";
 
 interface AddHealthRecordDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
-  animals: Array<{ id: string; name: string; tag: string }>;
+  animals: GroupAnimal[];
 }
 
 const formSchema = z.object({
-  animalId: z.string().min(1, { message: "Animal ID is required" }),
-  animalName: z.string().min(1, { message: "Animal name is required" }),
-  animalTag: z.string().min(1, { message: "Animal tag is required" }),
+  animals: z.array(z.object({
+    animalId: z.string(),
+    exception: z.enum(["Absent", "Refused"]).nullable(),
+  })).min(1, { message: "Select at least one animal" }),
   recordType: z.enum(["Vaccination", "Treatment", "Deworming", "Illness", "Check-up"]),
   date: z.date(),
   description: z.string().min(5, { message: "Description must be at least 5 characters" }),
@@ -60,6 +63,7 @@ type FormValues = z.infer<typeof formSchema>;
 export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }: AddHealthRecordDialogProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [group, setGroup] = useState<AnimalGroup | null>(null);
   /* No longer needed as animals are passed from props
   const [animals] = useState([
     { id: "MB001", name: "Fluffy", tag: "MB001" },
@@ -72,6 +76,7 @@ export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      animals: [],
       recordType: "Vaccination",
       date: new Date(),
       status: "Scheduled",
@@ -86,7 +91,6 @@ export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }
     try {
       // Convert the data to match the database schema
       const healthRecordData = {
-        animal_id: data.animalId,
         record_type: data.recordType,
         date: format(data.date, 'yyyy-MM-dd'),
         description: data.description,
@@ -97,20 +101,30 @@ export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }
         notes: null
       };
       
-      // Insert the data into Supabase
-      const { error } = await supabase
-        .from('health_records')
-        .insert(healthRecordData);
+      const entries = data.animals as GroupEntry[];
       
-      if (error) throw error;
-      
-      toast({
-        title: "Health Record Added",
-        description: `Added ${data.recordType} record for ${data.animalName}`,
-      });
+      // Several animals, or one that was absent or refused, are saved as a group record
+      if (entries.length > 1 || entries[0].exception) {
+        await recordGroupHealthRecord({ ...healthRecordData, animal_group_id: group?.id ?? null }, entries);
+        
+        toast({
+          title: "Health Record Added",
+          description: `Added ${data.recordType} record for ${entries.length} ${entries.length === 1 ? 'animal' : 'animals'}`,
+        });
+      } else {
+        // Insert the data into Supabase
+        const { queued } = await createRecord('health_records', { ...healthRecordData, animal_id: entries[0].animalId });
+        const animal = animals.find(a => a.id === entries[0].animalId);
+        
+        toast({
+          title: "Health Record Added",
+          description: queued ? QUEUED_MESSAGE : `Added ${data.recordType} record for ${animal?.name ?? 'the animal'}`,
+        });
+      }
       
       // Reset the form and close the dialog
       form.reset();
+      setGroup(null);
       onOpenChange(false);
       
       // Refresh the health records list
@@ -129,20 +143,12 @@ export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }
     }
   };
 
-  const handleAnimalSelect = (animalId: string) => {
-    const selectedAnimal = animals.find(animal => animal.id === animalId);
-    if (selectedAnimal) {
-      form.setValue("animalName", selectedAnimal.name);
-      form.setValue("animalTag", selectedAnimal.tag);
-    }
-  };
-
   const recordType = form.watch("recordType");
   const needsOutcome = recordType === "Treatment" || recordType === "Illness";
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl">Add Health Record</DialogTitle>
         </DialogHeader>
@@ -150,36 +156,25 @@ export function AddHealthRecordDialog({ open, onOpenChange, onSuccess, animals }
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="animalId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Animal</FormLabel>
-                    <Select 
-                      onValueChange={(value) => {
-                        field.onChange(value);
-                        handleAnimalSelect(value);
-                      }}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select animal" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {animals.map((animal) => (
-                          <SelectItem key={animal.id} value={animal.id}>
-                            {animal.name} (#{animal.tag})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="col-span-1 md:col-span-2">
+                <FormField
+                  control={form.control}
+                  name="animals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Animals</FormLabel>
+                      <AnimalGroupPicker
+                        animals={animals}
+                        value={field.value as GroupEntry[]}
+                        onChange={field.onChange}
+                        group={group}
+                        onGroupChange={setGroup}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
 
               <FormField
                 control={form.control}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { QUEUED_MESSAGE, updateRecord } from "@/lib/offline";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -124,16 +124,11 @@ export function EditHealthRecordDialog({ open, onOpenChange, onSuccess, animals,
       };
       
       // Update the record in Supabase
-      const { error } = await supabase
-        .from('health_records')
-        .update(healthRecordData)
-        .eq('id', record.id);
-      
-      if (error) throw error;
+      const { queued } = await updateRecord('health_records', record.id, healthRecordData);
       
       toast({
         title: "Health Record Updated",
-        description: `Updated ${data.recordType} record for ${data.animalName || record.animalName}`,
+        description: queued ? QUEUED_MESSAGE : `Updated ${data.recordType} record for ${data.animalName || record.animalName}`,
       });
       
       // Close the dialog
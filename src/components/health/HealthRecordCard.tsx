@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Edit, FileText, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
+import { deleteRecord, fetchCached, QUEUED_MESSAGE } from "@/lib/offline";
 import { useToast } from "@/hooks/use-toast";
 import { EditHealthRecordDialog } from "./EditHealthRecordDialog";
 import {
@@ -21,6 +21,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { groupSummaryLabel } from "@/lib/groups";
 
 interface HealthRecord {
   id: string;
@@ -34,6 +35,9 @@ interface HealthRecord {
   outcome?: string;
   followUp?: Date;
   status: "Completed" | "Ongoing" | "Scheduled" | "Needs Follow-up";
+  /** Set on the summary record of a group treatment */
+  groupSize?: number | null;
+  entries?: Array<{ id: string; animalName: string; animalTag: string; exception: string | null }>;
 }
 
 interface HealthRecordCardProps {
@@ -59,6 +63,11 @@ const statusColors: Record<string, string> = {
 
 export function HealthRecordCard({ record, className, onRecordChange }: HealthRecordCardProps) {
   const { toast } = useToast();
+  const entries = record.entries ?? [];
+  const exceptions = entries.filter(entry => entry.exception);
+  const animalLabel = record.groupSize
+    ? groupSummaryLabel(record.groupSize, exceptions.length)
+    : `${record.animalName} (#${record.animalTag})`;
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
@@ -67,11 +76,7 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
   // Fetch animals for the edit dialog when it's opened
   const handleEditClick = async () => {
     try {
-      const { data, error } = await supabase
-        .from('animals')
-        .select('id, name, tag_number');
-      
-      if (error) throw error;
+      const data = await fetchCached('animals');
       
       setAnimals(data.map(animal => ({
         id: animal.id,
@@ -93,16 +98,11 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('health_records')
-        .delete()
-        .eq('id', record.id);
-      
-      if (error) throw error;
+      const { queued } = await deleteRecord('health_records', record.id);
       
       toast({
         title: "Health Record Deleted",
-        description: `${record.recordType} record for ${record.animalName} has been removed`
+        description: queued ? QUEUED_MESSAGE : `${record.recordType} record for ${record.groupSize ? `${record.groupSize} animals` : record.animalName} has been removed`
       });
       
       if (onRecordChange) {
@@ -139,7 +139,7 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
               </Badge>
             </div>
             <CardTitle className="mt-2 font-medium text-base">
-              {record.animalName} (#{record.animalTag})
+              {animalLabel}
             </CardTitle>
           </div>
           <div className="text-right">
@@ -190,15 +190,18 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
             <span>View Details</span>
           </Button>
           
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="flex-1"
-            onClick={handleEditClick}
-          >
-            <Edit className="h-4 w-4 mr-1" />
-            <span>Edit</span>
-          </Button>
+          {/* Editing a group record would leave its per-animal entries behind */}
+          {!record.groupSize && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="flex-1"
+              onClick={handleEditClick}
+            >
+              <Edit className="h-4 w-4 mr-1" />
+              <span>Edit</span>
+            </Button>
+          )}
           
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -211,8 +214,10 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This will permanently delete this health record for {record.animalName}.
-                  This action cannot be undone.
+                  {record.groupSize
+                    ? `This will permanently delete this group record and the entries for its ${record.groupSize} animals.`
+                    : `This will permanently delete this health record for ${record.animalName}.`}
+                  {" "}This action cannot be undone.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -239,10 +244,14 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
           
           <div className="space-y-4 py-4">
             <div className="flex justify-between items-start">
-              <div>
-                <h2 className="font-semibold text-lg">{record.animalName}</h2>
-                <p className="text-sm text-muted-foreground">Tag: #{record.animalTag}</p>
-              </div>
+              {record.groupSize ? (
+                <h2 className="font-semibold text-lg">{animalLabel}</h2>
+              ) : (
+                <div>
+                  <h2 className="font-semibold text-lg">{record.animalName}</h2>
+                  <p className="text-sm text-muted-foreground">Tag: #{record.animalTag}</p>
+                </div>
+              )}
               <div className="flex flex-col items-end">
                 <Badge 
                   variant="outline"
@@ -288,6 +297,26 @@ export function HealthRecordCard({ record, className, onRecordChange }: HealthRe
                 </div>
               )}
             </div>
+            
+            {entries.length > 0 && (
+              <div className="border-t pt-3">
+                <h3 className="font-medium text-sm mb-2">Animals</h3>
+                <div className="max-h-60 overflow-y-auto space-y-1">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between text-sm">
+                      <span>{entry.animalName} (#{entry.animalTag})</span>
+                      {entry.exception ? (
+                        <Badge variant="outline" className="text-xs bg-amber-100 text-amber-800 border-amber-200">
+                          {entry.exception}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Treated</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
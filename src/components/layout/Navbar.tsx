@@ -16,6 +16,7 @@ import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { SyncIndicator } from "./SyncIndicator";
 
 export function Navbar({ className, menuButton }: { className?: string; menuButton?: () => void }) {
   const [scrolled, setScrolled] = useState(false);
@@ -190,6 +191,8 @@ export function Navbar({ className, menuButton }: { className?: string; menuButt
           <Search className="h-5 w-5 text-farm-green" />
         </Button>
         
+        <SyncIndicator />
+        
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button 
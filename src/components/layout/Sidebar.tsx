@@ -4,7 +4,9 @@ import { cn } from "@/lib/utils";
 import { 
   Activity, 
   Calendar, 
+  CalendarDays,
   FileText, 
+  Fence,
   Heart, 
   Home, 
   Settings, 
@@ -91,6 +93,11 @@ export function AppSidebar() {
       icon: Users,
       path: "/animals",
     },
+    {
+      title: "Mobs & Paddocks",
+      icon: Fence,
+      path: "/mobs",
+    },
     {
       title: "Health Records",
       icon: Heart,
@@ -101,6 +108,11 @@ export function AppSidebar() {
       icon: Calendar,
       path: "/events",
     },
+    {
+      title: "Calendar",
+      icon: CalendarDays,
+      path: "/calendar",
+    },
     {
       title: "Finance",
       icon: Activity,
@@ -0,0 +1,47 @@
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+
+export function SyncIndicator() {
+  const { online, pending, syncing, syncNow } = useSyncStatus();
+
+  const title = !online
+    ? `Offline${pending ? ` – ${pending} ${pending === 1 ? 'change' : 'changes'} waiting to sync` : ''}`
+    : syncing
+      ? "Syncing changes..."
+      : pending
+        ? `${pending} ${pending === 1 ? 'change' : 'changes'} waiting to sync – click to sync now`
+        : "All changes saved";
+
+  const Icon = !online ? CloudOff : syncing || pending ? RefreshCw : Cloud;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn(
+        "relative flex items-center gap-1 transition-all duration-300",
+        online ? "hover:bg-farm-green/10" : "hover:bg-amber-50"
+      )}
+      onClick={syncNow}
+      disabled={!online || syncing || pending === 0}
+      title={title}
+      aria-label={title}
+    >
+      <Icon
+        className={cn(
+          "h-5 w-5",
+          online ? "text-farm-green" : "text-amber-600",
+          syncing && "animate-spin"
+        )}
+      />
+      {!online && <span className="hidden md:inline text-sm text-amber-700">Offline</span>}
+      {pending > 0 && (
+        <span className="min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-white text-xs font-medium flex items-center justify-center">
+          {pending}
+        </span>
+      )}
+    </Button>
+  );
+}
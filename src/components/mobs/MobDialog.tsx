@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Mob, saveMob } from "@/lib/mobs";
+
+interface MobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The mob being edited, or null to add one */
+  mob: Mob | null;
+  onSuccess?: () => void;
+}
+
+export function MobDialog({ open, onOpenChange, mob, onSuccess }: MobDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(mob?.name ?? "");
+    setDescription(mob?.description ?? "");
+  }, [open, mob]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name required", description: "Give the mob a name.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveMob({ name: name.trim(), description: description.trim() || null }, mob?.id);
+      toast({ title: mob ? "Mob Updated" : "Mob Added", description: `${name.trim()} has been saved.` });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving mob:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save the mob",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{mob ? `Edit ${mob.name}` : "Add Mob"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="mobName">Name</Label>
+            <Input id="mobName" placeholder="e.g. Breeding ewes" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mobDescription">Description</Label>
+            <Textarea id="mobDescription" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Mob"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Mob, moveMob, NO_PADDOCK_LABEL, Paddock, PaddockStocking } from "@/lib/mobs";
+
+interface MoveMobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mob: Mob | null;
+  paddocks: Paddock[];
+  stocking: Map<string, PaddockStocking>;
+  onSuccess?: () => void;
+}
+
+const NO_PADDOCK = "none";
+
+export function MoveMobDialog({ open, onOpenChange, mob, paddocks, stocking, onSuccess }: MoveMobDialogProps) {
+  const { toast } = useToast();
+  const [paddockId, setPaddockId] = useState("");
+  const [movedAt, setMovedAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPaddockId("");
+    setMovedAt(format(new Date(), "yyyy-MM-dd"));
+    setNotes("");
+  }, [open]);
+
+  if (!mob) return null;
+
+  const target = paddocks.find(paddock => paddock.id === paddockId);
+  const headAfterMove = target ? (stocking.get(target.id)?.headCount ?? 0) + mob.headCount : 0;
+  const overCapacity = target?.capacity != null && headAfterMove > target.capacity;
+
+  const handleMove = async () => {
+    if (!paddockId) {
+      toast({ title: "Paddock required", description: "Choose where the mob is going.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await moveMob(mob.id, paddockId === NO_PADDOCK ? null : paddockId, movedAt, notes.trim());
+      toast({ title: "Mob Moved", description: `${mob.name} moved to ${target?.name ?? NO_PADDOCK_LABEL.toLowerCase()}.` });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error moving mob:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to move the mob",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Move {mob.name}</DialogTitle>
+          <DialogDescription>
+            {mob.headCount} head, currently in {mob.paddockName ?? NO_PADDOCK_LABEL.toLowerCase()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="moveTo">To</Label>
+              <Select value={paddockId} onValueChange={setPaddockId}>
+                <SelectTrigger id="moveTo">
+                  <SelectValue placeholder="Select paddock" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paddocks
+                    .filter(paddock => paddock.id !== mob.paddockId)
+                    .map(paddock => (
+                      <SelectItem key={paddock.id} value={paddock.id}>
+                        {paddock.name}
+                        {paddock.capacity != null && ` (${stocking.get(paddock.id)?.headCount ?? 0}/${paddock.capacity})`}
+                      </SelectItem>
+                    ))}
+                  {mob.paddockId && <SelectItem value={NO_PADDOCK}>{NO_PADDOCK_LABEL}</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movedAt">Date</Label>
+              <Input id="movedAt" type="date" value={movedAt} onChange={(e) => setMovedAt(e.target.value)} />
+            </div>
+          </div>
+
+          {overCapacity && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {target.name} would carry {headAfterMove} head, over its capacity of {target.capacity}.
+              </span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="moveNotes">Notes</Label>
+            <Textarea id="moveNotes" placeholder="e.g. Moved for lambing" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleMove} disabled={isSaving}>
+            {isSaving ? "Moving..." : "Move Mob"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
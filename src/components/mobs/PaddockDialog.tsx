@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Paddock, savePaddock } from "@/lib/mobs";
+
+interface PaddockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The paddock being edited, or null to add one */
+  paddock: Paddock | null;
+  onSuccess?: () => void;
+}
+
+const positiveOrNull = (value: string) => {
+  const number = parseFloat(value);
+  return isNaN(number) || number <= 0 ? null : number;
+};
+
+export function PaddockDialog({ open, onOpenChange, paddock, onSuccess }: PaddockDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [areaHa, setAreaHa] = useState("");
+  const [waterSource, setWaterSource] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(paddock?.name ?? "");
+    setAreaHa(paddock?.area_ha != null ? String(paddock.area_ha) : "");
+    setWaterSource(paddock?.water_source ?? "");
+    setCapacity(paddock?.capacity != null ? String(paddock.capacity) : "");
+    setNotes(paddock?.notes ?? "");
+  }, [open, paddock]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name required", description: "Give the paddock a name.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const capacityValue = positiveOrNull(capacity);
+      await savePaddock({
+        name: name.trim(),
+        area_ha: positiveOrNull(areaHa),
+        water_source: waterSource.trim() || null,
+        capacity: capacityValue != null ? Math.round(capacityValue) : null,
+        notes: notes.trim() || null,
+      }, paddock?.id);
+
+      toast({ title: paddock ? "Paddock Updated" : "Paddock Added", description: `${name.trim()} has been saved.` });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving paddock:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save the paddock",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{paddock ? `Edit ${paddock.name}` : "Add Paddock"}</DialogTitle>
+          <DialogDescription>
+            Capacity is the number of head the paddock can carry, used to warn when a move would overstock it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="paddockName">Name</Label>
+            <Input id="paddockName" placeholder="e.g. North paddock" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paddockArea">Area (ha)</Label>
+              <Input id="paddockArea" type="number" min="0" step="0.01" value={areaHa} onChange={(e) => setAreaHa(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paddockCapacity">Capacity (head)</Label>
+              <Input id="paddockCapacity" type="number" min="0" step="1" value={capacity} onChange={(e) => setCapacity(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paddockWater">Water</Label>
+            <Input id="paddockWater" placeholder="e.g. Borehole trough, river" value={waterSource} onChange={(e) => setWaterSource(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paddockNotes">Notes</Label>
+            <Textarea id="paddockNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Paddock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { downloadTablesXlsx, ExportableTable, exportableTables } from "@/lib/report-xlsx";
+
+interface ExportDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportDataDialog({ open, onOpenChange }: ExportDataDialogProps) {
+  const [selected, setSelected] = useState<ExportableTable[]>(exportableTables.map(table => table.id));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggle = (table: ExportableTable, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, table] : prev.filter(t => t !== table));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Keep the sheets in the same order as the list
+      await downloadTablesXlsx(exportableTables.map(table => table.id).filter(id => selected.includes(id)));
+
+      toast.success("Data exported", {
+        description: "Your records have been saved as an Excel workbook.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Excel export error:', error);
+      toast.error("Export failed", {
+        description: "An error occurred while exporting your data. Please try again."
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Export Data</DialogTitle>
+          <DialogDescription>Download raw records as an Excel workbook, one sheet per table</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {exportableTables.map(table => (
+            <div key={table.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`export-${table.id}`}
+                checked={selected.includes(table.id)}
+                onCheckedChange={(checked) => toggle(table.id, checked === true)}
+              />
+              <Label htmlFor={`export-${table.id}`}>{table.name}</Label>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-farm-green hover:bg-farm-green/90"
+            onClick={handleExport}
+            disabled={selected.length === 0 || isExporting}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            {isExporting ? "Exporting..." : "Export to Excel"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
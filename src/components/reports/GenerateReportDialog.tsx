@@ -1,4 +1,5 @@
 
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -29,65 +30,43 @@ import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { generateReportData, reportCategories, reportOptionsFromSettings, ReportScope, resolveDateRange } from "@/lib/reports";
+import { financialYearStartMonth } from "@/lib/finance";
+import { downloadReportPdf } from "@/lib/report-pdf";
+import { downloadReportXlsx } from "@/lib/report-xlsx";
 
 interface GenerateReportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Mob or paddock chosen on the reports page, applied to the livestock reports */
+  scope?: ReportScope;
 }
 
 const formSchema = z.object({
   reportType: z.string().min(1, { message: "Report type is required" }),
   reportFormat: z.enum(["PDF", "Excel"]),
-  dateRange: z.enum(["Last7Days", "Last30Days", "Last3Months", "Last6Months", "Last12Months", "Custom"]),
+  dateRange: z.enum(["Last7Days", "Last30Days", "Last3Months", "Last6Months", "Last12Months", "ThisFinancialYear", "LastFinancialYear", "Custom"]),
   startDate: z.date().optional(),
   endDate: z.date().optional(),
+}).refine(data => data.dateRange !== "Custom" || (data.startDate && data.endDate), {
+  message: "Pick a start and end date",
+  path: ["endDate"],
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
-export function GenerateReportDialog({ open, onOpenChange }: GenerateReportDialogProps) {
+export function GenerateReportDialog({ open, onOpenChange, scope }: GenerateReportDialogProps) {
   const { toast } = useToast();
   
-  const reportCategories = [
-    {
-      name: "Inventory Reports",
-      reports: [
-        { id: "inventory-flock", name: "Current Flock Summary" },
-        { id: "inventory-breeding", name: "Breeding Stock Report" },
-        { id: "inventory-age", name: "Age Distribution" },
-      ]
-    },
-    {
-      name: "Health Reports",
-      reports: [
-        { id: "health-vaccination", name: "Vaccination Status" },
-        { id: "health-incidents", name: "Health Incidents" },
-        { id: "health-mortality", name: "Mortality Report" },
-      ]
-    },
-    {
-      name: "Breeding Reports",
-      reports: [
-        { id: "breeding-performance", name: "Breeding Performance" },
-        { id: "breeding-lambing", name: "Lambing Statistics" },
-        { id: "breeding-genetic", name: "Genetic Analysis" },
-      ]
-    },
-    {
-      name: "Financial Reports",
-      reports: [
-        { id: "financial-revenue", name: "Revenue Summary" },
-        { id: "financial-expense", name: "Expense Analysis" },
-        { id: "financial-profit", name: "Profitability Report" },
-      ]
-    },
-  ];
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { settings: farmSettings } = useFarmSettings();
 
   // Flatten report options for the select component
   const reportOptions = reportCategories.flatMap(category => 
     category.reports.map(report => ({
       id: report.id,
-      name: `${report.name} (${category.name.replace(" Reports", "")})`,
+      name: `${report.name} (${category.title.replace(" Reports", "")})`,
     }))
   );
   
@@ -100,17 +79,38 @@ export function GenerateReportDialog({ open, onOpenChange }: GenerateReportDialo
     },
   });
 
-  const onSubmit = (data: FormValues) => {
-    console.log("Report generation submitted:", data);
-    
+  const onSubmit = async (data: FormValues) => {
     const reportName = reportOptions.find(r => r.id === data.reportType)?.name.split(" (")[0];
     
-    toast({
-      title: "Report Generated",
-      description: `${reportName} report has been generated in ${data.reportFormat} format.`,
-    });
-    form.reset();
-    onOpenChange(false);
+    setIsGenerating(true);
+    try {
+      const reportData = await generateReportData(
+        data.reportType,
+        resolveDateRange(data.dateRange, data.startDate, data.endDate, financialYearStartMonth(farmSettings)),
+        { ...reportOptionsFromSettings(farmSettings), ...scope }
+      );
+      if (data.reportFormat === "Excel") {
+        await downloadReportXlsx(reportData);
+      } else {
+        await downloadReportPdf(reportData);
+      }
+      
+      toast({
+        title: "Report Generated",
+        description: `${reportName} report has been generated in ${data.reportFormat} format.`,
+      });
+      form.reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error generating report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate report. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
   const watchDateRange = form.watch("dateRange");
@@ -141,9 +141,9 @@ export function GenerateReportDialog({ open, onOpenChange }: GenerateReportDialo
                         </FormControl>
                         <SelectContent className="max-h-[300px]">
                           {reportCategories.map((category) => (
-                            <div key={category.name}>
+                            <div key={category.title}>
                               <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
-                                {category.name}
+                                {category.title}
                               </div>
                               {category.reports.map((report) => (
                                 <SelectItem key={report.id} value={report.id}>
@@ -200,6 +200,8 @@ export function GenerateReportDialog({ open, onOpenChange }: GenerateReportDialo
                         <SelectItem value="Last3Months">Last 3 Months</SelectItem>
                         <SelectItem value="Last6Months">Last 6 Months</SelectItem>
                         <SelectItem value="Last12Months">Last 12 Months</SelectItem>
+                        <SelectItem value="ThisFinancialYear">This Financial Year</SelectItem>
+                        <SelectItem value="LastFinancialYear">Last Financial Year</SelectItem>
                         <SelectItem value="Custom">Custom Range</SelectItem>
                       </SelectContent>
                     </Select>
@@ -301,18 +303,18 @@ export function GenerateReportDialog({ open, onOpenChange }: GenerateReportDialo
             <div className="flex items-center justify-center py-4">
               <div className="flex flex-col items-center text-center border border-dashed p-6 rounded-lg w-full">
                 <FileText className="h-12 w-12 text-farm-green mb-2" />
-                <h3 className="text-lg font-medium">Preview Not Available</h3>
+                <h3 className="text-lg font-medium">Live Farm Data</h3>
                 <p className="text-sm text-muted-foreground">
-                  Report will be generated in your selected format when you click "Generate Report"
+                  The report is built from your records for the selected period when you click "Generate Report"
                 </p>
               </div>
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
-              <Button type="submit" className="bg-farm-green hover:bg-farm-green/90">
+              <Button type="submit" className="bg-farm-green hover:bg-farm-green/90" disabled={isGenerating}>
                 <Download className="mr-2 h-4 w-4" />
-                Generate Report
+                {isGenerating ? "Generating..." : "Generate Report"}
               </Button>
             </DialogFooter>
           </form>
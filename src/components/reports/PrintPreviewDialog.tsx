@@ -1,77 +1,63 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Printer, Download, Loader2, Edit, Save, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-
-// Sample report data - this would be dynamically generated in a real application
-const generateSampleReportData = (reportId: string) => {
-  const reportTypes: Record<string, any> = {
-    "1": {
-      title: "Current Flock Summary",
-      date: new Date().toLocaleDateString(),
-      content: [
-        { header: "Flock Overview", text: "Total animals: 120" },
-        { header: "Breed Distribution", text: "Merino: 40%, Suffolk: 30%, Dorper: 20%, Other: 10%" },
-        { header: "Age Distribution", text: "Under 1 year: 35%, 1-3 years: 40%, 3+ years: 25%" },
-        { header: "Health Status", text: "Healthy: 95%, Requires attention: 5%" },
-        { header: "Vaccination Status", text: "Up to date: 98%, Pending: 2%" }
-      ]
-    },
-    "2": {
-      title: "Breeding Stock Report",
-      date: new Date().toLocaleDateString(),
-      content: [
-        { header: "Breeding Rams", text: "Total: 5, Average age: 2.5 years" },
-        { header: "Breeding Ewes", text: "Total: 45, Average age: 3.2 years" },
-        { header: "Recent Breeding Activity", text: "Matings in last 30 days: 12" },
-        { header: "Expected Births", text: "Next 30 days: 8, Next 60 days: 15" }
-      ]
-    },
-    "3": {
-      title: "Age Distribution",
-      date: new Date().toLocaleDateString(),
-      content: [
-        { header: "Lambs (0-6 months)", text: "Total: 35, Male: 16, Female: 19" },
-        { header: "Juveniles (6-12 months)", text: "Total: 22, Male: 10, Female: 12" },
-        { header: "Adults (1-4 years)", text: "Total: 48, Male: 8, Female: 40" },
-        { header: "Seniors (4+ years)", text: "Total: 15, Male: 3, Female: 12" }
-      ]
-    },
-  };
-
-  return reportTypes[reportId] || {
-    title: "Sample Report",
-    date: new Date().toLocaleDateString(),
-    content: [
-      { header: "No Data Available", text: "This is a placeholder for report data." }
-    ]
-  };
-};
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { DateRangePreset, generateReportData, ReportData, reportOptionsFromSettings, ReportScope, resolveDateRange } from "@/lib/reports";
+import { financialYearStartMonth } from "@/lib/finance";
+import { downloadReportPdf, renderChartHtml, renderTableHtml } from "@/lib/report-pdf";
 
 interface PrintPreviewDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   reportId: string;
   reportName: string;
+  dateRange: DateRangePreset;
+  scope?: ReportScope;
 }
 
 export function PrintPreviewDialog({ 
   open, 
   onOpenChange, 
   reportId, 
-  reportName 
+  reportName,
+  dateRange,
+  scope
 }: PrintPreviewDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const reportContentRef = useRef<HTMLDivElement>(null);
   
-  // Generate sample report data based on the reportId
-  const [reportData, setReportData] = useState(generateSampleReportData(reportId));
+  const [isFetching, setIsFetching] = useState(false);
+  const [originalData, setOriginalData] = useState<ReportData | null>(null);
+  const [reportData, setReportData] = useState<ReportData | null>(null);
+  const { settings: farmSettings } = useFarmSettings();
+  
+  useEffect(() => {
+    if (open) {
+      loadReport();
+    }
+  }, [open, reportId, dateRange, scope?.mobId, scope?.paddockId, farmSettings]);
+  
+  async function loadReport() {
+    try {
+      setIsFetching(true);
+      setIsEditMode(false);
+      const data = await generateReportData(reportId, resolveDateRange(dateRange, undefined, undefined, financialYearStartMonth(farmSettings)), { ...reportOptionsFromSettings(farmSettings), ...scope });
+      setOriginalData(data);
+      setReportData(data);
+    } catch (error) {
+      console.error('Error generating report:', error);
+      toast.error("Database Error", {
+        description: "Failed to load report data. Please try again."
+      });
+    } finally {
+      setIsFetching(false);
+    }
+  }
   
   const handlePrint = () => {
     setIsLoading(true);
@@ -161,66 +147,11 @@ export function PrintPreviewDialog({
   };
   
   const handleDownload = async () => {
+    if (!reportData) return;
     setIsLoading(true);
     
     try {
-      const content = reportContentRef.current;
-      if (!content) {
-        toast.error("Could not generate PDF. Please try again.");
-        setIsLoading(false);
-        return;
-      }
-      
-      // Create a clone of the content to ensure we capture it without any edit buttons
-      const printableContent = content.cloneNode(true) as HTMLElement;
-      
-      // Set a white background to ensure PDF renders correctly
-      printableContent.style.backgroundColor = 'white';
-      printableContent.style.padding = '20px';
-      document.body.appendChild(printableContent);
-      
-      // Use html2canvas to convert the HTML to a canvas
-      const canvas = await html2canvas(printableContent, {
-        scale: 2, // Higher scale for better quality
-        logging: false,
-        useCORS: true,
-        backgroundColor: '#ffffff'
-      });
-      
-      document.body.removeChild(printableContent);
-      
-      // Calculate PDF dimensions based on canvas with a fixed width of 210mm (A4 width)
-      const imgWidth = 210;
-      const imgHeight = canvas.height * imgWidth / canvas.width;
-      
-      // Create PDF with A4 dimensions
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      
-      // Add a title to the PDF
-      pdf.setFontSize(16);
-      pdf.text(`${reportName}`, 105, 15, { align: 'center' });
-      pdf.setFontSize(10);
-      pdf.text(`Generated on ${new Date().toLocaleDateString()}`, 105, 22, { align: 'center' });
-      
-      // Add the image to the PDF
-      const imgData = canvas.toDataURL('image/png');
-      pdf.addImage(imgData, 'PNG', 0, 30, imgWidth, imgHeight);
-      
-      // Add footer
-      const pageCount = pdf.getNumberOfPages();
-      for (let i = 1; i <= pageCount; i++) {
-        pdf.setPage(i);
-        pdf.setFontSize(8);
-        pdf.text(
-          `Page ${i} of ${pageCount} - Generated by Mumbi Farm Management`,
-          105,
-          pdf.internal.pageSize.height - 10,
-          { align: 'center' }
-        );
-      }
-      
-      // Save the PDF
-      pdf.save(`${reportName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`);
+      await downloadReportPdf(reportData);
       
       toast.success("Report downloaded successfully", {
         description: `${reportName} has been saved as a PDF.`,
@@ -243,17 +174,23 @@ export function PrintPreviewDialog({
         </DialogHeader>
         
         <div className="py-4">
+          {isFetching || !reportData ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-farm-green"></div>
+            </div>
+          ) : (
           <div 
             ref={reportContentRef}
             className="preview-container border rounded-lg p-6 bg-white"
           >
             <div className="report-header">
               <h2 className="text-2xl font-bold text-farm-green">{reportData.title}</h2>
+              <p className="text-gray-500">{reportData.period}</p>
               <p className="text-gray-500">Generated on {reportData.date}</p>
             </div>
             
             <div className="report-content space-y-6">
-              {reportData.content.map((section: any, index: number) => (
+              {reportData.content.map((section, index) => (
                 <div key={index} className="report-section">
                   {isEditMode ? (
                     <>
@@ -282,6 +219,12 @@ export function PrintPreviewDialog({
                       <p>{section.text}</p>
                     </>
                   )}
+                  {section.chart && (
+                    <div dangerouslySetInnerHTML={{ __html: renderChartHtml(section.chart) }} />
+                  )}
+                  {section.table && (
+                    <div dangerouslySetInnerHTML={{ __html: renderTableHtml(section.table) }} />
+                  )}
                 </div>
               ))}
               {isEditMode && (
@@ -298,6 +241,7 @@ export function PrintPreviewDialog({
               )}
             </div>
           </div>
+          )}
         </div>
 
         <DialogFooter className="flex flex-wrap gap-2 sm:gap-0 justify-end">
@@ -312,7 +256,7 @@ export function PrintPreviewDialog({
                 variant="destructive" 
                 onClick={() => {
                   setIsEditMode(false);
-                  setReportData(generateSampleReportData(reportId)); // Reset to original data
+                  setReportData(originalData); // Reset to original data
                 }}
               >
                 <X className="mr-2 h-4 w-4" />
@@ -336,7 +280,7 @@ export function PrintPreviewDialog({
                 type="button" 
                 variant="secondary"
                 onClick={() => setIsEditMode(true)}
-                disabled={isLoading}
+                disabled={isLoading || !reportData}
               >
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Report
@@ -345,7 +289,7 @@ export function PrintPreviewDialog({
                 type="button" 
                 variant="outline"
                 onClick={handleDownload}
-                disabled={isLoading}
+                disabled={isLoading || !reportData}
               >
                 {isLoading ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -358,7 +302,7 @@ export function PrintPreviewDialog({
                 type="button" 
                 className="bg-farm-green hover:bg-farm-green/90"
                 onClick={handlePrint}
-                disabled={isLoading}
+                disabled={isLoading || !reportData}
               >
                 {isLoading ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type FarmSettings = Tables<'farm_settings'>;
+
+// Breed list used until the farm saves its own in Settings
+export const DEFAULT_ACTIVE_BREEDS = ["Dorper", "Merino", "Suffolk", "Hampshire", "Blackhead Persian", "Red Maasai"];
+export const DEFAULT_INACTIVE_BREEDS = ["Romney", "Corriedale", "Blackface", "Jacob"];
+
+/**
+ * Load the farm's settings row. The app keeps a single row in farm_settings;
+ * it is created on first save if it does not exist yet.
+ */
+export function useFarmSettings() {
+  const [settings, setSettings] = useState<FarmSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('farm_settings')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error loading farm settings:', error);
+      setSettings(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveSettings = async (changes: TablesUpdate<'farm_settings'>) => {
+    const { data, error } = settings
+      ? await supabase
+          .from('farm_settings')
+          .update(changes)
+          .eq('id', settings.id)
+          .select()
+          .single()
+      : await supabase
+          .from('farm_settings')
+          .insert({ farm_name: "Mumbi Farm", ...changes })
+          .select()
+          .single();
+
+    if (error) throw error;
+    setSettings(data);
+    return data;
+  };
+
+  return {
+    settings,
+    isLoading,
+    refresh,
+    saveSettings
+  };
+}
@@ -0,0 +1,19 @@
+import { useSearchParams } from "react-router-dom";
+
+/**
+ * Record picked out by an `?id=` link, such as the ones in the dashboard activity feed.
+ * A linked record is shown on its own, whatever the other filters say. Clearing it drops
+ * the parameter and goes back to the full list.
+ */
+export function useLinkedRecord() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedId = searchParams.get('id');
+
+  const clearLinkedRecord = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('id');
+    setSearchParams(next, { replace: true });
+  };
+
+  return { linkedId, clearLinkedRecord };
+}
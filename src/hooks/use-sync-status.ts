@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { getSyncState, startSync, subscribeSyncState, syncPendingMutations, SyncState } from "@/lib/offline";
+
+const TABLE_LABELS: Record<string, string> = {
+  animals: "animal",
+  health_records: "health record",
+  events: "event",
+};
+
+/**
+ * Connection and offline-queue status, with a way to retry the sync by hand.
+ * Mounting it starts listening for the connection coming back.
+ */
+export function useSyncStatus() {
+  const [state, setState] = useState<SyncState>(getSyncState());
+
+  useEffect(() => {
+    startSync();
+    return subscribeSyncState(setState);
+  }, []);
+
+  useEffect(() => {
+    const result = state.lastResult;
+    if (!result) return;
+
+    if (result.conflicts.length > 0) {
+      toast.error("Some offline changes were not saved", {
+        description: result.conflicts
+          .map(conflict => `${conflict.type} of ${TABLE_LABELS[conflict.table]}: ${conflict.reason}`)
+          .join('\n'),
+      });
+    } else if (result.synced > 0) {
+      toast.success("Offline changes synced", {
+        description: `${result.synced} ${result.synced === 1 ? 'change has' : 'changes have'} been saved to the server.`,
+      });
+    }
+  }, [state.lastResult]);
+
+  const syncNow = async () => {
+    try {
+      await syncPendingMutations();
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+      toast.error("Sync failed", {
+        description: "Your changes are still saved on this device. Please try again."
+      });
+    }
+  };
+
+  return {
+    ...state,
+    syncNow
+  };
+}
@@ -66,157 +66,1278 @@ export type Database = {
           },
         ]
       }
+      animal_disposals: {
+        Row: {
+          animal_id: string
+          buyer: string | null
+          cause: string | null
+          created_at: string
+          created_by: string | null
+          disposal_date: string
+          disposal_type: string
+          event_id: string | null
+          grade: string | null
+          id: string
+          notes: string | null
+          price: number | null
+          transaction_id: string | null
+          weight_kg: number | null
+        }
+        Insert: {
+          animal_id: string
+          buyer?: string | null
+          cause?: string | null
+          created_at?: string
+          created_by?: string | null
+          disposal_date: string
+          disposal_type: string
+          event_id?: string | null
+          grade?: string | null
+          id?: string
+          notes?: string | null
+          price?: number | null
+          transaction_id?: string | null
+          weight_kg?: number | null
+        }
+        Update: {
+          animal_id?: string
+          buyer?: string | null
+          cause?: string | null
+          created_at?: string
+          created_by?: string | null
+          disposal_date?: string
+          disposal_type?: string
+          event_id?: string | null
+          grade?: string | null
+          id?: string
+          notes?: string | null
+          price?: number | null
+          transaction_id?: string | null
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "animal_disposals_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_disposals_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_disposals_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      animal_group_members: {
+        Row: {
+          animal_id: string
+          created_at: string
+          group_id: string
+          id: string
+        }
+        Insert: {
+          animal_id: string
+          created_at?: string
+          group_id: string
+          id?: string
+        }
+        Update: {
+          animal_id?: string
+          created_at?: string
+          group_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "animal_group_members_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "animal_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      animal_groups: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       animals: {
         Row: {
-          age: string | null
-          birth_date: string | null
-          breed: string
+          birth_date: string | null
+          birth_weight_kg: number | null
+          breed: string
+          created_at: string
+          dam_id: string | null
+          health_status: string
+          id: string
+          image_url: string | null
+          mob_id: string | null
+          name: string
+          notes: string | null
+          sex: string
+          sire_id: string | null
+          status: string
+          tag_number: string
+          updated_at: string
+          weight_kg: number | null
+        }
+        Insert: {
+          birth_date?: string | null
+          birth_weight_kg?: number | null
+          breed: string
+          created_at?: string
+          dam_id?: string | null
+          health_status: string
+          id?: string
+          image_url?: string | null
+          mob_id?: string | null
+          name: string
+          notes?: string | null
+          sex: string
+          sire_id?: string | null
+          status: string
+          tag_number: string
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Update: {
+          birth_date?: string | null
+          birth_weight_kg?: number | null
+          breed?: string
+          created_at?: string
+          dam_id?: string | null
+          health_status?: string
+          id?: string
+          image_url?: string | null
+          mob_id?: string | null
+          name?: string
+          notes?: string | null
+          sex?: string
+          sire_id?: string | null
+          status?: string
+          tag_number?: string
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "animals_dam_id_fkey"
+            columns: ["dam_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animals_mob_id_fkey"
+            columns: ["mob_id"]
+            isOneToOne: false
+            referencedRelation: "mobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animals_sire_id_fkey"
+            columns: ["sire_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          record_id: string
+          record_label: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          record_id: string
+          record_label?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          record_id?: string
+          record_label?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      bank_statement_lines: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          fingerprint: string
+          id: string
+          ignored: boolean
+          line_date: string
+          reference: string | null
+          statement_id: string
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          fingerprint: string
+          id?: string
+          ignored?: boolean
+          line_date: string
+          reference?: string | null
+          statement_id: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          fingerprint?: string
+          id?: string
+          ignored?: boolean
+          line_date?: string
+          reference?: string | null
+          statement_id?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statements: {
+        Row: {
+          account_name: string | null
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          end_date: string | null
+          file_format: string
+          file_name: string
+          id: string
+          payment_method: string
+          start_date: string | null
+        }
+        Insert: {
+          account_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          end_date?: string | null
+          file_format: string
+          file_name: string
+          id?: string
+          payment_method?: string
+          start_date?: string | null
+        }
+        Update: {
+          account_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          end_date?: string | null
+          file_format?: string
+          file_name?: string
+          id?: string
+          payment_method?: string
+          start_date?: string | null
+        }
+        Relationships: []
+      }
+      breeding_records: {
+        Row: {
+          alert_id: string | null
+          birth_event_id: string | null
+          created_at: string
+          created_by: string | null
+          ewe_id: string
+          expected_lambing_end: string
+          expected_lambing_start: string
+          id: string
+          lambing_date: string | null
+          lambs_alive: number | null
+          lambs_born: number | null
+          mating_date: string
+          mating_event_id: string | null
+          notes: string | null
+          ram_id: string | null
+          scan_date: string | null
+          scan_result: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          alert_id?: string | null
+          birth_event_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          ewe_id: string
+          expected_lambing_end: string
+          expected_lambing_start: string
+          id?: string
+          lambing_date?: string | null
+          lambs_alive?: number | null
+          lambs_born?: number | null
+          mating_date: string
+          mating_event_id?: string | null
+          notes?: string | null
+          ram_id?: string | null
+          scan_date?: string | null
+          scan_result?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          alert_id?: string | null
+          birth_event_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          ewe_id?: string
+          expected_lambing_end?: string
+          expected_lambing_start?: string
+          id?: string
+          lambing_date?: string | null
+          lambs_alive?: number | null
+          lambs_born?: number | null
+          mating_date?: string
+          mating_event_id?: string | null
+          notes?: string | null
+          ram_id?: string | null
+          scan_date?: string | null
+          scan_result?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "breeding_records_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_birth_event_id_fkey"
+            columns: ["birth_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_ewe_id_fkey"
+            columns: ["ewe_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_mating_event_id_fkey"
+            columns: ["mating_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breeding_records_ram_id_fkey"
+            columns: ["ram_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          id: string
+          month: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          animal_group_id: string | null
+          animal_id: string | null
+          assigned_to: string[]
+          created_at: string
+          date: string
+          description: string
+          end_time: string | null
+          event_type: string
+          exception: string | null
+          group_size: number | null
+          id: string
+          location: string | null
+          notes: string | null
+          performed_by: string | null
+          start_time: string | null
+          status: string
+          summary_id: string | null
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          animal_group_id?: string | null
+          animal_id?: string | null
+          assigned_to?: string[]
+          created_at?: string
+          date?: string
+          description: string
+          end_time?: string | null
+          event_type: string
+          exception?: string | null
+          group_size?: number | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          performed_by?: string | null
+          start_time?: string | null
+          status?: string
+          summary_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          animal_group_id?: string | null
+          animal_id?: string | null
+          assigned_to?: string[]
+          created_at?: string
+          date?: string
+          description?: string
+          end_time?: string | null
+          event_type?: string
+          exception?: string | null
+          group_size?: number | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          performed_by?: string | null
+          start_time?: string | null
+          status?: string
+          summary_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_animal_group_id_fkey"
+            columns: ["animal_group_id"]
+            isOneToOne: false
+            referencedRelation: "animal_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_settings: {
+        Row: {
+          active_breeds: string[] | null
+          budget_alert_threshold: number | null
+          cost_allocation_driver: string | null
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          date_format: string | null
+          farm_name: string
+          financial_year_start_month: number | null
+          hogget_max_months: number | null
+          id: string
+          inactive_breeds: string[] | null
+          inbreeding_threshold: number | null
+          lamb_max_months: number | null
+          language: string | null
+          location: string | null
+          target_adg_kg: number | null
+          tax_period: string | null
+          updated_at: string
+        }
+        Insert: {
+          active_breeds?: string[] | null
+          budget_alert_threshold?: number | null
+          cost_allocation_driver?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          date_format?: string | null
+          farm_name: string
+          financial_year_start_month?: number | null
+          hogget_max_months?: number | null
+          id?: string
+          inactive_breeds?: string[] | null
+          inbreeding_threshold?: number | null
+          lamb_max_months?: number | null
+          language?: string | null
+          location?: string | null
+          target_adg_kg?: number | null
+          tax_period?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active_breeds?: string[] | null
+          budget_alert_threshold?: number | null
+          cost_allocation_driver?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          date_format?: string | null
+          farm_name?: string
+          financial_year_start_month?: number | null
+          hogget_max_months?: number | null
+          id?: string
+          inactive_breeds?: string[] | null
+          inbreeding_threshold?: number | null
+          lamb_max_months?: number | null
+          language?: string | null
+          location?: string | null
+          target_adg_kg?: number | null
+          tax_period?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_settings_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      financial_transactions: {
+        Row: {
+          amount: number
+          animal_id: string | null
+          category: string
+          created_at: string
+          currency: string | null
+          date: string
+          description: string
+          exchange_rate: number
+          id: string
+          payment_method: string
+          reconciled: boolean
+          reconciled_at: string | null
+          reference: string | null
+          related_to: string
+          tax_amount: number | null
+          tax_rate: number | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          animal_id?: string | null
+          category: string
+          created_at?: string
+          currency?: string | null
+          date?: string
+          description: string
+          exchange_rate?: number
+          id?: string
+          payment_method: string
+          reconciled?: boolean
+          reconciled_at?: string | null
+          reference?: string | null
+          related_to: string
+          tax_amount?: number | null
+          tax_rate?: number | null
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          animal_id?: string | null
+          category?: string
+          created_at?: string
+          currency?: string | null
+          date?: string
+          description?: string
+          exchange_rate?: number
+          id?: string
+          payment_method?: string
+          reconciled?: boolean
+          reconciled_at?: string | null
+          reference?: string | null
+          related_to?: string
+          tax_amount?: number | null
+          tax_rate?: number | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financial_transactions_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      health_records: {
+        Row: {
+          administered_by: string | null
+          animal_group_id: string | null
+          animal_id: string | null
+          created_at: string
+          date: string
+          description: string
+          exception: string | null
+          follow_up: string | null
+          group_size: number | null
+          id: string
+          notes: string | null
+          outcome: string | null
+          record_type: string
+          status: string
+          summary_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          administered_by?: string | null
+          animal_group_id?: string | null
+          animal_id?: string | null
+          created_at?: string
+          date?: string
+          description: string
+          exception?: string | null
+          follow_up?: string | null
+          group_size?: number | null
+          id?: string
+          notes?: string | null
+          outcome?: string | null
+          record_type: string
+          status: string
+          summary_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          administered_by?: string | null
+          animal_group_id?: string | null
+          animal_id?: string | null
+          created_at?: string
+          date?: string
+          description?: string
+          exception?: string | null
+          follow_up?: string | null
+          group_size?: number | null
+          id?: string
+          notes?: string | null
+          outcome?: string | null
+          record_type?: string
+          status?: string
+          summary_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "health_records_animal_group_id_fkey"
+            columns: ["animal_group_id"]
+            isOneToOne: false
+            referencedRelation: "animal_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "health_records_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "health_records_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "health_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          animal_id: string | null
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          position: number
+          quantity: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          animal_id?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          position?: number
+          quantity?: number
+          tax_rate?: number
+          unit_price: number
+        }
+        Update: {
+          animal_id?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          position?: number
+          quantity?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_animal_id_fkey"
+            columns: ["animal_id"]
+            isOneToOne: false
+            referencedRelation: "animals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_id: string
+          payment_date: string
+          payment_method: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          payment_date: string
+          payment_method?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          payment_date?: string
+          payment_method?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          due_date: string | null
+          id: string
+          invoice_number: string
+          issue_date: string
+          kind: string
+          notes: string | null
+          party_details: string | null
+          party_name: string
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          kind?: string
+          notes?: string | null
+          party_details?: string | null
+          party_name: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          kind?: string
+          notes?: string | null
+          party_details?: string | null
+          party_name?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mob_movements: {
+        Row: {
           created_at: string
-          health_status: string
+          from_paddock_id: string | null
+          head_count: number
           id: string
-          image_url: string | null
-          name: string
+          mob_id: string
+          moved_at: string
+          moved_by: string | null
           notes: string | null
-          sex: string
-          status: string
-          tag_number: string
+          to_paddock_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          from_paddock_id?: string | null
+          head_count?: number
+          id?: string
+          mob_id: string
+          moved_at: string
+          moved_by?: string | null
+          notes?: string | null
+          to_paddock_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          from_paddock_id?: string | null
+          head_count?: number
+          id?: string
+          mob_id?: string
+          moved_at?: string
+          moved_by?: string | null
+          notes?: string | null
+          to_paddock_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mob_movements_from_paddock_id_fkey"
+            columns: ["from_paddock_id"]
+            isOneToOne: false
+            referencedRelation: "paddocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mob_movements_mob_id_fkey"
+            columns: ["mob_id"]
+            isOneToOne: false
+            referencedRelation: "mobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mob_movements_to_paddock_id_fkey"
+            columns: ["to_paddock_id"]
+            isOneToOne: false
+            referencedRelation: "paddocks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobs: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          paddock_id: string | null
           updated_at: string
-          weight_kg: number | null
         }
         Insert: {
-          age?: string | null
-          birth_date?: string | null
-          breed: string
           created_at?: string
-          health_status: string
+          description?: string | null
           id?: string
-          image_url?: string | null
           name: string
-          notes?: string | null
-          sex: string
-          status: string
-          tag_number: string
+          paddock_id?: string | null
           updated_at?: string
-          weight_kg?: number | null
         }
         Update: {
-          age?: string | null
-          birth_date?: string | null
-          breed?: string
           created_at?: string
-          health_status?: string
+          description?: string | null
           id?: string
-          image_url?: string | null
           name?: string
-          notes?: string | null
-          sex?: string
-          status?: string
-          tag_number?: string
+          paddock_id?: string | null
           updated_at?: string
-          weight_kg?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "mobs_paddock_id_fkey"
+            columns: ["paddock_id"]
+            isOneToOne: false
+            referencedRelation: "paddocks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      events: {
+      paddocks: {
         Row: {
-          animal_id: string | null
+          area_ha: number | null
+          capacity: number | null
           created_at: string
-          date: string
-          description: string
-          event_type: string
           id: string
+          name: string
           notes: string | null
-          performed_by: string | null
           updated_at: string
+          water_source: string | null
         }
         Insert: {
-          animal_id?: string | null
+          area_ha?: number | null
+          capacity?: number | null
           created_at?: string
-          date?: string
-          description: string
-          event_type: string
           id?: string
+          name: string
           notes?: string | null
-          performed_by?: string | null
           updated_at?: string
+          water_source?: string | null
         }
         Update: {
-          animal_id?: string | null
+          area_ha?: number | null
+          capacity?: number | null
           created_at?: string
-          date?: string
-          description?: string
-          event_type?: string
           id?: string
+          name?: string
           notes?: string | null
-          performed_by?: string | null
           updated_at?: string
+          water_source?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recurring_amount_changes: {
+        Row: {
+          amount: number
+          created_at: string
+          effective_from: string
+          id: string
+          recurring_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          effective_from: string
+          id?: string
+          recurring_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          effective_from?: string
+          id?: string
+          recurring_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "events_animal_id_fkey"
-            columns: ["animal_id"]
+            foreignKeyName: "recurring_amount_changes_recurring_id_fkey"
+            columns: ["recurring_id"]
             isOneToOne: false
-            referencedRelation: "animals"
+            referencedRelation: "recurring_transactions"
             referencedColumns: ["id"]
           },
         ]
       }
-      farm_settings: {
+      recurring_occurrences: {
         Row: {
+          amount_override: number | null
           created_at: string
-          created_by: string | null
-          currency: string | null
-          date_format: string | null
-          farm_name: string
+          date_override: string | null
+          description_override: string | null
           id: string
-          language: string | null
-          location: string | null
+          occurrence_date: string
+          recurring_id: string
+          status: string
+          transaction_id: string | null
           updated_at: string
         }
         Insert: {
+          amount_override?: number | null
           created_at?: string
-          created_by?: string | null
-          currency?: string | null
-          date_format?: string | null
-          farm_name: string
+          date_override?: string | null
+          description_override?: string | null
           id?: string
-          language?: string | null
-          location?: string | null
+          occurrence_date: string
+          recurring_id: string
+          status?: string
+          transaction_id?: string | null
           updated_at?: string
         }
         Update: {
+          amount_override?: number | null
           created_at?: string
-          created_by?: string | null
-          currency?: string | null
-          date_format?: string | null
-          farm_name?: string
+          date_override?: string | null
+          description_override?: string | null
           id?: string
-          language?: string | null
-          location?: string | null
+          occurrence_date?: string
+          recurring_id?: string
+          status?: string
+          transaction_id?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "farm_settings_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "recurring_occurrences_recurring_id_fkey"
+            columns: ["recurring_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
             referencedColumns: ["id"]
           },
         ]
       }
-      financial_transactions: {
+      recurring_transactions: {
         Row: {
           amount: number
           animal_id: string | null
           category: string
           created_at: string
-          date: string
+          created_by: string | null
           description: string
+          end_date: string | null
+          frequency: string
           id: string
+          interval_days: number | null
           payment_method: string
           reference: string | null
           related_to: string
+          start_date: string
           type: string
           updated_at: string
         }
@@ -225,12 +1346,16 @@ export type Database = {
           animal_id?: string | null
           category: string
           created_at?: string
-          date?: string
+          created_by?: string | null
           description: string
+          end_date?: string | null
+          frequency: string
           id?: string
-          payment_method: string
+          interval_days?: number | null
+          payment_method?: string
           reference?: string | null
-          related_to: string
+          related_to?: string
+          start_date: string
           type: string
           updated_at?: string
         }
@@ -239,18 +1364,22 @@ export type Database = {
           animal_id?: string | null
           category?: string
           created_at?: string
-          date?: string
+          created_by?: string | null
           description?: string
+          end_date?: string | null
+          frequency?: string
           id?: string
+          interval_days?: number | null
           payment_method?: string
           reference?: string | null
           related_to?: string
+          start_date?: string
           type?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "financial_transactions_animal_id_fkey"
+            foreignKeyName: "recurring_transactions_animal_id_fkey"
             columns: ["animal_id"]
             isOneToOne: false
             referencedRelation: "animals"
@@ -258,52 +1387,46 @@ export type Database = {
           },
         ]
       }
-      health_records: {
+      weighings: {
         Row: {
-          administered_by: string | null
-          animal_id: string | null
+          animal_id: string
+          body_condition_score: number | null
           created_at: string
+          created_by: string | null
           date: string
-          description: string
-          follow_up: string | null
           id: string
           notes: string | null
-          outcome: string | null
-          record_type: string
-          status: string
           updated_at: string
+          weighed_by: string | null
+          weight_kg: number
         }
         Insert: {
-          administered_by?: string | null
-          animal_id?: string | null
+          animal_id: string
+          body_condition_score?: number | null
           created_at?: string
-          date?: string
-          description: string
-          follow_up?: string | null
+          created_by?: string | null
+          date: string
           id?: string
           notes?: string | null
-          outcome?: string | null
-          record_type: string
-          status: string
           updated_at?: string
+          weighed_by?: string | null
+          weight_kg: number
         }
         Update: {
-          administered_by?: string | null
-          animal_id?: string | null
+          animal_id?: string
+          body_condition_score?: number | null
           created_at?: string
+          created_by?: string | null
           date?: string
-          description?: string
-          follow_up?: string | null
           id?: string
           notes?: string | null
-          outcome?: string | null
-          record_type?: string
-          status?: string
           updated_at?: string
+          weighed_by?: string | null
+          weight_kg?: number
         }
         Relationships: [
           {
-            foreignKeyName: "health_records_animal_id_fkey"
+            foreignKeyName: "weighings_animal_id_fkey"
             columns: ["animal_id"]
             isOneToOne: false
             referencedRelation: "animals"
@@ -311,39 +1434,104 @@ export type Database = {
           },
         ]
       }
-      profiles: {
-        Row: {
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      latest_weighings: {
+        Args: {
+          p_animal_ids: string[]
+        }
+        Returns: {
+          animal_id: string
+          body_condition_score: number | null
           created_at: string
-          first_name: string | null
+          created_by: string | null
+          date: string
           id: string
-          last_name: string | null
-          role: string
+          notes: string | null
           updated_at: string
+          weighed_by: string | null
+          weight_kg: number
+        }[]
+      }
+      mark_missed_events: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      move_mob: {
+        Args: {
+          p_mob_id: string
+          p_moved_at?: string
+          p_notes?: string
+          p_paddock_id: string
         }
-        Insert: {
-          created_at?: string
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          role?: string
-          updated_at?: string
+        Returns: string
+      }
+      record_disposal: {
+        Args: {
+          p_animal_id: string
+          p_buyer?: string
+          p_cause?: string
+          p_currency?: string
+          p_disposal_date: string
+          p_disposal_type: string
+          p_exchange_rate?: number
+          p_grade?: string
+          p_notes?: string
+          p_payment_method?: string
+          p_price?: number
+          p_weight_kg?: number
         }
-        Update: {
-          created_at?: string
-          first_name?: string | null
-          id?: string
-          last_name?: string | null
-          role?: string
-          updated_at?: string
+        Returns: string
+      }
+      record_group_event: {
+        Args: {
+          p_entries: Json
+          p_event: Json
         }
-        Relationships: []
+        Returns: string
+      }
+      record_group_health_record: {
+        Args: {
+          p_entries: Json
+          p_record: Json
+        }
+        Returns: string
+      }
+      record_lambing: {
+        Args: {
+          p_breed: string
+          p_dam_id: string
+          p_event_id?: string
+          p_lambing_date: string
+          p_lambs: Json
+          p_sire_id?: string
+        }
+        Returns: string
+      }
+      record_mating: {
+        Args: {
+          p_alert_due_date: string
+          p_event_id?: string
+          p_ewe_id: string
+          p_lambing_end: string
+          p_lambing_start: string
+          p_mating_date: string
+          p_notes?: string
+          p_ram_id: string
+        }
+        Returns: string
+      }
+      record_scan: {
+        Args: {
+          p_record_id: string
+          p_result: string
+          p_scan_date: string
+        }
+        Returns: string
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
     }
     Enums: {
       [_ in never]: never
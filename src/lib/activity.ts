@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<'audit_log'>;
+
+export type ActivityType = "animal" | "health" | "event" | "transaction" | "system";
+
+export const ACTIVITY_TYPES: ActivityType[] = ["animal", "health", "event", "transaction", "system"];
+
+// Audited tables behind each activity type
+const ACTIVITY_TABLES: Record<ActivityType, string> = {
+  animal: "animals",
+  health: "health_records",
+  event: "events",
+  transaction: "financial_transactions",
+  system: "alerts",
+};
+
+const RECORD_NAMES: Record<string, string> = {
+  animals: "Animal",
+  health_records: "Health record",
+  events: "Event",
+  financial_transactions: "Transaction",
+  alerts: "Alert",
+};
+
+const ACTION_VERBS: Record<string, string> = {
+  INSERT: "added",
+  UPDATE: "updated",
+  DELETE: "deleted",
+};
+
+// Long or internal fields that would only clutter the change summary
+const HIDDEN_FIELDS = ["animal_id", "notes", "image_url", "dam_id", "sire_id", "related_to"];
+
+export interface Activity {
+  id: string;
+  type: ActivityType;
+  title: string;
+  description: string;
+  /** Who made the change, or null when it was made without a signed-in user */
+  actor: string | null;
+  timestamp: string;
+  /** Page showing the affected record; null once the record has been deleted */
+  link: string | null;
+}
+
+export interface ActivityPage {
+  activities: Activity[];
+  hasMore: boolean;
+}
+
+interface FieldChange {
+  old?: Json;
+  new?: Json;
+}
+
+const activityType = (table: string): ActivityType =>
+  ACTIVITY_TYPES.find(type => ACTIVITY_TABLES[type] === table) ?? "system";
+
+const formatField = (field: string) => field.replace(/_/g, ' ');
+
+const formatValue = (value: Json | undefined) =>
+  value === undefined || value === null || value === '' ? 'empty' : String(value);
+
+/**
+ * Page the affected record is shown on, with its id so the page can pick it out
+ */
+export function activityLink(table: string, recordId: string): string | null {
+  switch (table) {
+    case "animals":
+      return `/animals?id=${recordId}`;
+    case "health_records":
+      return `/health?id=${recordId}`;
+    case "events":
+      return `/events?id=${recordId}`;
+    case "financial_transactions":
+      return `/finance?tab=transactions&id=${recordId}`;
+    case "alerts":
+      return `/alerts?id=${recordId}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line summary of an audit entry's field changes, e.g. "status: Active → Sold"
+ */
+export function describeChanges(entry: Pick<AuditEntry, 'action' | 'changes'>): string {
+  const changes = (entry.changes ?? {}) as Record<string, FieldChange>;
+  const fields = Object.keys(changes).filter(field => !HIDDEN_FIELDS.includes(field));
+
+  if (entry.action !== "UPDATE" || fields.length === 0) return "";
+
+  return fields
+    .map(field => `${formatField(field)}: ${formatValue(changes[field].old)} → ${formatValue(changes[field].new)}`)
+    .join(', ');
+}
+
+export function toActivity(entry: AuditEntry, actor: string | null): Activity {
+  const recordName = RECORD_NAMES[entry.table_name] ?? "Record";
+  const changes = describeChanges(entry);
+
+  return {
+    id: entry.id,
+    type: activityType(entry.table_name),
+    title: `${recordName} ${ACTION_VERBS[entry.action] ?? entry.action.toLowerCase()}`,
+    description: [entry.record_label, changes].filter(Boolean).join(' — '),
+    actor,
+    timestamp: entry.created_at,
+    link: entry.action === "DELETE" ? null : activityLink(entry.table_name, entry.record_id),
+  };
+}
+
+/**
+ * Most recent audit log entries, newest first, optionally limited to one activity type
+ */
+export async function fetchActivities(
+  { page = 0, pageSize = 10, type }: { page?: number; pageSize?: number; type?: ActivityType | null } = {}
+): Promise<ActivityPage> {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (type) query = query.eq('table_name', ACTIVITY_TABLES[type]);
+
+  // Ask for one extra row to find out whether there is another page
+  const from = page * pageSize;
+  const { data, error } = await query.range(from, from + pageSize);
+
+  if (error) throw error;
+
+  const entries = (data || []).slice(0, pageSize);
+  const userIds = [...new Set(entries.map(entry => entry.changed_by).filter(Boolean))];
+  const names = new Map<string, string>();
+
+  if (userIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name')
+      .in('id', userIds);
+
+    if (profilesError) throw profilesError;
+    (profiles || []).forEach(profile => {
+      const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+      if (name) names.set(profile.id, name);
+    });
+  }
+
+  return {
+    activities: entries.map(entry => toActivity(entry, entry.changed_by ? names.get(entry.changed_by) ?? null : null)),
+    hasMore: (data || []).length > pageSize,
+  };
+}
@@ -0,0 +1,86 @@
+import { differenceInMonths, differenceInWeeks, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AgeClass = "Lamb" | "Hogget" | "Ewe" | "Ram";
+
+export const AGE_CLASSES: AgeClass[] = ["Lamb", "Hogget", "Ewe", "Ram"];
+
+export interface AgeClassCutoffs {
+  /** Animals younger than this many months are lambs */
+  lambMonths: number;
+  /** Animals younger than this many months (and past the lamb cutoff) are hoggets */
+  hoggetMonths: number;
+}
+
+// Used when farm_settings has no cutoffs saved
+export const DEFAULT_AGE_CLASS_CUTOFFS: AgeClassCutoffs = { lambMonths: 12, hoggetMonths: 24 };
+
+/**
+ * Cutoffs from the farm settings row, falling back to the defaults
+ */
+export const ageClassCutoffs = (
+  settings: Pick<Tables<'farm_settings'>, 'lamb_max_months' | 'hogget_max_months'> | null | undefined
+): AgeClassCutoffs => ({
+  lambMonths: settings?.lamb_max_months ?? DEFAULT_AGE_CLASS_CUTOFFS.lambMonths,
+  hoggetMonths: settings?.hogget_max_months ?? DEFAULT_AGE_CLASS_CUTOFFS.hoggetMonths,
+});
+
+/**
+ * Age in whole months today, or null when the birth date is not recorded
+ */
+export function ageInMonths(birthDate: string | null | undefined, at: Date = new Date()): number | null {
+  if (!birthDate) return null;
+  return Math.max(0, differenceInMonths(at, parseISO(birthDate)));
+}
+
+/**
+ * Human-readable age from a birth date, e.g. "3 weeks", "5 months" or "2 years 4 months"
+ */
+export function formatAge(birthDate: string | null | undefined, at: Date = new Date()): string {
+  const months = ageInMonths(birthDate, at);
+  if (months === null) return "Unknown";
+
+  if (months === 0) {
+    const weeks = Math.max(0, differenceInWeeks(at, parseISO(birthDate)));
+    return `${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+  }
+  if (months < 12) return `${months} ${months === 1 ? 'month' : 'months'}`;
+
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const yearText = `${years} ${years === 1 ? 'year' : 'years'}`;
+  return remainder ? `${yearText} ${remainder} ${remainder === 1 ? 'month' : 'months'}` : yearText;
+}
+
+/**
+ * Lamb or hogget by age, and ewe or ram once past the hogget cutoff.
+ * Returns null when the birth date is not recorded.
+ */
+export function ageClass(
+  animal: { birth_date: string | null | undefined; sex: string },
+  cutoffs: AgeClassCutoffs = DEFAULT_AGE_CLASS_CUTOFFS,
+  at: Date = new Date()
+): AgeClass | null {
+  const months = ageInMonths(animal.birth_date, at);
+  if (months === null) return null;
+  if (months < cutoffs.lambMonths) return "Lamb";
+  if (months < cutoffs.hoggetMonths) return "Hogget";
+  return animal.sex === "Male" ? "Ram" : "Ewe";
+}
+
+/**
+ * Estimate a birth date from free text such as "2 years" or "6 months", counted back from a reference date
+ */
+export function birthDateFromAgeText(text: string, from: Date = new Date()): Date | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(year|yr|month|mo|week|wk|day)/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  const date = new Date(from);
+  if (unit.startsWith('y')) date.setMonth(date.getMonth() - Math.round(value * 12));
+  else if (unit.startsWith('m')) date.setMonth(date.getMonth() - Math.round(value));
+  else if (unit.startsWith('w')) date.setDate(date.getDate() - Math.round(value * 7));
+  else date.setDate(date.getDate() - Math.round(value));
+  return date;
+}
@@ -0,0 +1,300 @@
+import ExcelJS from "exceljs";
+import { format, isValid, parse } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { birthDateFromAgeText } from "@/lib/age";
+
+export type AnimalInsert = TablesInsert<'animals'>;
+
+export type ImportField =
+  | "tag_number"
+  | "name"
+  | "breed"
+  | "sex"
+  | "birth_date"
+  | "age"
+  | "status"
+  | "health_status"
+  | "weight_kg"
+  | "notes";
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "tag_number", label: "Tag Number", required: true, aliases: ["tag", "tag no", "tag number", "ear tag", "id"] },
+  { key: "name", label: "Name", required: true, aliases: ["name", "animal name"] },
+  { key: "breed", label: "Breed", required: true, aliases: ["breed"] },
+  { key: "sex", label: "Sex", required: true, aliases: ["sex", "gender"] },
+  { key: "birth_date", label: "Birth Date", required: false, aliases: ["birth date", "date of birth", "dob", "born"] },
+  { key: "age", label: "Age", required: false, aliases: ["age"] },
+  { key: "status", label: "Status", required: false, aliases: ["status"] },
+  { key: "health_status", label: "Health Status", required: false, aliases: ["health", "health status"] },
+  { key: "weight_kg", label: "Weight (kg)", required: false, aliases: ["weight", "weight kg", "weight (kg)"] },
+  { key: "notes", label: "Notes", required: false, aliases: ["notes", "comments", "remarks"] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  animal: AnimalInsert;
+  errors: string[];
+}
+
+// Rows per insert request
+export const IMPORT_BATCH_SIZE = 100;
+
+// Rows per request when reading existing tags; the API returns at most 1000 rows at a time
+const TAG_PAGE_SIZE = 1000;
+
+const STATUSES = ["Active", "Sold", "Dead", "Culled", "Pregnant"];
+const HEALTH_STATUSES = ["Healthy", "Sick", "Recovering"];
+const DATE_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy", "d/M/yyyy", "yyyy/MM/dd", "dd-MM-yyyy", "dd.MM.yyyy"];
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with embedded commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return "";
+  // ExcelJS reads date cells as midnight UTC, so the local date can fall on the day before
+  if (value instanceof Date) return isValid(value) ? value.toISOString().slice(0, 10) : "";
+  if (typeof value === "object") {
+    if ("text" in value) return String(value.text);
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map(part => part.text).join("");
+  }
+  return String(value);
+};
+
+/**
+ * Read the first sheet of an .xlsx file or the contents of a .csv file, header row first
+ */
+export async function parseImportFile(file: File): Promise<ParsedFile> {
+  let rows: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const worksheet = workbook.worksheets[0];
+    rows = [];
+    worksheet?.eachRow(row => {
+      const values: string[] = [];
+      for (let col = 1; col <= worksheet.columnCount; col++) {
+        values.push(cellText(row.getCell(col).value).trim());
+      }
+      if (values.some(v => v !== "")) rows.push(values);
+    });
+  } else {
+    rows = parseCsv(await file.text());
+  }
+
+  const [headers = [], ...dataRows] = rows;
+  return { headers: headers.map(h => h.trim()), rows: dataRows };
+}
+
+const normalise = (value: string) => value.toLowerCase().replace(/[_\s]+/g, " ").trim();
+
+/**
+ * Match file headers to animal fields by name
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const index = headers.findIndex(header =>
+      normalise(header) === normalise(field.key) || field.aliases.includes(normalise(header))
+    );
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+}
+
+const parseSex = (value: string): "Male" | "Female" | null => {
+  const sex = value.trim().toLowerCase();
+  if (["m", "male", "ram", "wether"].includes(sex)) return "Male";
+  if (["f", "female", "ewe"].includes(sex)) return "Female";
+  return null;
+};
+
+export const parseDate = (value: string): string | null => {
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value.trim(), pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) return format(date, "yyyy-MM-dd");
+  }
+  return null;
+};
+
+const matchOption = (value: string, options: string[]) =>
+  options.find(option => option.toLowerCase() === value.trim().toLowerCase()) ?? null;
+
+/**
+ * Turn mapped file rows into animal records, collecting every problem found on each row
+ */
+export function validateRows(
+  file: ParsedFile,
+  mapping: ColumnMapping,
+  { breeds, existingTags }: { breeds: string[]; existingTags: Set<string> }
+): ImportRow[] {
+  const seenTags = new Map<string, number>();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return file.rows.map((cells, index) => {
+    // Row numbers as the user sees them in their spreadsheet, after the header row
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+
+    IMPORT_FIELDS.filter(field => field.required && !get(field.key)).forEach(field => {
+      errors.push(`${field.label} is required`);
+    });
+
+    const tagNumber = get("tag_number");
+    if (tagNumber) {
+      if (existingTags.has(tagNumber.toLowerCase())) {
+        errors.push(`Tag ${tagNumber} is already registered`);
+      } else if (seenTags.has(tagNumber.toLowerCase())) {
+        errors.push(`Tag ${tagNumber} also appears on row ${seenTags.get(tagNumber.toLowerCase())}`);
+      }
+      if (!seenTags.has(tagNumber.toLowerCase())) seenTags.set(tagNumber.toLowerCase(), rowNumber);
+    }
+
+    const breed = get("breed") ? matchOption(get("breed"), breeds) : null;
+    if (get("breed") && !breed) errors.push(`Breed "${get("breed")}" is not in the breed list`);
+
+    const sex = get("sex") ? parseSex(get("sex")) : null;
+    if (get("sex") && !sex) errors.push(`Sex "${get("sex")}" must be Male or Female`);
+
+    let birthDate: string | null = null;
+    if (get("birth_date")) {
+      birthDate = parseDate(get("birth_date"));
+      if (!birthDate) errors.push(`Birth date "${get("birth_date")}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+      else if (birthDate > today) errors.push("Birth date is in the future");
+    } else if (get("age")) {
+      // Only an age was given, so estimate the birth date from it
+      const estimated = birthDateFromAgeText(get("age"));
+      if (estimated) birthDate = format(estimated, "yyyy-MM-dd");
+      else errors.push(`Age "${get("age")}" is not understood (use e.g. "2 years" or "6 months")`);
+    }
+
+    const status = get("status") ? matchOption(get("status"), STATUSES) : "Active";
+    if (!status) errors.push(`Status "${get("status")}" must be one of ${STATUSES.join(", ")}`);
+
+    const healthStatus = get("health_status") ? matchOption(get("health_status"), HEALTH_STATUSES) : "Healthy";
+    if (!healthStatus) errors.push(`Health status "${get("health_status")}" must be one of ${HEALTH_STATUSES.join(", ")}`);
+
+    let weight: number | null = null;
+    if (get("weight_kg")) {
+      weight = Number(get("weight_kg"));
+      if (isNaN(weight) || weight <= 0) errors.push(`Weight "${get("weight_kg")}" must be a positive number`);
+    }
+
+    return {
+      rowNumber,
+      errors,
+      animal: {
+        tag_number: tagNumber,
+        name: get("name"),
+        breed: breed ?? get("breed"),
+        sex: sex ?? get("sex"),
+        birth_date: birthDate,
+        status: status ?? "Active",
+        health_status: healthStatus ?? "Healthy",
+        weight_kg: weight,
+        notes: get("notes") || null,
+      },
+    };
+  });
+}
+
+/**
+ * Tag numbers already in the database, lower-cased for comparison
+ */
+export async function fetchExistingTags(): Promise<Set<string>> {
+  const tags = new Set<string>();
+
+  for (let from = 0; ; from += TAG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('animals')
+      .select('tag_number')
+      .order('id')
+      .range(from, from + TAG_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach(animal => tags.add(animal.tag_number.toLowerCase()));
+    if (!data || data.length < TAG_PAGE_SIZE) return tags;
+  }
+}
+
+/**
+ * Insert the valid rows in batches. A failed batch is reported and the rest carry on.
+ */
+export async function importAnimals(
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ inserted: number; failedRows: number[] }> {
+  let inserted = 0;
+  const failedRows: number[] = [];
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+    const { error } = await supabase
+      .from('animals')
+      .insert(batch.map(row => row.animal));
+
+    if (error) {
+      console.error('Error importing animals:', error);
+      failedRows.push(...batch.map(row => row.rowNumber));
+    } else {
+      inserted += batch.length;
+    }
+    onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, rows.length), rows.length);
+  }
+
+  return { inserted, failedRows };
+}
@@ -0,0 +1,518 @@
+import { addDays, differenceInCalendarDays, format, isValid, parse, parseISO, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ParsedFile, parseDate, parseImportFile } from "@/lib/animal-import";
+
+export type BankStatement = Tables<'bank_statements'>;
+export type BankStatementLine = Tables<'bank_statement_lines'>;
+
+export type StatementFormat = "csv" | "xlsx" | "ofx";
+
+export type StatementField = "date" | "description" | "reference" | "amount" | "money_in" | "money_out";
+
+export const STATEMENT_FIELDS: { key: StatementField; label: string; aliases: string[] }[] = [
+  { key: "date", label: "Date", aliases: ["date", "transaction date", "posting date", "posted date", "value date", "booking date", "completion time", "trans date"] },
+  { key: "description", label: "Description", aliases: ["description", "details", "narrative", "narration", "particulars", "memo", "payee", "transaction details"] },
+  { key: "reference", label: "Reference", aliases: ["reference", "ref", "ref no", "reference number", "receipt no", "receipt no.", "transaction id", "cheque no", "check number"] },
+  { key: "amount", label: "Amount (signed)", aliases: ["amount", "transaction amount", "value"] },
+  { key: "money_in", label: "Money In", aliases: ["money in", "paid in", "credit", "credits", "credit amount", "deposit", "deposits"] },
+  { key: "money_out", label: "Money Out", aliases: ["money out", "withdrawn", "withdrawal", "withdrawals", "debit", "debits", "debit amount"] },
+];
+
+export type StatementMapping = Partial<Record<StatementField, number>>;
+
+export interface StatementEntry {
+  rowNumber: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  /** Positive for money in, negative for money out */
+  amount: number;
+  fingerprint: string;
+  errors: string[];
+}
+
+export type StatementFile =
+  | { format: "ofx"; entries: StatementEntry[] }
+  | { format: "csv" | "xlsx"; file: ParsedFile };
+
+// A line and a transaction for the same amount are matched when their dates are this close
+export const MATCH_WINDOW_DAYS = 3;
+// ...or this close when the transaction reference also appears on the line
+export const REFERENCE_MATCH_WINDOW_DAYS = 30;
+
+// Rows per insert request
+const LINE_BATCH_SIZE = 100;
+
+// Bank exports often start with a few lines of account details before the header row
+const HEADER_SEARCH_ROWS = 20;
+
+const EXTRA_DATE_FORMATS = ["d MMM yyyy", "dd MMM yyyy", "dd-MMM-yyyy", "d-MMM-yy", "MMM d, yyyy", "dd/MM/yy"];
+
+const normalise = (value: string) => value.toLowerCase().replace(/[_\s]+/g, " ").trim();
+
+/**
+ * Match statement headers to statement fields by name
+ */
+export function guessStatementMapping(headers: string[]): StatementMapping {
+  const mapping: StatementMapping = {};
+  STATEMENT_FIELDS.forEach(field => {
+    const index = headers.findIndex(header =>
+      normalise(header) === normalise(field.key) || field.aliases.includes(normalise(header))
+    );
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+}
+
+export const hasAmountColumns = (mapping: StatementMapping) =>
+  mapping.amount !== undefined || mapping.money_in !== undefined || mapping.money_out !== undefined;
+
+/**
+ * Use the first row that looks like a statement header as the header row
+ */
+function locateHeaderRow(file: ParsedFile): ParsedFile {
+  const rows = [file.headers, ...file.rows];
+  const index = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const mapping = guessStatementMapping(row.map(cell => cell.trim()));
+    return mapping.date !== undefined && hasAmountColumns(mapping);
+  });
+  if (index <= 0) return file;
+  return { headers: rows[index].map(cell => cell.trim()), rows: rows.slice(index + 1) };
+}
+
+const parseStatementDate = (value: string): string | null => {
+  const text = value.trim();
+  // Mobile-money exports put the time after the date
+  const found = parseDate(text) ?? parseDate(text.split(/[ T]/)[0]);
+  if (found) return found;
+  for (const pattern of EXTRA_DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) return format(date, "yyyy-MM-dd");
+  }
+  return null;
+};
+
+// "Dr" marks money out and "Cr" money in, e.g. "45.10 Dr"
+const DEBIT_CREDIT_SUFFIX = /(dr|cr)\.?$/i;
+
+/**
+ * Read an amount such as "1,250.00", "1.250,00", "KES 300", "(45.10)", "-45.10" or "45.10 Dr".
+ * Returns null when blank or not a number.
+ */
+export const parseAmount = (value: string): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+  let negative = /^\(.*\)$/.test(text);
+  const suffix = text.match(DEBIT_CREDIT_SUFFIX);
+  if (suffix) {
+    negative = suffix[1].toLowerCase() === "dr";
+    text = text.slice(0, suffix.index);
+  }
+
+  text = text.replace(/[^\d.,-]/g, "");
+  if (!/\d/.test(text)) return null;
+  // The separator that comes last is the decimal one, except in "1,250" where the comma groups thousands
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot && (lastDot >= 0 || !/^-?\d{1,3}(,\d{3})+$/.test(text))) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+    // "1.250.000" groups thousands with dots
+    if (text.split(".").length > 2) text = text.replace(/\./g, "");
+  }
+
+  const amount = Number(text);
+  if (isNaN(amount)) return null;
+  if (negative) return -Math.abs(amount);
+  return suffix ? Math.abs(amount) : amount;
+};
+
+/**
+ * Give each line a key that is the same every time the line is imported. Identical lines on the
+ * same day, such as two equal payments, are told apart by their order in the file.
+ */
+function withFingerprints(entries: Omit<StatementEntry, "fingerprint">[], fitIds: (string | null)[] = []): StatementEntry[] {
+  const seen = new Map<string, number>();
+  return entries.map((entry, index) => {
+    if (fitIds[index]) return { ...entry, fingerprint: `ofx:${fitIds[index]}` };
+    const key = [entry.date, entry.amount.toFixed(2), normalise(entry.reference || entry.description)].join("|");
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return { ...entry, fingerprint: count > 1 ? `${key}#${count}` : key };
+  });
+}
+
+/**
+ * Scope line fingerprints to the account a statement is for, so the same payment showing on two
+ * accounts is imported from each of them
+ */
+export function forAccount(entries: StatementEntry[], account: { accountName: string | null; paymentMethod: string }): StatementEntry[] {
+  const key = normalise(account.accountName || account.paymentMethod);
+  return entries.map(entry => ({ ...entry, fingerprint: `${key}|${entry.fingerprint}` }));
+}
+
+/**
+ * Turn mapped statement rows into lines, collecting the problems found on each row
+ */
+export function readStatementRows(file: ParsedFile, mapping: StatementMapping): StatementEntry[] {
+  const entries = file.rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const get = (field: StatementField) => {
+      const column = mapping[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+
+    const date = get("date") ? parseStatementDate(get("date")) : null;
+    if (!get("date")) errors.push("Date is missing");
+    else if (!date) errors.push(`Date "${get("date")}" is not a valid date`);
+
+    let amount: number | null;
+    let unreadable: boolean;
+    if (mapping.amount !== undefined) {
+      amount = parseAmount(get("amount"));
+      unreadable = !!get("amount") && amount === null;
+    } else {
+      // Separate money in and money out columns, where money out may be shown with or without a sign
+      const moneyIn = parseAmount(get("money_in"));
+      const moneyOut = parseAmount(get("money_out"));
+      amount = moneyIn === null && moneyOut === null ? null : (moneyIn ?? 0) - Math.abs(moneyOut ?? 0);
+      unreadable = (!!get("money_in") && moneyIn === null) || (!!get("money_out") && moneyOut === null);
+    }
+    if (unreadable) errors.push("Amount is not a number");
+    else if (amount === null || amount === 0) errors.push("Amount is missing");
+
+    return {
+      rowNumber,
+      date: date ?? "",
+      description: get("description") || get("reference") || "Statement line",
+      reference: get("reference") || null,
+      amount: amount || 0,
+      errors,
+    };
+  });
+  return withFingerprints(entries);
+}
+
+const decodeOfx = (value: string) =>
+  value.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&amp;/g, "&").trim();
+
+/**
+ * Read the transactions of an OFX (or QFX) statement. Handles both the SGML form, where
+ * closing tags are left out, and the XML form.
+ */
+export function parseOfx(text: string): StatementEntry[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  const value = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+    return match ? decodeOfx(match[1]) : "";
+  };
+
+  const fitIds = blocks.map(block => value(block, "FITID") || null);
+  const entries = blocks.map((block, index) => {
+    const errors: string[] = [];
+    const posted = value(block, "DTPOSTED");
+    const date = /^\d{8}/.test(posted)
+      ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+      : "";
+    if (!date) errors.push("Date is missing");
+
+    const amount = parseFloat(value(block, "TRNAMT"));
+    if (isNaN(amount) || amount === 0) errors.push("Amount is missing");
+
+    const name = value(block, "NAME");
+    const memo = value(block, "MEMO");
+    return {
+      rowNumber: index + 1,
+      date,
+      description: [name, memo].filter((part, i, parts) => part && parts.indexOf(part) === i).join(" - ") || "Statement line",
+      reference: value(block, "CHECKNUM") || value(block, "REFNUM") || null,
+      amount: isNaN(amount) ? 0 : amount,
+      errors,
+    };
+  });
+  return withFingerprints(entries, fitIds);
+}
+
+/**
+ * Read an uploaded statement. OFX files are read straight into lines; CSV and Excel files
+ * come back as rows so their columns can be mapped.
+ */
+export async function parseStatementFile(file: File): Promise<StatementFile> {
+  if (/\.(ofx|qfx)$/i.test(file.name)) {
+    return { format: "ofx", entries: parseOfx(await file.text()) };
+  }
+  const parsed = locateHeaderRow(await parseImportFile(file));
+  return { format: /\.xlsx$/i.test(file.name) ? "xlsx" : "csv", file: parsed };
+}
+
+export interface ReconcilableTransaction {
+  id: string;
+  type: string;
+  category: string;
+  amount: number | string;
+  currency: string | null;
+  date: string;
+  description: string | null;
+  reference: string | null;
+}
+
+// Transactions without a currency are in the farm's base currency
+const sameAmount = (entry: { amount: number }, transaction: ReconcilableTransaction, currency: { statement: string; base: string }) =>
+  (entry.amount > 0 ? "Income" : "Expense") === transaction.type &&
+  (transaction.currency || currency.base) === currency.statement &&
+  Math.abs(Math.abs(entry.amount) - Number(transaction.amount)) < 0.005;
+
+const referenceOnLine = (entry: { description: string; reference: string | null }, transaction: ReconcilableTransaction) => {
+  const reference = transaction.reference?.trim().toLowerCase();
+  if (!reference) return false;
+  if (entry.reference?.trim().toLowerCase() === reference) return true;
+  // Short references like "12" would turn up inside unrelated descriptions
+  return reference.length >= 4 && entry.description.toLowerCase().includes(reference);
+};
+
+/**
+ * Pair statement lines with unreconciled transactions of the same type, currency and amount. Lines that
+ * carry a transaction's reference are paired first, then the rest go to the transaction closest
+ * in date within MATCH_WINDOW_DAYS. Each transaction is used at most once. Returns the matched
+ * transaction id for each line, or null.
+ */
+export function matchStatementLines(
+  entries: { date: string; amount: number; description: string; reference: string | null }[],
+  transactions: ReconcilableTransaction[],
+  currency: { statement: string; base: string }
+): (string | null)[] {
+  const used = new Set<string>();
+  const matches: (string | null)[] = entries.map(() => null);
+
+  const claim = (index: number, window: number, byReference: boolean) => {
+    const entry = entries[index];
+    if (!entry.date || matches[index]) return;
+    const best = transactions
+      .filter(transaction => !used.has(transaction.id) && sameAmount(entry, transaction, currency))
+      .filter(transaction => !byReference || referenceOnLine(entry, transaction))
+      .map(transaction => ({
+        transaction,
+        gap: Math.abs(differenceInCalendarDays(parseISO(entry.date), parseISO(transaction.date))),
+      }))
+      .filter(({ gap }) => gap <= window)
+      .sort((a, b) => a.gap - b.gap)[0];
+    if (best) {
+      used.add(best.transaction.id);
+      matches[index] = best.transaction.id;
+    }
+  };
+
+  entries.forEach((_, index) => claim(index, REFERENCE_MATCH_WINDOW_DAYS, true));
+  entries.forEach((_, index) => claim(index, MATCH_WINDOW_DAYS, false));
+  return matches;
+}
+
+const descriptionWords = (text: string | null) =>
+  new Set((text ?? "").toLowerCase().split(/[^a-z]+/).filter(word => word.length >= 3));
+
+/**
+ * Suggest a category for an unmatched line from past transactions of the same type whose
+ * descriptions share words with it. Returns null when nothing similar has been recorded.
+ */
+export function suggestCategory(
+  entry: { amount: number; description: string },
+  history: { type: string; category: string; description: string | null }[]
+): string | null {
+  const type = entry.amount > 0 ? "Income" : "Expense";
+  const words = descriptionWords(entry.description);
+  if (words.size === 0) return null;
+
+  const scores = new Map<string, number>();
+  history.filter(past => past.type === type).forEach(past => {
+    const shared = [...descriptionWords(past.description)].filter(word => words.has(word)).length;
+    if (shared > 0) scores.set(past.category, (scores.get(past.category) ?? 0) + shared);
+  });
+
+  return [...scores.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+/**
+ * Unreconciled transactions that lines dated between from and to could match
+ */
+export async function fetchReconcilableTransactions(from: string, to: string): Promise<ReconcilableTransaction[]> {
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('id, type, category, amount, currency, date, description, reference')
+    .eq('reconciled', false)
+    .gte('date', format(subDays(parseISO(from), REFERENCE_MATCH_WINDOW_DAYS), "yyyy-MM-dd"))
+    .lte('date', format(addDays(parseISO(to), REFERENCE_MATCH_WINDOW_DAYS), "yyyy-MM-dd"))
+    .order('date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Recent transaction descriptions and their categories, for suggesting categories
+ */
+export async function fetchCategoryHistory() {
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('type, category, description')
+    .order('date', { ascending: false })
+    .limit(1000);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Fingerprints of lines already imported between two dates
+ */
+export async function fetchImportedFingerprints(from: string, to: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('bank_statement_lines')
+    .select('fingerprint')
+    .gte('line_date', from)
+    .lte('line_date', to);
+
+  if (error) throw error;
+  return new Set((data || []).map(line => line.fingerprint));
+}
+
+/**
+ * Save a statement and its lines with their matches. Lines imported before are skipped. The
+ * matched transactions are marked reconciled by the database when the lines are saved.
+ */
+export async function importStatement(
+  statement: { fileName: string; format: StatementFormat; accountName: string | null; paymentMethod: string; currency: string | null },
+  entries: (StatementEntry & { transactionId: string | null })[]
+): Promise<{ imported: number; matched: number }> {
+  const { data: authData } = await supabase.auth.getUser();
+  const dates = entries.map(entry => entry.date).sort();
+
+  const { data: saved, error } = await supabase
+    .from('bank_statements')
+    .insert({
+      file_name: statement.fileName,
+      file_format: statement.format,
+      account_name: statement.accountName,
+      payment_method: statement.paymentMethod,
+      currency: statement.currency,
+      start_date: dates[0] ?? null,
+      end_date: dates[dates.length - 1] ?? null,
+      created_by: authData?.user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  let imported = 0;
+  let matched = 0;
+  for (let start = 0; start < entries.length; start += LINE_BATCH_SIZE) {
+    const batch = entries.slice(start, start + LINE_BATCH_SIZE);
+    const { data, error: linesError } = await supabase
+      .from('bank_statement_lines')
+      .upsert(batch.map(entry => ({
+        statement_id: saved.id,
+        line_date: entry.date,
+        description: entry.description,
+        reference: entry.reference,
+        amount: entry.amount,
+        fingerprint: entry.fingerprint,
+        transaction_id: entry.transactionId,
+      })), { onConflict: 'fingerprint', ignoreDuplicates: true })
+      .select('transaction_id');
+
+    if (linesError) {
+      // Nothing is kept from a statement that was only partly saved, so it can be imported again
+      await supabase.from('bank_statements').delete().eq('id', saved.id);
+      throw linesError;
+    }
+    imported += data?.length ?? 0;
+    matched += data?.filter(line => line.transaction_id).length ?? 0;
+  }
+
+  if (imported === 0) {
+    await supabase.from('bank_statements').delete().eq('id', saved.id);
+  }
+
+  return { imported, matched };
+}
+
+export type StatementLineDetails = BankStatementLine & {
+  bank_statements: Pick<BankStatement, 'file_name' | 'account_name' | 'payment_method' | 'currency'> | null;
+  financial_transactions: Pick<Tables<'financial_transactions'>, 'id' | 'type' | 'category' | 'date' | 'description'> | null;
+};
+
+/**
+ * Statement lines, newest first, with their statement and matched transaction
+ */
+export async function fetchStatementLines(): Promise<StatementLineDetails[]> {
+  const { data, error } = await supabase
+    .from('bank_statement_lines')
+    .select('*, bank_statements(file_name, account_name, payment_method, currency), financial_transactions(id, type, category, date, description)')
+    .order('line_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as StatementLineDetails[];
+}
+
+export async function updateStatementLine(id: string, values: { transaction_id?: string | null; ignored?: boolean }) {
+  const { error } = await supabase
+    .from('bank_statement_lines')
+    .update(values)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Record an unmatched line as a new transaction and match the line to it
+ */
+export async function createTransactionFromLine(
+  line: StatementLineDetails,
+  values: { category: string; currency: string | null; exchangeRate: number }
+) {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { data: transaction, error } = await supabase
+    .from('financial_transactions')
+    .insert({
+      type: Number(line.amount) > 0 ? "Income" : "Expense",
+      category: values.category,
+      amount: Math.abs(Number(line.amount)),
+      date: line.line_date,
+      description: line.description,
+      related_to: "Farm",
+      payment_method: line.bank_statements?.payment_method ?? "Bank Transfer",
+      reference: line.reference,
+      currency: values.currency,
+      exchange_rate: values.exchangeRate,
+      created_by: authData?.user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await updateStatementLine(line.id, { transaction_id: transaction.id });
+  } catch (lineError) {
+    await supabase.from('financial_transactions').delete().eq('id', transaction.id);
+    throw lineError;
+  }
+
+  return transaction;
+}
+
+/**
+ * Mark a transaction reconciled by hand, for payments that never appear on a statement such as cash
+ */
+export async function setTransactionReconciled(id: string, reconciled: boolean) {
+  const { error } = await supabase
+    .from('financial_transactions')
+    .update({ reconciled, reconciled_at: reconciled ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,158 @@
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type BreedingRecord = Tables<'breeding_records'>;
+
+export type ScanResult = "Empty" | "Single" | "Twins" | "Triplets";
+export type BreedingStatus = "Mated" | "Pregnant" | "Empty" | "Lambed" | "Aborted";
+
+// Average sheep gestation, with the normal spread either side of it
+export const GESTATION_DAYS = 147;
+export const GESTATION_VARIATION_DAYS = 5;
+
+// How long before the lambing window opens the reminder alert falls due
+export const LAMBING_ALERT_LEAD_DAYS = 14;
+
+export const SCAN_RESULTS: ScanResult[] = ["Empty", "Single", "Twins", "Triplets"];
+
+export const expectedLambCount: Record<ScanResult, number> = {
+  Empty: 0,
+  Single: 1,
+  Twins: 2,
+  Triplets: 3,
+};
+
+export interface LambingWindow {
+  start: string;
+  expected: string;
+  end: string;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Expected lambing window for a mating on the given date (yyyy-MM-dd)
+ */
+export function lambingWindow(matingDate: string): LambingWindow {
+  const mated = parseISO(matingDate);
+  return {
+    start: toDateString(addDays(mated, GESTATION_DAYS - GESTATION_VARIATION_DAYS)),
+    expected: toDateString(addDays(mated, GESTATION_DAYS)),
+    end: toDateString(addDays(mated, GESTATION_DAYS + GESTATION_VARIATION_DAYS)),
+  };
+}
+
+/**
+ * Create the breeding record for a mating, together with the lambing reminder alert.
+ * Both are saved by the record_mating database function so neither is left without the other.
+ */
+export async function recordMating({
+  eweId,
+  ramId,
+  matingDate,
+  eventId,
+  notes,
+}: {
+  eweId: string;
+  ramId: string;
+  matingDate: string;
+  eventId?: string | null;
+  notes?: string | null;
+}): Promise<string> {
+  const lambing = lambingWindow(matingDate);
+
+  const { data, error } = await supabase.rpc('record_mating', {
+    p_ewe_id: eweId,
+    p_ram_id: ramId,
+    p_mating_date: matingDate,
+    p_lambing_start: lambing.start,
+    p_lambing_end: lambing.end,
+    p_alert_due_date: toDateString(addDays(parseISO(lambing.start), -LAMBING_ALERT_LEAD_DAYS)),
+    p_event_id: eventId ?? undefined,
+    p_notes: notes || undefined,
+  });
+
+  if (error) throw error;
+
+  window.dispatchEvent(new Event('alert-added'));
+  return data;
+}
+
+/**
+ * Record a pregnancy scan result. An empty scan closes the cycle and cancels the lambing
+ * reminder; a positive scan marks the ewe as pregnant. The record_scan database function
+ * updates the breeding record, the ewe and the alert together.
+ */
+export async function recordScan(record: BreedingRecord, result: ScanResult, scanDate: string) {
+  const { error } = await supabase.rpc('record_scan', {
+    p_record_id: record.id,
+    p_result: result,
+    p_scan_date: scanDate,
+  });
+
+  if (error) throw error;
+}
+
+export interface LambEntry {
+  tagNumber: string;
+  name?: string;
+  sex: "Male" | "Female";
+  birthWeightKg: number | null;
+  alive: boolean;
+}
+
+/**
+ * The breeding record still waiting on this ewe's lambing, if any
+ */
+export async function fetchOpenBreedingRecord(eweId: string): Promise<BreedingRecord | null> {
+  const { data, error } = await supabase
+    .from('breeding_records')
+    .select('*')
+    .eq('ewe_id', eweId)
+    .in('status', ['Mated', 'Pregnant'])
+    .order('mating_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Register every lamb of a birth, write (or reuse) the Birth event and close the ewe's breeding record.
+ * The record_lambing database function makes all of these writes together and returns the Birth event id.
+ */
+export async function recordLambing({
+  damId,
+  sireId,
+  lambingDate,
+  breed,
+  lambs,
+  eventId,
+}: {
+  damId: string;
+  sireId: string | null;
+  lambingDate: string;
+  breed: string;
+  lambs: LambEntry[];
+  eventId?: string | null;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('record_lambing', {
+    p_dam_id: damId,
+    p_sire_id: sireId ?? undefined,
+    p_lambing_date: lambingDate,
+    p_breed: breed,
+    p_lambs: lambs.map(lamb => ({
+      tag_number: lamb.tagNumber,
+      name: lamb.name ?? null,
+      sex: lamb.sex,
+      birth_weight_kg: lamb.birthWeightKg,
+      alive: lamb.alive,
+    })),
+    p_event_id: eventId ?? undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,235 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfMonth,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ReportRange } from "@/lib/reports";
+import { financialYearLabel, financialYearStartMonth, periodRange } from "@/lib/finance";
+import { baseCurrency, formatMoney, toBaseAmount } from "@/lib/currency";
+
+export type Budget = Tables<'budgets'>;
+
+export type BudgetType = "Income" | "Expense";
+
+// Used when farm_settings has no threshold saved (warn at 90% of budget)
+export const DEFAULT_BUDGET_ALERT_THRESHOLD = 0.9;
+
+export interface BudgetVariance {
+  type: BudgetType;
+  category: string;
+  /** Budget for the whole range */
+  budget: number;
+  /** Budget for the part of the range up to the as-of date */
+  budgetToDate: number;
+  actual: number;
+  /** Positive when the result is better than budgeted: under on expenses, ahead on income */
+  variance: number;
+  /** Actual as a share of the whole range's budget, or null when nothing was budgeted */
+  usedShare: number | null;
+}
+
+export interface BudgetTransaction {
+  date: string;
+  type: string;
+  category: string;
+  amount: number;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * First day of each of the twelve months of a financial year
+ */
+export const financialYearMonths = (start: Date) =>
+  Array.from({ length: 12 }, (_, i) => toDateString(addMonths(start, i)));
+
+/**
+ * The part of a month's budget falling inside the range, shared out by days
+ */
+export function proratedAmount(budget: Pick<Budget, 'month' | 'amount'>, range: ReportRange): number {
+  const monthStart = parseISO(budget.month);
+  const from = maxDate([monthStart, range.from]);
+  const to = minDate([endOfMonth(monthStart), range.to]);
+  const days = differenceInCalendarDays(to, from) + 1;
+  if (days <= 0) return 0;
+  return Number(budget.amount) * days / getDaysInMonth(monthStart);
+}
+
+/**
+ * Budget against actual per category over the range, with the budget to date counted up to asOf
+ */
+export function budgetVariance(
+  budgets: Budget[],
+  transactions: BudgetTransaction[],
+  range: ReportRange,
+  asOf: Date = new Date()
+): BudgetVariance[] {
+  const toDate = { from: range.from, to: minDate([range.to, asOf]) };
+  const from = toDateString(range.from);
+  const to = toDateString(toDate.to);
+  const lines = new Map<string, BudgetVariance>();
+
+  const line = (type: string, category: string) => {
+    const key = `${type}:${category}`;
+    if (!lines.has(key)) {
+      lines.set(key, { type: type as BudgetType, category, budget: 0, budgetToDate: 0, actual: 0, variance: 0, usedShare: null });
+    }
+    return lines.get(key);
+  };
+
+  budgets.forEach(budget => {
+    const entry = line(budget.type, budget.category);
+    entry.budget += proratedAmount(budget, range);
+    entry.budgetToDate += proratedAmount(budget, toDate);
+  });
+
+  // Only categories with a budget are tracked
+  transactions.forEach(transaction => {
+    const entry = lines.get(`${transaction.type}:${transaction.category}`);
+    if (entry && transaction.date >= from && transaction.date <= to) entry.actual += transaction.amount;
+  });
+
+  return Array.from(lines.values())
+    .map(entry => ({
+      ...entry,
+      variance: entry.type === "Expense" ? entry.budgetToDate - entry.actual : entry.actual - entry.budgetToDate,
+      usedShare: entry.budget > 0 ? entry.actual / entry.budget : null,
+    }))
+    .sort((a, b) => a.type.localeCompare(b.type) || a.category.localeCompare(b.category));
+}
+
+export async function fetchBudgets(range: ReportRange): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('*')
+    .gte('month', toDateString(startOfMonth(range.from)))
+    .lte('month', toDateString(range.to))
+    .order('month');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save a category's monthly amounts, replacing any already set for those months
+ */
+export async function saveBudget(type: BudgetType, category: string, amounts: { month: string; amount: number }[]) {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('budgets')
+    .upsert(
+      amounts.map(({ month, amount }) => ({
+        type,
+        category,
+        month,
+        amount,
+        created_by: authData?.user?.id ?? null,
+      })),
+      { onConflict: 'type,category,month' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteBudget(type: BudgetType, category: string, range: ReportRange) {
+  const { error } = await supabase
+    .from('budgets')
+    .delete()
+    .eq('type', type)
+    .eq('category', category)
+    .gte('month', toDateString(startOfMonth(range.from)))
+    .lte('month', toDateString(range.to));
+
+  if (error) throw error;
+}
+
+/**
+ * Raise a warning alert for each expense category that has used at least the farm's threshold
+ * share of its budget for the current month or financial year. Each category gets one
+ * alert per period; an open alert is updated as spending grows.
+ */
+export async function checkBudgetAlerts(
+  settings: Pick<Tables<'farm_settings'>, 'budget_alert_threshold' | 'currency' | 'financial_year_start_month'> | null | undefined,
+  today: Date = new Date()
+): Promise<number> {
+  const threshold = settings?.budget_alert_threshold ?? DEFAULT_BUDGET_ALERT_THRESHOLD;
+  const currency = baseCurrency(settings);
+  const year = periodRange("financial_year", today, { financialYearStartMonth: financialYearStartMonth(settings) });
+  const month = periodRange("month", today);
+
+  const budgets = (await fetchBudgets(year))
+    .filter(budget => budget.type === "Expense");
+  if (budgets.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('date, type, category, amount, exchange_rate')
+    .eq('type', 'Expense')
+    .gte('date', toDateString(year.from))
+    .lte('date', toDateString(today));
+
+  if (error) throw error;
+  const transactions = (data || []).map(t => ({ ...t, amount: toBaseAmount(t) }));
+
+  const warnings = [
+    ...budgetVariance(budgets, transactions, month, today).map(v => ({ ...v, period: format(today, "MMMM yyyy") })),
+    ...budgetVariance(budgets, transactions, year, today).map(v => ({ ...v, period: financialYearLabel(year.from) })),
+  ].filter(v => v.usedShare !== null && v.usedShare >= threshold);
+
+  if (warnings.length === 0) return 0;
+
+  const titles = warnings.map(w => `Budget: ${w.category} (${w.period})`);
+  const { data: existing, error: existingError } = await supabase
+    .from('alerts')
+    .select('id, title, status')
+    .in('title', titles);
+
+  if (existingError) throw existingError;
+
+  const { data: authData } = await supabase.auth.getUser();
+  let raised = 0;
+
+  for (const [index, warning] of warnings.entries()) {
+    const title = titles[index];
+    const description = `${warning.category} spending is at ${Math.round(warning.usedShare * 100)}% of the ${warning.period} budget ` +
+      `(${formatMoney(warning.actual, currency)} of ${formatMoney(warning.budget, currency)}).`;
+    const priority = warning.usedShare >= 1 ? "High" : "Medium";
+    const alert = existing?.find(a => a.title === title);
+
+    if (alert) {
+      // Alerts the farmer has closed or dismissed stay closed
+      if (alert.status === "Completed" || alert.status === "Cancelled") continue;
+      const { error: updateError } = await supabase
+        .from('alerts')
+        .update({ description, priority })
+        .eq('id', alert.id);
+      if (updateError) throw updateError;
+    } else {
+      const { error: insertError } = await supabase
+        .from('alerts')
+        .insert({
+          title,
+          description,
+          type: "Warning",
+          priority,
+          status: "Pending",
+          due_date: toDateString(today),
+          created_by: authData?.user?.id ?? null,
+        });
+      if (insertError) throw insertError;
+      raised++;
+    }
+  }
+
+  if (raised > 0) window.dispatchEvent(new Event('alert-added'));
+  return raised;
+}
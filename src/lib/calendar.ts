@@ -0,0 +1,270 @@
+import { addDays, eachDayOfInterval, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+import { supabase, SUPABASE_URL } from "@/integrations/supabase/client";
+import { fetchCached, updateRecord } from "@/lib/offline";
+import { activityLink } from "@/lib/activity";
+import { EventType, formatEventTime, toFarmEvents } from "@/lib/events";
+import { groupSummaryLabel } from "@/lib/groups";
+
+export type CalendarSource = "event" | "health" | "alert";
+
+export type CalendarView = "month" | "week" | "agenda";
+
+export const calendarSourceLabels: Record<CalendarSource, string> = {
+  event: "Events",
+  health: "Health follow-ups",
+  alert: "Alerts",
+};
+
+export interface CalendarItem {
+  /** Unique across sources, e.g. "event:<id>" */
+  key: string;
+  id: string;
+  source: CalendarSource;
+  date: string;
+  time?: string;
+  title: string;
+  /** Event type, health record type or alert type */
+  kind: string;
+  status: string;
+  animalId: string | null;
+  animalLabel: string | null;
+  /** The animals of a group action, which has no animal of its own */
+  members?: { animalId: string; animalLabel: string }[];
+}
+
+// Statuses that are finished with, so the item is shown faded and cannot be moved
+const CLOSED_STATUSES = ["Completed", "Cancelled"];
+
+// Alerts are not kept offline, so they come straight from the server
+async function fetchAlertItems(): Promise<CalendarItem[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('id, title, type, status, due_date, animal_id, animals(id, name, tag_number)')
+    .neq('status', 'Cancelled');
+
+  if (error) throw error;
+  return (data || []).map(alert => ({
+    key: `alert:${alert.id}`,
+    id: alert.id,
+    source: "alert",
+    date: alert.due_date,
+    title: alert.title,
+    kind: alert.type,
+    status: alert.status,
+    animalId: alert.animal_id,
+    animalLabel: alert.animals ? `${alert.animals.name} (#${alert.animals.tag_number})` : null,
+  }));
+}
+
+/**
+ * Events, health record follow-ups and alerts as one list of dated items.
+ * A source that cannot be loaded is left out rather than failing the rest.
+ */
+export async function fetchCalendarItems(): Promise<{ items: CalendarItem[]; failed: CalendarSource[] }> {
+  const [events, healthRecords, alerts] = await Promise.allSettled([
+    fetchCached('events'),
+    fetchCached('health_records'),
+    fetchAlertItems(),
+  ]);
+  const items: CalendarItem[] = [];
+  const failed: CalendarSource[] = [];
+
+  if (events.status === "fulfilled") {
+    // Group actions show once, as their summary
+    const rows = new Map(events.value.map(row => [row.id, row]));
+    toFarmEvents(events.value).forEach(event => {
+      const row = rows.get(event.id);
+      items.push({
+        key: `event:${event.id}`,
+        id: event.id,
+        source: "event",
+        date: event.date,
+        time: formatEventTime(event),
+        title: event.title,
+        kind: event.type,
+        status: event.status,
+        animalId: row.animal_id,
+        animalLabel: event.groupSize
+          ? groupSummaryLabel(event.groupSize, event.entries.filter(entry => entry.exception).length)
+          : row.animals ? `${row.animals.name} (#${row.animals.tag_number})` : null,
+        members: event.entries
+          .filter(entry => entry.animalId)
+          .map(entry => ({ animalId: entry.animalId, animalLabel: entry.animalLabel })),
+      });
+    });
+  } else {
+    failed.push("event");
+  }
+
+  if (healthRecords.status === "fulfilled") {
+    const membersBySummary = new Map<string, { animalId: string; animalLabel: string }[]>();
+    healthRecords.value
+      .filter(record => record.summary_id && record.animal_id)
+      .forEach(record => membersBySummary.set(record.summary_id, [...(membersBySummary.get(record.summary_id) ?? []), {
+        animalId: record.animal_id,
+        animalLabel: record.animals ? `${record.animals.name} (#${record.animals.tag_number})` : "Unknown",
+      }]));
+
+    healthRecords.value
+      .filter(record => record.follow_up && !record.summary_id)
+      .forEach(record => items.push({
+        key: `health:${record.id}`,
+        id: record.id,
+        source: "health",
+        date: record.follow_up,
+        title: `Follow-up: ${record.description}`,
+        kind: record.record_type,
+        status: record.status,
+        animalId: record.animal_id,
+        animalLabel: record.group_size
+          ? groupSummaryLabel(record.group_size)
+          : record.animals ? `${record.animals.name} (#${record.animals.tag_number})` : null,
+        members: membersBySummary.get(record.id),
+      }));
+  } else {
+    failed.push("health");
+  }
+
+  if (alerts.status === "fulfilled") {
+    items.push(...alerts.value);
+  } else {
+    failed.push("alert");
+  }
+
+  items.sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? "").localeCompare(b.time ?? ""));
+  return { items, failed };
+}
+
+export const isClosed = (item: CalendarItem) => CLOSED_STATUSES.includes(item.status);
+
+/**
+ * Move an item to another day by updating the date on its own row: the event date,
+ * the health record's follow-up date or the alert's due date
+ */
+export async function rescheduleItem(item: CalendarItem, date: string): Promise<{ queued: boolean }> {
+  if (item.source === "event") {
+    // A missed event moved to today or later is back on the schedule
+    const reopen = item.status === "Missed" && date >= format(new Date(), "yyyy-MM-dd");
+    const { queued } = await updateRecord('events', item.id, reopen ? { date, status: "Upcoming" } : { date });
+    return { queued };
+  }
+
+  if (item.source === "health") {
+    const { queued } = await updateRecord('health_records', item.id, { follow_up: date });
+    return { queued };
+  }
+
+  const { error } = await supabase
+    .from('alerts')
+    .update({ due_date: date })
+    .eq('id', item.id);
+
+  if (error) throw error;
+  return { queued: false };
+}
+
+export function calendarItemLink(item: CalendarItem): string {
+  const table = item.source === "event" ? "events" : item.source === "health" ? "health_records" : "alerts";
+  return activityLink(table, item.id) ?? "/";
+}
+
+/**
+ * Days shown for the view around the given date: whole weeks covering the month, or one week.
+ * Weeks start on Monday.
+ */
+export function calendarDays(view: Exclude<CalendarView, "agenda">, date: Date): Date[] {
+  const start = view === "month" ? startOfWeek(startOfMonth(date), { weekStartsOn: 1 }) : startOfWeek(date, { weekStartsOn: 1 });
+  const end = view === "month" ? endOfWeek(endOfMonth(date), { weekStartsOn: 1 }) : addDays(start, 6);
+  return eachDayOfInterval({ start, end });
+}
+
+export function itemsByDate(items: CalendarItem[]): Map<string, CalendarItem[]> {
+  const byDate = new Map<string, CalendarItem[]>();
+  items.forEach(item => {
+    const day = item.date.slice(0, 10);
+    byDate.set(day, [...(byDate.get(day) ?? []), item]);
+  });
+  return byDate;
+}
+
+export type CalendarTypeFilter = "all" | `source:${CalendarSource}` | `event:${EventType}`;
+
+/**
+ * Whether the item is for the animal, on its own or as one of a group
+ */
+export const involvesAnimal = (item: CalendarItem, animalId: string) =>
+  item.animalId === animalId || !!item.members?.some(member => member.animalId === animalId);
+
+export function matchesTypeFilter(item: CalendarItem, filter: CalendarTypeFilter): boolean {
+  if (filter === "all") return true;
+  if (filter.startsWith("source:")) return item.source === filter.slice("source:".length);
+  return item.source === "event" && item.kind === filter.slice("event:".length);
+}
+
+export interface FeedOptions {
+  sources: CalendarSource[];
+  /** Only events of this type; all types when missing */
+  eventType?: EventType;
+  /** Only events assigned to the user and alerts they created */
+  mine: boolean;
+}
+
+const newFeedToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, "0")).join("");
+
+async function currentUserId(): Promise<string> {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) throw new Error("Sign in to get a calendar feed");
+  return authData.user.id;
+}
+
+/**
+ * The signed-in user's secret feed token, created the first time it is asked for
+ */
+export async function fetchFeedToken(): Promise<string> {
+  const userId = await currentUserId();
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data.token;
+
+  const { data: created, error: createError } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId, token: newFeedToken() })
+    .select('token')
+    .single();
+
+  if (createError) throw createError;
+  return created.token;
+}
+
+/**
+ * Replace the token, so links shared before stop working
+ */
+export async function resetFeedToken(): Promise<string> {
+  const userId = await currentUserId();
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .upsert({ user_id: userId, token: newFeedToken() }, { onConflict: 'user_id' })
+    .select('token')
+    .single();
+
+  if (error) throw error;
+  return data.token;
+}
+
+/**
+ * Address of the calendar-feed edge function for the token and filters
+ */
+export function calendarFeedUrl(token: string, options: FeedOptions, download = false): string {
+  const params = new URLSearchParams({ token });
+  if (options.sources.length < 3) params.set('types', options.sources.join(','));
+  if (options.eventType) params.set('eventTypes', options.eventType);
+  if (options.mine) params.set('mine', '1');
+  if (download) params.set('download', '1');
+  return `${SUPABASE_URL}/functions/v1/calendar-feed?${params}`;
+}
@@ -0,0 +1,164 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ParsedFile, parseDate } from "@/lib/animal-import";
+
+export type CurrencyCode = "USD" | "EUR" | "GBP" | "KES" | "ZAR";
+
+export const CURRENCIES: Record<CurrencyCode, { name: string; symbol: string }> = {
+  USD: { name: "US Dollar", symbol: "$" },
+  EUR: { name: "Euro", symbol: "€" },
+  GBP: { name: "British Pound", symbol: "£" },
+  KES: { name: "Kenyan Shilling", symbol: "KSh" },
+  ZAR: { name: "South African Rand", symbol: "R" },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+// Used until the farm chooses a base currency. Amounts recorded before currencies were tracked are in shillings.
+export const DEFAULT_BASE_CURRENCY: CurrencyCode = "KES";
+
+export type ExchangeRate = Tables<'exchange_rates'>;
+
+export interface ConvertibleAmount {
+  amount: number | string;
+  currency?: string | null;
+  exchange_rate?: number | string | null;
+}
+
+export interface RateImportRow {
+  rowNumber: number;
+  currency: CurrencyCode | null;
+  rate_date: string | null;
+  rate: number | null;
+  errors: string[];
+}
+
+/**
+ * The farm's base currency, which all totals are converted to
+ */
+export const baseCurrency = (settings: Pick<Tables<'farm_settings'>, 'currency'> | null | undefined): CurrencyCode =>
+  settings?.currency && settings.currency in CURRENCIES ? settings.currency as CurrencyCode : DEFAULT_BASE_CURRENCY;
+
+export const currencySymbol = (currency: string) => CURRENCIES[currency as CurrencyCode]?.symbol ?? currency;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_BASE_CURRENCY) =>
+  `${currencySymbol(currency)} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * An amount converted to the base currency at the rate stored with it
+ */
+export const toBaseAmount = (row: ConvertibleAmount) =>
+  (Number(row.amount) || 0) * (Number(row.exchange_rate) || 1);
+
+export async function fetchExchangeRates(base: CurrencyCode): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .eq('base_currency', base)
+    .order('rate_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Look up the rate to use for a transaction in the given currency on the given date
+ */
+export async function lookupExchangeRate(currency: CurrencyCode, base: CurrencyCode, date: string): Promise<number | null> {
+  if (currency === base) return 1;
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('rate')
+    .eq('currency', currency)
+    .eq('base_currency', base)
+    .lte('rate_date', date)
+    .order('rate_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? Number(data.rate) : null;
+}
+
+/**
+ * Save rates, replacing any already entered for the same currency and day
+ */
+export async function saveExchangeRates(
+  base: CurrencyCode,
+  rates: { currency: CurrencyCode; rate_date: string; rate: number }[],
+  source: "manual" | "import" = "manual"
+) {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('exchange_rates')
+    .upsert(
+      rates.map(rate => ({ ...rate, base_currency: base, source, created_by: authData?.user?.id ?? null })),
+      { onConflict: 'currency,base_currency,rate_date' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteExchangeRate(id: string) {
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+const normalise = (value: string) => value.toLowerCase().replace(/[_\s]+/g, " ").trim();
+
+const RATE_COLUMNS = {
+  date: ["date", "rate date", "effective date", "day"],
+  currency: ["currency", "code", "currency code", "from"],
+  rate: ["rate", "exchange rate", "value"],
+};
+
+/**
+ * Read a rate table with date, currency and rate columns. Each rate is the number of
+ * base currency units one unit of the currency buys.
+ */
+export function parseRateTable(file: ParsedFile, base: CurrencyCode): RateImportRow[] {
+  const column = (aliases: string[]) => file.headers.findIndex(header => aliases.includes(normalise(header)));
+  const columns = {
+    date: column(RATE_COLUMNS.date),
+    currency: column(RATE_COLUMNS.currency),
+    rate: column(RATE_COLUMNS.rate),
+  };
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`The file needs ${missing.join(", ")} column${missing.length === 1 ? "" : "s"}`);
+  }
+
+  const seen = new Map<string, number>();
+
+  return file.rows.map((cells, index) => {
+    // Row numbers as the user sees them in their spreadsheet, after the header row
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const get = (i: number) => (cells[i] ?? "").trim();
+
+    const rateDate = parseDate(get(columns.date));
+    if (!rateDate) errors.push(`Date "${get(columns.date)}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+
+    const code = get(columns.currency).toUpperCase();
+    const currency = code in CURRENCIES ? code as CurrencyCode : null;
+    if (!currency) errors.push(`Currency "${get(columns.currency)}" must be one of ${CURRENCY_CODES.join(", ")}`);
+    else if (currency === base) errors.push(`${currency} is the base currency`);
+
+    const rate = Number(get(columns.rate).replace(/,/g, ""));
+    if (!get(columns.rate) || isNaN(rate) || rate <= 0) errors.push(`Rate "${get(columns.rate)}" must be a positive number`);
+
+    const key = `${currency}:${rateDate}`;
+    if (currency && rateDate) {
+      if (seen.has(key)) errors.push(`${currency} on ${rateDate} also appears on row ${seen.get(key)}`);
+      else seen.set(key, rowNumber);
+    }
+
+    return { rowNumber, currency, rate_date: rateDate, rate: isNaN(rate) ? null : rate, errors };
+  });
+}
@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AnimalDisposal = Tables<'animal_disposals'>;
+
+export type DisposalType = "Sold" | "Dead" | "Culled";
+
+export const DISPOSAL_TYPES: DisposalType[] = ["Sold", "Dead", "Culled"];
+
+export const disposalTypeLabels: Record<DisposalType, string> = {
+  Sold: "Sale",
+  Dead: "Death",
+  Culled: "Cull",
+};
+
+// Recorded for lambs registered dead at lambing
+export const STILLBORN_CAUSE = "Stillborn";
+
+export const DEATH_CAUSES = [
+  "Disease",
+  "Predation",
+  "Birth complications",
+  STILLBORN_CAUSE,
+  "Accident",
+  "Poisoning",
+  "Exposure",
+  "Old age",
+  "Unknown",
+  "Other",
+];
+
+export const CULL_REASONS = [
+  "Age or teeth",
+  "Poor fertility",
+  "Udder problems",
+  "Lameness",
+  "Poor condition",
+  "Temperament",
+  "Other",
+];
+
+export interface DisposalValues {
+  animalId: string;
+  type: DisposalType;
+  date: string;
+  buyer?: string | null;
+  price?: number | null;
+  currency?: string | null;
+  exchangeRate?: number;
+  paymentMethod?: string;
+  weightKg?: number | null;
+  grade?: string | null;
+  cause?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Record an animal leaving the flock. The status change, the disposal record, its event and,
+ * when there is a price, the income transaction are saved together by the record_disposal
+ * database function, so either all of them are saved or none are.
+ */
+export async function recordDisposal(values: DisposalValues): Promise<string> {
+  const { data, error } = await supabase.rpc('record_disposal', {
+    p_animal_id: values.animalId,
+    p_disposal_type: values.type,
+    p_disposal_date: values.date,
+    p_buyer: values.buyer ?? undefined,
+    p_price: values.price ?? undefined,
+    p_currency: values.currency ?? undefined,
+    p_exchange_rate: values.exchangeRate ?? 1,
+    p_payment_method: values.paymentMethod ?? "Cash",
+    p_weight_kg: values.weightKg ?? undefined,
+    p_grade: values.grade ?? undefined,
+    p_cause: values.cause ?? undefined,
+    p_notes: values.notes ?? undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Disposals between two dates (yyyy-MM-dd, inclusive) with the animal each one was for
+ */
+export async function fetchDisposals(from: string, to: string) {
+  const { data, error } = await supabase
+    .from('animal_disposals')
+    .select('*, animals(name, tag_number, breed, sex, birth_date)')
+    .gte('disposal_date', from)
+    .lte('disposal_date', to)
+    .order('disposal_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
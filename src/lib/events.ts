@@ -0,0 +1,175 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { CachedRow } from "@/lib/offline";
+
+export type EventType = "Birth" | "Mating" | "Weaning" | "Shearing" | "Vaccination" | "Disposal" | "Custom";
+
+export type EventStatus = "Upcoming" | "In Progress" | "Completed" | "Missed";
+
+export const EVENT_STATUSES: EventStatus[] = ["Upcoming", "In Progress", "Completed", "Missed"];
+
+export interface FarmEvent {
+  id: string;
+  title: string;
+  type: EventType;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  description: string;
+  animals: string[];
+  animalId?: string | null;
+  status: EventStatus;
+  location?: string | null;
+  assignedTo: string[];
+  transactionId?: string | null;
+  /** Set on the summary event of a group action */
+  groupSize?: number | null;
+  entries?: GroupEventEntry[];
+}
+
+/**
+ * The event of one animal in a group action
+ */
+export interface GroupEventEntry {
+  id: string;
+  animalId: string | null;
+  animalLabel: string;
+  exception: string | null;
+  status: EventStatus;
+}
+
+export interface Assignee {
+  id: string;
+  name: string;
+}
+
+export interface EventCost {
+  id: string;
+  date: string;
+  category: string;
+  description: string | null;
+  amount: number;
+  currency: string | null;
+}
+
+// Postgres returns times as HH:MM:SS
+const shortTime = (time: string | null | undefined) => time ? time.slice(0, 5) : undefined;
+
+/**
+ * An open event whose day has passed counts as Missed. The database marks these when the
+ * list loads; this covers rows read from the offline cache in the meantime.
+ */
+export function eventStatus(event: Pick<CachedRow<'events'>, 'status' | 'date'>, today = format(new Date(), "yyyy-MM-dd")): EventStatus {
+  const status = EVENT_STATUSES.includes(event.status as EventStatus) ? event.status as EventStatus : "Upcoming";
+  if ((status === "Upcoming" || status === "In Progress") && event.date < today) return "Missed";
+  return status;
+}
+
+export function toFarmEvent(event: CachedRow<'events'>): FarmEvent {
+  // Notes hold the title and animal groups the event was created with
+  let title = event.description;
+  let animals: string[] = [];
+  try {
+    const notesData = event.notes ? JSON.parse(event.notes) : null;
+    if (typeof notesData?.title === "string" && notesData.title) title = notesData.title;
+    if (Array.isArray(notesData?.animals)) animals = notesData.animals;
+  } catch {
+    // Plain text notes carry neither
+  }
+  if (animals.length === 0 && event.animal_id) {
+    animals = [`${event.animals?.name || 'Unknown'} (#${event.animals?.tag_number || 'Unknown'})`];
+  }
+
+  return {
+    id: event.id,
+    title,
+    type: event.event_type as EventType,
+    date: event.date,
+    startTime: shortTime(event.start_time),
+    endTime: shortTime(event.end_time),
+    description: event.description,
+    animals,
+    animalId: event.animal_id,
+    status: eventStatus(event),
+    location: event.location,
+    assignedTo: event.assigned_to ?? [],
+    transactionId: event.transaction_id,
+    groupSize: event.group_size,
+  };
+}
+
+/**
+ * Events as they are listed: the per-animal entries of a group action are folded into its
+ * summary event rather than listed one by one
+ */
+export function toFarmEvents(rows: CachedRow<'events'>[]): FarmEvent[] {
+  const entriesBySummary = new Map<string, GroupEventEntry[]>();
+  rows.filter(row => row.summary_id).forEach(row => {
+    entriesBySummary.set(row.summary_id, [...(entriesBySummary.get(row.summary_id) ?? []), {
+      id: row.id,
+      animalId: row.animal_id,
+      animalLabel: `${row.animals?.name || 'Unknown'} (#${row.animals?.tag_number || 'Unknown'})`,
+      exception: row.exception,
+      status: eventStatus(row),
+    }]);
+  });
+
+  return rows
+    .filter(row => !row.summary_id)
+    .map(row => ({ ...toFarmEvent(row), entries: entriesBySummary.get(row.id) ?? [] }));
+}
+
+export const formatEventTime = (event: Pick<FarmEvent, 'startTime' | 'endTime'>) =>
+  event.startTime && event.endTime ? `${event.startTime}–${event.endTime}` : event.startTime ?? (event.endTime ? `until ${event.endTime}` : undefined);
+
+/**
+ * Mark open events from earlier days as Missed. Returns how many changed.
+ */
+export async function markMissedEvents(): Promise<number> {
+  const { data, error } = await supabase.rpc('mark_missed_events');
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Farm members events can be assigned to
+ */
+export async function fetchAssignees(): Promise<Assignee[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, first_name, last_name')
+    .order('first_name');
+
+  if (error) throw error;
+  return (data || []).map(profile => ({
+    id: profile.id,
+    name: [profile.first_name, profile.last_name].filter(Boolean).join(' ') || 'Unnamed member',
+  }));
+}
+
+/**
+ * Recent expenses an event's cost can be linked to
+ */
+export async function fetchCostOptions(limit = 100): Promise<EventCost[]> {
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('id, date, category, description, amount, currency')
+    .eq('type', 'Expense')
+    .order('date', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchEventCost(transactionId: string): Promise<EventCost | null> {
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('id, date, category, description, amount, currency')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
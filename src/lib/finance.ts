@@ -0,0 +1,239 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  subDays,
+  subMonths,
+  subQuarters,
+} from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ReportRange } from "@/lib/reports";
+
+export type PeriodType = "month" | "quarter" | "financial_year" | "custom";
+
+export const periodLabels: Record<PeriodType, string> = {
+  month: "This Month",
+  quarter: "This Quarter",
+  financial_year: "This Financial Year",
+  custom: "Custom Range",
+};
+
+// What the previous equivalent period is called in "vs previous ..." captions
+export const previousPeriodLabels: Record<PeriodType, string> = {
+  month: "previous month",
+  quarter: "previous quarter",
+  financial_year: "previous financial year",
+  custom: "previous period",
+};
+
+// Used until the farm sets the month its financial year starts in (1 = January)
+export const DEFAULT_FINANCIAL_YEAR_START_MONTH = 1;
+
+export const financialYearStartMonth = (settings: Pick<Tables<'farm_settings'>, 'financial_year_start_month'> | null | undefined) =>
+  settings?.financial_year_start_month ?? DEFAULT_FINANCIAL_YEAR_START_MONTH;
+
+export const EXPENSE_CATEGORIES = [
+  "Feed",
+  "Medication",
+  "Veterinary Services",
+  "Equipment",
+  "Shearing",
+  "Labor",
+  "Transport",
+  "Utilities",
+  "Repairs",
+  "Insurance",
+  "Other"
+];
+
+export const INCOME_CATEGORIES = [
+  "Sheep Sales",
+  "Wool Sales",
+  "Breeding Services",
+  "Manure Sales",
+  "Government Subsidies",
+  "Insurance Claims",
+  "Other"
+];
+
+export const PAYMENT_METHODS = ["Cash", "Bank Transfer", "Credit Card", "Mobile Money", "Check", "Other"] as const;
+
+export interface AmountRow {
+  date: string;
+  type: string;
+  amount: number | string;
+}
+
+export interface PeriodTotals {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+export interface MonthTotals extends PeriodTotals {
+  /** yyyy-MM, so the same month of different years stays apart */
+  key: string;
+  label: string;
+}
+
+export interface TrendPoint extends MonthTotals {
+  /** Net result of the twelve months up to and including this one */
+  rollingNet: number;
+  rollingIncome: number;
+  rollingExpenses: number;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * First day of the financial year containing the given date
+ */
+export function financialYearStart(date: Date, startMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH): Date {
+  const year = date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonth - 1, 1);
+}
+
+/**
+ * "FY 2026" for calendar financial years, "FY 2026/27" when the year spans two calendar years
+ */
+export function financialYearLabel(start: Date): string {
+  const year = start.getFullYear();
+  return start.getMonth() === 0 ? `FY ${year}` : `FY ${year}/${String(year + 1).slice(-2)}`;
+}
+
+/**
+ * The month, quarter or financial year containing the reference date.
+ * Custom periods are passed through as given.
+ */
+export function periodRange(
+  type: PeriodType,
+  reference: Date = new Date(),
+  { financialYearStartMonth = DEFAULT_FINANCIAL_YEAR_START_MONTH, custom }: { financialYearStartMonth?: number; custom?: ReportRange } = {}
+): ReportRange {
+  switch (type) {
+    case "month":
+      return { from: startOfMonth(reference), to: endOfMonth(reference) };
+    case "quarter":
+      return { from: startOfQuarter(reference), to: endOfQuarter(reference) };
+    case "financial_year": {
+      const from = financialYearStart(reference, financialYearStartMonth);
+      return { from, to: subDays(addMonths(from, 12), 1) };
+    }
+    case "custom":
+      return custom ?? { from: startOfMonth(reference), to: reference };
+  }
+}
+
+/**
+ * The part of a period up to today, so a period still under way is not
+ * measured against days that have not happened yet
+ */
+export function elapsedRange(range: ReportRange, today: Date = new Date()): ReportRange {
+  return range.to > today ? { from: range.from, to: today } : range;
+}
+
+/**
+ * The period of the same kind just before the given one. A custom range is
+ * compared with the same number of days immediately before it. While the given
+ * period is still under way, only as many days of the previous one are taken
+ * as have passed in this one.
+ */
+export function previousPeriodRange(type: PeriodType, range: ReportRange, today: Date = new Date()): ReportRange {
+  const previous = fullPreviousPeriodRange(type, range);
+  const elapsedDays = differenceInCalendarDays(today, range.from);
+  if (range.to <= today || elapsedDays < 0) return previous;
+
+  const to = addDays(previous.from, elapsedDays);
+  return { from: previous.from, to: to < previous.to ? to : previous.to };
+}
+
+function fullPreviousPeriodRange(type: PeriodType, range: ReportRange): ReportRange {
+  switch (type) {
+    case "month": {
+      const from = subMonths(range.from, 1);
+      return { from, to: endOfMonth(from) };
+    }
+    case "quarter": {
+      const from = subQuarters(range.from, 1);
+      return { from, to: endOfQuarter(from) };
+    }
+    case "financial_year": {
+      const from = subMonths(range.from, 12);
+      return { from, to: subDays(range.from, 1) };
+    }
+    case "custom": {
+      const days = differenceInCalendarDays(range.to, range.from) + 1;
+      return { from: subDays(range.from, days), to: subDays(range.from, 1) };
+    }
+  }
+}
+
+export function totalsFor(transactions: AmountRow[], range?: ReportRange): PeriodTotals {
+  const from = range && toDateString(range.from);
+  const to = range && toDateString(range.to);
+  let income = 0;
+  let expenses = 0;
+
+  transactions.forEach(transaction => {
+    const date = transaction.date.slice(0, 10);
+    if (range && (date < from || date > to)) return;
+    const amount = Number(transaction.amount) || 0;
+    if (transaction.type === "Income") income += amount;
+    else expenses += amount;
+  });
+
+  return { income, expenses, net: income - expenses };
+}
+
+/**
+ * Percentage change from the previous figure, or null when there is nothing to compare against
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return (current - previous) / Math.abs(previous) * 100;
+}
+
+/**
+ * Income and expenses per calendar month across the range, including empty months
+ */
+export function monthlyTotals(transactions: AmountRow[], range: ReportRange): MonthTotals[] {
+  const months = new Map<string, MonthTotals>(
+    eachMonthOfInterval({ start: range.from, end: range.to }).map(month => [
+      format(month, "yyyy-MM"),
+      { key: format(month, "yyyy-MM"), label: format(month, "MMM yyyy"), income: 0, expenses: 0, net: 0 },
+    ])
+  );
+
+  transactions.forEach(transaction => {
+    const bucket = months.get(transaction.date.slice(0, 7));
+    if (!bucket) return;
+    const amount = Number(transaction.amount) || 0;
+    if (transaction.type === "Income") bucket.income += amount;
+    else bucket.expenses += amount;
+    bucket.net = bucket.income - bucket.expenses;
+  });
+
+  return Array.from(months.values());
+}
+
+/**
+ * The twelve months up to the given month, each with the totals of the twelve months ending there
+ */
+export function rollingTrend(transactions: AmountRow[], endMonth: Date = new Date()): TrendPoint[] {
+  const end = endOfMonth(endMonth);
+  // Eleven extra months so the first point has a full year behind it
+  const months = monthlyTotals(transactions, { from: startOfMonth(subMonths(end, 22)), to: end });
+
+  return months.slice(11).map((month, index) => {
+    const window = months.slice(index, index + 12);
+    const rollingIncome = window.reduce((sum, m) => sum + m.income, 0);
+    const rollingExpenses = window.reduce((sum, m) => sum + m.expenses, 0);
+    return { ...month, rollingIncome, rollingExpenses, rollingNet: rollingIncome - rollingExpenses };
+  });
+}
@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ageClass, AgeClass, AgeClassCutoffs } from "@/lib/age";
+import { isNetworkError } from "@/lib/offline";
+
+export type GroupException = "Absent" | "Refused";
+
+export const GROUP_EXCEPTIONS: GroupException[] = ["Absent", "Refused"];
+
+/**
+ * One animal in a group action. Animals with an exception were not treated.
+ */
+export interface GroupEntry {
+  animalId: string;
+  exception: GroupException | null;
+  notes?: string;
+}
+
+export interface AnimalGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  animalIds: string[];
+}
+
+export type GroupAnimal = Pick<Tables<'animals'>, 'id' | 'name' | 'tag_number' | 'breed' | 'sex' | 'birth_date' | 'status'>;
+
+export interface GroupFilter {
+  breed?: string;
+  sex?: string;
+  ageClass?: AgeClass;
+}
+
+const INACTIVE_STATUSES = ['Sold', 'Dead', 'Culled'];
+
+const OFFLINE_MESSAGE = "Group records are saved together on the server. Try again when the connection is back.";
+
+/**
+ * Active animals matching every part of the filter that is set
+ */
+export function filterAnimals(animals: GroupAnimal[], filter: GroupFilter, cutoffs: AgeClassCutoffs): GroupAnimal[] {
+  return animals.filter(animal =>
+    !INACTIVE_STATUSES.includes(animal.status) &&
+    (!filter.breed || animal.breed === filter.breed) &&
+    (!filter.sex || animal.sex === filter.sex) &&
+    (!filter.ageClass || ageClass(animal, cutoffs) === filter.ageClass)
+  );
+}
+
+/**
+ * e.g. "Group · 48 animals, 2 exceptions"
+ */
+export function groupSummaryLabel(groupSize: number, exceptions = 0): string {
+  const animals = `${groupSize} ${groupSize === 1 ? 'animal' : 'animals'}`;
+  return exceptions > 0
+    ? `Group · ${animals}, ${exceptions} ${exceptions === 1 ? 'exception' : 'exceptions'}`
+    : `Group · ${animals}`;
+}
+
+export async function fetchAnimalGroups(): Promise<AnimalGroup[]> {
+  const { data, error } = await supabase
+    .from('animal_groups')
+    .select('id, name, description, animal_group_members(animal_id)')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(group => ({
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    animalIds: group.animal_group_members.map(member => member.animal_id),
+  }));
+}
+
+/**
+ * Save a selection of animals under a name so it can be picked again, e.g. "Breeding ewes"
+ */
+export async function saveAnimalGroup(name: string, animalIds: string[], description?: string): Promise<AnimalGroup> {
+  const { data: authData } = await supabase.auth.getUser();
+  const { data: group, error } = await supabase
+    .from('animal_groups')
+    .insert({ name, description: description || null, created_by: authData?.user?.id ?? null })
+    .select('id, name, description')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`There is already a group called "${name}"`);
+    throw error;
+  }
+
+  const { error: membersError } = await supabase
+    .from('animal_group_members')
+    .insert(animalIds.map(animalId => ({ group_id: group.id, animal_id: animalId })));
+
+  if (membersError) {
+    // Do not leave an empty group behind
+    await supabase.from('animal_groups').delete().eq('id', group.id);
+    throw membersError;
+  }
+
+  return { ...group, animalIds };
+}
+
+export async function deleteAnimalGroup(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('animal_groups')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+const entriesJson = (entries: GroupEntry[]): Json =>
+  entries.map(entry => ({ animal_id: entry.animalId, exception: entry.exception, notes: entry.notes || null }));
+
+/**
+ * Save an event for several animals: a summary event and an event per animal, saved together
+ * by the record_group_event database function. Returns the summary event's id.
+ */
+export async function recordGroupEvent(
+  event: Omit<TablesInsert<'events'>, 'animal_id' | 'summary_id' | 'group_size'>,
+  entries: GroupEntry[]
+): Promise<string> {
+  const { data, error } = await supabase.rpc('record_group_event', {
+    p_event: event as Json,
+    p_entries: entriesJson(entries),
+  });
+
+  if (error) throw isNetworkError(error) ? new Error(OFFLINE_MESSAGE) : error;
+  return data;
+}
+
+/**
+ * Save a health record for several animals the same way, through record_group_health_record
+ */
+export async function recordGroupHealthRecord(
+  record: Omit<TablesInsert<'health_records'>, 'animal_id' | 'summary_id' | 'group_size'>,
+  entries: GroupEntry[]
+): Promise<string> {
+  const { data, error } = await supabase.rpc('record_group_health_record', {
+    p_record: record as Json,
+    p_entries: entriesJson(entries),
+  });
+
+  if (error) throw isNetworkError(error) ? new Error(OFFLINE_MESSAGE) : error;
+  return data;
+}
@@ -0,0 +1,116 @@
+import { PedigreeAnimal } from "@/lib/pedigree";
+
+// Used when farm_settings has no threshold configured (the coefficient of a first-cousin mating)
+export const DEFAULT_INBREEDING_THRESHOLD = 0.0625;
+
+export interface InbreedingCalculator {
+  /** Coefficient of kinship between two animals: the probability that alleles drawn at random from each are identical by descent */
+  kinship: (a: string | null, b: string | null) => number;
+  /** Wright's inbreeding coefficient of a registered animal, from its recorded sire and dam */
+  inbreeding: (animalId: string) => number;
+  /** Wright's inbreeding coefficient of the lamb a proposed mating would produce */
+  matingCoefficient: (sireId: string, damId: string) => number;
+}
+
+export interface SireRanking {
+  sire: PedigreeAnimal;
+  coefficient: number;
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Build a memoised kinship calculator over the recorded pedigree.
+ *
+ * Uses the recursive (tabular) method: the kinship of an animal with itself is (1 + F) / 2,
+ * and otherwise the younger animal is replaced by the average of its parents. This gives
+ * the same result as summing (1/2)^(n1 + n2 + 1) * (1 + F_A) over every path through each
+ * common ancestor A, without having to enumerate the paths.
+ */
+export function createInbreedingCalculator(animals: Map<string, PedigreeAnimal>): InbreedingCalculator {
+  const ancestorCache = new Map<string, Set<string>>();
+  const kinshipCache = new Map<string, number>();
+  const inProgress = new Set<string>();
+
+  function ancestors(id: string): Set<string> {
+    const cached = ancestorCache.get(id);
+    if (cached) return cached;
+
+    const result = new Set<string>();
+    const stack = [id];
+    while (stack.length > 0) {
+      const animal = animals.get(stack.pop() as string);
+      if (!animal) continue;
+      for (const parentId of [animal.sire_id, animal.dam_id]) {
+        if (parentId && !result.has(parentId)) {
+          result.add(parentId);
+          stack.push(parentId);
+        }
+      }
+    }
+
+    ancestorCache.set(id, result);
+    return result;
+  }
+
+  function kinship(a: string | null, b: string | null): number {
+    if (!a || !b || !animals.has(a) || !animals.has(b)) return 0;
+
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    const cached = kinshipCache.get(key);
+    if (cached !== undefined) return cached;
+
+    // A pedigree loop in bad data would otherwise recurse forever
+    if (inProgress.has(key)) return 0;
+    inProgress.add(key);
+
+    let result: number;
+    if (a === b) {
+      const animal = animals.get(a) as PedigreeAnimal;
+      result = (1 + kinship(animal.sire_id, animal.dam_id)) / 2;
+    } else {
+      // Always expand the animal that is not an ancestor of the other
+      const [younger, older] = ancestors(b).has(a) ? [b, a] : [a, b];
+      const animal = animals.get(younger) as PedigreeAnimal;
+      result = (kinship(animal.sire_id, older) + kinship(animal.dam_id, older)) / 2;
+    }
+
+    inProgress.delete(key);
+    kinshipCache.set(key, result);
+    return result;
+  }
+
+  function inbreeding(animalId: string): number {
+    const animal = animals.get(animalId);
+    return animal ? kinship(animal.sire_id, animal.dam_id) : 0;
+  }
+
+  function matingCoefficient(sireId: string, damId: string): number {
+    return kinship(sireId, damId);
+  }
+
+  return { kinship, inbreeding, matingCoefficient };
+}
+
+/**
+ * Rank candidate sires for a ewe by the inbreeding coefficient of the resulting lamb, lowest first
+ */
+export function rankSires(
+  calculator: InbreedingCalculator,
+  damId: string,
+  sires: PedigreeAnimal[],
+  threshold: number
+): SireRanking[] {
+  return sires
+    .map(sire => {
+      const coefficient = calculator.matingCoefficient(sire.id, damId);
+      return { sire, coefficient, exceedsThreshold: coefficient > threshold };
+    })
+    .sort((a, b) => a.coefficient - b.coefficient || a.sire.tag_number.localeCompare(b.sire.tag_number));
+}
+
+/**
+ * Format a coefficient as a percentage, e.g. 0.0625 -> "6.25%"
+ */
+export function formatCoefficient(coefficient: number): string {
+  return `${(coefficient * 100).toFixed(2)}%`;
+}
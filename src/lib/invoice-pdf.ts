@@ -0,0 +1,96 @@
+import { format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatMoney } from "@/lib/currency";
+import { InvoiceDetails, invoiceKindLabels, InvoiceKind, invoiceTotals, lineAmounts, paymentStatus } from "@/lib/invoices";
+import { downloadHtmlPdf, escapeHtml } from "@/lib/report-pdf";
+
+type FarmDetails = Pick<Tables<'farm_settings'>, 'farm_name' | 'location'>;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+/**
+ * The invoice or receipt as a printable page, styled inline like the report PDFs
+ */
+export function renderInvoiceHtml(invoice: InvoiceDetails, farm: FarmDetails, currency: string): string {
+  const kind = invoice.kind as InvoiceKind;
+  const totals = invoiceTotals(invoice);
+  const money = (amount: number) => escapeHtml(formatMoney(amount, currency));
+  const cell = 'padding: 6px; border-bottom: 1px solid #eee;';
+  const header = 'padding: 6px; background: #2c6e49; color: white;';
+
+  return `
+    <div style="font-family: Arial, sans-serif; padding: 30px; width: 800px; background: white; font-size: 13px; color: #222;">
+      <div style="display: flex; justify-content: space-between; margin-bottom: 30px; padding-bottom: 15px; border-bottom: 2px solid #2c6e49;">
+        <div>
+          <h2 style="font-size: 22px; color: #2c6e49; margin: 0 0 5px;">${escapeHtml(farm.farm_name)}</h2>
+          ${farm.location ? `<p style="margin: 0; color: #666;">${escapeHtml(farm.location)}</p>` : ''}
+        </div>
+        <div style="text-align: right;">
+          <h1 style="font-size: 26px; margin: 0 0 5px; letter-spacing: 1px;">${invoiceKindLabels[kind].toUpperCase()}</h1>
+          <p style="margin: 0;"><strong>${escapeHtml(invoice.invoice_number)}</strong></p>
+          <p style="margin: 0; color: #666;">Issued ${formatDate(invoice.issue_date)}</p>
+          ${invoice.due_date ? `<p style="margin: 0; color: #666;">Due ${formatDate(invoice.due_date)}</p>` : ''}
+        </div>
+      </div>
+
+      <div style="margin-bottom: 25px;">
+        <p style="margin: 0 0 4px; color: #666; text-transform: uppercase; font-size: 11px;">${kind === "invoice" ? "Bill to" : "Supplier"}</p>
+        <p style="margin: 0; font-weight: bold;">${escapeHtml(invoice.party_name)}</p>
+        ${invoice.party_details ? `<p style="margin: 0; white-space: pre-line;">${escapeHtml(invoice.party_details)}</p>` : ''}
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
+        <thead>
+          <tr>
+            <th style="${header} text-align: left;">Description</th>
+            <th style="${header} text-align: right;">Qty</th>
+            <th style="${header} text-align: right;">Unit Price</th>
+            <th style="${header} text-align: right;">Tax</th>
+            <th style="${header} text-align: right;">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${invoice.items.map(item => {
+            const line = lineAmounts(item);
+            return `
+              <tr>
+                <td style="${cell}">
+                  ${escapeHtml(item.description)}
+                  ${item.animals ? `<br /><span style="color: #666; font-size: 11px;">Tag #${escapeHtml(item.animals.tag_number)} ${escapeHtml(item.animals.name)}</span>` : ''}
+                </td>
+                <td style="${cell} text-align: right;">${escapeHtml(Number(item.quantity))}</td>
+                <td style="${cell} text-align: right;">${money(Number(item.unit_price))}</td>
+                <td style="${cell} text-align: right;">${Number(item.tax_rate) ? `${escapeHtml(Number(item.tax_rate))}%` : '-'}</td>
+                <td style="${cell} text-align: right;">${money(line.total)}</td>
+              </tr>
+            `;
+          }).join('')}
+        </tbody>
+      </table>
+
+      <table style="width: 320px; margin-left: auto; border-collapse: collapse;">
+        <tr><td style="padding: 4px 6px;">Subtotal</td><td style="padding: 4px 6px; text-align: right;">${money(totals.subtotal)}</td></tr>
+        <tr><td style="padding: 4px 6px;">Tax</td><td style="padding: 4px 6px; text-align: right;">${money(totals.tax)}</td></tr>
+        <tr style="font-weight: bold; border-top: 1px solid #222;"><td style="padding: 6px;">Total</td><td style="padding: 6px; text-align: right;">${money(totals.total)}</td></tr>
+        ${invoice.payments.map(payment => `
+          <tr style="color: #666;">
+            <td style="padding: 4px 6px;">Paid ${formatDate(payment.payment_date)} (${escapeHtml(payment.payment_method)})</td>
+            <td style="padding: 4px 6px; text-align: right;">-${money(Number(payment.amount))}</td>
+          </tr>
+        `).join('')}
+        <tr style="font-weight: bold; border-top: 1px solid #222;"><td style="padding: 6px;">Balance Due</td><td style="padding: 6px; text-align: right;">${money(Math.max(totals.balance, 0))}</td></tr>
+      </table>
+
+      <p style="margin-top: 20px; font-weight: bold; color: #2c6e49;">Status: ${paymentStatus(invoice)}</p>
+      ${invoice.notes ? `<p style="margin-top: 10px; white-space: pre-line;">${escapeHtml(invoice.notes)}</p>` : ''}
+    </div>
+  `;
+}
+
+export async function downloadInvoicePdf(invoice: InvoiceDetails, farm: FarmDetails, currency: string) {
+  await downloadHtmlPdf(
+    renderInvoiceHtml(invoice, farm, currency),
+    `${invoice.invoice_number}.pdf`,
+    `${invoice.invoice_number} - ${farm.farm_name}`
+  );
+}
@@ -0,0 +1,212 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type Invoice = Tables<'invoices'>;
+export type InvoiceItem = Tables<'invoice_items'>;
+export type InvoicePayment = Tables<'invoice_payments'>;
+
+export type InvoiceKind = "invoice" | "receipt";
+
+export const invoiceKindLabels: Record<InvoiceKind, string> = {
+  invoice: "Invoice",
+  receipt: "Receipt",
+};
+
+// Days from issue to due date suggested for a new invoice
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+export type PaymentStatus = "Paid" | "Partially Paid" | "Unpaid" | "Overdue";
+
+export const paymentStatusStyles: Record<PaymentStatus, string> = {
+  "Paid": "bg-green-100 text-green-800 border-green-200",
+  "Partially Paid": "bg-amber-100 text-amber-800 border-amber-200",
+  "Unpaid": "bg-gray-100 text-gray-800 border-gray-200",
+  "Overdue": "bg-red-100 text-red-800 border-red-200",
+};
+
+/** Ageing buckets for outstanding balances, by days past the due date */
+export const AGEING_BUCKETS = [
+  { label: "Current", maxDays: 0 },
+  { label: "1-30 days", maxDays: 30 },
+  { label: "31-60 days", maxDays: 60 },
+  { label: "61-90 days", maxDays: 90 },
+  { label: "Over 90 days", maxDays: Infinity },
+] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number]["label"];
+
+export interface InvoiceDetails extends Invoice {
+  items: (InvoiceItem & { animals: { name: string; tag_number: string } | null })[];
+  payments: InvoicePayment[];
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+  paid: number;
+  balance: number;
+}
+
+export type NewInvoiceItem = Pick<TablesInsert<'invoice_items'>, 'description' | 'animal_id' | 'quantity' | 'unit_price' | 'tax_rate'>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Net, tax and gross amounts of a single line, each rounded to cents
+ */
+export function lineAmounts(item: Pick<InvoiceItem, 'quantity' | 'unit_price' | 'tax_rate'>) {
+  const net = round2(Number(item.quantity) * Number(item.unit_price));
+  const tax = round2(net * Number(item.tax_rate) / 100);
+  return { net, tax, total: round2(net + tax) };
+}
+
+export function invoiceTotals(invoice: Pick<InvoiceDetails, 'items' | 'payments'>): InvoiceTotals {
+  const lines = invoice.items.map(lineAmounts);
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.net, 0));
+  const tax = round2(lines.reduce((sum, line) => sum + line.tax, 0));
+  const total = round2(subtotal + tax);
+  const paid = round2(invoice.payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+  return { subtotal, tax, total, paid, balance: round2(total - paid) };
+}
+
+export function paymentStatus(invoice: InvoiceDetails, today: Date = new Date()): PaymentStatus {
+  const { paid, balance } = invoiceTotals(invoice);
+  if (balance <= 0) return "Paid";
+  if (invoice.due_date && differenceInCalendarDays(today, parseISO(invoice.due_date)) > 0) return "Overdue";
+  return paid > 0 ? "Partially Paid" : "Unpaid";
+}
+
+/**
+ * Days an invoice is past its due date, or 0 if it is not yet due or has no due date
+ */
+export const daysOverdue = (invoice: Pick<Invoice, 'due_date'>, today: Date = new Date()) =>
+  invoice.due_date ? Math.max(0, differenceInCalendarDays(today, parseISO(invoice.due_date))) : 0;
+
+export const ageingBucket = (invoice: Pick<Invoice, 'due_date'>, today: Date = new Date()): AgeingBucket =>
+  AGEING_BUCKETS.find(bucket => daysOverdue(invoice, today) <= bucket.maxDays)!.label;
+
+/**
+ * Invoices with a balance still to be received, oldest due date first
+ */
+export const outstandingReceivables = (invoices: InvoiceDetails[]) =>
+  invoices
+    .filter(invoice => invoice.kind === "invoice" && invoiceTotals(invoice).balance > 0)
+    .sort((a, b) => (a.due_date ?? a.issue_date).localeCompare(b.due_date ?? b.issue_date));
+
+/**
+ * Outstanding balances per ageing bucket. Balances are summed per currency, since
+ * invoices keep the currency of the sale.
+ */
+export function receivablesAgeing(invoices: InvoiceDetails[], today: Date = new Date()) {
+  return AGEING_BUCKETS.map(({ label }) => {
+    const inBucket = outstandingReceivables(invoices).filter(invoice => ageingBucket(invoice, today) === label);
+    const balances: Record<string, number> = {};
+    inBucket.forEach(invoice => {
+      const currency = invoice.currency ?? "";
+      balances[currency] = round2((balances[currency] ?? 0) + invoiceTotals(invoice).balance);
+    });
+    return { label, count: inBucket.length, balances };
+  });
+}
+
+const DETAILS_SELECT = '*, items:invoice_items(*, animals(name, tag_number)), payments:invoice_payments(*)';
+
+const sortDetails = (invoice: InvoiceDetails): InvoiceDetails => ({
+  ...invoice,
+  items: [...invoice.items].sort((a, b) => a.position - b.position),
+  payments: [...invoice.payments].sort((a, b) => a.payment_date.localeCompare(b.payment_date)),
+});
+
+export async function fetchInvoices(): Promise<InvoiceDetails[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(DETAILS_SELECT)
+    .order('issue_date', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as InvoiceDetails[]).map(sortDetails);
+}
+
+export async function fetchInvoice(id: string): Promise<InvoiceDetails | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(DETAILS_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? sortDetails(data as InvoiceDetails) : null;
+}
+
+export async function fetchInvoiceForTransaction(transactionId: string): Promise<InvoiceDetails | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(DETAILS_SELECT)
+    .eq('transaction_id', transactionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? sortDetails(data as InvoiceDetails) : null;
+}
+
+/**
+ * Create an invoice or receipt with its line items. The database assigns the number.
+ * If the items cannot be saved the document is removed again, so no empty document is left behind.
+ */
+export async function createInvoice(
+  values: Omit<TablesInsert<'invoices'>, 'invoice_number'>,
+  items: NewInvoiceItem[]
+): Promise<Invoice> {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .insert({ ...values, created_by: authData?.user?.id ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: itemsError } = await supabase
+    .from('invoice_items')
+    .insert(items.map((item, position) => ({ ...item, invoice_id: invoice.id, position })));
+
+  if (itemsError) {
+    await supabase.from('invoices').delete().eq('id', invoice.id);
+    throw itemsError;
+  }
+
+  return invoice;
+}
+
+export async function deleteInvoice(id: string) {
+  const { error } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function addInvoicePayment(
+  values: Pick<TablesInsert<'invoice_payments'>, 'invoice_id' | 'payment_date' | 'amount' | 'payment_method' | 'reference'>
+) {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('invoice_payments')
+    .insert({ ...values, created_by: authData?.user?.id ?? null });
+
+  if (error) throw error;
+}
+
+export async function deleteInvoicePayment(id: string) {
+  const { error } = await supabase
+    .from('invoice_payments')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,220 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { updateRecord } from "@/lib/offline";
+
+export type Paddock = Tables<'paddocks'>;
+
+export type PaddockValues = Omit<TablesInsert<'paddocks'>, 'id' | 'created_at' | 'updated_at'>;
+
+export interface Mob {
+  id: string;
+  name: string;
+  description: string | null;
+  paddockId: string | null;
+  paddockName: string | null;
+  /** Active animals in the mob */
+  headCount: number;
+}
+
+export interface MobMovement {
+  id: string;
+  mobId: string;
+  mobName: string;
+  movedAt: string;
+  fromPaddock: string | null;
+  toPaddock: string | null;
+  headCount: number;
+  notes: string | null;
+}
+
+export interface PaddockStocking {
+  headCount: number;
+  mobs: Mob[];
+}
+
+const INACTIVE_STATUSES = ['Sold', 'Dead', 'Culled'];
+
+// Animals updated at once when assigning a mob
+const ASSIGN_BATCH_SIZE = 20;
+
+// Shown for a mob that is not in any paddock, e.g. in yards or on a truck
+export const NO_PADDOCK_LABEL = "Off paddock";
+
+export async function fetchPaddocks(): Promise<Paddock[]> {
+  const { data, error } = await supabase
+    .from('paddocks')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function savePaddock(values: PaddockValues, id?: string): Promise<void> {
+  const { error } = id
+    ? await supabase.from('paddocks').update(values).eq('id', id)
+    : await supabase.from('paddocks').insert(values);
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`There is already a paddock called "${values.name}"`);
+    throw error;
+  }
+}
+
+export async function deletePaddock(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('paddocks')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Mobs with their current paddock and how many active animals are in each
+ */
+export async function fetchMobs(): Promise<Mob[]> {
+  const [{ data: mobs, error }, { data: animals, error: animalsError }] = await Promise.all([
+    supabase.from('mobs').select('id, name, description, paddock_id, paddocks(name)').order('name'),
+    supabase.from('animals').select('mob_id, status').not('mob_id', 'is', null),
+  ]);
+
+  if (error) throw error;
+  if (animalsError) throw animalsError;
+
+  const headCounts = new Map<string, number>();
+  (animals || [])
+    .filter(animal => !INACTIVE_STATUSES.includes(animal.status))
+    .forEach(animal => headCounts.set(animal.mob_id, (headCounts.get(animal.mob_id) ?? 0) + 1));
+
+  return (mobs || []).map(mob => ({
+    id: mob.id,
+    name: mob.name,
+    description: mob.description,
+    paddockId: mob.paddock_id,
+    paddockName: mob.paddocks?.name ?? null,
+    headCount: headCounts.get(mob.id) ?? 0,
+  }));
+}
+
+export async function saveMob(values: { name: string; description?: string | null }, id?: string): Promise<void> {
+  const { error } = id
+    ? await supabase.from('mobs').update(values).eq('id', id)
+    : await supabase.from('mobs').insert(values);
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`There is already a mob called "${values.name}"`);
+    throw error;
+  }
+}
+
+/**
+ * Delete a mob. Its animals are left without a mob and its movement history goes with it.
+ */
+export async function deleteMob(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('mobs')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Move a mob to a paddock, or off the paddocks when paddockId is null. The movement and the
+ * mob's new paddock are saved together by the move_mob database function.
+ */
+export async function moveMob(mobId: string, paddockId: string | null, movedAt: string, notes?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('move_mob', {
+    p_mob_id: mobId,
+    p_paddock_id: paddockId,
+    p_moved_at: movedAt,
+    p_notes: notes || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Movements, newest first, for one mob or for every mob
+ */
+export async function fetchMobMovements(mobId?: string): Promise<MobMovement[]> {
+  let query = supabase
+    .from('mob_movements')
+    .select('id, mob_id, moved_at, head_count, notes, mobs(name), from:paddocks!mob_movements_from_paddock_id_fkey(name), to:paddocks!mob_movements_to_paddock_id_fkey(name)')
+    .order('moved_at', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (mobId) query = query.eq('mob_id', mobId);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(movement => ({
+    id: movement.id,
+    mobId: movement.mob_id,
+    mobName: movement.mobs?.name ?? "Unknown mob",
+    movedAt: movement.moved_at,
+    fromPaddock: movement.from?.name ?? null,
+    toPaddock: movement.to?.name ?? null,
+    headCount: movement.head_count,
+    notes: movement.notes,
+  }));
+}
+
+/**
+ * Put animals into a mob, or take them out of their mob when mobId is null. Each animal goes
+ * through the offline layer, so the change is queued when there is no connection.
+ */
+export async function assignAnimalsToMob(animalIds: string[], mobId: string | null): Promise<{ queued: boolean }> {
+  let queued = false;
+  for (let start = 0; start < animalIds.length; start += ASSIGN_BATCH_SIZE) {
+    const results = await Promise.all(
+      animalIds.slice(start, start + ASSIGN_BATCH_SIZE).map(id => updateRecord('animals', id, { mob_id: mobId }))
+    );
+    queued = queued || results.some(result => result.queued);
+  }
+  return { queued };
+}
+
+/**
+ * Head count and mobs in each paddock, keyed by paddock id
+ */
+export function paddockStocking(mobs: Mob[]): Map<string, PaddockStocking> {
+  const stocking = new Map<string, PaddockStocking>();
+  mobs.filter(mob => mob.paddockId).forEach(mob => {
+    const current = stocking.get(mob.paddockId) ?? { headCount: 0, mobs: [] };
+    stocking.set(mob.paddockId, { headCount: current.headCount + mob.headCount, mobs: [...current.mobs, mob] });
+  });
+  return stocking;
+}
+
+/**
+ * Whether an animal in the given mob matches a mob and paddock filter, where "all" matches
+ * anything and "none" matches animals outside any mob or paddock
+ */
+export function matchesMobFilter(
+  animalMobId: string | null | undefined,
+  mobs: Mob[],
+  mobFilter: string,
+  paddockFilter: string
+): boolean {
+  const mob = animalMobId ? mobs.find(m => m.id === animalMobId) : undefined;
+  const matchesMob = mobFilter === "all" || (mobFilter === "none" ? !mob : mob?.id === mobFilter);
+  const matchesPaddock = paddockFilter === "all" || (paddockFilter === "none" ? !mob?.paddockId : mob?.paddockId === paddockFilter);
+  return matchesMob && matchesPaddock;
+}
+
+/**
+ * Ids of the animals that match a mob and paddock filter
+ */
+export function animalIdsMatchingMobFilter(
+  animals: { id: string; mob_id?: string | null }[],
+  mobs: Mob[],
+  mobFilter: string,
+  paddockFilter: string
+): Set<string> {
+  return new Set(animals
+    .filter(animal => matchesMobFilter(animal.mob_id, mobs, mobFilter, paddockFilter))
+    .map(animal => animal.id));
+}
@@ -0,0 +1,83 @@
+const DB_NAME = "mumbi-farm-offline";
+const DB_VERSION = 1;
+
+// Tables whose rows are kept on the device for use without a connection
+export const CACHED_STORES = ["animals", "health_records", "events"] as const;
+export const MUTATIONS_STORE = "mutations";
+
+type StoreName = typeof CACHED_STORES[number] | typeof MUTATIONS_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        CACHED_STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: "id" });
+        });
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function readAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return requestResult(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function readOne<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return requestResult(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+/**
+ * Replace every row in a store, in one transaction
+ */
+export async function replaceAll<T>(store: StoreName, rows: T[]): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(store, "readwrite");
+  const objectStore = transaction.objectStore(store);
+  objectStore.clear();
+  rows.forEach(row => objectStore.put(row));
+  return transactionDone(transaction);
+}
+
+export async function putRow<T>(store: StoreName, row: T): Promise<IDBValidKey> {
+  const db = await openDb();
+  return requestResult(db.transaction(store, "readwrite").objectStore(store).put(row));
+}
+
+export async function deleteRow(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await requestResult(db.transaction(store, "readwrite").objectStore(store).delete(key));
+}
+
+export async function countRows(store: StoreName): Promise<number> {
+  const db = await openDb();
+  return requestResult(db.transaction(store).objectStore(store).count());
+}
@@ -0,0 +1,437 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  CACHED_STORES,
+  countRows,
+  deleteRow,
+  MUTATIONS_STORE,
+  putRow,
+  readAll,
+  readOne,
+  replaceAll,
+} from "@/lib/offline-db";
+
+export type OfflineTable = typeof CACHED_STORES[number];
+
+type AnimalSummary = { id: string; name: string; tag_number: string };
+
+// Rows as the app reads them: health records and events carry a summary of their animal
+export type CachedRow<T extends OfflineTable> = Tables<T> & { animals?: AnimalSummary | null };
+
+export type MutationType = "insert" | "update" | "delete";
+
+export interface PendingMutation {
+  id?: number;
+  table: OfflineTable;
+  type: MutationType;
+  recordId: string;
+  values?: Record<string, unknown>;
+  /** updated_at of the record as last seen from the server, used to detect edits made elsewhere */
+  baseUpdatedAt?: string | null;
+  queuedAt: string;
+}
+
+export interface SyncConflict {
+  table: OfflineTable;
+  recordId: string;
+  type: MutationType;
+  reason: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: SyncConflict[];
+}
+
+export interface SyncState {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+  lastResult: SyncResult | null;
+}
+
+export interface MutationResult<T extends OfflineTable> {
+  record: CachedRow<T>;
+  /** True when the change was saved on this device only and will be sent on reconnect */
+  queued: boolean;
+}
+
+const TABLE_SELECT: Record<OfflineTable, string> = {
+  animals: '*',
+  health_records: '*, animals(id, name, tag_number)',
+  events: '*, animals(id, name, tag_number)',
+};
+
+type ReplayOutcome = "applied" | "network" | { reason: string };
+
+const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+/**
+ * supabase-js reports a dropped connection as an error result rather than throwing,
+ * so offline failures are told apart from real errors by their message
+ */
+export const isNetworkError = (error: unknown) =>
+  isOffline() ||
+  /failed to fetch|networkerror|load failed|network request failed/i.test(
+    String((error as { message?: string } | null)?.message ?? error)
+  );
+
+let state: SyncState = { online: !isOffline(), pending: 0, syncing: false, lastResult: null };
+const listeners = new Set<(state: SyncState) => void>();
+
+function setState(changes: Partial<SyncState>) {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+}
+
+export const getSyncState = () => state;
+
+export function subscribeSyncState(listener: (state: SyncState) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function refreshPendingCount() {
+  setState({ pending: await countRows(MUTATIONS_STORE) });
+}
+
+// Rows created or edited offline have no joined animal, so take it from the cached animals
+async function withAnimals<T extends OfflineTable>(table: T, rows: CachedRow<T>[]): Promise<CachedRow<T>[]> {
+  if (table === "animals" || rows.every(row => row.animals !== undefined)) return rows;
+
+  const animals = new Map((await readAll<Tables<'animals'>>("animals")).map(animal => [animal.id, animal]));
+  return rows.map(row => {
+    if (row.animals !== undefined) return row;
+    const animal = animals.get((row as { animal_id?: string | null }).animal_id ?? "");
+    return { ...row, animals: animal ? { id: animal.id, name: animal.name, tag_number: animal.tag_number } : null };
+  });
+}
+
+async function pendingFor(table: OfflineTable) {
+  return (await readAll<PendingMutation>(MUTATIONS_STORE)).filter(mutation => mutation.table === table);
+}
+
+// Lay queued changes over rows fresh from the server
+function overlay<T extends OfflineTable>(rows: CachedRow<T>[], mutations: PendingMutation[]): CachedRow<T>[] {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  mutations.forEach(mutation => {
+    if (mutation.type === "delete") {
+      byId.delete(mutation.recordId);
+    } else {
+      const current = byId.get(mutation.recordId);
+      const merged = { ...current, ...mutation.values } as CachedRow<T>;
+      // A changed animal_id makes the joined animal stale
+      if (current && "animal_id" in (mutation.values ?? {})) delete merged.animals;
+      byId.set(mutation.recordId, merged);
+    }
+  });
+  return Array.from(byId.values());
+}
+
+/**
+ * Read every row of a table. Online, the rows are fetched and cached on the device;
+ * offline, when the connection drops or when queued changes fail to sync, the cached rows
+ * are returned instead.
+ */
+export async function fetchCached<T extends OfflineTable>(table: T): Promise<CachedRow<T>[]> {
+  if (!isOffline()) {
+    if (state.pending > 0) {
+      try {
+        await syncPendingMutations();
+      } catch (error) {
+        // The change stays queued and counted by the sync indicator; meanwhile the cached rows are shown
+        console.error('Error syncing offline changes:', error);
+        return withAnimals(table, await readAll<CachedRow<T>>(table));
+      }
+    }
+
+    const { data, error } = await supabase
+      .from(table)
+      .select(TABLE_SELECT[table]);
+
+    if (!error) {
+      setState({ online: true });
+      const rows = overlay(data as unknown as CachedRow<T>[], await pendingFor(table));
+      await replaceAll(table, rows);
+      return withAnimals(table, rows);
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  setState({ online: false });
+  return withAnimals(table, await readAll<CachedRow<T>>(table));
+}
+
+async function enqueue(mutation: PendingMutation) {
+  const existing = (await pendingFor(mutation.table)).filter(m => m.recordId === mutation.recordId);
+  const insert = existing.find(m => m.type === "insert");
+  const update = existing.find(m => m.type === "update");
+
+  if (mutation.type === "update" && (insert || update)) {
+    // Fold repeated edits into the change already waiting for this record
+    const target = insert ?? update;
+    await putRow(MUTATIONS_STORE, { ...target, values: { ...target.values, ...mutation.values } });
+  } else if (mutation.type === "delete" && insert) {
+    // The record never reached the server, so there is nothing to delete there
+    for (const m of existing) await deleteRow(MUTATIONS_STORE, m.id);
+  } else if (mutation.type === "delete" && update) {
+    await deleteRow(MUTATIONS_STORE, update.id);
+    await putRow(MUTATIONS_STORE, { ...mutation, baseUpdatedAt: update.baseUpdatedAt });
+  } else {
+    await putRow(MUTATIONS_STORE, mutation);
+  }
+
+  await refreshPendingCount();
+}
+
+/**
+ * Insert a row, or keep it on the device and queue it when there is no connection
+ */
+export async function createRecord<T extends OfflineTable>(table: T, values: TablesInsert<T>): Promise<MutationResult<T>> {
+  if (!isOffline()) {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(values as never)
+      .select(TABLE_SELECT[table])
+      .single();
+
+    if (!error) {
+      const record = data as unknown as CachedRow<T>;
+      await putRow(table, record);
+      return { record, queued: false };
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  const now = new Date().toISOString();
+  // Timestamps are sent with the insert so that later queued edits compare against the same updated_at
+  const record = { ...values, id: (values as { id?: string }).id ?? crypto.randomUUID(), created_at: now, updated_at: now } as unknown as CachedRow<T>;
+  await putRow(table, record);
+  await enqueue({ table, type: "insert", recordId: record.id, values: { ...record }, queuedAt: now });
+  setState({ online: false });
+
+  const [withAnimal] = await withAnimals(table, [record]);
+  return { record: withAnimal, queued: true };
+}
+
+/**
+ * Update a row, or apply the change on the device and queue it when there is no connection
+ */
+export async function updateRecord<T extends OfflineTable>(table: T, id: string, changes: TablesUpdate<T>): Promise<MutationResult<T>> {
+  if (!isOffline()) {
+    // Widened to the union of tables: the id filter does not type-check against a generic table
+    const { data, error } = await supabase
+      .from(table as OfflineTable)
+      .update(changes as never)
+      .eq('id', id)
+      .select(TABLE_SELECT[table])
+      .single();
+
+    if (!error) {
+      const record = data as unknown as CachedRow<T>;
+      await putRow(table, record);
+      return { record, queued: false };
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  const cached = await readOne<CachedRow<T>>(table, id);
+  const record = { ...cached, ...changes, id } as CachedRow<T>;
+  if ("animal_id" in changes) delete record.animals;
+  await putRow(table, record);
+  await enqueue({
+    table,
+    type: "update",
+    recordId: id,
+    values: { ...changes },
+    baseUpdatedAt: cached?.updated_at ?? null,
+    queuedAt: new Date().toISOString(),
+  });
+  setState({ online: false });
+
+  const [withAnimal] = await withAnimals(table, [record]);
+  return { record: withAnimal, queued: true };
+}
+
+/**
+ * Delete a row, or remove it from the device and queue the delete when there is no connection
+ */
+export async function deleteRecord<T extends OfflineTable>(table: T, id: string): Promise<{ queued: boolean }> {
+  if (!isOffline()) {
+    const { error } = await supabase
+      .from(table as OfflineTable)
+      .delete()
+      .eq('id', id);
+
+    if (!error) {
+      await deleteRow(table, id);
+      return { queued: false };
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  const cached = await readOne<CachedRow<T>>(table, id);
+  await deleteRow(table, id);
+  await enqueue({
+    table,
+    type: "delete",
+    recordId: id,
+    baseUpdatedAt: cached?.updated_at ?? null,
+    queuedAt: new Date().toISOString(),
+  });
+  setState({ online: false });
+  return { queued: true };
+}
+
+async function fetchServerRow(table: OfflineTable, id: string): Promise<CachedRow<OfflineTable> | null | "network"> {
+  const { data, error } = await supabase
+    .from(table)
+    .select(TABLE_SELECT[table])
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    if (isNetworkError(error)) return "network";
+    throw error;
+  }
+  return data as unknown as CachedRow<OfflineTable> | null;
+}
+
+async function replayMutation(mutation: PendingMutation): Promise<ReplayOutcome> {
+  const { table, recordId } = mutation;
+
+  if (mutation.type === "insert") {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(mutation.values as never)
+      .select(TABLE_SELECT[table])
+      .single();
+
+    if (!error) {
+      await putRow(table, data);
+      return "applied";
+    }
+    if (isNetworkError(error)) return "network";
+
+    // An earlier attempt may have reached the server before the connection dropped
+    const server = await fetchServerRow(table, recordId);
+    if (server === "network") return "network";
+    if (server) {
+      await putRow(table, server);
+      return "applied";
+    }
+    await deleteRow(table, recordId);
+    return { reason: error.message };
+  }
+
+  const server = await fetchServerRow(table, recordId);
+  if (server === "network") return "network";
+  if (!server) {
+    await deleteRow(table, recordId);
+    return mutation.type === "delete" ? "applied" : { reason: "The record was deleted by someone else" };
+  }
+
+  // The server copy wins if it changed after the version this edit was based on
+  if (mutation.baseUpdatedAt && new Date(server.updated_at).getTime() > new Date(mutation.baseUpdatedAt).getTime()) {
+    await putRow(table, server);
+    return { reason: "The record was changed by someone else while this device was offline" };
+  }
+
+  if (mutation.type === "update") {
+    const { data, error } = await supabase
+      .from(table)
+      .update(mutation.values as never)
+      .eq('id', recordId)
+      .select(TABLE_SELECT[table])
+      .single();
+
+    if (error) {
+      if (isNetworkError(error)) return "network";
+      await putRow(table, server);
+      return { reason: error.message };
+    }
+    await putRow(table, data);
+    return "applied";
+  }
+
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', recordId);
+
+  if (error) {
+    if (isNetworkError(error)) return "network";
+    await putRow(table, server);
+    return { reason: error.message };
+  }
+  await deleteRow(table, recordId);
+  return "applied";
+}
+
+async function replay(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: [] };
+  if (isOffline()) return result;
+
+  setState({ syncing: true });
+  try {
+    // Mutations come back in the order they were queued
+    for (const mutation of await readAll<PendingMutation>(MUTATIONS_STORE)) {
+      const outcome = await replayMutation(mutation);
+      if (outcome === "network") {
+        setState({ online: false });
+        break;
+      }
+
+      await deleteRow(MUTATIONS_STORE, mutation.id);
+      if (outcome === "applied") {
+        result.synced++;
+      } else {
+        result.conflicts.push({ table: mutation.table, recordId: mutation.recordId, type: mutation.type, reason: outcome.reason });
+      }
+    }
+  } finally {
+    await refreshPendingCount();
+    setState({ syncing: false, lastResult: result });
+  }
+
+  return result;
+}
+
+let syncPromise: Promise<SyncResult> | null = null;
+
+/**
+ * Send queued changes to the server in order. Changes that conflict with a newer
+ * server copy are dropped and reported; the rest stay queued if the connection drops again.
+ */
+export function syncPendingMutations(): Promise<SyncResult> {
+  if (!syncPromise) {
+    syncPromise = replay().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+let started = false;
+
+/**
+ * Track connectivity and replay the queue whenever the connection comes back
+ */
+export function startSync() {
+  if (started) return;
+  started = true;
+
+  window.addEventListener("online", () => {
+    setState({ online: true });
+    syncPendingMutations().catch(error => console.error('Error syncing offline changes:', error));
+  });
+  window.addEventListener("offline", () => setState({ online: false }));
+
+  refreshPendingCount()
+    .then(() => state.pending > 0 ? syncPendingMutations() : undefined)
+    .catch(error => console.error('Error syncing offline changes:', error));
+}
+
+export const QUEUED_MESSAGE = "Saved on this device. It will sync when the connection is back.";
@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PedigreeAnimal = {
+  id: string;
+  name: string;
+  tag_number: string;
+  sex: string;
+  breed: string;
+  birth_date: string | null;
+  status: string;
+  sire_id: string | null;
+  dam_id: string | null;
+};
+
+export interface PedigreeNode {
+  animal: PedigreeAnimal;
+  generation: number;
+  sire: PedigreeNode | null;
+  dam: PedigreeNode | null;
+}
+
+export type ParentRole = "sire" | "dam";
+
+/**
+ * Load the lineage fields of every registered animal, keyed by id
+ */
+export async function fetchLineage(): Promise<Map<string, PedigreeAnimal>> {
+  const { data, error } = await supabase
+    .from('animals')
+    .select('id, name, tag_number, sex, breed, birth_date, status, sire_id, dam_id');
+
+  if (error) throw error;
+
+  return new Map((data || []).map(animal => [animal.id, animal]));
+}
+
+/**
+ * Build the ancestor tree of an animal, up to the given number of generations.
+ * Generation 0 is the animal itself. Cycles in bad data are cut off rather than followed.
+ */
+export function buildPedigree(
+  animalId: string,
+  animals: Map<string, PedigreeAnimal>,
+  generations: number,
+  generation = 0,
+  visited: Set<string> = new Set()
+): PedigreeNode | null {
+  const animal = animals.get(animalId);
+  if (!animal || visited.has(animalId)) return null;
+
+  const path = new Set(visited).add(animalId);
+  const hasParents = generation < generations;
+
+  return {
+    animal,
+    generation,
+    sire: hasParents && animal.sire_id
+      ? buildPedigree(animal.sire_id, animals, generations, generation + 1, path)
+      : null,
+    dam: hasParents && animal.dam_id
+      ? buildPedigree(animal.dam_id, animals, generations, generation + 1, path)
+      : null,
+  };
+}
+
+/**
+ * Check that an animal can be recorded as the sire or dam of an offspring born on `offspringBirthDate`.
+ * Returns an error message, or null when the link is valid.
+ */
+export function validateParent(
+  parent: Pick<PedigreeAnimal, 'id' | 'tag_number' | 'sex' | 'birth_date'>,
+  role: ParentRole,
+  offspringBirthDate: string,
+  offspringId?: string
+): string | null {
+  const label = role === 'sire' ? 'Sire' : 'Dam';
+  const expectedSex = role === 'sire' ? 'Male' : 'Female';
+
+  if (offspringId && parent.id === offspringId) {
+    return `An animal cannot be its own ${role}.`;
+  }
+
+  if (parent.sex !== expectedSex) {
+    return `${label} #${parent.tag_number} is not ${expectedSex.toLowerCase()}.`;
+  }
+
+  if (parent.birth_date && parent.birth_date >= offspringBirthDate) {
+    return `${label} #${parent.tag_number} must be born before the offspring.`;
+  }
+
+  return null;
+}
+
+/**
+ * Find a registered animal by tag number (case-insensitive)
+ */
+export function findByTag(
+  animals: Iterable<PedigreeAnimal>,
+  tagNumber: string
+): PedigreeAnimal | undefined {
+  const tag = tagNumber.trim().toLowerCase();
+  for (const animal of animals) {
+    if (animal.tag_number.toLowerCase() === tag) return animal;
+  }
+  return undefined;
+}
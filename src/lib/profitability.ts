@@ -0,0 +1,194 @@
+import { differenceInCalendarDays, format, max as maxDate, min as minDate, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReportRange } from "@/lib/reports";
+import { toBaseAmount } from "@/lib/currency";
+
+export type AllocationDriver = "head_days" | "head_count";
+
+export const allocationDriverLabels: Record<AllocationDriver, string> = {
+  head_days: "Head-days (days each animal was on the farm)",
+  head_count: "Head count (equal share per animal)",
+};
+
+// Used when farm_settings has no driver saved
+export const DEFAULT_ALLOCATION_DRIVER: AllocationDriver = "head_days";
+
+const INACTIVE_STATUSES = ['Sold', 'Dead', 'Culled'];
+
+export interface ProfitAnimal {
+  id: string;
+  tag_number: string;
+  name: string;
+  breed: string;
+  status: string;
+  birth_date: string | null;
+  created_at: string;
+  updated_at: string;
+  /** From the animal's disposal record, when it has one */
+  disposal_date?: string | null;
+}
+
+export interface ProfitTransaction {
+  type: string;
+  amount: number;
+  animal_id: string | null;
+}
+
+export interface ProfitTotals {
+  headDays: number;
+  income: number;
+  directCosts: number;
+  sharedCosts: number;
+  /** Income less direct and allocated shared costs */
+  margin: number;
+}
+
+export interface AnimalProfit extends ProfitTotals {
+  animal: ProfitAnimal;
+}
+
+export interface GroupProfit extends ProfitTotals {
+  group: string;
+  animals: number;
+  marginPerHead: number;
+}
+
+export interface ProfitabilityResult {
+  driver: AllocationDriver;
+  animals: AnimalProfit[];
+  byBreed: GroupProfit[];
+  byLambCrop: GroupProfit[];
+  /** Farm expenses not tied to an animal, spread over the animals by the driver */
+  sharedCosts: number;
+  /** Farm income not tied to an animal, which is left out of the per-animal margins */
+  unallocatedIncome: number;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Days the animal was on the farm within the range. Animals count from birth (or from
+ * when they were registered, if the birth date is unknown) until they were sold, died
+ * or were culled. That is the disposal date, or when the record last changed for
+ * animals that left without a disposal being recorded.
+ */
+export function headDays(animal: ProfitAnimal, range: ReportRange): number {
+  const arrived = animal.birth_date ? parseISO(animal.birth_date) : parseISO(animal.created_at);
+  const left = INACTIVE_STATUSES.includes(animal.status)
+    ? parseISO(animal.disposal_date ?? animal.updated_at)
+    : null;
+
+  const from = maxDate([arrived, range.from]);
+  const to = left ? minDate([left, range.to]) : range.to;
+  return Math.max(0, differenceInCalendarDays(to, from) + 1);
+}
+
+export const lambCrop = (animal: Pick<ProfitAnimal, 'birth_date'>) =>
+  animal.birth_date ? `${animal.birth_date.slice(0, 4)} lamb crop` : "Unknown birth date";
+
+function groupBy(results: AnimalProfit[], key: (result: AnimalProfit) => string): GroupProfit[] {
+  const groups = new Map<string, GroupProfit>();
+
+  results.forEach(result => {
+    const name = key(result);
+    const group = groups.get(name) ?? {
+      group: name, animals: 0, headDays: 0, income: 0, directCosts: 0, sharedCosts: 0, margin: 0, marginPerHead: 0,
+    };
+    group.animals += 1;
+    group.headDays += result.headDays;
+    group.income += result.income;
+    group.directCosts += result.directCosts;
+    group.sharedCosts += result.sharedCosts;
+    group.margin += result.margin;
+    group.marginPerHead = group.margin / group.animals;
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.margin - a.margin);
+}
+
+/**
+ * Attribute transactions to animals: income and expenses with an animal_id go to that
+ * animal, and the remaining farm expenses are shared out over the animals present in
+ * the range by the chosen driver.
+ */
+export function calculateProfitability(
+  animals: ProfitAnimal[],
+  transactions: ProfitTransaction[],
+  range: ReportRange,
+  driver: AllocationDriver = DEFAULT_ALLOCATION_DRIVER
+): ProfitabilityResult {
+  const results = new Map<string, AnimalProfit>(
+    animals.map(animal => [
+      animal.id,
+      { animal, headDays: headDays(animal, range), income: 0, directCosts: 0, sharedCosts: 0, margin: 0 },
+    ])
+  );
+
+  let sharedCosts = 0;
+  let unallocatedIncome = 0;
+
+  transactions.forEach(transaction => {
+    const result = transaction.animal_id ? results.get(transaction.animal_id) : undefined;
+    if (transaction.type === "Income") {
+      if (result) result.income += transaction.amount;
+      else unallocatedIncome += transaction.amount;
+    } else if (result) {
+      result.directCosts += transaction.amount;
+    } else {
+      sharedCosts += transaction.amount;
+    }
+  });
+
+  const present = Array.from(results.values()).filter(result => result.headDays > 0);
+  const totalHeadDays = present.reduce((sum, result) => sum + result.headDays, 0);
+
+  present.forEach(result => {
+    const share = driver === "head_days" ? result.headDays / totalHeadDays : 1 / present.length;
+    result.sharedCosts = sharedCosts * share;
+  });
+
+  // Animals that were not on the farm and had no transactions of their own play no part
+  const involved = Array.from(results.values())
+    .filter(result => result.headDays > 0 || result.income || result.directCosts)
+    .map(result => ({ ...result, margin: result.income - result.directCosts - result.sharedCosts }))
+    .sort((a, b) => b.margin - a.margin);
+
+  return {
+    driver,
+    animals: involved,
+    byBreed: groupBy(involved, result => result.animal.breed || "Unknown"),
+    byLambCrop: groupBy(involved, result => lambCrop(result.animal)),
+    sharedCosts,
+    unallocatedIncome,
+  };
+}
+
+export async function fetchProfitability(
+  range: ReportRange,
+  driver: AllocationDriver = DEFAULT_ALLOCATION_DRIVER
+): Promise<ProfitabilityResult> {
+  const [animalsResult, transactionsResult] = await Promise.all([
+    supabase
+      .from('animals')
+      .select('id, tag_number, name, breed, status, birth_date, created_at, updated_at, animal_disposals(disposal_date)'),
+    supabase
+      .from('financial_transactions')
+      .select('type, amount, exchange_rate, animal_id')
+      .gte('date', toDateString(range.from))
+      .lte('date', toDateString(range.to)),
+  ]);
+
+  if (animalsResult.error) throw animalsResult.error;
+  if (transactionsResult.error) throw transactionsResult.error;
+
+  return calculateProfitability(
+    (animalsResult.data || []).map(({ animal_disposals, ...animal }) => ({
+      ...animal,
+      disposal_date: animal_disposals[0]?.disposal_date ?? null,
+    })),
+    (transactionsResult.data || []).map(t => ({ ...t, amount: toBaseAmount(t) })),
+    range,
+    driver
+  );
+}
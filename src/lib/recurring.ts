@@ -0,0 +1,292 @@
+import { addDays, addMonths, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export type RecurringTransaction = Tables<'recurring_transactions'>;
+export type AmountChange = Tables<'recurring_amount_changes'>;
+export type OccurrenceRecord = Tables<'recurring_occurrences'>;
+
+export type Frequency = "weekly" | "monthly" | "quarterly" | "custom";
+
+export const frequencyLabels: Record<Frequency, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  custom: "Every few days",
+};
+
+// How far ahead scheduled items are listed
+export const UPCOMING_DAYS = 60;
+
+export interface RecurringSeries extends RecurringTransaction {
+  amount_changes: AmountChange[];
+  occurrences: OccurrenceRecord[];
+}
+
+export interface Occurrence {
+  series: RecurringSeries;
+  /** The date the schedule puts this occurrence on; it identifies the occurrence even if it is moved */
+  scheduledDate: string;
+  /** The date it is posted on, after any edit */
+  date: string;
+  amount: number;
+  description: string;
+  status: "scheduled" | "skipped" | "posted";
+  edited: boolean;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * The nth date of a series. Months are counted from the start date rather than from the
+ * previous occurrence, so a series starting on the 31st comes back to the 31st after February.
+ */
+function nthDate(series: Pick<RecurringTransaction, 'start_date' | 'frequency' | 'interval_days'>, n: number): Date {
+  const start = parseISO(series.start_date);
+  switch (series.frequency as Frequency) {
+    case "weekly":
+      return addDays(start, 7 * n);
+    case "monthly":
+      return addMonths(start, n);
+    case "quarterly":
+      return addMonths(start, 3 * n);
+    default:
+      return addDays(start, (series.interval_days || 1) * n);
+  }
+}
+
+/**
+ * Scheduled dates of a series up to and including the given date, stopping at its end date
+ */
+export function scheduledDates(
+  series: Pick<RecurringTransaction, 'start_date' | 'end_date' | 'frequency' | 'interval_days'>,
+  until: string
+): string[] {
+  const last = series.end_date && series.end_date < until ? series.end_date : until;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = toDateString(nthDate(series, n));
+    if (date > last) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Amount of the series on a date, taking the latest amount change in effect by then
+ */
+export function amountOn(series: Pick<RecurringSeries, 'amount' | 'amount_changes'>, date: string): number {
+  const change = [...series.amount_changes]
+    .filter(c => c.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+  return Number(change ? change.amount : series.amount);
+}
+
+/**
+ * Every occurrence of a series scheduled up to the given date, with edits and skips applied
+ */
+export function occurrencesOf(series: RecurringSeries, until: string): Occurrence[] {
+  return scheduledDates(series, until).map(scheduledDate => {
+    const record = series.occurrences.find(o => o.occurrence_date === scheduledDate);
+    return {
+      series,
+      scheduledDate,
+      date: record?.date_override ?? scheduledDate,
+      amount: record?.amount_override != null ? Number(record.amount_override) : amountOn(series, scheduledDate),
+      description: record?.description_override ?? series.description,
+      status: (record?.status ?? "scheduled") as Occurrence["status"],
+      edited: !!record && (record.date_override != null || record.amount_override != null || record.description_override != null),
+    };
+  });
+}
+
+/**
+ * Occurrences still to be posted that fall in the next few days, soonest first. Skipped
+ * occurrences are included so that they can be restored.
+ */
+export function upcomingOccurrences(seriesList: RecurringSeries[], today: Date = new Date(), days: number = UPCOMING_DAYS): Occurrence[] {
+  const from = toDateString(today);
+  const until = toDateString(addDays(today, days));
+  return seriesList
+    // Filtering on the posting date lists moved occurrences under the date they were moved to
+    .flatMap(series => occurrencesOf(series, until))
+    .filter(o => o.status !== "posted" && o.date > from && o.date <= until)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export async function fetchRecurringSeries(): Promise<RecurringSeries[]> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select('*, amount_changes:recurring_amount_changes(*), occurrences:recurring_occurrences(*)')
+    .order('start_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as RecurringSeries[];
+}
+
+export async function createRecurringTransaction(values: TablesInsert<'recurring_transactions'>): Promise<RecurringTransaction> {
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .insert({ ...values, created_by: authData?.user?.id ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Update a series, replacing its scheduled amount changes when they are given
+ */
+export async function updateRecurringTransaction(
+  id: string,
+  values: TablesUpdate<'recurring_transactions'>,
+  amountChanges?: { effective_from: string; amount: number }[]
+) {
+  const { error } = await supabase
+    .from('recurring_transactions')
+    .update(values)
+    .eq('id', id);
+
+  if (error) throw error;
+  if (!amountChanges) return;
+
+  const { error: deleteError } = await supabase
+    .from('recurring_amount_changes')
+    .delete()
+    .eq('recurring_id', id);
+
+  if (deleteError) throw deleteError;
+
+  if (amountChanges.length > 0) {
+    const { error: insertError } = await supabase
+      .from('recurring_amount_changes')
+      .insert(amountChanges.map(change => ({ ...change, recurring_id: id })));
+
+    if (insertError) throw insertError;
+  }
+}
+
+/**
+ * Delete a series. Transactions it has already posted are kept.
+ */
+export async function deleteRecurringTransaction(id: string) {
+  const { error } = await supabase
+    .from('recurring_transactions')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Record a change to a single occurrence, leaving the rest of the series alone
+ */
+export async function saveOccurrence(
+  recurringId: string,
+  scheduledDate: string,
+  values: Pick<TablesUpdate<'recurring_occurrences'>, 'status' | 'date_override' | 'amount_override' | 'description_override'>
+) {
+  const { error } = await supabase
+    .from('recurring_occurrences')
+    .upsert(
+      { recurring_id: recurringId, occurrence_date: scheduledDate, ...values },
+      { onConflict: 'recurring_id,occurrence_date' }
+    );
+
+  if (error) throw error;
+}
+
+// Postgres unique_violation: another session has already claimed the occurrence
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Claim an occurrence for posting. Returns false if it was already posted or skipped.
+ */
+async function claimOccurrence(occurrence: Occurrence): Promise<boolean> {
+  const existing = occurrence.series.occurrences.find(o => o.occurrence_date === occurrence.scheduledDate);
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('recurring_occurrences')
+      .update({ status: "posted" })
+      .eq('id', existing.id)
+      .eq('status', "scheduled")
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  const { error } = await supabase
+    .from('recurring_occurrences')
+    .insert({ recurring_id: occurrence.series.id, occurrence_date: occurrence.scheduledDate, status: "posted" });
+
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Post every occurrence that has come due into financial_transactions. Each occurrence is
+ * claimed before its transaction is created, so running this from two devices at once
+ * does not post anything twice.
+ */
+export async function postDueTransactions(today: Date = new Date()): Promise<number> {
+  const seriesList = await fetchRecurringSeries();
+  const todayString = toDateString(today);
+  // Look ahead as well, in case a later occurrence has been moved forward to today or earlier
+  const due = seriesList
+    .flatMap(series => occurrencesOf(series, toDateString(addDays(today, UPCOMING_DAYS))))
+    .filter(o => o.status === "scheduled" && o.date <= todayString);
+
+  if (due.length === 0) return 0;
+
+  const { data: authData } = await supabase.auth.getUser();
+  let posted = 0;
+
+  for (const occurrence of due) {
+    if (!(await claimOccurrence(occurrence))) continue;
+
+    const { series } = occurrence;
+    const { data, error } = await supabase
+      .from('financial_transactions')
+      .insert({
+        type: series.type,
+        category: series.category,
+        amount: occurrence.amount,
+        date: occurrence.date,
+        description: occurrence.description,
+        related_to: series.related_to,
+        payment_method: series.payment_method,
+        reference: series.reference,
+        animal_id: series.animal_id,
+        created_by: authData?.user?.id ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      // Release the claim so the occurrence is tried again next time
+      await supabase
+        .from('recurring_occurrences')
+        .update({ status: "scheduled" })
+        .eq('recurring_id', series.id)
+        .eq('occurrence_date', occurrence.scheduledDate);
+      throw error;
+    }
+
+    const { error: linkError } = await supabase
+      .from('recurring_occurrences')
+      .update({ transaction_id: data.id })
+      .eq('recurring_id', series.id)
+      .eq('occurrence_date', occurrence.scheduledDate);
+
+    if (linkError) throw linkError;
+    posted++;
+  }
+
+  return posted;
+}
@@ -0,0 +1,156 @@
+import jsPDF from "jspdf";
+import html2canvas from "html2canvas";
+import { ReportChart, ReportData, ReportSection, ReportTable } from "@/lib/reports";
+
+export const escapeHtml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatCell = (value: string | number) =>
+  typeof value === "number" ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+
+/**
+ * Plain HTML table, styled inline so that it survives html2canvas and the print window
+ */
+export function renderTableHtml(table: ReportTable): string {
+  if (table.rows.length === 0) return "";
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; font-size: 12px; margin-top: 8px;">
+      <thead>
+        <tr>
+          ${table.columns.map(column => `<th style="text-align: left; padding: 6px; background: #2c6e49; color: white;">${escapeHtml(column)}</th>`).join('')}
+        </tr>
+      </thead>
+      <tbody>
+        ${table.rows.map((row, index) => `
+          <tr style="background: ${index % 2 ? '#f6f8f6' : 'white'};">
+            ${row.map(cell => `<td style="padding: 5px 6px; border-bottom: 1px solid #eee; ${typeof cell === 'number' ? 'text-align: right;' : ''}">${escapeHtml(formatCell(cell))}</td>`).join('')}
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Horizontal bar chart built from divs, which html2canvas renders more reliably than SVG
+ */
+export function renderChartHtml(chart: ReportChart): string {
+  if (chart.data.length === 0) return "";
+
+  const max = Math.max(...chart.data.map(point => Math.abs(point.value)), 1);
+
+  return `
+    <div style="margin-top: 8px;">
+      ${chart.data.map(point => `
+        <div style="display: flex; align-items: center; margin-bottom: 4px; font-size: 12px;">
+          <div style="width: 160px; flex-shrink: 0; overflow: hidden; white-space: nowrap;">${escapeHtml(point.label)}</div>
+          <div style="flex: 1; background: #f1f1f1; height: 14px; margin: 0 8px;">
+            <div style="width: ${Math.abs(point.value) / max * 100}%; height: 14px; background: ${point.value < 0 ? '#dc2626' : '#2c6e49'};"></div>
+          </div>
+          <div style="width: 110px; text-align: right;">${escapeHtml(formatCell(point.value))}${chart.unit ? ` ${escapeHtml(chart.unit)}` : ''}</div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+export function renderSectionHtml(section: ReportSection): string {
+  return `
+    <div class="report-section" style="margin-bottom: 15px; padding-bottom: 15px; border-bottom: 1px solid #eee;">
+      <h3 style="margin-top: 0; margin-bottom: 8px; color: #2c6e49; font-size: 18px;">${escapeHtml(section.header)}</h3>
+      ${section.text ? `<p style="margin: 0; line-height: 1.6;">${escapeHtml(section.text)}</p>` : ''}
+      ${section.chart ? renderChartHtml(section.chart) : ''}
+      ${section.table ? renderTableHtml(section.table) : ''}
+    </div>
+  `;
+}
+
+export function renderReportHtml(report: ReportData): string {
+  return `
+    <div class="report-container" style="font-family: Arial, sans-serif; padding: 20px; width: 800px; background: white;">
+      <div class="report-header" style="text-align: center; margin-bottom: 30px; padding-bottom: 10px; border-bottom: 1px solid #ddd;">
+        <h2 style="font-size: 24px; color: #2c6e49; margin-bottom: 5px;">${escapeHtml(report.title)}</h2>
+        <p style="color: #666; margin: 0;">${escapeHtml(report.period)}</p>
+        <p style="color: #666; margin: 0;">Generated on ${escapeHtml(report.date)}</p>
+      </div>
+
+      <div class="report-content" style="margin-bottom: 20px;">
+        ${report.content.map(renderSectionHtml).join('')}
+      </div>
+
+      <div class="report-footer" style="margin-top: 40px; text-align: center; font-size: 12px; color: #666;">
+        <p>Generated by Mumbi Farm Management on ${escapeHtml(report.date)}</p>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render HTML off-screen, rasterise it and save it as a multi-page A4 PDF with the given
+ * text in the footer of each page
+ */
+export async function downloadHtmlPdf(html: string, fileName: string, footerText: string) {
+  const tempDiv = document.createElement('div');
+  tempDiv.style.position = 'absolute';
+  tempDiv.style.left = '-9999px';
+  tempDiv.style.top = '-9999px';
+  tempDiv.innerHTML = html;
+  document.body.appendChild(tempDiv);
+
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = await html2canvas(tempDiv, {
+      scale: 2,
+      logging: false,
+      useCORS: true,
+      backgroundColor: '#ffffff'
+    });
+  } finally {
+    document.body.removeChild(tempDiv);
+  }
+
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const footerSpace = 15;
+  const imgHeight = canvas.height * pageWidth / canvas.width;
+  const imgData = canvas.toDataURL('image/png');
+
+  // Place the same tall image on each page, shifted up by one page of content each time
+  let offset = 0;
+  pdf.addImage(imgData, 'PNG', 0, 0, pageWidth, imgHeight);
+  while (imgHeight - offset > pageHeight - footerSpace) {
+    offset += pageHeight - footerSpace;
+    pdf.addPage();
+    pdf.addImage(imgData, 'PNG', 0, -offset, pageWidth, imgHeight);
+  }
+
+  const pageCount = pdf.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    pdf.setPage(i);
+    pdf.setFillColor(255, 255, 255);
+    pdf.rect(0, pageHeight - footerSpace, pageWidth, footerSpace, 'F');
+    pdf.setFontSize(8);
+    pdf.text(
+      `Page ${i} of ${pageCount} - ${footerText}`,
+      pageWidth / 2,
+      pageHeight - 6,
+      { align: 'center' }
+    );
+  }
+
+  pdf.save(fileName);
+}
+
+export async function downloadReportPdf(report: ReportData) {
+  await downloadHtmlPdf(
+    renderReportHtml(report),
+    `${report.title.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`,
+    "Generated by Mumbi Farm Management"
+  );
+}
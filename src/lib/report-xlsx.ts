@@ -0,0 +1,187 @@
+import ExcelJS from "exceljs";
+import { supabase } from "@/integrations/supabase/client";
+import { ReportData, ReportTable } from "@/lib/reports";
+import { CURRENCIES } from "@/lib/currency";
+
+export type ExportableTable = "animals" | "health_records" | "events" | "financial_transactions";
+
+export const exportableTables: { id: ExportableTable; name: string }[] = [
+  { id: "animals", name: "Animals" },
+  { id: "health_records", name: "Health Records" },
+  { id: "events", name: "Events" },
+  { id: "financial_transactions", name: "Financial Transactions" },
+];
+
+type CellValue = string | number | boolean | string[] | null | undefined;
+
+// Rows per request when exporting a table; the API returns at most 1000 rows at a time
+const EXPORT_PAGE_SIZE = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+// Report columns carry their currency symbol in brackets, e.g. "Amount (KSh)" or "Margin per Head ($)"
+const MONEY_COLUMN_PATTERN = new RegExp(
+  `\\((${Object.values(CURRENCIES).map(c => c.symbol.replace(/[$]/g, "\\$&")).join("|")})\\)|amount|price|cost`,
+  "i"
+);
+
+/**
+ * Convert ISO date and timestamp strings to real Date cells, leaving everything else as is
+ */
+const toCell = (value: CellValue): ExcelJS.CellValue => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "string" && (DATE_PATTERN.test(value) || TIMESTAMP_PATTERN.test(value))) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return value;
+};
+
+const numberFormat = (column: string, value: ExcelJS.CellValue) => {
+  if (value instanceof Date) {
+    return value.getUTCHours() || value.getUTCMinutes() ? "yyyy-mm-dd hh:mm" : "yyyy-mm-dd";
+  }
+  if (typeof value === "number") {
+    return MONEY_COLUMN_PATTERN.test(column) ? "#,##0.00" : undefined;
+  }
+  return undefined;
+};
+
+// Excel sheet names are limited to 31 characters, cannot contain []:*?/\ and must be unique
+const sheetName = (workbook: ExcelJS.Workbook, name: string) => {
+  const base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let i = 2; workbook.getWorksheet(candidate); i++) {
+    candidate = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  return candidate;
+};
+
+/**
+ * Add a sheet with a bold, frozen, filterable header row and typed cells.
+ * Any title lines are written above the header and stay frozen with it.
+ */
+function addTableSheet(workbook: ExcelJS.Workbook, name: string, columns: string[], rows: CellValue[][], titleLines: string[] = []) {
+  const headerRow = titleLines.length + 1;
+  const worksheet = workbook.addWorksheet(sheetName(workbook, name), {
+    views: [{ state: "frozen", ySplit: headerRow }],
+  });
+
+  titleLines.forEach((line, index) => {
+    worksheet.addRow([line]).font = { bold: index === 0, size: index === 0 ? 14 : 11 };
+  });
+
+  const header = worksheet.addRow(columns);
+  header.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  header.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF2C6E49" } };
+
+  rows.forEach(row => {
+    const added = worksheet.addRow(row.map(toCell));
+    added.eachCell((cell, colNumber) => {
+      const format = numberFormat(columns[colNumber - 1], cell.value);
+      if (format) cell.numFmt = format;
+    });
+  });
+
+  columns.forEach((column, index) => {
+    const longest = Math.max(column.length, ...rows.map(row => String(row[index] ?? "").length));
+    worksheet.getColumn(index + 1).width = Math.min(Math.max(longest + 2, 10), 50);
+  });
+
+  if (rows.length > 0) {
+    worksheet.autoFilter = { from: { row: headerRow, column: 1 }, to: { row: headerRow, column: columns.length } };
+  }
+
+  return worksheet;
+}
+
+async function saveWorkbook(workbook: ExcelJS.Workbook, fileName: string) {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName.replace(/\s+/g, "_")}_${new Date().toISOString().split("T")[0]}.xlsx`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const createWorkbook = () => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Mumbi Farm Management";
+  workbook.created = new Date();
+  return workbook;
+};
+
+/**
+ * Save a report as a workbook: a summary sheet followed by one sheet per section
+ */
+export async function downloadReportXlsx(report: ReportData) {
+  const workbook = createWorkbook();
+
+  addTableSheet(
+    workbook,
+    "Summary",
+    ["Section", "Summary"],
+    report.content.map(section => [section.header, section.text]),
+    [report.title, report.period, `Generated on ${report.date}`]
+  );
+
+  report.content.forEach(section => {
+    const table: ReportTable | null = section.table && section.table.rows.length > 0
+      ? section.table
+      : section.chart && section.chart.data.length > 0
+        ? {
+          columns: [section.header, section.chart.unit ? `Value (${section.chart.unit})` : "Value"],
+          rows: section.chart.data.map(point => [point.label, point.value]),
+        }
+        : null;
+
+    if (table) {
+      addTableSheet(workbook, section.header, table.columns, table.rows);
+    }
+  });
+
+  await saveWorkbook(workbook, report.title);
+}
+
+/**
+ * Every row of a table, read a page at a time until a short page shows the end was reached
+ */
+async function fetchAllRows(table: ExportableTable): Promise<Record<string, CellValue>[]> {
+  const rows: Record<string, CellValue>[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('created_at')
+      .order('id')
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...((data || []) as Record<string, CellValue>[]));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Export the raw rows of the chosen tables, one sheet per table
+ */
+export async function downloadTablesXlsx(tables: ExportableTable[]) {
+  const workbook = createWorkbook();
+
+  for (const table of tables) {
+    const rows = await fetchAllRows(table);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : ["id"];
+    const name = exportableTables.find(t => t.id === table)?.name ?? table;
+    addTableSheet(workbook, name, columns, rows.map(row => columns.map(column => row[column])));
+  }
+
+  await saveWorkbook(workbook, tables.length === 1 ? tables[0] : "farm_data");
+}
@@ -0,0 +1,977 @@
+import {
+  eachMonthOfInterval,
+  endOfDay,
+  format,
+  parseISO,
+  startOfDay,
+  subDays,
+  subMonths,
+  subYears,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchLineage } from "@/lib/pedigree";
+import { createInbreedingCalculator, DEFAULT_INBREEDING_THRESHOLD, formatCoefficient } from "@/lib/inbreeding";
+import { AGE_CLASSES, AgeClassCutoffs, ageClass, ageClassCutoffs, ageInMonths, DEFAULT_AGE_CLASS_CUTOFFS, formatAge } from "@/lib/age";
+import { AllocationDriver, allocationDriverLabels, DEFAULT_ALLOCATION_DRIVER, fetchProfitability, GroupProfit } from "@/lib/profitability";
+import { budgetVariance, fetchBudgets } from "@/lib/budgets";
+import { fetchDisposals, STILLBORN_CAUSE } from "@/lib/disposals";
+import { baseCurrency, currencySymbol, CurrencyCode, DEFAULT_BASE_CURRENCY, formatMoney, toBaseAmount } from "@/lib/currency";
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH, financialYearLabel, financialYearStart, financialYearStartMonth, periodRange } from "@/lib/finance";
+import { fetchMobs, fetchPaddocks } from "@/lib/mobs";
+import { DEFAULT_TAX_PERIOD, TaxPeriod, taxByPeriod, taxPeriodLabels, taxPeriodOf, TaxRow, taxTotals } from "@/lib/tax";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type DateRangePreset =
+  | "Last7Days"
+  | "Last30Days"
+  | "Last3Months"
+  | "Last6Months"
+  | "Last12Months"
+  | "ThisFinancialYear"
+  | "LastFinancialYear"
+  | "Custom";
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ReportTable {
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+export interface ReportChart {
+  type: "bar";
+  data: { label: string; value: number }[];
+  unit?: string;
+}
+
+export interface ReportSection {
+  header: string;
+  text: string;
+  table?: ReportTable;
+  chart?: ReportChart;
+}
+
+export interface ReportData {
+  title: string;
+  date: string;
+  period: string;
+  content: ReportSection[];
+}
+
+export interface ReportOptions {
+  inbreedingThreshold?: number | null;
+  ageClassCutoffs?: AgeClassCutoffs;
+  costAllocationDriver?: AllocationDriver;
+  currency?: CurrencyCode;
+  financialYearStartMonth?: number;
+  taxPeriod?: TaxPeriod;
+  /** Limit the livestock reports to one mob */
+  mobId?: string;
+  /** Limit the livestock reports to the mobs in one paddock */
+  paddockId?: string;
+}
+
+export type ReportScope = Pick<ReportOptions, 'mobId' | 'paddockId'>;
+
+/**
+ * Report options taken from the farm settings row
+ */
+export const reportOptionsFromSettings = (settings: Tables<'farm_settings'> | null | undefined): ReportOptions => ({
+  inbreedingThreshold: settings?.inbreeding_threshold,
+  ageClassCutoffs: ageClassCutoffs(settings),
+  costAllocationDriver: (settings?.cost_allocation_driver as AllocationDriver) ?? DEFAULT_ALLOCATION_DRIVER,
+  currency: baseCurrency(settings),
+  financialYearStartMonth: financialYearStartMonth(settings),
+  taxPeriod: taxPeriodOf(settings),
+});
+
+export const reportCategories = [
+  {
+    title: "Inventory Reports",
+    reports: [
+      { id: "1", name: "Current Flock Summary", description: "Complete inventory of all animals" },
+      { id: "2", name: "Breeding Stock Report", description: "List of all active breeding animals" },
+      { id: "3", name: "Age Distribution", description: "Analysis of flock by age groups" },
+    ]
+  },
+  {
+    title: "Health Reports",
+    reports: [
+      { id: "4", name: "Vaccination Status", description: "Vaccination records and upcoming schedules" },
+      { id: "5", name: "Health Incidents", description: "Summary of illnesses and treatments" },
+      { id: "6", name: "Mortality Report", description: "Analysis of animal losses and causes" },
+    ]
+  },
+  {
+    title: "Breeding Reports",
+    reports: [
+      { id: "7", name: "Breeding Performance", description: "Success rates and outcomes" },
+      { id: "8", name: "Lambing Statistics", description: "Details on lambing rates and survival" },
+      { id: "9", name: "Genetic Analysis", description: "Bloodline tracking and trait inheritance" },
+    ]
+  },
+  {
+    title: "Financial Reports",
+    reports: [
+      { id: "10", name: "Revenue Summary", description: "Income from all farm activities" },
+      { id: "11", name: "Expense Analysis", description: "Breakdown of all farm expenses" },
+      { id: "12", name: "Profitability Report", description: "Analysis of farm profitability" },
+      { id: "13", name: "Tax Summary", description: "Taxable income, deductible expenses and VAT per period" },
+    ]
+  },
+];
+
+export const dateRangeLabels: Record<DateRangePreset, string> = {
+  Last7Days: "Last 7 Days",
+  Last30Days: "Last 30 Days",
+  Last3Months: "Last 3 Months",
+  Last6Months: "Last 6 Months",
+  Last12Months: "Last 12 Months",
+  ThisFinancialYear: "This Financial Year",
+  LastFinancialYear: "Last Financial Year",
+  Custom: "Custom Range",
+};
+
+const INACTIVE_STATUSES = ['Sold', 'Dead', 'Culled'];
+
+/**
+ * Turn a date range preset (or a custom start/end) into concrete dates, ending today.
+ * Last financial year is the whole of the year before the current one.
+ */
+export function resolveDateRange(
+  preset: DateRangePreset,
+  startDate?: Date,
+  endDate?: Date,
+  financialYearStartMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH
+): ReportRange {
+  const today = new Date();
+  switch (preset) {
+    case "Last7Days":
+      return { from: subDays(today, 7), to: today };
+    case "Last30Days":
+      return { from: subDays(today, 30), to: today };
+    case "Last3Months":
+      return { from: subMonths(today, 3), to: today };
+    case "Last6Months":
+      return { from: subMonths(today, 6), to: today };
+    case "Last12Months":
+      return { from: subMonths(today, 12), to: today };
+    case "ThisFinancialYear":
+      return { from: financialYearStart(today, financialYearStartMonth), to: today };
+    case "LastFinancialYear":
+      return periodRange("financial_year", subYears(today, 1), { financialYearStartMonth });
+    case "Custom":
+      return { from: startDate ?? subDays(today, 30), to: endDate ?? today };
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const percent = (value: number, total: number) => total ? `${Math.round(value / total * 100)}%` : "n/a";
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Bounds for filtering date columns and timestamp columns respectively
+const dateBounds = (range: ReportRange) => [toDateString(range.from), toDateString(range.to)] as const;
+const timestampBounds = (range: ReportRange) =>
+  [startOfDay(range.from).toISOString(), endOfDay(range.to).toISOString()] as const;
+
+const countBy = <T,>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+const sumBy = <T,>(items: T[], key: (item: T) => string, value: (item: T) => number) => {
+  const sums = new Map<string, number>();
+  items.forEach(item => sums.set(key(item), (sums.get(key(item)) || 0) + value(item)));
+  return Array.from(sums.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+const barChart = (entries: [string, number][], unit?: string): ReportChart => ({
+  type: "bar",
+  data: entries.map(([label, value]) => ({ label, value })),
+  unit,
+});
+
+// Month buckets covering the range, keyed yyyy-MM so that the same month in different years stays apart
+const monthBuckets = (range: ReportRange) =>
+  eachMonthOfInterval({ start: range.from, end: range.to }).map(month => ({
+    key: format(month, "yyyy-MM"),
+    label: format(month, "MMM yyyy"),
+  }));
+
+type AnimalRow = {
+  id: string;
+  name: string;
+  tag_number: string;
+  breed: string;
+  sex: string;
+  status: string;
+  health_status: string;
+  birth_date: string | null;
+  weight_kg: number | null;
+  created_at: string;
+  updated_at: string;
+  notes: string | null;
+  dam_id: string | null;
+  sire_id: string | null;
+  /** From the animal's disposal record, when it has one */
+  disposal_date: string | null;
+};
+
+async function fetchAnimals(scope: MobScope | null = null): Promise<AnimalRow[]> {
+  const { data, error } = await supabase
+    .from('animals')
+    .select('id, name, tag_number, breed, sex, status, health_status, birth_date, weight_kg, created_at, updated_at, notes, dam_id, sire_id, animal_disposals(disposal_date)')
+    .order('tag_number');
+
+  if (error) throw error;
+  return (data || [])
+    .filter(a => inScope(scope, a.id))
+    .map(({ animal_disposals, ...animal }) => ({
+      ...animal,
+      disposal_date: animal_disposals[0]?.disposal_date ?? null,
+    }));
+}
+
+// Day (yyyy-MM-dd) an animal joined the flock: its birth, or its registration if the birth date is unknown
+const arrivedOn = (animal: AnimalRow) => animal.birth_date ?? toDateString(parseISO(animal.created_at));
+
+// Day (yyyy-MM-dd) an animal left the flock, or null while it is still in it. Animals that left
+// without a disposal being recorded fall back to when their record last changed.
+const leftOn = (animal: AnimalRow) =>
+  INACTIVE_STATUSES.includes(animal.status)
+    ? animal.disposal_date ?? toDateString(parseISO(animal.updated_at))
+    : null;
+
+// The animals a report is limited to by its mob and paddock options
+type MobScope = {
+  label: string;
+  animalIds: Set<string>;
+};
+
+const inScope = (scope: MobScope | null, animalId: string | null | undefined) =>
+  !scope || (!!animalId && scope.animalIds.has(animalId));
+
+async function resolveMobScope(options: ReportOptions): Promise<MobScope | null> {
+  if (!options.mobId && !options.paddockId) return null;
+
+  const [mobs, paddocks] = await Promise.all([fetchMobs(), fetchPaddocks()]);
+  const mobIds = mobs
+    .filter(m => (!options.mobId || m.id === options.mobId) && (!options.paddockId || m.paddockId === options.paddockId))
+    .map(m => m.id);
+
+  let animalIds = new Set<string>();
+  if (mobIds.length > 0) {
+    const { data, error } = await supabase
+      .from('animals')
+      .select('id')
+      .in('mob_id', mobIds);
+
+    if (error) throw error;
+    animalIds = new Set(data.map(a => a.id));
+  }
+
+  const labels = [
+    options.mobId && `Mob: ${mobs.find(m => m.id === options.mobId)?.name ?? "Unknown"}`,
+    options.paddockId && `Paddock: ${paddocks.find(p => p.id === options.paddockId)?.name ?? "Unknown"}`,
+  ].filter(Boolean);
+
+  return { label: labels.join(", "), animalIds };
+}
+
+const animalLabel = (animal: { name: string; tag_number: string } | null | undefined) =>
+  animal ? `${animal.name} (#${animal.tag_number})` : "Unknown";
+
+async function flockSummary(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const animals = await fetchAnimals(scope);
+  const active = animals.filter(a => !INACTIVE_STATUSES.includes(a.status));
+  const [start, end] = timestampBounds(range);
+  const [from, to] = dateBounds(range);
+  const added = animals.filter(a => a.created_at >= start && a.created_at <= end);
+  const removed = animals.filter(a => {
+    const left = leftOn(a);
+    return !!left && left >= from && left <= to;
+  });
+
+  const breeds = countBy(active, a => a.breed);
+  const health = countBy(active, a => a.health_status);
+
+  return [
+    {
+      header: "Flock Overview",
+      text: `Active animals: ${active.length} (${active.filter(a => a.sex === 'Female').length} female, ${active.filter(a => a.sex === 'Male').length} male). Added in period: ${added.length}, removed in period: ${removed.length}.`,
+      table: {
+        columns: ["Status", "Animals"],
+        rows: countBy(animals, a => a.status),
+      },
+    },
+    {
+      header: "Breed Distribution",
+      text: breeds.map(([breed, count]) => `${breed}: ${percent(count, active.length)}`).join(', ') || "No active animals",
+      chart: barChart(breeds, "animals"),
+    },
+    {
+      header: "Health Status",
+      text: health.map(([status, count]) => `${status}: ${count}`).join(', ') || "No active animals",
+      chart: barChart(health, "animals"),
+    },
+    {
+      header: "Active Animals",
+      text: `${active.length} animals on the farm`,
+      table: {
+        columns: ["Tag", "Name", "Breed", "Sex", "Age", "Status", "Weight (kg)"],
+        rows: active.map(a => [a.tag_number, a.name, a.breed, a.sex, formatAge(a.birth_date), a.status, a.weight_kg ?? ""]),
+      },
+    },
+  ];
+}
+
+async function breedingStock(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const animals = await fetchAnimals();
+  const [from, to] = dateBounds(range);
+
+  const { data: records, error } = await supabase
+    .from('breeding_records')
+    .select('ewe_id, ram_id, mating_date, status, expected_lambing_start')
+    .order('mating_date');
+
+  if (error) throw error;
+
+  // Offspring are counted across the whole flock, so only the breeders are limited to the mob
+  const breeders = animals.filter(a => inScope(scope, a.id) && !INACTIVE_STATUSES.includes(a.status) && (ageInMonths(a.birth_date) ?? 12) >= 8);
+  const rams = breeders.filter(a => a.sex === 'Male');
+  const ewes = breeders.filter(a => a.sex === 'Female');
+  const scopedRecords = records.filter(r => inScope(scope, r.ewe_id));
+  const matings = scopedRecords.filter(r => r.mating_date >= from && r.mating_date <= to);
+  const today = toDateString(new Date());
+  const in60Days = toDateString(subDays(new Date(), -60));
+  const expected = scopedRecords.filter(r =>
+    (r.status === 'Mated' || r.status === 'Pregnant') &&
+    r.expected_lambing_start >= today && r.expected_lambing_start <= in60Days
+  );
+
+  const averageAge = (group: AnimalRow[]) => {
+    const ages = group.map(a => ageInMonths(a.birth_date)).filter((m): m is number => m !== null);
+    return ages.length ? (ages.reduce((sum, m) => sum + m, 0) / ages.length / 12).toFixed(1) : "n/a";
+  };
+
+  const stockRows = (group: AnimalRow[]) => group.map(a => [
+    a.tag_number,
+    a.name,
+    a.breed,
+    formatAge(a.birth_date),
+    a.status,
+    animals.filter(o => o.sire_id === a.id || o.dam_id === a.id).length,
+  ]);
+
+  return [
+    { header: "Breeding Rams", text: `Total: ${rams.length}, average age: ${averageAge(rams)} years`, table: { columns: ["Tag", "Name", "Breed", "Age", "Status", "Offspring"], rows: stockRows(rams) } },
+    { header: "Breeding Ewes", text: `Total: ${ewes.length}, average age: ${averageAge(ewes)} years`, table: { columns: ["Tag", "Name", "Breed", "Age", "Status", "Offspring"], rows: stockRows(ewes) } },
+    { header: "Breeding Activity in Period", text: `Matings recorded: ${matings.length}`, chart: barChart(countBy(matings, r => r.status), "matings") },
+    { header: "Expected Lambings", text: `Ewes due to start lambing in the next 60 days: ${expected.length}` },
+  ];
+}
+
+async function ageDistribution(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const animals = await fetchAnimals(scope);
+  const active = animals.filter(a => !INACTIVE_STATUSES.includes(a.status));
+  const [from, to] = dateBounds(range);
+  const cutoffs = options.ageClassCutoffs ?? DEFAULT_AGE_CLASS_CUTOFFS;
+
+  const classLabels: Record<string, string> = {
+    Lamb: `Lambs (under ${cutoffs.lambMonths} months)`,
+    Hogget: `Hoggets (${cutoffs.lambMonths}-${cutoffs.hoggetMonths} months)`,
+    Ewe: `Ewes (${cutoffs.hoggetMonths}+ months)`,
+    Ram: `Rams (${cutoffs.hoggetMonths}+ months)`,
+  };
+
+  const rows = AGE_CLASSES.map(ageClassName => {
+    const members = active.filter(a => ageClass(a, cutoffs) === ageClassName);
+    return [classLabels[ageClassName], members.length, members.filter(a => a.sex === 'Male').length, members.filter(a => a.sex === 'Female').length];
+  });
+  const unknown = active.filter(a => !a.birth_date);
+  if (unknown.length > 0) {
+    rows.push(["Birth date not recorded", unknown.length, unknown.filter(a => a.sex === 'Male').length, unknown.filter(a => a.sex === 'Female').length]);
+  }
+
+  const years = countBy(
+    active.filter(a => a.birth_date),
+    a => {
+      const age = Math.floor(ageInMonths(a.birth_date) / 12);
+      return age >= 6 ? "6+ years" : `${age} ${age === 1 ? 'year' : 'years'}`;
+    }
+  ).sort((a, b) => parseInt(a[0]) - parseInt(b[0]));
+
+  const bornInPeriod = active.filter(a => a.birth_date && a.birth_date >= from && a.birth_date <= to);
+
+  return [
+    {
+      header: "Age Classes",
+      text: `${active.length} active animals`,
+      table: { columns: ["Age Class", "Total", "Male", "Female"], rows },
+      chart: barChart(rows.map(row => [row[0] as string, row[1] as number]), "animals"),
+    },
+    {
+      header: "Age in Years",
+      text: "Active animals with a recorded birth date, by completed years of age",
+      chart: barChart(years, "animals"),
+    },
+    { header: "Born in Period", text: `${bornInPeriod.length} animals born between ${from} and ${to}` },
+  ];
+}
+
+type HealthRow = {
+  id: string;
+  date: string;
+  record_type: string;
+  description: string;
+  status: string;
+  outcome: string | null;
+  follow_up: string | null;
+  animal_id: string | null;
+  animals: { name: string; tag_number: string } | null;
+};
+
+async function fetchHealthRecords(range: ReportRange, scope: MobScope | null): Promise<HealthRow[]> {
+  const [from, to] = dateBounds(range);
+  const { data, error } = await supabase
+    .from('health_records')
+    .select('id, date, record_type, description, status, outcome, follow_up, animal_id, animals(name, tag_number)')
+    // Group treatments are counted through their per-animal entries, not their summary
+    .is('group_size', null)
+    .gte('date', from)
+    .lte('date', to)
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).filter(r => inScope(scope, r.animal_id));
+}
+
+async function vaccinationStatus(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const animals = await fetchAnimals(scope);
+  const active = animals.filter(a => !INACTIVE_STATUSES.includes(a.status));
+  const vaccinations = (await fetchHealthRecords(range, scope)).filter(r => r.record_type === 'Vaccination');
+
+  const vaccinated = new Set(vaccinations.filter(r => r.status === 'Completed').map(r => r.animal_id));
+  const covered = active.filter(a => vaccinated.has(a.id)).length;
+
+  const { data: scheduled, error } = await supabase
+    .from('health_records')
+    .select('date, description, animal_id, animals(name, tag_number)')
+    .eq('record_type', 'Vaccination')
+    .eq('status', 'Scheduled')
+    .is('group_size', null)
+    .gte('date', toDateString(new Date()))
+    .order('date');
+
+  if (error) throw error;
+  const upcoming = scheduled.filter(r => inScope(scope, r.animal_id));
+
+  return [
+    { header: "Coverage", text: `Active animals vaccinated in period: ${covered} of ${active.length} (${percent(covered, active.length)})` },
+    { header: "Vaccinations by Status", text: `${vaccinations.length} vaccination records in period`, chart: barChart(countBy(vaccinations, r => r.status), "records") },
+    {
+      header: "Vaccination Records",
+      text: vaccinations.length ? `${vaccinations.length} records` : "No vaccinations recorded in this period",
+      table: { columns: ["Date", "Animal", "Vaccine", "Status"], rows: vaccinations.map(r => [r.date, animalLabel(r.animals), r.description, r.status]) },
+    },
+    {
+      header: "Upcoming Vaccinations",
+      text: upcoming.length ? `${upcoming.length} scheduled` : "None scheduled",
+      table: { columns: ["Date", "Animal", "Vaccine"], rows: upcoming.map(r => [r.date, animalLabel(r.animals), r.description]) },
+    },
+  ];
+}
+
+async function healthIncidents(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const incidents = (await fetchHealthRecords(range, scope)).filter(r => r.record_type !== 'Vaccination');
+  const open = incidents.filter(r => r.status === 'Ongoing' || r.status === 'Needs Follow-up');
+
+  return [
+    { header: "Incidents by Type", text: `${incidents.length} health records in period`, chart: barChart(countBy(incidents, r => r.record_type), "records") },
+    { header: "Outcomes", text: `Open cases: ${open.length}, completed: ${incidents.filter(r => r.status === 'Completed').length}`, table: { columns: ["Status", "Records"], rows: countBy(incidents, r => r.status) } },
+    {
+      header: "Incident Log",
+      text: incidents.length ? `${incidents.length} records` : "No health incidents recorded in this period",
+      table: {
+        columns: ["Date", "Animal", "Type", "Description", "Status", "Outcome"],
+        rows: incidents.map(r => [r.date, animalLabel(r.animals), r.record_type, r.description, r.status, r.outcome ?? ""]),
+      },
+    },
+  ];
+}
+
+async function mortality(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const [from, to] = dateBounds(range);
+  const [animals, allDisposals] = await Promise.all([fetchAnimals(scope), fetchDisposals(from, to)]);
+  const disposals = allDisposals.filter(d => inScope(scope, d.animal_id));
+  const deaths = disposals.filter(d => d.disposal_type === 'Dead');
+  const culls = disposals.filter(d => d.disposal_type === 'Culled');
+  const stillborn = deaths.filter(d => d.cause === STILLBORN_CAUSE);
+  // Animals at risk in the period: those that joined before it ended and had not left before it began
+  const population = animals.filter(a => {
+    const left = leftOn(a);
+    return arrivedOn(a) <= to && (!left || left >= from);
+  }).length;
+  const cutoffs = options.ageClassCutoffs ?? DEFAULT_AGE_CLASS_CUTOFFS;
+
+  return [
+    { header: "Losses", text: `Deaths in period: ${deaths.length} (${stillborn.length} stillborn). Mortality rate: ${percent(deaths.length, population)}. Culled: ${culls.length}.` },
+    { header: "Causes of Death", text: deaths.length ? "Deaths by recorded cause" : "No deaths recorded in this period", chart: barChart(countBy(deaths, d => d.cause ?? "Unknown"), "deaths") },
+    { header: "Losses by Age Class", text: "Age class at the time of death", chart: barChart(countBy(deaths, d =>
+      (d.animals && ageClass(d.animals, cutoffs, parseISO(d.disposal_date))) ?? "Unknown"
+    ), "deaths") },
+    {
+      header: "Deaths",
+      text: deaths.length ? `${deaths.length} animals` : "No deaths recorded in this period",
+      table: {
+        columns: ["Date", "Tag", "Name", "Breed", "Age", "Cause", "Notes"],
+        rows: deaths.map(d => [
+          d.disposal_date,
+          d.animals?.tag_number ?? "",
+          d.animals?.name ?? "",
+          d.animals?.breed ?? "",
+          formatAge(d.animals?.birth_date ?? null, parseISO(d.disposal_date)),
+          d.cause ?? "",
+          d.notes ?? "",
+        ]),
+      },
+    },
+    {
+      header: "Culls",
+      text: culls.length ? `${culls.length} animals` : "No culls recorded in this period",
+      table: {
+        columns: ["Date", "Tag", "Name", "Breed", "Reason", "Notes"],
+        rows: culls.map(d => [d.disposal_date, d.animals?.tag_number ?? "", d.animals?.name ?? "", d.animals?.breed ?? "", d.cause ?? "", d.notes ?? ""]),
+      },
+    },
+  ];
+}
+
+async function breedingPerformance(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const [from, to] = dateBounds(range);
+  const { data, error } = await supabase
+    .from('breeding_records')
+    .select('ewe_id, status, scan_result, lambs_born, lambs_alive, ram:animals!breeding_records_ram_id_fkey(name, tag_number)')
+    .gte('mating_date', from)
+    .lte('mating_date', to);
+
+  if (error) throw error;
+
+  const records = (data || []).filter(r => inScope(scope, r.ewe_id));
+  const scanned = records.filter(r => r.scan_result);
+  const pregnant = scanned.filter(r => r.scan_result !== 'Empty');
+
+  const byRam = new Map<string, typeof records>();
+  records.forEach(r => {
+    const label = animalLabel(r.ram);
+    byRam.set(label, [...(byRam.get(label) || []), r]);
+  });
+
+  return [
+    { header: "Matings", text: `${records.length} matings in period`, chart: barChart(countBy(records, r => r.status), "matings") },
+    { header: "Conception Rate", text: `${pregnant.length} of ${scanned.length} scanned ewes in lamb (${percent(pregnant.length, scanned.length)})`, chart: barChart(countBy(scanned, r => r.scan_result as string), "ewes") },
+    {
+      header: "Performance by Ram",
+      text: `${byRam.size} rams used`,
+      table: {
+        columns: ["Ram", "Matings", "Scanned in Lamb", "Conception", "Lambs Born"],
+        rows: Array.from(byRam.entries()).map(([ram, matings]) => {
+          const ramScanned = matings.filter(r => r.scan_result);
+          const ramPregnant = ramScanned.filter(r => r.scan_result !== 'Empty').length;
+          return [ram, matings.length, ramPregnant, percent(ramPregnant, ramScanned.length), matings.reduce((sum, r) => sum + (r.lambs_born || 0), 0)];
+        }),
+      },
+    },
+  ];
+}
+
+async function lambingStatistics(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const [from, to] = dateBounds(range);
+  const { data: lambings, error } = await supabase
+    .from('breeding_records')
+    .select('ewe_id, lambing_date, lambs_born, lambs_alive, ewe:animals!breeding_records_ewe_id_fkey(name, tag_number)')
+    .eq('status', 'Lambed')
+    .gte('lambing_date', from)
+    .lte('lambing_date', to)
+    .order('lambing_date');
+
+  if (error) throw error;
+
+  const records = lambings.filter(r => inScope(scope, r.ewe_id));
+
+  const { data: weighed, error: lambsError } = await supabase
+    .from('animals')
+    .select('dam_id, birth_weight_kg')
+    .not('dam_id', 'is', null)
+    .not('birth_weight_kg', 'is', null)
+    .gte('birth_date', from)
+    .lte('birth_date', to);
+
+  if (lambsError) throw lambsError;
+  const lambs = weighed.filter(l => inScope(scope, l.dam_id));
+
+  const born = records.reduce((sum, r) => sum + (r.lambs_born || 0), 0);
+  const alive = records.reduce((sum, r) => sum + (r.lambs_alive || 0), 0);
+  const litterName = (size: number) => size === 1 ? 'Singles' : size === 2 ? 'Twins' : size === 3 ? 'Triplets' : `${size} lambs`;
+  const litters = countBy(records, r => litterName(r.lambs_born || 0));
+  const averageWeight = lambs.length
+    ? lambs.reduce((sum, l) => sum + Number(l.birth_weight_kg), 0) / lambs.length
+    : 0;
+
+  return [
+    { header: "Ewes Lambed", text: `${records.length} ewes lambed in period` },
+    { header: "Lambs Born", text: `Total: ${born}, alive: ${alive}, stillborn: ${born - alive}` },
+    { header: "Lambing Percentage", text: `${percent(born, records.length)} lambs born per ewe lambed` },
+    { header: "Survival at Birth", text: percent(alive, born) },
+    { header: "Litter Sizes", text: litters.map(([size, count]) => `${size}: ${count}`).join(', ') || "No lambings recorded", chart: barChart(litters, "ewes") },
+    { header: "Average Birth Weight", text: lambs.length ? `${averageWeight.toFixed(1)} kg (${lambs.length} lambs weighed)` : "No birth weights recorded" },
+    {
+      header: "Lambings",
+      text: records.length ? `${records.length} lambings` : "No lambings recorded in this period",
+      table: { columns: ["Date", "Ewe", "Born", "Alive"], rows: records.map(r => [r.lambing_date ?? "", animalLabel(r.ewe), r.lambs_born ?? 0, r.lambs_alive ?? 0]) },
+    },
+  ];
+}
+
+// Bloodline summary built from the recorded sire/dam links
+async function geneticAnalysis(range: ReportRange, options: ReportOptions, scope: MobScope | null): Promise<ReportSection[]> {
+  const lineage = await fetchLineage();
+  const calculator = createInbreedingCalculator(lineage);
+  const threshold = options.inbreedingThreshold ?? DEFAULT_INBREEDING_THRESHOLD;
+  const [from, to] = dateBounds(range);
+
+  const active = Array.from(lineage.values()).filter(a => inScope(scope, a.id) && !INACTIVE_STATUSES.includes(a.status));
+  const bothParents = active.filter(a => a.sire_id && a.dam_id).length;
+  const oneParent = active.filter(a => !!a.sire_id !== !!a.dam_id).length;
+
+  const coefficients = active
+    .map(animal => ({ animal, coefficient: calculator.inbreeding(animal.id) }))
+    .sort((a, b) => b.coefficient - a.coefficient);
+  const average = coefficients.length
+    ? coefficients.reduce((sum, c) => sum + c.coefficient, 0) / coefficients.length
+    : 0;
+  const aboveThreshold = coefficients.filter(c => c.coefficient > threshold);
+
+  const offspringBySire = new Map<string, number>();
+  lineage.forEach(animal => {
+    if (animal.sire_id && inScope(scope, animal.id) && animal.birth_date && animal.birth_date >= from && animal.birth_date <= to) {
+      offspringBySire.set(animal.sire_id, (offspringBySire.get(animal.sire_id) || 0) + 1);
+    }
+  });
+  const topSires = Array.from(offspringBySire.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([id, count]) => [`#${lineage.get(id)?.tag_number ?? 'Unknown'}`, count] as [string, number]);
+
+  const bands = countBy(coefficients, c =>
+    c.coefficient === 0 ? "0%" : c.coefficient <= threshold ? `Up to ${formatCoefficient(threshold)}` : `Above ${formatCoefficient(threshold)}`
+  );
+
+  return [
+    { header: "Pedigree Completeness", text: `Active animals: ${active.length}, both parents recorded: ${bothParents}, one parent: ${oneParent}, no parents: ${active.length - bothParents - oneParent}` },
+    { header: "Flock Inbreeding", text: `Average coefficient: ${formatCoefficient(average)}, highest: ${formatCoefficient(coefficients[0]?.coefficient ?? 0)}`, chart: barChart(bands, "animals") },
+    {
+      header: `Animals Above ${formatCoefficient(threshold)} Threshold`,
+      text: aboveThreshold.length ? `${aboveThreshold.length} animals` : "None",
+      table: { columns: ["Tag", "Name", "Breed", "Coefficient"], rows: aboveThreshold.map(c => [c.animal.tag_number, c.animal.name, c.animal.breed, formatCoefficient(c.coefficient)]) },
+    },
+    { header: "Most Used Sires in Period", text: topSires.length ? `${topSires.length} sires with offspring born in period` : "No sire links recorded for this period", chart: barChart(topSires, "offspring") },
+  ];
+}
+
+type TransactionRow = {
+  date: string;
+  type: string;
+  category: string;
+  /** In the base currency */
+  amount: number;
+  description: string;
+  /** The amount as recorded, when it was in another currency */
+  original: { amount: number; currency: string } | null;
+};
+
+async function fetchTransactions(range: ReportRange, base: CurrencyCode): Promise<TransactionRow[]> {
+  const [from, to] = dateBounds(range);
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('date, type, category, amount, currency, exchange_rate, description')
+    .gte('date', from)
+    .lte('date', to)
+    .order('date');
+
+  if (error) throw error;
+  return (data || []).map(t => ({
+    date: t.date,
+    type: t.type,
+    category: t.category,
+    description: t.description,
+    amount: toBaseAmount(t),
+    original: t.currency && t.currency !== base ? { amount: Number(t.amount), currency: t.currency } : null,
+  }));
+}
+
+async function transactionSummary(range: ReportRange, type: "Income" | "Expense", options: ReportOptions): Promise<ReportSection[]> {
+  const currency = options.currency ?? DEFAULT_BASE_CURRENCY;
+  const unit = currencySymbol(currency);
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+  const [allTransactions, budgets] = await Promise.all([fetchTransactions(range, currency), fetchBudgets(range)]);
+  const transactions = allTransactions.filter(t => t.type === type);
+  // Budgets are monthly, so months the range only partly covers count pro rata
+  const variances = budgetVariance(budgets.filter(b => b.type === type), transactions, range, range.to);
+  const budgetTotal = variances.reduce((sum, v) => sum + v.budget, 0);
+  const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const byCategory = sumBy(transactions, t => t.category, t => t.amount);
+  const months = monthBuckets(range);
+  const byMonth = months.map(month => [
+    month.label,
+    transactions.filter(t => t.date.startsWith(month.key)).reduce((sum, t) => sum + t.amount, 0),
+  ] as [string, number]);
+  const noun = type === "Income" ? "revenue" : "expenses";
+  const converted = transactions.filter(t => t.original);
+
+  return [
+    { header: `Total ${type === "Income" ? "Revenue" : "Expenses"}`, text: `${formatCurrency(total)} from ${transactions.length} transactions` },
+    {
+      header: "By Category",
+      text: byCategory.map(([category, amount]) => `${category}: ${percent(amount, total)}`).join(', ') || `No ${noun} recorded`,
+      table: { columns: ["Category", `Amount (${unit})`, "Share"], rows: byCategory.map(([category, amount]) => [category, round2(amount), percent(amount, total)]) },
+      chart: barChart(byCategory, unit),
+    },
+    { header: "By Month", text: `Monthly ${noun}`, chart: barChart(byMonth, unit) },
+    {
+      header: "Budget vs Actual",
+      text: variances.length
+        ? `Budgeted ${formatCurrency(budgetTotal)} for ${variances.length} categories in this period`
+        : `No ${noun} budgets set for this period`,
+      table: {
+        columns: ["Category", `Budget (${unit})`, `Actual (${unit})`, `Variance (${unit})`, "Used"],
+        rows: variances.map(v => [v.category, round2(v.budget), round2(v.actual), round2(v.variance), percent(v.actual, v.budget)]),
+      },
+    },
+    {
+      header: "Transactions",
+      text: converted.length
+        ? `${transactions.length} transactions, ${converted.length} converted to ${currency} at the rate recorded with each`
+        : `${transactions.length} transactions`,
+      table: {
+        columns: ["Date", "Category", "Description", `Amount (${unit})`, "Original Amount"],
+        rows: transactions.map(t => [
+          t.date, t.category, t.description, round2(t.amount),
+          t.original ? formatMoney(t.original.amount, t.original.currency) : "",
+        ]),
+      },
+    },
+  ];
+}
+
+const groupProfitTable = (label: string, groups: GroupProfit[], unit: string): ReportTable => ({
+  columns: [label, "Animals", `Income (${unit})`, `Direct Costs (${unit})`, `Shared Costs (${unit})`, `Margin (${unit})`, `Margin per Head (${unit})`],
+  rows: groups.map(g => [g.group, g.animals, round2(g.income), round2(g.directCosts), round2(g.sharedCosts), round2(g.margin), round2(g.marginPerHead)]),
+});
+
+async function profitability(range: ReportRange, options: ReportOptions): Promise<ReportSection[]> {
+  const currency = options.currency ?? DEFAULT_BASE_CURRENCY;
+  const unit = currencySymbol(currency);
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+  const [transactions, perAnimal] = await Promise.all([
+    fetchTransactions(range, currency),
+    fetchProfitability(range, options.costAllocationDriver ?? DEFAULT_ALLOCATION_DRIVER),
+  ]);
+  const income = transactions.filter(t => t.type === "Income").reduce((sum, t) => sum + t.amount, 0);
+  const expenses = transactions.filter(t => t.type === "Expense").reduce((sum, t) => sum + t.amount, 0);
+
+  const rows = monthBuckets(range).map(month => {
+    const inMonth = transactions.filter(t => t.date.startsWith(month.key));
+    const monthIncome = inMonth.filter(t => t.type === "Income").reduce((sum, t) => sum + t.amount, 0);
+    const monthExpenses = inMonth.filter(t => t.type === "Expense").reduce((sum, t) => sum + t.amount, 0);
+    return [month.label, round2(monthIncome), round2(monthExpenses), round2(monthIncome - monthExpenses)];
+  });
+
+  const allocatedTo = perAnimal.animals.filter(a => a.headDays > 0).length;
+
+  return [
+    { header: "Net Profit", text: `Revenue ${formatCurrency(income)}, expenses ${formatCurrency(expenses)}, net ${formatCurrency(income - expenses)}` },
+    { header: "Profit Margin", text: income ? `${((income - expenses) / income * 100).toFixed(1)}% of revenue` : "No revenue recorded" },
+    {
+      header: "Monthly Results",
+      text: "Revenue, expenses and net result per month",
+      table: { columns: ["Month", `Revenue (${unit})`, `Expenses (${unit})`, `Net (${unit})`], rows },
+      chart: barChart(rows.map(row => [row[0] as string, row[3] as number]), unit),
+    },
+    {
+      header: "Cost Allocation",
+      text: allocatedTo
+        ? `Shared farm expenses of ${formatCurrency(perAnimal.sharedCosts)} allocated over ${allocatedTo} animals by ${allocationDriverLabels[perAnimal.driver].toLowerCase()}. ` +
+          `Income of ${formatCurrency(perAnimal.unallocatedIncome)} not linked to an animal is left out of the margins below.`
+        : "No animals were on the farm in this period, so shared expenses could not be allocated",
+    },
+    {
+      header: "Margin by Breed",
+      text: perAnimal.byBreed.map(g => `${g.group}: ${formatCurrency(g.marginPerHead)} per head`).join(', ') || "No animals in period",
+      table: groupProfitTable("Breed", perAnimal.byBreed, unit),
+      chart: barChart(perAnimal.byBreed.map(g => [g.group, round2(g.marginPerHead)]), `${unit} per head`),
+    },
+    {
+      header: "Margin by Lamb Crop",
+      text: "Animals grouped by the year they were born",
+      table: groupProfitTable("Lamb Crop", perAnimal.byLambCrop, unit),
+      chart: barChart(perAnimal.byLambCrop.map(g => [g.group, round2(g.marginPerHead)]), `${unit} per head`),
+    },
+    {
+      header: "Margin per Animal",
+      text: `${perAnimal.animals.length} animals, highest margin first`,
+      table: {
+        columns: ["Tag", "Name", "Breed", "Head-days", `Income (${unit})`, `Direct Costs (${unit})`, `Shared Costs (${unit})`, `Margin (${unit})`],
+        rows: perAnimal.animals.map(a => [
+          a.animal.tag_number, a.animal.name, a.animal.breed, a.headDays,
+          round2(a.income), round2(a.directCosts), round2(a.sharedCosts), round2(a.margin),
+        ]),
+      },
+    },
+  ];
+}
+
+async function fetchTaxRows(range: ReportRange): Promise<TaxRow[]> {
+  const [from, to] = dateBounds(range);
+  const { data, error } = await supabase
+    .from('financial_transactions')
+    .select('date, type, category, amount, exchange_rate, tax_rate, tax_amount, description')
+    .gte('date', from)
+    .lte('date', to)
+    .order('date');
+
+  if (error) throw error;
+  return (data || []).map(t => ({
+    date: t.date,
+    type: t.type,
+    category: t.category,
+    description: t.description,
+    gross: toBaseAmount(t),
+    tax: toBaseAmount({ amount: t.tax_amount, exchange_rate: t.exchange_rate }),
+    rate: t.tax_rate,
+  }));
+}
+
+// Net, tax and gross per category, largest first
+const taxCategoryTable = (rows: TaxRow[], unit: string): ReportTable => {
+  const categories = sumBy(rows, r => r.category, r => r.gross);
+  return {
+    columns: ["Category", `Excl. Tax (${unit})`, `Tax (${unit})`, `Incl. Tax (${unit})`],
+    rows: categories.map(([category, gross]) => {
+      const tax = rows.filter(r => r.category === category).reduce((sum, r) => sum + r.tax, 0);
+      return [category, round2(gross - tax), round2(tax), round2(gross)];
+    }),
+  };
+};
+
+async function taxSummary(range: ReportRange, options: ReportOptions): Promise<ReportSection[]> {
+  const currency = options.currency ?? DEFAULT_BASE_CURRENCY;
+  const unit = currencySymbol(currency);
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+  const period = options.taxPeriod ?? DEFAULT_TAX_PERIOD;
+  const startMonth = options.financialYearStartMonth ?? DEFAULT_FINANCIAL_YEAR_START_MONTH;
+  const rows = await fetchTaxRows(range);
+  const totals = taxTotals(rows);
+  const income = rows.filter(r => r.type === "Income");
+  const expenses = rows.filter(r => r.type === "Expense");
+  const periods = taxByPeriod(rows, range, period, startMonth);
+  const taxed = rows.filter(r => r.tax > 0);
+  const years = Array.from(new Set([range.from, range.to].map(date => financialYearLabel(financialYearStart(date, startMonth)))));
+
+  return [
+    {
+      header: "Tax Position",
+      text: `${totals.netTax >= 0 ? "Tax payable" : "Tax refundable"}: ${formatCurrency(Math.abs(totals.netTax))} ` +
+        `(collected ${formatCurrency(totals.taxCollected)}, paid ${formatCurrency(totals.taxPaid)}). Covers ${years.join(" and ")}.`,
+      table: {
+        columns: ["", `Amount (${unit})`],
+        rows: [
+          ["Taxable income (excl. tax)", round2(totals.taxableIncome)],
+          ["Deductible expenses (excl. tax)", round2(totals.deductibleExpenses)],
+          ["Taxable profit", round2(totals.taxableIncome - totals.deductibleExpenses)],
+          ["Tax collected on sales", round2(totals.taxCollected)],
+          ["Tax paid on purchases", round2(totals.taxPaid)],
+          ["Net tax payable", round2(totals.netTax)],
+        ],
+      },
+    },
+    {
+      header: "Taxable Income by Category",
+      text: income.length ? `${income.length} income transactions` : "No income recorded",
+      table: taxCategoryTable(income, unit),
+    },
+    {
+      header: "Deductible Expenses by Category",
+      text: expenses.length ? `${expenses.length} expense transactions` : "No expenses recorded",
+      table: taxCategoryTable(expenses, unit),
+    },
+    {
+      header: `Tax by Period (${taxPeriodLabels[period]})`,
+      text: "Tax collected less tax paid in each return period. Periods at either end may only be partly covered by the report range.",
+      table: {
+        columns: ["Period", `Taxable Income (${unit})`, `Tax Collected (${unit})`, `Deductible Expenses (${unit})`, `Tax Paid (${unit})`, `Net Tax (${unit})`],
+        rows: periods.map(p => [
+          p.label, round2(p.taxableIncome), round2(p.taxCollected), round2(p.deductibleExpenses), round2(p.taxPaid), round2(p.netTax),
+        ]),
+      },
+      chart: barChart(periods.map(p => [p.label, round2(p.netTax)]), unit),
+    },
+    {
+      header: "Taxed Transactions",
+      text: `${taxed.length} of ${rows.length} transactions carry tax`,
+      table: {
+        columns: ["Date", "Type", "Category", "Description", "Rate", `Excl. Tax (${unit})`, `Tax (${unit})`, `Incl. Tax (${unit})`],
+        rows: taxed.map(r => [
+          r.date, r.type, r.category, r.description, r.rate != null ? `${r.rate}%` : "",
+          round2(r.gross - r.tax), round2(r.tax), round2(r.gross),
+        ]),
+      },
+    },
+  ];
+}
+
+const reportGenerators: Record<string, (range: ReportRange, options: ReportOptions, scope: MobScope | null) => Promise<ReportSection[]>> = {
+  "1": flockSummary,
+  "2": breedingStock,
+  "3": ageDistribution,
+  "4": vaccinationStatus,
+  "5": healthIncidents,
+  "6": mortality,
+  "7": breedingPerformance,
+  "8": lambingStatistics,
+  "9": geneticAnalysis,
+  "10": (range, options) => transactionSummary(range, "Income", options),
+  "11": (range, options) => transactionSummary(range, "Expense", options),
+  "12": profitability,
+  "13": taxSummary,
+};
+
+// Livestock reports that can be limited to a mob or paddock; the financial ones cover the whole farm
+const MOB_SCOPED_REPORTS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+export const reportName = (reportId: string) =>
+  reportCategories.flatMap(category => category.reports).find(report => report.id === reportId)?.name ?? "Report";
+
+/**
+ * Query the data behind a report for the given period
+ */
+export async function generateReportData(reportId: string, range: ReportRange, options: ReportOptions = {}): Promise<ReportData> {
+  const generator = reportGenerators[reportId];
+  if (!generator) throw new Error(`Unknown report: ${reportId}`);
+
+  const scope = MOB_SCOPED_REPORTS.includes(reportId) ? await resolveMobScope(options) : null;
+  const period = `${format(range.from, "d MMM yyyy")} – ${format(range.to, "d MMM yyyy")}`;
+
+  return {
+    title: reportName(reportId),
+    date: new Date().toLocaleDateString(),
+    period: scope ? `${period} (${scope.label})` : period,
+    content: await generator(range, options, scope),
+  };
+}
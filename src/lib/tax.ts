@@ -0,0 +1,110 @@
+import { addMonths, format, subDays } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH, financialYearStart } from "@/lib/finance";
+import type { ReportRange } from "@/lib/reports";
+
+export type TaxPeriod = "month" | "quarter";
+
+// Used until the farm chooses how often it files tax returns
+export const DEFAULT_TAX_PERIOD: TaxPeriod = "quarter";
+
+export const taxPeriodLabels: Record<TaxPeriod, string> = {
+  month: "Monthly",
+  quarter: "Quarterly",
+};
+
+export const taxPeriodOf = (settings: Pick<Tables<'farm_settings'>, 'tax_period'> | null | undefined): TaxPeriod =>
+  settings?.tax_period === "month" || settings?.tax_period === "quarter" ? settings.tax_period : DEFAULT_TAX_PERIOD;
+
+/**
+ * The tax part of an amount that includes tax at the given percentage
+ */
+export const taxFromGross = (gross: number, rate: number) =>
+  Math.round(gross * rate / (100 + rate) * 100) / 100;
+
+export interface TaxRow {
+  date: string;
+  type: string;
+  category: string;
+  description: string;
+  /** Total including tax, in the base currency */
+  gross: number;
+  /** Tax included in the total, in the base currency */
+  tax: number;
+  rate: number | null;
+}
+
+export interface TaxTotals {
+  /** Income excluding the tax charged on it */
+  taxableIncome: number;
+  /** Expenses excluding the tax paid on them */
+  deductibleExpenses: number;
+  taxCollected: number;
+  taxPaid: number;
+  /** Tax collected less tax paid; negative when a refund is due */
+  netTax: number;
+}
+
+export interface TaxPeriodTotals extends TaxTotals {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export function taxTotals(rows: TaxRow[]): TaxTotals {
+  const totals = { taxableIncome: 0, deductibleExpenses: 0, taxCollected: 0, taxPaid: 0, netTax: 0 };
+  rows.forEach(row => {
+    if (row.type === "Income") {
+      totals.taxableIncome += row.gross - row.tax;
+      totals.taxCollected += row.tax;
+    } else {
+      totals.deductibleExpenses += row.gross - row.tax;
+      totals.taxPaid += row.tax;
+    }
+  });
+  totals.netTax = totals.taxCollected - totals.taxPaid;
+  return totals;
+}
+
+/**
+ * Tax periods overlapping the range. Quarters are counted from the start of the financial
+ * year, so a July year has July–September as its first quarter.
+ */
+export function taxPeriods(
+  range: ReportRange,
+  period: TaxPeriod,
+  financialYearStartMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH
+): { label: string; from: string; to: string }[] {
+  const months = period === "quarter" ? 3 : 1;
+  const periods: { label: string; from: string; to: string }[] = [];
+  let start = financialYearStart(range.from, financialYearStartMonth);
+
+  while (start <= range.to) {
+    const end = subDays(addMonths(start, months), 1);
+    if (end >= range.from) {
+      periods.push({
+        label: period === "quarter" ? `${format(start, "MMM")}–${format(end, "MMM yyyy")}` : format(start, "MMM yyyy"),
+        from: format(start, "yyyy-MM-dd"),
+        to: format(end, "yyyy-MM-dd"),
+      });
+    }
+    start = addMonths(start, months);
+  }
+
+  return periods;
+}
+
+/**
+ * Totals for each tax period in the range
+ */
+export function taxByPeriod(
+  rows: TaxRow[],
+  range: ReportRange,
+  period: TaxPeriod,
+  financialYearStartMonth?: number
+): TaxPeriodTotals[] {
+  return taxPeriods(range, period, financialYearStartMonth).map(bucket => ({
+    ...bucket,
+    ...taxTotals(rows.filter(row => row.date >= bucket.from && row.date <= bucket.to)),
+  }));
+}
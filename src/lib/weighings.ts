@@ -0,0 +1,125 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Weighing = Tables<'weighings'>;
+
+// Used when farm_settings has no growth target configured (150 g/day)
+export const DEFAULT_TARGET_ADG_KG = 0.15;
+
+// Animals looked up per latest_weighings request
+const LATEST_BATCH_SIZE = 200;
+
+export const BODY_CONDITION_SCORES = [1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+export interface GainPeriod {
+  from: Weighing;
+  to: Weighing;
+  days: number;
+  /** Average daily gain over the period, in kg per day */
+  adg: number;
+}
+
+export interface WeighingEntry {
+  animalId: string;
+  weightKg: number;
+  bodyConditionScore: number | null;
+}
+
+/**
+ * Average daily gain between each pair of consecutive weighings.
+ * Weighings on the same day are skipped, since there is no interval to divide by.
+ */
+export function gainPeriods(weighings: Weighing[]): GainPeriod[] {
+  const sorted = [...weighings].sort((a, b) => a.date.localeCompare(b.date));
+  const periods: GainPeriod[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    const days = differenceInCalendarDays(parseISO(to.date), parseISO(from.date));
+    if (days <= 0) continue;
+    periods.push({ from, to, days, adg: (Number(to.weight_kg) - Number(from.weight_kg)) / days });
+  }
+
+  return periods;
+}
+
+/**
+ * Gain per day between a previous weighing and a new weight, or null if there is no usable interval
+ */
+export function dailyGain(previous: Pick<Weighing, 'date' | 'weight_kg'> | null | undefined, weightKg: number, date: string): number | null {
+  if (!previous) return null;
+  const days = differenceInCalendarDays(parseISO(date), parseISO(previous.date));
+  return days > 0 ? (weightKg - Number(previous.weight_kg)) / days : null;
+}
+
+export const formatAdg = (adg: number) => `${Math.round(adg * 1000)} g/day`;
+
+export async function fetchWeighings(animalId: string): Promise<Weighing[]> {
+  const { data, error } = await supabase
+    .from('weighings')
+    .select('*')
+    .eq('animal_id', animalId)
+    .order('date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Latest weighing of each of the given animals, keyed by animal id.
+ * The latest_weighings database function picks one row per animal, so the full history is never read.
+ */
+export async function fetchLatestWeighings(animalIds: string[]): Promise<Map<string, Weighing>> {
+  const latest = new Map<string, Weighing>();
+
+  for (let start = 0; start < animalIds.length; start += LATEST_BATCH_SIZE) {
+    const { data, error } = await supabase.rpc('latest_weighings', {
+      p_animal_ids: animalIds.slice(start, start + LATEST_BATCH_SIZE),
+    });
+
+    if (error) throw error;
+    (data || []).forEach(weighing => latest.set(weighing.animal_id, weighing));
+  }
+
+  return latest;
+}
+
+/**
+ * Save a set of weighings taken on one day and bring each animal's current weight up to date
+ */
+export async function recordWeighings(entries: WeighingEntry[], date: string, weighedBy: string | null) {
+  if (entries.length === 0) return [];
+
+  const { data: authData } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('weighings')
+    .insert(entries.map(entry => ({
+      animal_id: entry.animalId,
+      date,
+      weight_kg: entry.weightKg,
+      body_condition_score: entry.bodyConditionScore,
+      weighed_by: weighedBy,
+      created_by: authData?.user?.id ?? null,
+    })))
+    .select();
+
+  if (error) throw error;
+
+  // Only move animals.weight_kg forward: a back-dated weighing must not replace a newer one
+  const latest = await fetchLatestWeighings(entries.map(entry => entry.animalId));
+  for (const entry of entries) {
+    if (latest.get(entry.animalId)?.date === date) {
+      const { error: animalError } = await supabase
+        .from('animals')
+        .update({ weight_kg: entry.weightKg })
+        .eq('id', entry.animalId);
+
+      if (animalError) throw animalError;
+    }
+  }
+
+  return data;
+}
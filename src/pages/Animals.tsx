@@ -1,9 +1,14 @@
 import { useState, useEffect } from "react";
 import { Helmet } from "react-helmet";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { AnimalForm, AnimalFormData } from "@/components/animals/AnimalForm";
+import { PedigreeDialog } from "@/components/animals/PedigreeDialog";
+import { LambingDialog } from "@/components/breeding/LambingDialog";
+import { ImportAnimalsDialog } from "@/components/animals/ImportAnimalsDialog";
+import { GrowthDialog } from "@/components/animals/GrowthDialog";
 import { 
   Select, 
   SelectContent, 
@@ -11,10 +16,17 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { Search, Plus, Filter, Heart, Activity, Edit } from "lucide-react";
+import { Search, Plus, Filter, Heart, Activity, Edit, GitBranch, Baby, Upload, TrendingUp, Scale, LogOut, Fence, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import { AGE_CLASSES, ageClass, ageClassCutoffs, formatAge } from "@/lib/age";
+import { fetchCached, QUEUED_MESSAGE } from "@/lib/offline";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+import { LinkedRecordNotice } from "@/components/activity/LinkedRecordNotice";
+import { DisposalDialog } from "@/components/animals/DisposalDialog";
+import { DISPOSAL_TYPES, DisposalType } from "@/lib/disposals";
+import { assignAnimalsToMob, fetchMobs, fetchPaddocks, matchesMobFilter, Mob, NO_PADDOCK_LABEL, Paddock } from "@/lib/mobs";
 
 // Define the Animal type to match AnimalCardProps
 type Animal = {
@@ -22,12 +34,13 @@ type Animal = {
   name: string;
   tagNumber: string;
   breed: string;
-  age: string;
+  birthDate: string | null;
   sex: 'Male' | 'Female';
   status: 'Active' | 'Sold' | 'Dead' | 'Culled' | 'Pregnant';
   weightKg: number;
-  healthStatus: 'Healthy' | 'Sick' | 'Recovering' | 'Pregnant';
+  healthStatus: 'Healthy' | 'Sick' | 'Recovering';
   imageUrl?: string;
+  mobId: string | null;
 };
 
 // Empty array for production - no mock data
@@ -38,22 +51,33 @@ export default function Animals() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [sexFilter, setSexFilter] = useState("all");
   const [healthFilter, setHealthFilter] = useState("all");
+  const [ageClassFilter, setAgeClassFilter] = useState("all");
+  const [searchParams] = useSearchParams();
+  const [mobFilter, setMobFilter] = useState(searchParams.get('mob') ?? "all");
+  const [paddockFilter, setPaddockFilter] = useState("all");
+  const [mobs, setMobs] = useState<Mob[]>([]);
+  const [paddocks, setPaddocks] = useState<Paddock[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [assignMobId, setAssignMobId] = useState("");
+  const [isAssigning, setIsAssigning] = useState(false);
   const [animals, setAnimals] = useState<Animal[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingAnimal, setEditingAnimal] = useState<(AnimalFormData & { id: string }) | null>(null);
   const [showEditForm, setShowEditForm] = useState(false);
+  const [pedigreeAnimal, setPedigreeAnimal] = useState<Animal | null>(null);
+  const [lambingDam, setLambingDam] = useState<Animal | null>(null);
+  const [growthAnimal, setGrowthAnimal] = useState<Animal | null>(null);
+  const [disposalAnimal, setDisposalAnimal] = useState<Animal | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const { linkedId, clearLinkedRecord } = useLinkedRecord();
   const { toast } = useToast();
+  const { settings } = useFarmSettings();
+  const cutoffs = ageClassCutoffs(settings);
   
   const fetchAnimals = async () => {
       try {
         setLoading(true);
-        const { data, error } = await supabase
-          .from('animals')
-          .select('*');
-        
-        if (error) {
-          throw error;
-        }
+        const data = await fetchCached('animals');
         
         // Transform the data to match the Animal type
         const formattedData: Animal[] = data.map(animal => ({
@@ -61,12 +85,13 @@ export default function Animals() {
           name: animal.name,
           tagNumber: animal.tag_number,
           breed: animal.breed,
-          age: animal.age || '',
+          birthDate: animal.birth_date,
           sex: animal.sex as 'Male' | 'Female',
           status: animal.status as 'Active' | 'Sold' | 'Dead' | 'Culled' | 'Pregnant',
           weightKg: animal.weight_kg || 0,
-          healthStatus: animal.health_status as 'Healthy' | 'Sick' | 'Recovering' | 'Pregnant',
-          imageUrl: animal.image_url || undefined
+          healthStatus: animal.health_status as 'Healthy' | 'Sick' | 'Recovering',
+          imageUrl: animal.image_url || undefined,
+          mobId: animal.mob_id ?? null
         }));
         
         setAnimals(formattedData);
@@ -84,12 +109,26 @@ export default function Animals() {
       }
   };
   
+  // Mobs and paddocks only feed the filters and bulk assignment, so the list still loads without them
+  const fetchMobData = async () => {
+    try {
+      const [mobData, paddockData] = await Promise.all([fetchMobs(), fetchPaddocks()]);
+      setMobs(mobData);
+      setPaddocks(paddockData);
+    } catch (error) {
+      console.error('Error fetching mobs:', error);
+    }
+  };
+  
   useEffect(() => {
     fetchAnimals();
+    fetchMobData();
   }, []);
   
   // Apply filters
   const filteredAnimals = animals.filter((animal) => {
+    if (linkedId) return animal.id === linkedId;
+
     // Search filter
     const matchesSearch = 
       animal.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -105,9 +144,71 @@ export default function Animals() {
     // Health filter
     const matchesHealth = healthFilter === "all" || animal.healthStatus === healthFilter;
     
-    return matchesSearch && matchesStatus && matchesSex && matchesHealth;
+    // Age class filter, worked out from the birth date
+    const matchesAgeClass = ageClassFilter === "all" ||
+      (ageClassFilter === "unknown"
+        ? !animal.birthDate
+        : ageClass({ birth_date: animal.birthDate, sex: animal.sex }, cutoffs) === ageClassFilter);
+    
+    // Mob and paddock filters, where the paddock is the one the animal's mob is in
+    const matchesMob = matchesMobFilter(animal.mobId, mobs, mobFilter, paddockFilter);
+    
+    return matchesSearch && matchesStatus && matchesSex && matchesHealth && matchesAgeClass && matchesMob;
   });
   
+  // Only rows still shown count as selected, so a filter change never assigns animals out of sight
+  const selectedAnimals = filteredAnimals.filter(animal => selectedIds.has(animal.id));
+  const allSelected = filteredAnimals.length > 0 && selectedAnimals.length === filteredAnimals.length;
+  
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+  
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredAnimals.map(animal => animal.id)) : new Set());
+  };
+  
+  const handleAssignMob = async () => {
+    if (!assignMobId) return;
+    
+    const mob = mobs.find(m => m.id === assignMobId);
+    setIsAssigning(true);
+    try {
+      const { queued } = await assignAnimalsToMob(selectedAnimals.map(animal => animal.id), mob ? mob.id : null);
+      toast({
+        title: "Mob Updated",
+        description: queued
+          ? QUEUED_MESSAGE
+          : mob
+            ? `${selectedAnimals.length} animals moved into ${mob.name}`
+            : `${selectedAnimals.length} animals taken out of their mob`
+      });
+      setSelectedIds(new Set());
+      setAssignMobId("");
+      fetchAnimals();
+      fetchMobData();
+    } catch (error) {
+      console.error('Error assigning mob:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to assign the mob",
+        variant: "destructive"
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+  
+  const mobLabel = (mobId: string | null) => {
+    const mob = mobs.find(m => m.id === mobId);
+    return mob ? `${mob.name} (${mob.paddockName ?? NO_PADDOCK_LABEL})` : "None";
+  };
+  
   return (
     <>
       <Helmet>
@@ -122,6 +223,23 @@ export default function Animals() {
               Manage your flock with detailed records
             </p>
             <div className="flex items-center gap-2">
+              <Button 
+                variant="outline" 
+                className="flex items-center gap-2 border-farm-green text-farm-green hover:bg-farm-green/10"
+                onClick={() => setShowImportDialog(true)}
+              >
+                <Upload className="h-4 w-4" />
+                <span>Import</span>
+              </Button>
+              <Link to="/animals/weigh-day">
+                <Button 
+                  variant="outline" 
+                  className="flex items-center gap-2 border-farm-green text-farm-green hover:bg-farm-green/10"
+                >
+                  <Scale className="h-4 w-4" />
+                  <span>Weigh Day</span>
+                </Button>
+              </Link>
               <Link to="/animals/register">
                 <Button className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90">
                   <Plus className="h-4 w-4" />
@@ -195,12 +313,95 @@ export default function Animals() {
                 <SelectItem value="Healthy">Healthy</SelectItem>
                 <SelectItem value="Sick">Sick</SelectItem>
                 <SelectItem value="Recovering">Recovering</SelectItem>
-                <SelectItem value="Pregnant">Pregnant</SelectItem>
+              </SelectContent>
+            </Select>
+            
+            <Select
+              value={ageClassFilter}
+              onValueChange={setAgeClassFilter}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue placeholder="Age Class" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Ages</SelectItem>
+                {AGE_CLASSES.map(ageClassOption => (
+                  <SelectItem key={ageClassOption} value={ageClassOption}>{ageClassOption}</SelectItem>
+                ))}
+                <SelectItem value="unknown">No Birth Date</SelectItem>
+              </SelectContent>
+            </Select>
+            
+            <Select
+              value={mobFilter}
+              onValueChange={setMobFilter}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Mob" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Mobs</SelectItem>
+                {mobs.map(mob => (
+                  <SelectItem key={mob.id} value={mob.id}>{mob.name}</SelectItem>
+                ))}
+                <SelectItem value="none">No Mob</SelectItem>
+              </SelectContent>
+            </Select>
+            
+            <Select
+              value={paddockFilter}
+              onValueChange={setPaddockFilter}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Paddock" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Paddocks</SelectItem>
+                {paddocks.map(paddock => (
+                  <SelectItem key={paddock.id} value={paddock.id}>{paddock.name}</SelectItem>
+                ))}
+                <SelectItem value="none">{NO_PADDOCK_LABEL}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </div>
         
+        {selectedAnimals.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2 items-start sm:items-center rounded-xl border border-farm-green/30 bg-farm-green/5 px-4 py-3">
+            <span className="text-sm font-medium flex-grow">{selectedAnimals.length} selected</span>
+            <Select value={assignMobId} onValueChange={setAssignMobId}>
+              <SelectTrigger className="w-[200px] bg-white">
+                <SelectValue placeholder="Assign to mob" />
+              </SelectTrigger>
+              <SelectContent>
+                {mobs.map(mob => (
+                  <SelectItem key={mob.id} value={mob.id}>{mob.name}</SelectItem>
+                ))}
+                <SelectItem value="none">No Mob</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90"
+              onClick={handleAssignMob}
+              disabled={!assignMobId || isAssigning}
+            >
+              <Fence className="h-4 w-4" />
+              <span>{isAssigning ? "Assigning..." : "Assign"}</span>
+            </Button>
+            <Button variant="ghost" size="icon" title="Clear selection" onClick={() => setSelectedIds(new Set())}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        
+        {linkedId && !loading && (
+          <LinkedRecordNotice
+            recordName="animal"
+            found={filteredAnimals.length > 0}
+            onShowAll={clearLinkedRecord}
+          />
+        )}
+        
         {loading ? (
           <div className="flex justify-center items-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-farm-green"></div>
@@ -211,6 +412,13 @@ export default function Animals() {
               <table className="w-full divide-y divide-gray-200">
                 <thead className="bg-gradient-to-r from-farm-green/10 to-farm-green/5">
                   <tr>
+                    <th scope="col" className="pl-6 py-3 w-4">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+                        aria-label="Select all animals"
+                      />
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-farm-green uppercase tracking-wider">Animal</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-farm-green uppercase tracking-wider">Details</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-farm-green uppercase tracking-wider">Weight</th>
@@ -225,6 +433,15 @@ export default function Animals() {
                       key={animal.id} 
                       className={`group hover:bg-farm-neutral-light/50 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-farm-neutral-light/20'}`}
                     >
+                      {/* Selection */}
+                      <td className="pl-6 py-4">
+                        <Checkbox
+                          checked={selectedIds.has(animal.id)}
+                          onCheckedChange={(checked) => toggleSelected(animal.id, checked === true)}
+                          aria-label={`Select ${animal.name}`}
+                        />
+                      </td>
+                      
                       {/* Animal Info */}
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
@@ -249,12 +466,21 @@ export default function Animals() {
                           </div>
                           <div className="flex gap-2">
                             <span className="text-gray-500 text-xs">Age:</span>
-                            <span className="font-medium">{animal.age}</span>
+                            <span className="font-medium">{formatAge(animal.birthDate)}</span>
+                            {animal.birthDate && (
+                              <span className="text-xs text-gray-500">
+                                ({ageClass({ birth_date: animal.birthDate, sex: animal.sex }, cutoffs)})
+                              </span>
+                            )}
                           </div>
                           <div className="flex gap-2">
                             <span className="text-gray-500 text-xs">Sex:</span>
                             <span className="font-medium">{animal.sex}</span>
                           </div>
+                          <div className="flex gap-2">
+                            <span className="text-gray-500 text-xs">Mob:</span>
+                            <span className="font-medium">{mobLabel(animal.mobId)}</span>
+                          </div>
                         </div>
                       </td>
                       
@@ -275,7 +501,7 @@ export default function Animals() {
                       
                       {/* Health Status */}
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${animal.healthStatus === 'Healthy' ? 'bg-green-100 text-green-800' : animal.healthStatus === 'Recovering' ? 'bg-amber-100 text-amber-800' : animal.healthStatus === 'Pregnant' ? 'bg-purple-100 text-purple-800' : 'bg-red-100 text-red-800'}`}>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${animal.healthStatus === 'Healthy' ? 'bg-green-100 text-green-800' : animal.healthStatus === 'Recovering' ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-800'}`}>
                           {animal.healthStatus}
                         </span>
                       </td>
@@ -289,6 +515,46 @@ export default function Animals() {
                           <Button variant="ghost" size="sm" className="text-farm-green hover:bg-farm-green/10 rounded-full w-8 h-8 p-0">
                             <Activity className="h-4 w-4" />
                           </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="text-farm-green hover:bg-farm-green/10 rounded-full w-8 h-8 p-0"
+                            title="Pedigree"
+                            onClick={() => setPedigreeAnimal(animal)}
+                          >
+                            <GitBranch className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="text-farm-green hover:bg-farm-green/10 rounded-full w-8 h-8 p-0"
+                            title="Growth"
+                            onClick={() => setGrowthAnimal(animal)}
+                          >
+                            <TrendingUp className="h-4 w-4" />
+                          </Button>
+                          {animal.sex === 'Female' && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              className="text-farm-green hover:bg-farm-green/10 rounded-full w-8 h-8 p-0"
+                              title="Record Lambing"
+                              onClick={() => setLambingDam(animal)}
+                            >
+                              <Baby className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {!DISPOSAL_TYPES.includes(animal.status as DisposalType) && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              className="text-farm-green hover:bg-farm-green/10 rounded-full w-8 h-8 p-0"
+                              title="Record Sale or Loss"
+                              onClick={() => setDisposalAnimal(animal)}
+                            >
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -300,7 +566,7 @@ export default function Animals() {
                                 name: animal.name,
                                 tag_number: animal.tagNumber,
                                 breed: animal.breed,
-                                age: animal.age,
+                                birth_date: animal.birthDate ?? undefined,
                                 sex: animal.sex,
                                 status: animal.status,
                                 weight_kg: animal.weightKg,
@@ -336,6 +602,9 @@ export default function Animals() {
                 setStatusFilter("all");
                 setSexFilter("all");
                 setHealthFilter("all");
+                setAgeClassFilter("all");
+                setMobFilter("all");
+                setPaddockFilter("all");
               }}
             >
               Clear all filters
@@ -344,6 +613,49 @@ export default function Animals() {
         )}
       </div>
 
+      {pedigreeAnimal && (
+        <PedigreeDialog
+          open={!!pedigreeAnimal}
+          onOpenChange={(open) => !open && setPedigreeAnimal(null)}
+          animalId={pedigreeAnimal.id}
+          animalName={pedigreeAnimal.name}
+        />
+      )}
+
+      <ImportAnimalsDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onSuccess={fetchAnimals}
+      />
+
+      {growthAnimal && (
+        <GrowthDialog
+          open={!!growthAnimal}
+          onOpenChange={(open) => !open && setGrowthAnimal(null)}
+          animalId={growthAnimal.id}
+          animalName={growthAnimal.name}
+          onSuccess={fetchAnimals}
+        />
+      )}
+
+      {disposalAnimal && (
+        <DisposalDialog
+          open={!!disposalAnimal}
+          onOpenChange={(open) => !open && setDisposalAnimal(null)}
+          animal={disposalAnimal}
+          onSuccess={fetchAnimals}
+        />
+      )}
+
+      {lambingDam && (
+        <LambingDialog
+          open={!!lambingDam}
+          onOpenChange={(open) => !open && setLambingDam(null)}
+          damId={lambingDam.id}
+          onSuccess={fetchAnimals}
+        />
+      )}
+      
       {/* Edit Form Dialog */}
       {editingAnimal && (
         <AnimalForm
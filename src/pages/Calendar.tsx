@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { Helmet } from "react-helmet";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { FarmCalendar } from "@/components/calendar/FarmCalendar";
+import { CalendarFeedDialog } from "@/components/calendar/CalendarFeedDialog";
+import { Rss } from "lucide-react";
+
+export default function Calendar() {
+  const [showFeedDialog, setShowFeedDialog] = useState(false);
+
+  return (
+    <>
+      <Helmet>
+        <title>Calendar | Mumbi Farm Management</title>
+      </Helmet>
+      
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Farm Calendar</h1>
+            <p className="text-muted-foreground">
+              Events, health follow-ups and alert due dates in one place
+            </p>
+          </div>
+          
+          <Button 
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={() => setShowFeedDialog(true)}
+          >
+            <Rss className="h-4 w-4" />
+            <span>Subscribe</span>
+          </Button>
+        </div>
+        
+        <Card className="animate-fade-in">
+          <CardContent className="pt-6">
+            <FarmCalendar />
+          </CardContent>
+        </Card>
+      </div>
+      
+      <CalendarFeedDialog
+        open={showFeedDialog}
+        onOpenChange={setShowFeedDialog}
+      />
+    </>
+  );
+}
@@ -2,12 +2,18 @@
 import { useState } from "react";
 import { Helmet } from "react-helmet";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EventsList } from "@/components/events/EventsList";
+import { BreedingRecordsList } from "@/components/breeding/BreedingRecordsList";
 import { AddEventDialog } from "@/components/events/AddEventDialog";
-import { Plus } from "lucide-react";
+import { PlanMatingDialog } from "@/components/events/PlanMatingDialog";
+import { GitMerge, Plus } from "lucide-react";
 
 export default function Events() {
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showPlanMating, setShowPlanMating] = useState(false);
+  const [activeTab, setActiveTab] = useState("events");
+  const [refreshKey, setRefreshKey] = useState(0);
 
   return (
     <>
@@ -24,21 +30,50 @@ export default function Events() {
             </p>
           </div>
           
-          <Button 
-            className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90"
-            onClick={() => setShowAddDialog(true)}
-          >
-            <Plus className="h-4 w-4" />
-            <span>Add Event</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button 
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setShowPlanMating(true)}
+            >
+              <GitMerge className="h-4 w-4" />
+              <span>Plan Mating</span>
+            </Button>
+            <Button 
+              className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90"
+              onClick={() => setShowAddDialog(true)}
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Event</span>
+            </Button>
+          </div>
         </div>
         
-        <EventsList />
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full md:w-[400px] grid-cols-2">
+            <TabsTrigger value="events">Events</TabsTrigger>
+            <TabsTrigger value="breeding">Breeding</TabsTrigger>
+          </TabsList>
+          
+          <TabsContent value="events" className="mt-6">
+            <EventsList key={refreshKey} />
+          </TabsContent>
+          
+          <TabsContent value="breeding" className="mt-6">
+            <BreedingRecordsList key={refreshKey} />
+          </TabsContent>
+        </Tabs>
       </div>
       
       <AddEventDialog
         open={showAddDialog}
         onOpenChange={setShowAddDialog}
+        onSuccess={() => setRefreshKey(prev => prev + 1)}
+      />
+      
+      <PlanMatingDialog
+        open={showPlanMating}
+        onOpenChange={setShowPlanMating}
       />
     </>
   );
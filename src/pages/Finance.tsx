@@ -1,15 +1,22 @@
 
 import { useState, useEffect } from "react";
 import { Helmet } from "react-helmet";
+import { useSearchParams } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FinancialSummary } from "@/components/financial/FinancialSummary";
 import { AddTransactionDialog } from "@/components/financial/AddTransactionDialog";
 import { TransactionTable } from "@/components/financial/TransactionTable";
+import { BudgetsPanel } from "@/components/financial/BudgetsPanel";
+import { ScheduledTransactions } from "@/components/financial/ScheduledTransactions";
+import { ReceivablesPanel } from "@/components/financial/ReceivablesPanel";
+import { ReconciliationPanel } from "@/components/financial/ReconciliationPanel";
 import { supabase } from "@/integrations/supabase/client";
 
 export default function Finance() {
   const [showAddDialog, setShowAddDialog] = useState(false);
-  const [activeTab, setActiveTab] = useState("overview");
+  const [searchParams] = useSearchParams();
+  // Links from the activity feed open straight on the transactions tab
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') ?? "overview");
 
   return (
     <>
@@ -26,9 +33,13 @@ export default function Finance() {
         </div>
         
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full md:w-[400px] grid-cols-2">
+          <TabsList className="grid w-full md:w-[1000px] grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="transactions">Transactions</TabsTrigger>
+            <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
+            <TabsTrigger value="invoices">Invoices</TabsTrigger>
+            <TabsTrigger value="reconcile">Reconcile</TabsTrigger>
+            <TabsTrigger value="budgets">Budgets</TabsTrigger>
           </TabsList>
           
           <TabsContent value="overview" className="mt-6">
@@ -41,6 +52,22 @@ export default function Finance() {
               onRefresh={() => setActiveTab("transactions")}
             />
           </TabsContent>
+          
+          <TabsContent value="scheduled" className="mt-6">
+            <ScheduledTransactions />
+          </TabsContent>
+          
+          <TabsContent value="invoices" className="mt-6">
+            <ReceivablesPanel />
+          </TabsContent>
+          
+          <TabsContent value="reconcile" className="mt-6">
+            <ReconciliationPanel />
+          </TabsContent>
+          
+          <TabsContent value="budgets" className="mt-6">
+            <BudgetsPanel />
+          </TabsContent>
         </Tabs>
       </div>
       
@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { fetchCached } from "@/lib/offline";
 import { Helmet } from "react-helmet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +15,9 @@ import { HealthRecordCard } from "@/components/health/HealthRecordCard";
 import { AddHealthRecordDialog } from "@/components/health/AddHealthRecordDialog";
 import { Filter, Plus, Search } from "lucide-react";
 import { format } from "date-fns";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+import { LinkedRecordNotice } from "@/components/activity/LinkedRecordNotice";
+import { GroupAnimal } from "@/lib/groups";
 
 // Empty array for production - no mock data
 const healthRecordsData: any[] = [];
@@ -26,7 +29,8 @@ export default function Health() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [healthRecords, setHealthRecords] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [animals, setAnimals] = useState<any[]>([]);
+  const [animals, setAnimals] = useState<GroupAnimal[]>([]);
+  const { linkedId, clearLinkedRecord } = useLinkedRecord();
 
   useEffect(() => {
     fetchHealthRecords();
@@ -35,17 +39,7 @@ export default function Health() {
 
   async function fetchAnimals() {
     try {
-      const { data, error } = await supabase
-        .from('animals')
-        .select('id, name, tag_number');
-      
-      if (error) throw error;
-      
-      setAnimals(data.map(animal => ({
-        id: animal.id,
-        name: animal.name,
-        tag: animal.tag_number
-      })));
+      setAnimals(await fetchCached('animals'));
     } catch (error) {
       console.error('Error fetching animals:', error);
     }
@@ -54,18 +48,20 @@ export default function Health() {
   async function fetchHealthRecords() {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('health_records')
-        .select('*, animals(id, name, tag_number)');
+      const data = await fetchCached('health_records');
       
-      if (error) throw error;
+      // Per-animal entries of a group treatment are listed under its summary record
+      const entriesBySummary = new Map<string, typeof data>();
+      data.filter(record => record.summary_id).forEach(record => {
+        entriesBySummary.set(record.summary_id, [...(entriesBySummary.get(record.summary_id) ?? []), record]);
+      });
       
       // Transform the data to match the expected format
-      const formattedRecords = data.map(record => ({
+      const formattedRecords = data.filter(record => !record.summary_id).map(record => ({
         id: record.id,
         animalId: record.animal_id,
-        animalName: record.animals?.name || 'Unknown',
-        animalTag: record.animals?.tag_number || 'Unknown',
+        animalName: record.group_size ? 'Group' : record.animals?.name || 'Unknown',
+        animalTag: record.group_size ? '' : record.animals?.tag_number || 'Unknown',
         recordType: record.record_type as any,
         date: new Date(record.date),
         description: record.description,
@@ -73,7 +69,14 @@ export default function Health() {
         outcome: record.outcome || undefined,
         followUp: record.follow_up ? new Date(record.follow_up) : undefined,
         status: record.status as any,
-        notes: record.notes
+        notes: record.notes,
+        groupSize: record.group_size,
+        entries: (entriesBySummary.get(record.id) ?? []).map(entry => ({
+          id: entry.id,
+          animalName: entry.animals?.name || 'Unknown',
+          animalTag: entry.animals?.tag_number || 'Unknown',
+          exception: entry.exception,
+        })),
       }));
       
       setHealthRecords(formattedRecords);
@@ -88,11 +91,16 @@ export default function Health() {
   
   // Apply filters
   const filteredRecords = healthRecords.filter((record) => {
-    // Search filter
+    if (linkedId) return record.id === linkedId;
+
+    // Search filter, including the animals of a group record
+    const query = searchQuery.toLowerCase();
+    const matchesAnimal = (animal: { animalName: string; animalTag: string }) =>
+      animal.animalName.toLowerCase().includes(query) || animal.animalTag.toLowerCase().includes(query);
     const matchesSearch = 
-      record.animalName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      record.animalTag.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      record.description.toLowerCase().includes(searchQuery.toLowerCase());
+      matchesAnimal(record) ||
+      record.entries.some(matchesAnimal) ||
+      record.description.toLowerCase().includes(query);
     
     // Type filter
     const matchesType = typeFilter === "all" || record.recordType === typeFilter;
@@ -179,6 +187,14 @@ export default function Health() {
           </div>
         </div>
         
+        {linkedId && !loading && (
+          <LinkedRecordNotice
+            recordName="health record"
+            found={filteredRecords.length > 0}
+            onShowAll={clearLinkedRecord}
+          />
+        )}
+        
         {loading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading health records...</p>
@@ -0,0 +1,392 @@
+import { useState, useEffect } from "react";
+import { Helmet } from "react-helmet";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowRightLeft, Droplets, Edit, History, MapPin, Plus, Trash2, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { MobDialog } from "@/components/mobs/MobDialog";
+import { PaddockDialog } from "@/components/mobs/PaddockDialog";
+import { MoveMobDialog } from "@/components/mobs/MoveMobDialog";
+import {
+  deleteMob,
+  deletePaddock,
+  fetchMobMovements,
+  fetchMobs,
+  fetchPaddocks,
+  Mob,
+  MobMovement,
+  NO_PADDOCK_LABEL,
+  Paddock,
+  paddockStocking,
+} from "@/lib/mobs";
+
+type MobsTab = "mobs" | "paddocks" | "movements";
+
+export default function Mobs() {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<MobsTab>("mobs");
+  const [mobs, setMobs] = useState<Mob[]>([]);
+  const [paddocks, setPaddocks] = useState<Paddock[]>([]);
+  const [movements, setMovements] = useState<MobMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [movementMobFilter, setMovementMobFilter] = useState("all");
+  const [editingMob, setEditingMob] = useState<Mob | null>(null);
+  const [showMobDialog, setShowMobDialog] = useState(false);
+  const [editingPaddock, setEditingPaddock] = useState<Paddock | null>(null);
+  const [showPaddockDialog, setShowPaddockDialog] = useState(false);
+  const [movingMob, setMovingMob] = useState<Mob | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setLoading(true);
+      const [mobData, paddockData, movementData] = await Promise.all([fetchMobs(), fetchPaddocks(), fetchMobMovements()]);
+      setMobs(mobData);
+      setPaddocks(paddockData);
+      setMovements(movementData);
+    } catch (error) {
+      console.error('Error fetching mobs and paddocks:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to load mobs and paddocks",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const stocking = paddockStocking(mobs);
+  const filteredMovements = movements.filter(movement => movementMobFilter === "all" || movement.mobId === movementMobFilter);
+
+  const showHistory = (mob: Mob) => {
+    setMovementMobFilter(mob.id);
+    setTab("movements");
+  };
+
+  const handleDeleteMob = async (mob: Mob) => {
+    try {
+      await deleteMob(mob.id);
+      toast({ title: "Mob Deleted", description: `${mob.name} has been removed` });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting mob:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete the mob",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeletePaddock = async (paddock: Paddock) => {
+    try {
+      await deletePaddock(paddock.id);
+      toast({ title: "Paddock Deleted", description: `${paddock.name} has been removed` });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting paddock:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete the paddock",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Mobs & Paddocks | Mumbi Farm Management</title>
+      </Helmet>
+
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Mobs & Paddocks</h1>
+            <p className="text-muted-foreground">
+              Management groups, where they are grazing and where they have been
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => { setEditingPaddock(null); setShowPaddockDialog(true); }}
+            >
+              <MapPin className="h-4 w-4" />
+              <span>Add Paddock</span>
+            </Button>
+            <Button
+              className="flex items-center gap-2 bg-farm-green hover:bg-farm-green/90"
+              onClick={() => { setEditingMob(null); setShowMobDialog(true); }}
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Mob</span>
+            </Button>
+          </div>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as MobsTab)}>
+          <TabsList>
+            <TabsTrigger value="mobs">Mobs</TabsTrigger>
+            <TabsTrigger value="paddocks">Paddocks</TabsTrigger>
+            <TabsTrigger value="movements">Movements</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mobs">
+            {loading ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Loading mobs...</p>
+              </div>
+            ) : mobs.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {mobs.map(mob => (
+                  <Card key={mob.id} className="animate-fade-in">
+                    <CardHeader className="pb-3">
+                      <div className="flex justify-between items-start gap-2">
+                        <CardTitle className="text-base font-medium">{mob.name}</CardTitle>
+                        <Badge variant="outline" className="text-xs">
+                          {mob.headCount} head
+                        </Badge>
+                      </div>
+                      <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <MapPin className="h-3 w-3" />
+                        {mob.paddockName ?? NO_PADDOCK_LABEL}
+                      </p>
+                    </CardHeader>
+                    <CardContent className="pb-4">
+                      {mob.description && <p className="text-sm mb-2">{mob.description}</p>}
+                      <Link to={`/animals?mob=${mob.id}`} className="text-sm text-farm-green hover:underline flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        View animals
+                      </Link>
+                    </CardContent>
+                    <CardFooter className="border-t pt-3 bg-farm-neutral-light/50 gap-2">
+                      <Button variant="ghost" size="sm" className="flex-1" onClick={() => setMovingMob(mob)}>
+                        <ArrowRightLeft className="h-4 w-4 mr-1" />
+                        Move
+                      </Button>
+                      <Button variant="ghost" size="sm" className="flex-1" onClick={() => showHistory(mob)}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Edit mob" onClick={() => { setEditingMob(mob); setShowMobDialog(true); }}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Delete mob" className="text-red-500 hover:text-red-600 hover:bg-red-50">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {mob.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Its {mob.headCount} animals will be left without a mob and its movement history will be deleted.
+                              This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteMob(mob)} className="bg-red-500 hover:bg-red-600">
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No mobs yet. Add one, then assign animals to it from the Animals page.</p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="paddocks">
+            <Card>
+              <CardContent className="pt-6">
+                {paddocks.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Paddock</TableHead>
+                        <TableHead className="text-right">Area (ha)</TableHead>
+                        <TableHead>Water</TableHead>
+                        <TableHead className="text-right">Stocking</TableHead>
+                        <TableHead>Mobs</TableHead>
+                        <TableHead className="w-[100px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {paddocks.map(paddock => {
+                        const current = stocking.get(paddock.id);
+                        const head = current?.headCount ?? 0;
+                        const overCapacity = paddock.capacity != null && head > paddock.capacity;
+                        return (
+                          <TableRow key={paddock.id}>
+                            <TableCell className="font-medium">{paddock.name}</TableCell>
+                            <TableCell className="text-right">{paddock.area_ha ?? ""}</TableCell>
+                            <TableCell>
+                              {paddock.water_source && (
+                                <span className="flex items-center gap-1">
+                                  <Droplets className="h-3 w-3 text-blue-500" />
+                                  {paddock.water_source}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className={cn("text-right", overCapacity && "text-red-600 font-medium")}>
+                              {head}{paddock.capacity != null && ` / ${paddock.capacity}`}
+                            </TableCell>
+                            <TableCell>{current?.mobs.map(mob => mob.name).join(", ") || "Resting"}</TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-1">
+                                <Button variant="ghost" size="icon" title="Edit paddock" onClick={() => { setEditingPaddock(paddock); setShowPaddockDialog(true); }}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="icon" title="Delete paddock" className="text-red-500 hover:text-red-600 hover:bg-red-50">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete {paddock.name}?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Mobs in it will be shown as off paddock, and movements to or from it will no longer name it.
+                                        This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction onClick={() => handleDeletePaddock(paddock)} className="bg-red-500 hover:bg-red-600">
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">
+                    {loading ? "Loading paddocks..." : "No paddocks yet."}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="movements">
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <Select value={movementMobFilter} onValueChange={setMovementMobFilter}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue placeholder="Mob" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All mobs</SelectItem>
+                    {mobs.map(mob => (
+                      <SelectItem key={mob.id} value={mob.id}>{mob.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {filteredMovements.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Mob</TableHead>
+                        <TableHead>From</TableHead>
+                        <TableHead>To</TableHead>
+                        <TableHead className="text-right">Head</TableHead>
+                        <TableHead>Notes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredMovements.map(movement => (
+                        <TableRow key={movement.id}>
+                          <TableCell>{format(parseISO(movement.movedAt), "MMM d, yyyy")}</TableCell>
+                          <TableCell className="font-medium">{movement.mobName}</TableCell>
+                          <TableCell>{movement.fromPaddock ?? NO_PADDOCK_LABEL}</TableCell>
+                          <TableCell>{movement.toPaddock ?? NO_PADDOCK_LABEL}</TableCell>
+                          <TableCell className="text-right">{movement.headCount}</TableCell>
+                          <TableCell className="text-muted-foreground">{movement.notes}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">
+                    {loading ? "Loading movements..." : "No movements recorded."}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <MobDialog
+        open={showMobDialog}
+        onOpenChange={setShowMobDialog}
+        mob={editingMob}
+        onSuccess={fetchData}
+      />
+
+      <PaddockDialog
+        open={showPaddockDialog}
+        onOpenChange={setShowPaddockDialog}
+        paddock={editingPaddock}
+        onSuccess={fetchData}
+      />
+
+      <MoveMobDialog
+        open={!!movingMob}
+        onOpenChange={(open) => !open && setMovingMob(null)}
+        mob={movingMob}
+        paddocks={paddocks}
+        stocking={stocking}
+        onSuccess={fetchData}
+      />
+    </>
+  );
+}
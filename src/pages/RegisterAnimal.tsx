@@ -24,7 +24,7 @@ export default function RegisterAnimal() {
   const [name, setName] = useState("");
   const [tagNumber, setTagNumber] = useState("");
   const [breed, setBreed] = useState("");
-  const [age, setAge] = useState("");
+  const [birthDate, setBirthDate] = useState("");
   const [sex, setSex] = useState("Female");
   const [status, setStatus] = useState("Active");
   const [weight, setWeight] = useState<number | undefined>();
@@ -52,7 +52,7 @@ export default function RegisterAnimal() {
           name,
           tag_number: tagNumber,
           breed,
-          age,
+          birth_date: birthDate || null,
           sex,
           status,
           weight_kg: weight || null,
@@ -152,14 +152,14 @@ export default function RegisterAnimal() {
                 </div>
                 
                 <div className="space-y-2">
-                  <label htmlFor="age" className="text-sm font-medium">
-                    Age
+                  <label htmlFor="birthDate" className="text-sm font-medium">
+                    Birth Date
                   </label>
                   <Input
-                    id="age"
-                    placeholder="e.g., 2 years"
-                    value={age}
-                    onChange={(e) => setAge(e.target.value)}
+                    id="birthDate"
+                    type="date"
+                    value={birthDate}
+                    onChange={(e) => setBirthDate(e.target.value)}
                   />
                 </div>
               </div>
@@ -228,7 +228,6 @@ export default function RegisterAnimal() {
                       <SelectItem value="Healthy">Healthy</SelectItem>
                       <SelectItem value="Sick">Sick</SelectItem>
                       <SelectItem value="Recovering">Recovering</SelectItem>
-                      <SelectItem value="Pregnant">Pregnant</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Helmet } from "react-helmet";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,6 +14,16 @@ import { Badge } from "@/components/ui/badge";
 import { useForm } from "react-hook-form";
 import { Check, X, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_ACTIVE_BREEDS, DEFAULT_INACTIVE_BREEDS, useFarmSettings } from "@/hooks/use-farm-settings";
+import { DEFAULT_INBREEDING_THRESHOLD } from "@/lib/inbreeding";
+import { DEFAULT_TARGET_ADG_KG } from "@/lib/weighings";
+import { DEFAULT_AGE_CLASS_CUTOFFS } from "@/lib/age";
+import { AllocationDriver, allocationDriverLabels, DEFAULT_ALLOCATION_DRIVER } from "@/lib/profitability";
+import { DEFAULT_BUDGET_ALERT_THRESHOLD } from "@/lib/budgets";
+import { baseCurrency, CURRENCIES, CURRENCY_CODES, CurrencyCode, DEFAULT_BASE_CURRENCY } from "@/lib/currency";
+import { ExchangeRatesCard } from "@/components/financial/ExchangeRatesCard";
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH, financialYearStartMonth } from "@/lib/finance";
+import { DEFAULT_TAX_PERIOD, TaxPeriod, taxPeriodLabels, taxPeriodOf } from "@/lib/tax";
 
 export default function Settings() {
   const { toast } = useToast();
@@ -26,6 +36,137 @@ export default function Settings() {
     });
   };
   
+  const { settings: farmSettings, saveSettings } = useFarmSettings();
+  const [inbreedingThreshold, setInbreedingThreshold] = useState(String(DEFAULT_INBREEDING_THRESHOLD * 100));
+  const [targetAdg, setTargetAdg] = useState(String(DEFAULT_TARGET_ADG_KG * 1000));
+  const [lambMonths, setLambMonths] = useState(String(DEFAULT_AGE_CLASS_CUTOFFS.lambMonths));
+  const [hoggetMonths, setHoggetMonths] = useState(String(DEFAULT_AGE_CLASS_CUTOFFS.hoggetMonths));
+  const [isSavingBreeding, setIsSavingBreeding] = useState(false);
+  const [allocationDriver, setAllocationDriver] = useState<AllocationDriver>(DEFAULT_ALLOCATION_DRIVER);
+  const [budgetThreshold, setBudgetThreshold] = useState(String(DEFAULT_BUDGET_ALERT_THRESHOLD * 100));
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_BASE_CURRENCY);
+  const [yearStartMonth, setYearStartMonth] = useState(String(DEFAULT_FINANCIAL_YEAR_START_MONTH));
+  const [taxPeriod, setTaxPeriod] = useState<TaxPeriod>(DEFAULT_TAX_PERIOD);
+  const [isSavingFinance, setIsSavingFinance] = useState(false);
+  
+  useEffect(() => {
+    if (farmSettings?.inbreeding_threshold != null) {
+      setInbreedingThreshold(String(farmSettings.inbreeding_threshold * 100));
+    }
+    if (farmSettings?.target_adg_kg != null) {
+      setTargetAdg(String(Math.round(farmSettings.target_adg_kg * 1000)));
+    }
+    if (farmSettings?.lamb_max_months != null) {
+      setLambMonths(String(farmSettings.lamb_max_months));
+    }
+    if (farmSettings?.hogget_max_months != null) {
+      setHoggetMonths(String(farmSettings.hogget_max_months));
+    }
+    if (farmSettings?.cost_allocation_driver) {
+      setAllocationDriver(farmSettings.cost_allocation_driver as AllocationDriver);
+    }
+    if (farmSettings) {
+      setCurrency(baseCurrency(farmSettings));
+      setYearStartMonth(String(financialYearStartMonth(farmSettings)));
+      setTaxPeriod(taxPeriodOf(farmSettings));
+    }
+    if (farmSettings?.budget_alert_threshold != null) {
+      setBudgetThreshold(String(Math.round(farmSettings.budget_alert_threshold * 1000) / 10));
+    }
+  }, [farmSettings]);
+  
+  const handleSaveBreedingSettings = async () => {
+    const percent = parseFloat(inbreedingThreshold);
+    if (isNaN(percent) || percent < 0 || percent > 100) {
+      toast({
+        title: "Invalid threshold",
+        description: "Enter a percentage between 0 and 100.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const gramsPerDay = parseFloat(targetAdg);
+    if (isNaN(gramsPerDay) || gramsPerDay < 0) {
+      toast({
+        title: "Invalid growth target",
+        description: "Enter a daily gain of zero or more grams.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const lambCutoff = parseInt(lambMonths, 10);
+    const hoggetCutoff = parseInt(hoggetMonths, 10);
+    if (isNaN(lambCutoff) || isNaN(hoggetCutoff) || lambCutoff <= 0 || hoggetCutoff <= lambCutoff) {
+      toast({
+        title: "Invalid age classes",
+        description: "The hogget cutoff must be later than the lamb cutoff.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setIsSavingBreeding(true);
+    try {
+      await saveSettings({
+        inbreeding_threshold: percent / 100,
+        target_adg_kg: gramsPerDay / 1000,
+        lamb_max_months: lambCutoff,
+        hogget_max_months: hoggetCutoff,
+      });
+      toast({
+        title: "Settings Saved",
+        description: "Breeding settings have been saved successfully.",
+      });
+    } catch (error) {
+      console.error('Error saving breeding settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save breeding settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingBreeding(false);
+    }
+  };
+  
+  const handleSaveFinanceSettings = async () => {
+    const budgetPercent = parseFloat(budgetThreshold);
+    if (isNaN(budgetPercent) || budgetPercent <= 0 || budgetPercent > 200) {
+      toast({
+        title: "Invalid budget threshold",
+        description: "Enter a percentage between 1 and 200.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setIsSavingFinance(true);
+    try {
+      await saveSettings({
+        cost_allocation_driver: allocationDriver,
+        budget_alert_threshold: budgetPercent / 100,
+        currency,
+        financial_year_start_month: parseInt(yearStartMonth, 10),
+        tax_period: taxPeriod,
+      });
+      toast({
+        title: "Settings Saved",
+        description: "Finance settings have been saved successfully.",
+      });
+    } catch (error) {
+      console.error('Error saving finance settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save finance settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingFinance(false);
+    }
+  };
+  
   const generalForm = useForm({
     defaultValues: {
       farmName: "Mumbi Farm",
@@ -33,7 +174,6 @@ export default function Settings() {
       contactEmail: "john@mumbifarm.com",
       contactPhone: "+1 234 567 8901",
       address: "123 Farm Road, Rural County",
-      currency: "USD",
       dateFormat: "MM/DD/YYYY",
       timeZone: "UTC+0",
     }
@@ -77,21 +217,30 @@ export default function Settings() {
     },
   ];
   
-  const breedOptions = [
-    "Dorper",
-    "Merino",
-    "Suffolk",
-    "Hampshire",
-    "Blackhead Persian",
-    "Red Maasai",
-    "Romney",
-    "Corriedale",
-    "Blackface",
-    "Jacob"
-  ];
+  const [activeBreeds, setActiveBreeds] = useState(DEFAULT_ACTIVE_BREEDS);
+  const [inactiveBreeds, setInactiveBreeds] = useState(DEFAULT_INACTIVE_BREEDS);
   
-  const [activeBreeds, setActiveBreeds] = useState(breedOptions.slice(0, 6));
-  const [inactiveBreeds, setInactiveBreeds] = useState(breedOptions.slice(6));
+  useEffect(() => {
+    if (farmSettings?.active_breeds) setActiveBreeds(farmSettings.active_breeds);
+    if (farmSettings?.inactive_breeds) setInactiveBreeds(farmSettings.inactive_breeds);
+  }, [farmSettings]);
+  
+  const saveBreeds = async (active: string[], inactive: string[]) => {
+    setActiveBreeds(active);
+    setInactiveBreeds(inactive);
+    try {
+      await saveSettings({ active_breeds: active, inactive_breeds: inactive });
+      return true;
+    } catch (error) {
+      console.error('Error saving breeds:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the breed list. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
   
   const healthCategories = [
     {
@@ -112,10 +261,10 @@ export default function Settings() {
   const [newHealthItem, setNewHealthItem] = useState("");
   const [newHealthCategory, setNewHealthCategory] = useState("");
   
-  const handleAddBreed = () => {
+  const handleAddBreed = async () => {
     if (newBreed && !activeBreeds.includes(newBreed) && !inactiveBreeds.includes(newBreed)) {
-      setActiveBreeds([...activeBreeds, newBreed]);
       setNewBreed("");
+      if (!await saveBreeds([...activeBreeds, newBreed], inactiveBreeds)) return;
       toast({
         title: "Breed Added",
         description: `${newBreed} has been added to your list of breeds.`,
@@ -125,11 +274,9 @@ export default function Settings() {
   
   const handleToggleBreed = (breed, isActive) => {
     if (isActive) {
-      setActiveBreeds(activeBreeds.filter(b => b !== breed));
-      setInactiveBreeds([...inactiveBreeds, breed]);
+      saveBreeds(activeBreeds.filter(b => b !== breed), [...inactiveBreeds, breed]);
     } else {
-      setInactiveBreeds(inactiveBreeds.filter(b => b !== breed));
-      setActiveBreeds([...activeBreeds, breed]);
+      saveBreeds([...activeBreeds, breed], inactiveBreeds.filter(b => b !== breed));
     }
   };
   
@@ -148,10 +295,12 @@ export default function Settings() {
         </div>
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid grid-cols-2 md:grid-cols-4 lg:w-[600px]">
+          <TabsList className="grid grid-cols-2 md:grid-cols-6 lg:w-[900px]">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="users">Users & Roles</TabsTrigger>
             <TabsTrigger value="categories">Categories</TabsTrigger>
+            <TabsTrigger value="breeding">Breeding</TabsTrigger>
+            <TabsTrigger value="finance">Finance</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
           </TabsList>
           
@@ -234,30 +383,6 @@ export default function Settings() {
                       />
                     </div>
                     
-                    <FormField
-                      control={generalForm.control}
-                      name="currency"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Currency</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select currency" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="USD">USD - US Dollar</SelectItem>
-                              <SelectItem value="EUR">EUR - Euro</SelectItem>
-                              <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                              <SelectItem value="KES">KES - Kenyan Shilling</SelectItem>
-                              <SelectItem value="ZAR">ZAR - South African Rand</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </FormItem>
-                      )}
-                    />
-                    
                     <FormField
                       control={generalForm.control}
                       name="dateFormat"
@@ -488,6 +613,198 @@ export default function Settings() {
             </Card>
           </TabsContent>
           
+          <TabsContent value="breeding" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Breeding Settings</CardTitle>
+                <CardDescription>
+                  Limits used when planning matings, checking growth and grouping animals by age
+                </CardDescription>
+              </CardHeader>
+              
+              <CardContent>
+                <div className="space-y-2 max-w-sm">
+                  <Label htmlFor="inbreedingThreshold">Inbreeding warning threshold (%)</Label>
+                  <Input 
+                    id="inbreedingThreshold"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={inbreedingThreshold}
+                    onChange={(e) => setInbreedingThreshold(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Planned matings whose lamb would have an inbreeding coefficient above this value are flagged.
+                    6.25% corresponds to a first-cousin mating.
+                  </p>
+                </div>
+                <div className="space-y-2 max-w-sm mt-6">
+                  <Label htmlFor="targetAdg">Target average daily gain (g/day)</Label>
+                  <Input 
+                    id="targetAdg"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={targetAdg}
+                    onChange={(e) => setTargetAdg(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Animals gaining less than this between weighings are flagged on their growth chart and on weigh day.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4 max-w-sm mt-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="lambMonths">Lamb until (months)</Label>
+                    <Input 
+                      id="lambMonths"
+                      type="number"
+                      step="1"
+                      min="1"
+                      value={lambMonths}
+                      onChange={(e) => setLambMonths(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hoggetMonths">Hogget until (months)</Label>
+                    <Input 
+                      id="hoggetMonths"
+                      type="number"
+                      step="1"
+                      min="1"
+                      value={hoggetMonths}
+                      onChange={(e) => setHoggetMonths(e.target.value)}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground col-span-2">
+                    Age classes are worked out from each animal's birth date. Older animals are counted as ewes or rams.
+                  </p>
+                </div>
+              </CardContent>
+              
+              <CardFooter className="flex justify-end">
+                <Button 
+                  className="bg-farm-green hover:bg-farm-green/90" 
+                  onClick={handleSaveBreedingSettings}
+                  disabled={isSavingBreeding}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSavingBreeding ? "Saving..." : "Save Settings"}
+                </Button>
+              </CardFooter>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="finance" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Finance Settings</CardTitle>
+                <CardDescription>
+                  Cost allocation for the profitability report, budget warnings, currency and tax periods
+                </CardDescription>
+              </CardHeader>
+              
+              <CardContent>
+                <div className="space-y-2 max-w-sm">
+                  <Label htmlFor="allocationDriver">Shared cost allocation</Label>
+                  <Select value={allocationDriver} onValueChange={(value) => setAllocationDriver(value as AllocationDriver)}>
+                    <SelectTrigger id="allocationDriver">
+                      <SelectValue placeholder="Select a driver" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(allocationDriverLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Expenses not linked to an animal, such as feed or labour, are shared out over the animals on the farm this way.
+                    Costs and sales linked to an animal are always attributed to it directly.
+                  </p>
+                </div>
+                <div className="space-y-2 max-w-sm mt-6">
+                  <Label htmlFor="budgetThreshold">Budget alert threshold (%)</Label>
+                  <Input 
+                    id="budgetThreshold"
+                    type="number"
+                    step="1"
+                    min="1"
+                    max="200"
+                    value={budgetThreshold}
+                    onChange={(e) => setBudgetThreshold(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    A warning alert is raised when spending in a category reaches this share of its budget for the month or the financial year.
+                  </p>
+                </div>
+                <div className="space-y-2 max-w-sm mt-6">
+                  <Label htmlFor="baseCurrency">Base currency</Label>
+                  <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+                    <SelectTrigger id="baseCurrency">
+                      <SelectValue placeholder="Select currency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCY_CODES.map(code => (
+                        <SelectItem key={code} value={code}>{code} - {CURRENCIES[code].name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Totals, budgets and reports are shown in this currency. Transactions in other currencies are converted at the rate saved with each one,
+                    so changing the base currency does not convert amounts already recorded.
+                  </p>
+                </div>
+                <div className="space-y-2 max-w-sm mt-6">
+                  <Label htmlFor="yearStartMonth">Financial year starts in</Label>
+                  <Select value={yearStartMonth} onValueChange={setYearStartMonth}>
+                    <SelectTrigger id="yearStartMonth">
+                      <SelectValue placeholder="Select month" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 12 }, (_, i) => (
+                        <SelectItem key={i + 1} value={String(i + 1)}>
+                          {new Date(2000, i, 1).toLocaleString("en", { month: "long" })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Used for the financial year on the Finance overview, yearly budgets and the financial year report ranges.
+                  </p>
+                </div>
+                <div className="space-y-2 max-w-sm mt-6">
+                  <Label htmlFor="taxPeriod">Tax return period</Label>
+                  <Select value={taxPeriod} onValueChange={(value) => setTaxPeriod(value as TaxPeriod)}>
+                    <SelectTrigger id="taxPeriod">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(taxPeriodLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    The tax summary report totals tax collected and paid for each period. Quarters are counted from the start of the financial year.
+                  </p>
+                </div>
+              </CardContent>
+              
+              <CardFooter className="flex justify-end">
+                <Button 
+                  className="bg-farm-green hover:bg-farm-green/90" 
+                  onClick={handleSaveFinanceSettings}
+                  disabled={isSavingFinance}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSavingFinance ? "Saving..." : "Save Settings"}
+                </Button>
+              </CardFooter>
+            </Card>
+            
+            <ExchangeRatesCard base={baseCurrency(farmSettings)} />
+          </TabsContent>
+          
           <TabsContent value="notifications" className="space-y-4">
             <Card>
               <CardHeader>
@@ -0,0 +1,466 @@
+import { useState, useEffect, useRef } from "react";
+import { Helmet } from "react-helmet";
+import { Link, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ChevronLeft, SkipForward, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useFarmSettings } from "@/hooks/use-farm-settings";
+import {
+  BODY_CONDITION_SCORES,
+  dailyGain,
+  DEFAULT_TARGET_ADG_KG,
+  fetchLatestWeighings,
+  formatAdg,
+  recordWeighings,
+  Weighing,
+} from "@/lib/weighings";
+
+type WeighAnimal = {
+  id: string;
+  name: string;
+  tagNumber: string;
+  breed: string;
+  sex: string;
+  status: string;
+};
+
+type Reading = {
+  weight: string;
+  score: string;
+};
+
+type Step = "setup" | "weigh" | "summary";
+
+export default function WeighDay() {
+  const [animals, setAnimals] = useState<WeighAnimal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState<Step>("setup");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [weighedBy, setWeighedBy] = useState("");
+  const [sexFilter, setSexFilter] = useState("all");
+  const [breedFilter, setBreedFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("Active");
+  const [group, setGroup] = useState<WeighAnimal[]>([]);
+  const [lastWeighings, setLastWeighings] = useState<Map<string, Weighing>>(new Map());
+  const [readings, setReadings] = useState<Record<string, Reading>>({});
+  const [index, setIndex] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const weightInput = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { settings } = useFarmSettings();
+
+  const targetAdg = settings?.target_adg_kg ?? DEFAULT_TARGET_ADG_KG;
+
+  useEffect(() => {
+    const fetchAnimals = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('animals')
+          .select('id, name, tag_number, breed, sex, status')
+          .order('tag_number', { ascending: true });
+
+        if (error) throw error;
+
+        setAnimals((data || []).map(animal => ({
+          id: animal.id,
+          name: animal.name,
+          tagNumber: animal.tag_number,
+          breed: animal.breed,
+          sex: animal.sex,
+          status: animal.status,
+        })));
+      } catch (error) {
+        console.error('Error fetching animals:', error);
+        toast.error("Database Error", {
+          description: "Failed to load animals. Please try again."
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnimals();
+  }, []);
+
+  useEffect(() => {
+    if (step === "weigh") {
+      weightInput.current?.focus();
+    }
+  }, [step, index]);
+
+  const breeds = [...new Set(animals.map(animal => animal.breed))].sort();
+  const statuses = [...new Set(animals.map(animal => animal.status))].sort();
+  const selected = animals.filter(animal =>
+    (sexFilter === "all" || animal.sex === sexFilter) &&
+    (breedFilter === "all" || animal.breed === breedFilter) &&
+    (statusFilter === "all" || animal.status === statusFilter)
+  );
+
+  const current = group[index];
+  const currentReading = current ? readings[current.id] ?? { weight: "", score: "" } : null;
+  const recorded = group.filter(animal => {
+    const weight = parseFloat(readings[animal.id]?.weight ?? "");
+    return !isNaN(weight) && weight > 0;
+  });
+
+  const gainFor = (animal: WeighAnimal) =>
+    dailyGain(lastWeighings.get(animal.id), parseFloat(readings[animal.id].weight), date);
+  const belowTarget = recorded.filter(animal => {
+    const gain = gainFor(animal);
+    return gain !== null && gain < targetAdg;
+  });
+
+  const handleStart = async () => {
+    try {
+      setLastWeighings(await fetchLatestWeighings(selected.map(animal => animal.id)));
+      setGroup(selected);
+      setReadings({});
+      setIndex(0);
+      setStep("weigh");
+    } catch (error) {
+      console.error('Error fetching weighings:', error);
+      toast.error("Database Error", {
+        description: "Failed to load previous weights. Please try again."
+      });
+    }
+  };
+
+  const updateReading = (changes: Partial<Reading>) => {
+    if (!current) return;
+    setReadings(prev => ({
+      ...prev,
+      [current.id]: { ...(prev[current.id] ?? { weight: "", score: "" }), ...changes }
+    }));
+  };
+
+  const handleNext = () => {
+    if (index < group.length - 1) {
+      setIndex(index + 1);
+    } else {
+      setStep("summary");
+    }
+  };
+
+  const handleSkip = () => {
+    if (current) {
+      setReadings(prev => {
+        const next = { ...prev };
+        delete next[current.id];
+        return next;
+      });
+    }
+    handleNext();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await recordWeighings(
+        recorded.map(animal => ({
+          animalId: animal.id,
+          weightKg: parseFloat(readings[animal.id].weight),
+          bodyConditionScore: readings[animal.id].score ? parseFloat(readings[animal.id].score) : null,
+        })),
+        date,
+        weighedBy.trim() || null
+      );
+
+      toast.success("Weigh day saved", {
+        description: `${recorded.length} ${recorded.length === 1 ? 'weighing has' : 'weighings have'} been recorded.`
+      });
+      navigate("/animals");
+    } catch (error) {
+      console.error('Error saving weighings:', error);
+      toast.error("Database Error", {
+        description: "Failed to save weighings. Please try again."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const lastWeighing = current ? lastWeighings.get(current.id) : undefined;
+  const currentGain = current && currentReading?.weight
+    ? dailyGain(lastWeighing, parseFloat(currentReading.weight), date)
+    : null;
+
+  return (
+    <>
+      <Helmet>
+        <title>Weigh Day | Mumbi Farm Management</title>
+      </Helmet>
+
+      <div className="space-y-6">
+        <div className="flex items-center mb-6">
+          <Link to="/animals">
+            <Button variant="ghost" size="sm" className="gap-1">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Animals
+            </Button>
+          </Link>
+        </div>
+
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Weigh Day</h1>
+          <p className="text-muted-foreground mb-8">
+            Step through a group by tag number and record each animal's weight and condition
+          </p>
+        </div>
+
+        {step === "setup" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Choose a Group</CardTitle>
+              <CardDescription>
+                {loading ? "Loading animals..." : `${selected.length} ${selected.length === 1 ? 'animal' : 'animals'} selected`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="weighDayDate">Date</Label>
+                <Input id="weighDayDate" type="date" value={date} max={format(new Date(), "yyyy-MM-dd")} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="weighDayBy">Weighed By</Label>
+                <Input id="weighDayBy" value={weighedBy} onChange={(e) => setWeighedBy(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Sex</Label>
+                <Select value={sexFilter} onValueChange={setSexFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="Male">Male</SelectItem>
+                    <SelectItem value="Female">Female</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Breed</Label>
+                <Select value={breedFilter} onValueChange={setBreedFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {breeds.map(breed => (
+                      <SelectItem key={breed} value={breed}>{breed}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {[...new Set(["Active", ...statuses])].map(status => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+            <CardFooter className="flex justify-end">
+              <Button
+                className="bg-farm-green hover:bg-farm-green/90"
+                onClick={handleStart}
+                disabled={loading || selected.length === 0 || !date}
+              >
+                <Scale className="mr-2 h-4 w-4" />
+                Start Weighing
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+
+        {step === "weigh" && current && currentReading && (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Animal {index + 1} of {group.length}</span>
+                <span className="text-sm text-muted-foreground">{recorded.length} weighed</span>
+              </div>
+              <Progress value={(index / group.length) * 100} />
+              <CardTitle className="text-2xl pt-2">
+                <span className="font-mono">#{current.tagNumber}</span> {current.name}
+              </CardTitle>
+              <CardDescription>
+                {current.breed} · {current.sex} · {lastWeighing
+                  ? `Last weighed ${lastWeighing.weight_kg} kg on ${lastWeighing.date}`
+                  : "No previous weighing"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form
+                className="grid grid-cols-2 gap-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleNext();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="weighDayWeight">Weight (kg)</Label>
+                  <Input
+                    id="weighDayWeight"
+                    ref={weightInput}
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={currentReading.weight}
+                    onChange={(e) => updateReading({ weight: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Body Condition Score</Label>
+                  <Select value={currentReading.score} onValueChange={(value) => updateReading({ score: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="—" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BODY_CONDITION_SCORES.map(value => (
+                        <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {/* Lets Enter in the weight field move on to the next animal */}
+                <button type="submit" className="hidden" />
+              </form>
+              {currentGain !== null && (
+                <p className={currentGain < targetAdg ? "text-sm text-red-600" : "text-sm text-green-700"}>
+                  {formatAdg(currentGain)} since last weighing
+                  {currentGain < targetAdg && ` (target ${formatAdg(targetAdg)})`}
+                </p>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-between">
+              <Button variant="outline" onClick={() => setIndex(index - 1)} disabled={index === 0}>
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Previous
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleSkip}>
+                  <SkipForward className="mr-1 h-4 w-4" />
+                  Skip
+                </Button>
+                <Button className="bg-farm-green hover:bg-farm-green/90" onClick={handleNext}>
+                  {index < group.length - 1 ? "Next" : "Finish"}
+                </Button>
+              </div>
+            </CardFooter>
+          </Card>
+        )}
+
+        {step === "summary" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              <CardDescription>
+                {recorded.length} of {group.length} animals weighed on {date}
+                {belowTarget.length > 0 && ` · ${belowTarget.length} below the ${formatAdg(targetAdg)} target`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-md max-h-[500px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tag</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="text-right">Previous</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                      <TableHead className="text-right">BCS</TableHead>
+                      <TableHead className="text-right">ADG</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recorded.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          No weights entered
+                        </TableCell>
+                      </TableRow>
+                    ) : recorded.map(animal => {
+                      const previous = lastWeighings.get(animal.id);
+                      const gain = gainFor(animal);
+                      return (
+                        <TableRow key={animal.id} className={gain !== null && gain < targetAdg ? "bg-red-50" : undefined}>
+                          <TableCell className="font-mono">{animal.tagNumber}</TableCell>
+                          <TableCell>{animal.name}</TableCell>
+                          <TableCell className="text-right">{previous ? `${previous.weight_kg} kg` : "—"}</TableCell>
+                          <TableCell className="text-right">{readings[animal.id].weight} kg</TableCell>
+                          <TableCell className="text-right">{readings[animal.id].score || "—"}</TableCell>
+                          <TableCell className="text-right">
+                            {gain === null ? "—" : (
+                              <Badge
+                                variant="outline"
+                                className={gain < targetAdg
+                                  ? "bg-red-100 text-red-800 border-red-200"
+                                  : "bg-green-100 text-green-800 border-green-200"}
+                              >
+                                {formatAdg(gain)}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+            <CardFooter className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIndex(group.length - 1);
+                  setStep("weigh");
+                }}
+                disabled={isSaving}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Back to Weighing
+              </Button>
+              <Button
+                className="bg-farm-green hover:bg-farm-green/90"
+                onClick={handleSave}
+                disabled={recorded.length === 0 || isSaving}
+              >
+                {isSaving ? "Saving..." : `Save ${recorded.length} ${recorded.length === 1 ? 'Weighing' : 'Weighings'}`}
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -4,8 +4,11 @@ import { Routes, Route, Navigate } from "react-router-dom";
 import Dashboard from "@/pages/Dashboard";
 import Animals from "@/pages/Animals";
 import AnimalRegister from "@/pages/AnimalRegister";
+import WeighDay from "@/pages/WeighDay";
+import Mobs from "@/pages/Mobs";
 import Health from "@/pages/Health";
 import Events from "@/pages/Events";
+import Calendar from "@/pages/Calendar";
 import Finance from "@/pages/Finance";
 import Reports from "@/pages/Reports";
 import Settings from "@/pages/Settings";
@@ -101,6 +104,16 @@ export function AppRoutes() {
           <AnimalRegister />
         </ProtectedRoute>
       } />
+      <Route path="/animals/weigh-day" element={
+        <ProtectedRoute>
+          <WeighDay />
+        </ProtectedRoute>
+      } />
+      <Route path="/mobs" element={
+        <ProtectedRoute>
+          <Mobs />
+        </ProtectedRoute>
+      } />
       <Route path="/health" element={
         <ProtectedRoute>
           <Health />
@@ -111,6 +124,11 @@ export function AppRoutes() {
           <Events />
         </ProtectedRoute>
       } />
+      <Route path="/calendar" element={
+        <ProtectedRoute>
+          <Calendar />
+        </ProtectedRoute>
+      } />
       <Route path="/finance" element={
         <ProtectedRoute>
           <Finance />
@@ -0,0 +1,120 @@
+export interface FeedEntry {
+  /** Stable across edits so calendar apps update the entry instead of adding another */
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM or HH:MM:SS; all-day when missing */
+  startTime?: string | null;
+  endTime?: string | null;
+  updatedAt: string;
+  url?: string;
+}
+
+// Entries with a start but no end time last an hour
+const DEFAULT_DURATION_MINUTES = 60;
+
+const SEQUENCE_EPOCH = Date.UTC(2020, 0, 1);
+
+/**
+ * Escape text values: backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+ */
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Fold lines longer than 75 octets onto continuation lines starting with a space
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const compactDate = (date: string) => date.slice(0, 10).replace(/-/g, "");
+
+const utcStamp = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  const [hours, mins] = time.split(":").map(Number);
+  const moved = new Date(Date.UTC(
+    Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)), hours, mins + minutes
+  ));
+  const iso = moved.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+// Times are written without a zone so phones show them in the farm's local time
+const localDateTime = (date: string, time: string) => `${compactDate(date)}T${time.slice(0, 5).replace(":", "")}00`;
+
+function entryLines(entry: FeedEntry, stamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${utcStamp(entry.updatedAt)}`,
+    // Increases with every edit, for clients that compare SEQUENCE rather than LAST-MODIFIED
+    `SEQUENCE:${Math.max(0, Math.floor((new Date(entry.updatedAt).getTime() - SEQUENCE_EPOCH) / 1000))}`,
+  ];
+
+  if (entry.startTime) {
+    const end = entry.endTime && entry.endTime > entry.startTime
+      ? { date: entry.date, time: entry.endTime }
+      : addMinutes(entry.date, entry.startTime, DEFAULT_DURATION_MINUTES);
+    lines.push(`DTSTART:${localDateTime(entry.date, entry.startTime)}`, `DTEND:${localDateTime(end.date, end.time)}`);
+  } else {
+    const next = addMinutes(entry.date, "00:00", 24 * 60).date;
+    lines.push(`DTSTART;VALUE=DATE:${compactDate(entry.date)}`, `DTEND;VALUE=DATE:${compactDate(next)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(entry.summary)}`);
+  if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+  if (entry.url) lines.push(`URL:${entry.url}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * A complete VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(name: string, entries: FeedEntry[], now = new Date()): string {
+  const stamp = utcStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Mumbi Farm//Farm Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Ask subscribed clients to check for changes every hour
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...entries.flatMap(entry => entryLines(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
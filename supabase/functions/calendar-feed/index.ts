@@ -0,0 +1,167 @@
+// Serves a user's farm schedule as an iCalendar feed that phone calendars can subscribe to:
+//   GET /functions/v1/calendar-feed?token=<feed token>[&types=event,health,alert][&eventTypes=Shearing,...][&mine=1][&download=1]
+// Calendar apps cannot sign in, so the secret token from calendar_feeds identifies the user and
+// the data is read with the service role key.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { buildCalendar, FeedEntry } from "./ics.ts";
+
+type FeedSource = "event" | "health" | "alert";
+
+const FEED_SOURCES: FeedSource[] = ["event", "health", "alert"];
+
+// Recently past items stay in the feed for a while so they do not vanish from phones overnight
+const PAST_DAYS = 30;
+
+// Shared with entry UIDs so they stay the same when the feed is served from another host
+const UID_DOMAIN = "mumbi-farm";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const textResponse = (status: number, message: string) =>
+  new Response(message, { status, headers: { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" } });
+
+const listParam = (value: string | null) =>
+  value ? value.split(",").map(part => part.trim()).filter(Boolean) : [];
+
+const animalLabel = (animal: { name: string; tag_number: string } | null) =>
+  animal ? `${animal.name} (#${animal.tag_number})` : null;
+
+// Group actions are listed once, by their summary row, with the number of animals
+const groupLabel = (groupSize: number | null) => groupSize ? `Group of ${groupSize} animals` : null;
+
+// Events keep the title they were created with in their notes JSON
+function eventTitle(event: { description: string; notes: string | null }): string {
+  try {
+    const notes = event.notes ? JSON.parse(event.notes) : null;
+    if (typeof notes?.title === "string" && notes.title) return notes.title;
+  } catch {
+    // Plain text notes
+  }
+  return event.description;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "GET") {
+    return textResponse(405, "Method not allowed");
+  }
+
+  const params = new URL(req.url).searchParams;
+  const token = params.get("token");
+  if (!token) {
+    return textResponse(400, "Missing feed token");
+  }
+
+  const requested = listParam(params.get("types")).filter((type): type is FeedSource => FEED_SOURCES.includes(type as FeedSource));
+  const sources = requested.length > 0 ? requested : FEED_SOURCES;
+  const eventTypes = listParam(params.get("eventTypes"));
+  const mine = params.get("mine") === "1" || params.get("mine") === "true";
+  const appUrl = Deno.env.get("APP_URL")?.replace(/\/$/, "");
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: feed, error: feedError } = await supabase
+    .from("calendar_feeds")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error("Error looking up feed token:", feedError);
+    return textResponse(500, "Could not load the calendar");
+  }
+  if (!feed) {
+    return textResponse(404, "Unknown feed token. Copy the link again from the farm calendar.");
+  }
+
+  const from = new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const entries: FeedEntry[] = [];
+
+  try {
+    if (sources.includes("event")) {
+      let query = supabase
+        .from("events")
+        .select("id, event_type, description, date, start_time, end_time, location, status, notes, group_size, updated_at, animals(name, tag_number)")
+        .is("summary_id", null)
+        .gte("date", from);
+      if (eventTypes.length > 0) query = query.in("event_type", eventTypes);
+      if (mine) query = query.contains("assigned_to", [feed.user_id]);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      (data || []).forEach(event => entries.push({
+        uid: `event-${event.id}@${UID_DOMAIN}`,
+        summary: event.status === "Completed" ? `✓ ${eventTitle(event)}` : eventTitle(event),
+        description: [
+          `${event.event_type} event · ${event.status}`,
+          animalLabel(event.animals) ?? groupLabel(event.group_size),
+          event.description !== eventTitle(event) ? event.description : null,
+        ].filter(Boolean).join("\n"),
+        location: event.location,
+        date: event.date,
+        startTime: event.start_time,
+        endTime: event.end_time,
+        updatedAt: event.updated_at,
+        url: appUrl ? `${appUrl}/events?id=${event.id}` : undefined,
+      }));
+    }
+
+    // Health records and alerts have nobody assigned, so "mine" keeps only the alerts the user created
+    if (sources.includes("health") && !mine) {
+      const { data, error } = await supabase
+        .from("health_records")
+        .select("id, description, record_type, follow_up, status, group_size, updated_at, animals(name, tag_number)")
+        .is("summary_id", null)
+        .not("follow_up", "is", null)
+        .gte("follow_up", from);
+      if (error) throw error;
+      (data || []).forEach(record => entries.push({
+        uid: `health-${record.id}@${UID_DOMAIN}`,
+        summary: `Follow-up: ${record.description}`,
+        description: [`${record.record_type} · ${record.status}`, animalLabel(record.animals) ?? groupLabel(record.group_size)].filter(Boolean).join("\n"),
+        date: record.follow_up,
+        updatedAt: record.updated_at,
+        url: appUrl ? `${appUrl}/health?id=${record.id}` : undefined,
+      }));
+    }
+
+    if (sources.includes("alert")) {
+      let query = supabase
+        .from("alerts")
+        .select("id, title, description, type, priority, status, due_date, updated_at, animals(name, tag_number)")
+        .gte("due_date", from)
+        .not("status", "in", "(Completed,Cancelled)");
+      if (mine) query = query.eq("created_by", feed.user_id);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      (data || []).forEach(alert => entries.push({
+        uid: `alert-${alert.id}@${UID_DOMAIN}`,
+        summary: `${alert.type}: ${alert.title}`,
+        description: [`${alert.priority} priority · ${alert.status}`, animalLabel(alert.animals), alert.description].filter(Boolean).join("\n"),
+        date: alert.due_date,
+        updatedAt: alert.updated_at,
+        url: appUrl ? `${appUrl}/alerts?id=${alert.id}` : undefined,
+      }));
+    }
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return textResponse(500, "Could not load the calendar");
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+
+  return new Response(buildCalendar("Mumbi Farm", entries), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `${params.get("download") ? "attachment" : "inline"}; filename="farm-calendar.ics"`,
+      "Cache-Control": "no-cache",
+    },
+  });
+});